@@ -0,0 +1,236 @@
+import { GameEngine } from './engine/GameEngine.js';
+import { AIEngine } from './engine/AIEngine.js';
+import { GameController } from './ui/GameController.js';
+import { Command } from './ui/InputHandler.js';
+import { GamePhase } from './models/GameState.js';
+import { viewForSide } from './models/Sides.js';
+import { Resources } from './models/PlayerState.js';
+import { AIArchetype, AIDecision } from './models/AI.js';
+import { generateSeed } from './models/Random.js';
+
+export interface SimulationConfig {
+  games: number;
+  playerArchetype: AIArchetype;
+  aiArchetype: AIArchetype;
+  seed?: number;
+  maxTurns?: number;
+  omniscient?: boolean; // both archetypes see each other's true state instead of scanning
+}
+
+export interface SimulatedGame {
+  seed: number;
+  winner: 'player' | 'ai' | null;
+  victoryType: 'military' | 'economic' | null;
+  turns: number;
+  phaseReached: GamePhase;
+}
+
+export interface ResourceCurvePoint {
+  turn: number;
+  games: number;
+  player: { metal: number; energy: number };
+  ai: { metal: number; energy: number };
+}
+
+export interface SideResults {
+  wins: number;
+  winRate: number;
+  military: number;
+  economic: number;
+}
+
+export interface SimulationReport {
+  config: {
+    games: number;
+    playerArchetype: AIArchetype;
+    aiArchetype: AIArchetype;
+    seed: number;
+    maxTurns: number;
+    omniscient: boolean;
+  };
+  player: SideResults;
+  ai: SideResults;
+  unfinished: number;
+  averageGameLength: number;
+  phaseReached: Record<GamePhase, number>;
+  resourceCurves: ResourceCurvePoint[];
+  games: SimulatedGame[];
+}
+
+const DEFAULT_MAX_TURNS = 100;
+const PHASES: GamePhase[] = ['early', 'mid', 'late', 'endgame'];
+
+/**
+ * Plays AI-vs-AI games without any interface, with an archetype driving the player slot,
+ * and aggregates the results for balance testing
+ */
+export class BatchSimulator {
+  /**
+   * Runs a batch of games. Game i uses seed + i, so a batch is reproducible from its seed.
+   */
+  public static run(config: SimulationConfig): SimulationReport {
+    const seed = config.seed ?? generateSeed();
+    const maxTurns = config.maxTurns ?? DEFAULT_MAX_TURNS;
+    const omniscient = config.omniscient ?? false;
+
+    const games: SimulatedGame[] = [];
+    const curveTotals: { games: number; pm: number; pe: number; am: number; ae: number }[] = [];
+
+    for (let i = 0; i < config.games; i++) {
+      const { game, curve } = this.playGame(config.playerArchetype, config.aiArchetype, seed + i, maxTurns, omniscient);
+      games.push(game);
+
+      curve.forEach((resources, turnIndex) => {
+        const totals = curveTotals[turnIndex] ?? (curveTotals[turnIndex] = { games: 0, pm: 0, pe: 0, am: 0, ae: 0 });
+        totals.games++;
+        totals.pm += resources.player.metal;
+        totals.pe += resources.player.energy;
+        totals.am += resources.ai.metal;
+        totals.ae += resources.ai.energy;
+      });
+    }
+
+    const phaseReached = { early: 0, mid: 0, late: 0, endgame: 0 } as Record<GamePhase, number>;
+    games.forEach(game => phaseReached[game.phaseReached]++);
+
+    return {
+      config: {
+        games: config.games,
+        playerArchetype: config.playerArchetype,
+        aiArchetype: config.aiArchetype,
+        seed,
+        maxTurns,
+        omniscient
+      },
+      player: this.summarizeSide(games, 'player'),
+      ai: this.summarizeSide(games, 'ai'),
+      unfinished: games.filter(game => game.winner === null).length,
+      averageGameLength: games.length > 0 ? games.reduce((sum, game) => sum + game.turns, 0) / games.length : 0,
+      phaseReached,
+      resourceCurves: curveTotals.map((totals, turnIndex) => ({
+        turn: turnIndex + 1,
+        games: totals.games,
+        player: { metal: Math.round(totals.pm / totals.games), energy: Math.round(totals.pe / totals.games) },
+        ai: { metal: Math.round(totals.am / totals.games), energy: Math.round(totals.ae / totals.games) }
+      })),
+      games
+    };
+  }
+
+  /**
+   * Plays one game to completion (or the turn limit), sampling resources at the start of each turn
+   */
+  private static playGame(
+    playerArchetype: AIArchetype,
+    aiArchetype: AIArchetype,
+    seed: number,
+    maxTurns: number,
+    omniscient: boolean
+  ): { game: SimulatedGame; curve: { player: Resources; ai: Resources }[] } {
+    const gameEngine = new GameEngine({ aiArchetype, seed, omniscientAI: omniscient });
+    const gameController = new GameController(gameEngine);
+    // Share the engine's RNG so the whole game is reproducible from the seed
+    const playerAI = new AIEngine(playerArchetype, gameEngine.getRandom(), omniscient);
+    const curve: { player: Resources; ai: Resources }[] = [];
+
+    while (!gameEngine.isGameOver() && gameEngine.getCurrentTurn() <= maxTurns) {
+      const gameState = gameEngine.getGameState();
+      curve.push({ player: { ...gameState.factions.player.resources }, ai: { ...gameState.factions.ai.resources } });
+
+      // An AIEngine always plays "ai"; the AI side's view of the game puts the player there
+      const decision = playerAI.processTurn(viewForSide(gameState, 'ai'));
+      const command = this.decisionToCommand(decision);
+      if (command) {
+        // Rejected orders (unaffordable builds, missing ships) simply cost the player AI its turn
+        gameController.executeCommand(command);
+      }
+      gameController.executeCommand({ type: 'end_turn' });
+    }
+
+    const finalState = gameEngine.getGameState();
+    return {
+      game: {
+        seed,
+        winner: (gameEngine.getWinner() as 'player' | 'ai' | undefined) ?? null,
+        victoryType: gameEngine.getVictoryType() ?? null,
+        turns: gameEngine.isGameOver() ? finalState.turn : finalState.turn - 1,
+        phaseReached: finalState.gamePhase
+      },
+      curve
+    };
+  }
+
+  /**
+   * Converts an AI decision into the command a human player would have typed
+   */
+  private static decisionToCommand(decision: AIDecision): Command | null {
+    switch (decision.type) {
+      case 'build':
+        return decision.buildType && decision.buildQuantity
+          ? { type: 'build', buildType: decision.buildType, quantity: decision.buildQuantity }
+          : null;
+
+      case 'attack':
+        return decision.attackFleet
+          ? { type: 'attack', attackFleet: decision.attackFleet }
+          : null;
+
+      case 'scan':
+        return decision.scanType ? { type: 'scan', scanType: decision.scanType } : null;
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Counts one side's wins by victory type
+   */
+  private static summarizeSide(games: SimulatedGame[], side: 'player' | 'ai'): SideResults {
+    const won = games.filter(game => game.winner === side);
+    return {
+      wins: won.length,
+      winRate: games.length > 0 ? won.length / games.length : 0,
+      military: won.filter(game => game.victoryType === 'military').length,
+      economic: won.filter(game => game.victoryType === 'economic').length
+    };
+  }
+
+  /**
+   * Formats a report as pretty-printed JSON. Per-game rows are included only when asked for.
+   */
+  public static toJSON(report: SimulationReport, includeGames: boolean = false): string {
+    const { games, ...summary } = report;
+    return JSON.stringify(includeGames ? report : summary, null, 2);
+  }
+
+  /**
+   * Formats a report as CSV: a metric/value summary, then the per-turn resource curves
+   */
+  public static toCSV(report: SimulationReport): string {
+    const lines = [
+      'metric,value',
+      `games,${report.config.games}`,
+      `player_archetype,${report.config.playerArchetype}`,
+      `ai_archetype,${report.config.aiArchetype}`,
+      `seed,${report.config.seed}`,
+      `max_turns,${report.config.maxTurns}`,
+      `omniscient,${report.config.omniscient}`,
+      `player_win_rate,${report.player.winRate.toFixed(4)}`,
+      `player_military_wins,${report.player.military}`,
+      `player_economic_wins,${report.player.economic}`,
+      `ai_win_rate,${report.ai.winRate.toFixed(4)}`,
+      `ai_military_wins,${report.ai.military}`,
+      `ai_economic_wins,${report.ai.economic}`,
+      `unfinished,${report.unfinished}`,
+      `average_game_length,${report.averageGameLength.toFixed(2)}`,
+      ...PHASES.map(phase => `phase_reached_${phase},${report.phaseReached[phase]}`),
+      '',
+      'turn,games,player_metal,player_energy,ai_metal,ai_energy',
+      ...report.resourceCurves.map(point =>
+        `${point.turn},${point.games},${point.player.metal},${point.player.energy},${point.ai.metal},${point.ai.energy}`
+      )
+    ];
+    return lines.join('\n') + '\n';
+  }
+}
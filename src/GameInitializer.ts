@@ -1,6 +1,13 @@
-import { GameEngine, GameEngineConfig } from './engine/GameEngine.js';
+import { readFileSync } from 'fs';
+import { GameEngine, GameEngineConfig, FactionConfig, validateFactionConfigs } from './engine/GameEngine.js';
+import { parseSaveFile } from './engine/SaveFile.js';
 import { CLIInterface, CLIConfig } from './ui/CLIInterface.js';
 import { AIArchetype } from './models/AI.js';
+import { RandomSource, SeededRandom, defaultRandom } from './models/Random.js';
+import { validateSideName } from './models/Sides.js';
+
+/** A seat in a free-for-all: played at this keyboard, or by an AI of that archetype */
+export type FactionSeat = 'human' | AIArchetype;
 
 export interface GameInitializationConfig {
   aiArchetype?: AIArchetype;
@@ -10,6 +17,12 @@ export interface GameInitializationConfig {
   };
   cliConfig?: CLIConfig;
   seed?: number;
+  omniscientAI?: boolean;
+  loadFile?: string;
+  hotseat?: boolean; // two people share the keyboard instead of playing the AI
+  sideNames?: { player?: string; ai?: string };
+  factions?: FactionSeat[]; // seats a free-for-all in this order instead of the player against the AI
+  factionNames?: string[]; // one per seat; "Player" and "AI", numbered when there are several, unless given
 }
 
 export class GameInitializer {
@@ -25,29 +38,13 @@ export class GameInitializer {
     const errors: string[] = [];
 
     try {
-      // Set random seed if provided
-      if (config.seed !== undefined) {
-        // Note: JavaScript doesn't have built-in seeded random, but we can document this for future enhancement
-        console.log(`Game seed: ${config.seed}`);
-      }
-
       // Validate configuration
       const validationResult = this.validateConfiguration(config);
       if (!validationResult.isValid) {
         errors.push(...validationResult.errors);
       }
 
-      // Create game engine configuration
-      const gameEngineConfig: GameEngineConfig = {
-        aiArchetype: config.aiArchetype || this.selectRandomAIArchetype(),
-        startingResources: config.startingResources || {
-          metal: 10000,
-          energy: 10000
-        }
-      };
-
-      // Initialize game engine
-      const gameEngine = new GameEngine(gameEngineConfig);
+      const gameEngine = this.createGameEngine(config);
 
       // Validate initial game state
       const gameStateValidation = gameEngine.validateGameState();
@@ -58,7 +55,10 @@ export class GameInitializer {
       // Create CLI configuration
       const cliConfig: CLIConfig = {
         showDebugInfo: config.cliConfig?.showDebugInfo || false,
-        autoAdvanceTurn: config.cliConfig?.autoAdvanceTurn || false
+        autoAdvanceTurn: config.cliConfig?.autoAdvanceTurn || false,
+        aliasFile: config.cliConfig?.aliasFile,
+        tui: config.cliConfig?.tui,
+        unicode: config.cliConfig?.unicode
       };
 
       // Initialize CLI interface
@@ -93,6 +93,77 @@ export class GameInitializer {
     }
   }
 
+  /**
+   * Creates the engine for a game played without the interactive CLI. Unlike initializeGame()
+   * there is no fallback: a script must run against exactly the game it asked for.
+   */
+  public static createHeadlessGame(config: GameInitializationConfig = {}): {
+    gameEngine: GameEngine | null;
+    errors: string[];
+  } {
+    const validationResult = this.validateConfiguration(config);
+    if (!validationResult.isValid) {
+      return { gameEngine: null, errors: validationResult.errors };
+    }
+
+    try {
+      const gameEngine = this.createGameEngine(config);
+      const gameStateValidation = gameEngine.validateGameState();
+      return gameStateValidation.isValid
+        ? { gameEngine, errors: [] }
+        : { gameEngine: null, errors: gameStateValidation.errors };
+    } catch (error) {
+      return { gameEngine: null, errors: [`Game initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+    }
+  }
+
+  /**
+   * Creates a new game engine from the configuration, or resumes the saved game it names
+   */
+  private static createGameEngine(config: GameInitializationConfig): GameEngine {
+    if (config.loadFile) {
+      return this.loadSavedGame(config.loadFile);
+    }
+
+    if (config.factions) {
+      return new GameEngine({
+        startingResources: config.startingResources,
+        seed: config.seed,
+        omniscientAI: config.omniscientAI,
+        factions: this.createFactionConfigs(config.factions, config.factionNames)
+      });
+    }
+
+    // A seeded game also picks its random archetype from the seed
+    const archetypeRandom = config.seed !== undefined ? new SeededRandom(config.seed) : defaultRandom;
+    const gameEngineConfig: GameEngineConfig = {
+      aiArchetype: config.aiArchetype || this.selectRandomAIArchetype(archetypeRandom),
+      startingResources: config.startingResources || {
+        metal: 10000,
+        energy: 10000
+      },
+      seed: config.seed,
+      omniscientAI: config.omniscientAI,
+      hotseat: config.hotseat,
+      sideNames: config.sideNames
+    };
+
+    return new GameEngine(gameEngineConfig);
+  }
+
+  /**
+   * Creates an engine from a save file, refusing files that fail validation
+   */
+  private static loadSavedGame(path: string): GameEngine {
+    const saveFile = parseSaveFile(readFileSync(path, 'utf8'));
+    if (!saveFile.success || !saveFile.snapshot) {
+      throw new Error(`Save file ${path} is invalid:\n    ${saveFile.errors.join('\n    ')}`);
+    }
+
+    saveFile.warnings.forEach(warning => console.warn(`⚠️  ${warning}`));
+    return GameEngine.fromSnapshot(saveFile.snapshot);
+  }
+
   /**
    * Validates the initialization configuration
    */
@@ -128,12 +199,70 @@ export class GameInitializer {
       }
     }
 
+    // Validate side names
+    Object.values(config.sideNames ?? {}).forEach(name => {
+      if (name !== undefined) {
+        errors.push(...validateSideName(name));
+      }
+    });
+    if (config.sideNames?.player !== undefined && config.sideNames.player.trim() === config.sideNames.ai?.trim()) {
+      errors.push('The two sides need different names');
+    }
+
+    // Validate free-for-all seats
+    if (config.factions) {
+      errors.push(...this.validateFactionSeats(config));
+    }
+
     return {
       isValid: errors.length === 0,
       errors
     };
   }
 
+  /**
+   * Checks the seats of a free-for-all: each played by a human or a known archetype, at least one
+   * of them at this keyboard, and no settings for a game against the AI mixed in
+   */
+  private static validateFactionSeats(config: GameInitializationConfig): string[] {
+    const seats = config.factions!;
+    const validArchetypes: AIArchetype[] = ['aggressor', 'economist', 'trickster', 'hybrid'];
+    const errors: string[] = [];
+
+    const invalid = seats.filter(seat => seat !== 'human' && !validArchetypes.includes(seat));
+    if (invalid.length > 0) {
+      errors.push(`Invalid seats: ${invalid.join(', ')}. Each seat is human or an AI archetype (${validArchetypes.join(', ')})`);
+    }
+    if (!seats.includes('human')) {
+      errors.push('A free-for-all needs at least one human seat');
+    }
+    if (config.factionNames && config.factionNames.length !== seats.length) {
+      errors.push(`Give one name per seat: ${seats.length} seats, ${config.factionNames.length} names`);
+    }
+    if (config.hotseat || config.sideNames || config.aiArchetype) {
+      errors.push('A free-for-all is seated by its factions alone, without hotseat, side names or an AI archetype');
+    }
+
+    return errors.length > 0 ? errors : validateFactionConfigs(this.createFactionConfigs(seats, config.factionNames));
+  }
+
+  /**
+   * Turns free-for-all seats into the engine's factions. Seats without a name are "Player" and
+   * "AI", numbered among their kind when there are several.
+   */
+  private static createFactionConfigs(seats: FactionSeat[], names: string[] = []): FactionConfig[] {
+    const controllers = seats.map(seat => seat === 'human' ? 'human' as const : 'ai' as const);
+    const numbered = { human: 0, ai: 0 };
+
+    return seats.map((seat, index) => {
+      const controller = controllers[index];
+      const label = controller === 'human' ? 'Player' : 'AI';
+      const number = ++numbered[controller];
+      const name = names[index] ?? (controllers.filter(other => other === controller).length > 1 ? `${label} ${number}` : label);
+      return seat === 'human' ? { name, controller } : { name, controller, archetype: seat };
+    });
+  }
+
   /**
    * Validates the complete game setup
    */
@@ -168,21 +297,10 @@ export class GameInitializer {
         errors.push('Invalid turn number');
       }
 
-      // Validate player state
-      if (!gameState.player) {
-        errors.push('Player state is missing');
-      } else {
-        if (gameState.player.resources.metal < 0 || gameState.player.resources.energy < 0) {
-          errors.push('Player has negative resources');
-        }
-      }
-
-      // Validate AI state
-      if (!gameState.ai) {
-        errors.push('AI state is missing');
-      } else {
-        if (gameState.ai.resources.metal < 0 || gameState.ai.resources.energy < 0) {
-          errors.push('AI has negative resources');
+      // Validate each faction's state
+      for (const [faction, player] of Object.entries(gameState.factions)) {
+        if (player.resources.metal < 0 || player.resources.energy < 0) {
+          errors.push(`${gameState.sides[faction].name} has negative resources`);
         }
       }
 
@@ -204,9 +322,9 @@ export class GameInitializer {
   /**
    * Selects a random AI archetype for variety
    */
-  private static selectRandomAIArchetype(): AIArchetype {
+  private static selectRandomAIArchetype(random: RandomSource = defaultRandom): AIArchetype {
     const archetypes: AIArchetype[] = ['aggressor', 'economist', 'trickster', 'hybrid'];
-    const randomIndex = Math.floor(Math.random() * archetypes.length);
+    const randomIndex = Math.floor(random.next() * archetypes.length);
     return archetypes[randomIndex];
   }
 
@@ -4,6 +4,7 @@ import { GameInitializer } from './GameInitializer.js';
 import { ErrorHandler } from './ErrorHandler.js';
 import { InputHandler } from './ui/InputHandler.js';
 import { GameController } from './ui/GameController.js';
+import { viewForSide } from './models/Sides.js';
 
 export interface ValidationResult {
   passed: boolean;
@@ -291,7 +292,7 @@ export class IntegrationValidator {
       ];
       
       for (const commandStr of validCommands) {
-        const commandResult = inputHandler.processCommand(commandStr, engine.getGameState());
+        const commandResult = inputHandler.processCommand(commandStr, viewForSide(engine.getGameState(), 'player'));
         if (!commandResult.success) {
           throw new Error(`Command parsing failed for '${commandStr}': ${commandResult.error}`);
         }
@@ -311,7 +312,7 @@ export class IntegrationValidator {
       ];
       
       for (const commandStr of invalidCommands) {
-        const commandResult = inputHandler.processCommand(commandStr, engine.getGameState());
+        const commandResult = inputHandler.processCommand(commandStr, viewForSide(engine.getGameState(), 'player'));
         if (commandResult.success) {
           throw new Error(`Invalid command '${commandStr}' was accepted`);
         }
@@ -469,8 +470,7 @@ export class IntegrationValidator {
           frigates: 1000,
           cruisers: 1000,
           battleships: 1000
-        },
-        target: 'ai_system'
+        }
       };
       
       const result = gameController.executeCommand(invalidAttackCommand);
@@ -507,7 +507,7 @@ export class IntegrationValidator {
       const gameState = engine.getGameState();
       
       // Verify income is positive initially
-      if (gameState.player.resources.metalIncome <= 0 || gameState.player.resources.energyIncome <= 0) {
+      if (gameState.factions.player.resources.metalIncome <= 0 || gameState.factions.player.resources.energyIncome <= 0) {
         throw new Error('Initial income should be positive');
       }
       
@@ -545,7 +545,7 @@ export class IntegrationValidator {
       ];
       
       for (const command of invalidCommands) {
-        const result = inputHandler.processCommand(command, engine.getGameState());
+        const result = inputHandler.processCommand(command, viewForSide(engine.getGameState(), 'player'));
         if (result.success) {
           throw new Error(`Invalid command '${command}' was accepted`);
         }
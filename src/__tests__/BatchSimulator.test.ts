@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { BatchSimulator } from '../BatchSimulator.js';
+
+describe('BatchSimulator', () => {
+  const config = { games: 4, playerArchetype: 'aggressor' as const, aiArchetype: 'economist' as const, seed: 42, maxTurns: 30 };
+
+  it('should produce the same report from the same seed', () => {
+    const first = BatchSimulator.run(config);
+    const second = BatchSimulator.run(config);
+
+    expect(JSON.stringify(second)).toBe(JSON.stringify(first));
+  });
+
+  it('should play each game from its own seed', () => {
+    const report = BatchSimulator.run(config);
+
+    expect(report.games.map(game => game.seed)).toEqual([42, 43, 44, 45]);
+  });
+
+  it('should account for every game exactly once', () => {
+    const report = BatchSimulator.run(config);
+    const phases = Object.values(report.phaseReached).reduce((sum, count) => sum + count, 0);
+
+    expect(report.player.wins + report.ai.wins + report.unfinished).toBe(4);
+    expect(report.player.military + report.player.economic).toBe(report.player.wins);
+    expect(report.ai.military + report.ai.economic).toBe(report.ai.wins);
+    expect(phases).toBe(4);
+  });
+
+  it('should stop unfinished games at the turn limit', () => {
+    const report = BatchSimulator.run({ ...config, maxTurns: 5 });
+
+    expect(report.games.every(game => game.turns <= 5)).toBe(true);
+    expect(report.resourceCurves).toHaveLength(5);
+    expect(report.resourceCurves[0]).toEqual({
+      turn: 1,
+      games: 4,
+      player: { metal: 10000, energy: 10000 },
+      ai: { metal: 10000, energy: 10000 }
+    });
+  });
+
+  it('should let the player archetype act on the player slot', () => {
+    const report = BatchSimulator.run({ ...config, maxTurns: 3 });
+
+    // Without orders the player would bank exactly the same income as an idle AI
+    expect(report.resourceCurves[2].player).not.toEqual({ metal: 30000, energy: 30000 });
+  });
+
+  it('should format the report as JSON and CSV', () => {
+    const report = BatchSimulator.run({ ...config, maxTurns: 5 });
+
+    expect(JSON.parse(BatchSimulator.toJSON(report)).games).toBeUndefined();
+    expect(JSON.parse(BatchSimulator.toJSON(report, true)).games).toHaveLength(4);
+
+    const csv = BatchSimulator.toCSV(report).split('\n');
+    expect(csv[0]).toBe('metric,value');
+    expect(csv).toContain('games,4');
+    expect(csv).toContain('turn,games,player_metal,player_energy,ai_metal,ai_energy');
+    expect(csv).toContain('1,4,10000,10000,10000,10000');
+  });
+});
@@ -2,16 +2,60 @@
 
 import { GameInitializer } from './GameInitializer.js';
 import { ErrorHandler } from './ErrorHandler.js';
+import { parseReplayFile } from './ui/Replay.js';
+import { ReplayViewer } from './ui/ReplayViewer.js';
+import { BatchSimulator } from './BatchSimulator.js';
+import { ScriptRunner, ScriptRecord } from './ui/ScriptRunner.js';
+import { GameDisplay } from './ui/GameDisplay.js';
+import { FileSaveStorage } from './ui/FileSaveStorage.js';
+import { createDefaultRegistry } from './ui/BuiltInCommands.js';
+import { AIArchetype } from './models/AI.js';
+import { StandingOrder } from './models/PlayerState.js';
+import { isHotseat } from './models/Sides.js';
+import { GameServer, DEFAULT_PORT } from './network/GameServer.js';
+import { NetworkCLIInterface } from './ui/NetworkCLIInterface.js';
+import { readFileSync, writeFileSync } from 'fs';
+
+interface SimulationOptions {
+  games: number;
+  playerArchetype: AIArchetype;
+  aiArchetype: AIArchetype;
+  seed?: number;
+  maxTurns?: number;
+  omniscient: boolean;
+  format: 'json' | 'csv';
+  out?: string;
+  includeGames: boolean;
+}
 
 /**
  * Main entry point for the CLI version of Burn Rate
  */
 async function main() {
+  // Parse command line arguments
+  const args = process.argv.slice(2);
+
+  // Headless AI-vs-AI batch mode; stdout carries only the report
+  if (args[0] === 'simulate') {
+    runSimulation(parseSimulationArgs(args.slice(1)));
+    return;
+  }
+
+  // Scripted play; with --json stdout carries only the records
+  if (args.includes('--script')) {
+    runScript(parseCommandLineArgs(args));
+    return;
+  }
+
+  // Host a networked game; the players join from their own terminals
+  if (args[0] === 'serve') {
+    await runServer(parseCommandLineArgs(args.slice(1)));
+    return;
+  }
+
   console.log('Initializing Burn Rate...\n');
 
   try {
-    // Parse command line arguments
-    const args = process.argv.slice(2);
     const config = parseCommandLineArgs(args);
 
     // Perform system check if requested
@@ -20,6 +64,19 @@ async function main() {
       return;
     }
 
+    // Step through a recorded game instead of playing
+    if (config.replayFile) {
+      await runReplay(config.replayFile);
+      return;
+    }
+
+    // Play one side of a game hosted with "burn-rate serve"
+    if (config.connectUrl) {
+      rejectFactions(config, '--connect');
+      await runNetworkGame(config);
+      return;
+    }
+
     // Initialize the game
     const gameSetup = await GameInitializer.initializeGame(config);
 
@@ -27,6 +84,11 @@ async function main() {
       console.error('❌ Game initialization failed:');
       gameSetup.errors.forEach(error => console.error(`  - ${error}`));
       
+      // A save that cannot be resumed, or seats that cannot be filled, must not silently turn into a fresh game
+      if (config.loadFile || config.factions) {
+        process.exit(1);
+      }
+      
       if (gameSetup.errors.length > 0) {
         console.log('\nAttempting to start with fallback configuration...');
       }
@@ -35,7 +97,17 @@ async function main() {
       
       // Display AI archetype
       const gameState = gameSetup.gameEngine.getGameState();
-      console.log(`🤖 AI Archetype: ${gameSetup.gameEngine.getGameState().ai ? 'Selected' : 'Unknown'}`);
+      if (Object.keys(gameState.factions).length > 2) {
+        console.log(`🌌 Free-for-all: ${Object.values(gameState.sides).map(side => side.name).join(', ')}`);
+      } else if (isHotseat(gameState)) {
+        console.log(`👥 Hotseat: ${gameState.sides.player.name} vs ${gameState.sides.ai.name}`);
+      } else {
+        console.log(`🤖 AI Archetype: ${gameSetup.gameEngine.getGameState().factions.ai ? 'Selected' : 'Unknown'}`);
+      }
+      console.log(`🎲 Game seed: ${gameSetup.gameEngine.getSeed()} (pass --seed to replay this game)`);
+      if (config.loadFile) {
+        console.log(`💾 Resumed saved game at turn ${gameSetup.gameEngine.getCurrentTurn()}`);
+      }
     }
 
     // Set up graceful shutdown
@@ -68,6 +140,7 @@ async function main() {
  */
 function parseCommandLineArgs(args: string[]): any {
   const config: any = {};
+  const names: string[] = [];
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -81,7 +154,7 @@ function parseCommandLineArgs(args: string[]): any {
         
       case '--debug':
       case '-d':
-        config.cliConfig = { showDebugInfo: true };
+        config.cliConfig = { ...config.cliConfig, showDebugInfo: true };
         break;
         
       case '--ai':
@@ -105,6 +178,86 @@ function parseCommandLineArgs(args: string[]): any {
         }
         break;
         
+      case '--load':
+        if (i + 1 < args.length) {
+          config.loadFile = args[++i];
+        }
+        break;
+        
+      case '--replay':
+        if (i + 1 < args.length) {
+          config.replayFile = args[++i];
+        }
+        break;
+        
+      case '--omniscient-ai':
+        config.omniscientAI = true;
+        break;
+        
+      case '--script':
+        if (i + 1 < args.length) {
+          config.scriptFile = args[++i];
+        }
+        break;
+        
+      case '--json':
+        config.json = true;
+        break;
+        
+      case '--aliases':
+        if (i + 1 < args.length) {
+          config.cliConfig = { ...config.cliConfig, aliasFile: args[++i] };
+        }
+        break;
+        
+      case '--tui':
+        config.cliConfig = { ...config.cliConfig, tui: true };
+        break;
+
+      case '--ascii':
+        config.cliConfig = { ...config.cliConfig, unicode: false };
+        break;
+
+      case '--hotseat':
+        config.hotseat = true;
+        break;
+
+      case '--names':
+        while (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+          names.push(args[++i]);
+        }
+        break;
+
+      case '--factions':
+        if (i + 1 < args.length) {
+          config.factions = args[++i].split(',').map(seat => seat.trim());
+        }
+        break;
+        
+      case '--port':
+        if (i + 1 < args.length) {
+          config.port = parseInt(args[++i], 10);
+        }
+        break;
+
+      case '--host':
+        if (i + 1 < args.length) {
+          config.host = args[++i];
+        }
+        break;
+
+      case '--connect':
+        if (i + 1 < args.length) {
+          config.connectUrl = args[++i];
+        }
+        break;
+
+      case '--token':
+        if (i + 1 < args.length) {
+          config.token = args[++i];
+        }
+        break;
+        
       case '--system-check':
         config.systemCheck = true;
         break;
@@ -117,9 +270,201 @@ function parseCommandLineArgs(args: string[]): any {
     }
   }
 
+  // Names go to the free-for-all seats, or else to the two sides
+  if (config.factions) {
+    config.factionNames = names.length > 0 ? names : undefined;
+  } else if (names.length >= 2) {
+    config.sideNames = { player: names[0], ai: names[1] };
+  }
+
   return config;
 }
 
+/**
+ * Parses the options of the simulate subcommand
+ */
+function parseSimulationArgs(args: string[]): SimulationOptions {
+  const options: SimulationOptions = {
+    games: 100,
+    playerArchetype: 'hybrid',
+    aiArchetype: 'hybrid',
+    omniscient: false,
+    format: 'json',
+    includeGames: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--games':
+        options.games = parseInt(args[++i], 10);
+        break;
+
+      case '--player-ai':
+        options.playerArchetype = args[++i] as AIArchetype;
+        break;
+
+      case '--ai':
+        options.aiArchetype = args[++i] as AIArchetype;
+        break;
+
+      case '--seed':
+        options.seed = parseInt(args[++i], 10);
+        break;
+
+      case '--max-turns':
+        options.maxTurns = parseInt(args[++i], 10);
+        break;
+
+      case '--omniscient':
+        options.omniscient = true;
+        break;
+
+      case '--format':
+        options.format = args[++i] === 'csv' ? 'csv' : 'json';
+        break;
+
+      case '--out':
+        options.out = args[++i];
+        break;
+
+      case '--include-games':
+        options.includeGames = true;
+        break;
+
+      default:
+        console.warn(`Unknown simulate option: ${arg}`);
+        break;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Runs a batch of AI-vs-AI games and writes the report to stdout or a file
+ */
+function runSimulation(options: SimulationOptions): void {
+  const validArchetypes: AIArchetype[] = ['aggressor', 'economist', 'trickster', 'hybrid'];
+  const errors: string[] = [];
+
+  if (!Number.isInteger(options.games) || options.games < 1) {
+    errors.push('--games must be a positive number');
+  }
+  if (!validArchetypes.includes(options.playerArchetype)) {
+    errors.push(`Invalid --player-ai: ${options.playerArchetype}. Valid options: ${validArchetypes.join(', ')}`);
+  }
+  if (!validArchetypes.includes(options.aiArchetype)) {
+    errors.push(`Invalid --ai: ${options.aiArchetype}. Valid options: ${validArchetypes.join(', ')}`);
+  }
+  if (options.seed !== undefined && !Number.isInteger(options.seed)) {
+    errors.push('--seed must be a number');
+  }
+  if (options.maxTurns !== undefined && (!Number.isInteger(options.maxTurns) || options.maxTurns < 1)) {
+    errors.push('--max-turns must be a positive number');
+  }
+
+  if (errors.length > 0) {
+    errors.forEach(error => console.error(`❌ ${error}`));
+    process.exit(1);
+  }
+
+  console.error(`Simulating ${options.games} game(s): ${options.playerArchetype} (player) vs ${options.aiArchetype} (AI)...`);
+  const startTime = Date.now();
+
+  const report = BatchSimulator.run({
+    games: options.games,
+    playerArchetype: options.playerArchetype,
+    aiArchetype: options.aiArchetype,
+    seed: options.seed,
+    maxTurns: options.maxTurns,
+    omniscient: options.omniscient
+  });
+
+  const output = options.format === 'csv'
+    ? BatchSimulator.toCSV(report)
+    : BatchSimulator.toJSON(report, options.includeGames) + '\n';
+
+  if (options.out) {
+    writeFileSync(options.out, output, 'utf8');
+    console.error(`Report written to ${options.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+
+  console.error(`Done in ${((Date.now() - startTime) / 1000).toFixed(1)}s (seed ${report.config.seed})`);
+}
+
+/**
+ * Plays a file of commands without prompting. Exits with code 1 if the game cannot be set up
+ * or a command fails; the script stops at that command.
+ */
+function runScript(config: any): void {
+  rejectFactions(config, '--script');
+  if (!config.scriptFile) {
+    console.error('❌ --script needs a file of commands');
+    process.exit(1);
+  }
+
+  let script: string;
+  try {
+    script = readFileSync(config.scriptFile, 'utf8');
+  } catch (error) {
+    console.error(`❌ Cannot read script ${config.scriptFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+
+  const { gameEngine, errors } = GameInitializer.createHeadlessGame(config);
+  if (!gameEngine) {
+    errors.forEach(error => console.error(`❌ ${error}`));
+    process.exit(1);
+  }
+
+  const runner = new ScriptRunner(gameEngine, new FileSaveStorage());
+  const summary = runner.run(script, config.json
+    ? record => process.stdout.write(JSON.stringify(record) + '\n')
+    : createScriptPrinter(new GameDisplay(config.cliConfig), () => gameEngine.getStandingOrders()));
+
+  if (summary.failedLine !== null) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Exits for the modes that only play two sides, which cannot seat a free-for-all
+ */
+function rejectFactions(config: any, mode: string): void {
+  if (config.factions) {
+    console.error(`❌ ${mode} plays two sides only; --factions seats a free-for-all at this keyboard`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Prints script records the way the interactive CLI would show them
+ */
+function createScriptPrinter(gameDisplay: GameDisplay, standingOrders: () => StandingOrder[]): (record: ScriptRecord) => void {
+  return record => {
+    switch (record.type) {
+      case 'command':
+        console.log(`\n[Turn ${record.turn}] > ${record.input}`);
+        console.log(record.success ? `✓ ${record.message}` : `❌ Line ${record.line}: ${record.message}`);
+        break;
+
+      case 'turn':
+        gameDisplay.displayTurnResult(record.result, false);
+        gameDisplay.displayStandingOrderResults(record.standingOrders, standingOrders());
+        break;
+
+      case 'summary':
+        console.log(`\nScript finished on turn ${record.turn} after ${record.commands} command(s) (seed ${record.seed})` +
+          (record.gameOver ? `. Game over, winner: ${record.winner}` : ''));
+        break;
+    }
+  };
+}
+
 /**
  * Displays command line help
  */
@@ -128,6 +473,8 @@ function displayHelp(): void {
 Burn Rate - A fast-paced strategy game
 
 Usage: burn-rate [options]
+       burn-rate simulate [simulate options]
+       burn-rate serve [serve options]
 
 Options:
   -h, --help              Show this help message
@@ -135,24 +482,149 @@ Options:
   --ai <archetype>        Set AI archetype (aggressor, economist, trickster, hybrid)
   --resources <M> <E>     Set starting resources (metal energy)
   --seed <number>         Set random seed for reproducible games
+  --omniscient-ai         Let the AI see your true fleet and economy instead of scanning
+  --load <file>           Resume a game saved with the in-game "save" command
+  --replay <file>         Step through a recorded game (saved to ~/.burn-rate/replays)
+  --script <file>         Play the commands in a file, one per line, without prompting
+  --json                  With --script, print one JSON record per command and turn
+  --aliases <file>        Load command aliases (default ~/.burn-rate/aliases.json)
+  --tui                   Play on a full-screen dashboard (needs a color terminal)
+  --ascii                 Draw charts in plain ASCII for terminals without Unicode
+  --hotseat               Two players share the keyboard instead of playing the AI
+  --names <one> <two>     Name the sides (default Player and AI; Player 1 and 2 in hotseat)
+  --factions <seats>      Seat a free-for-all of 2-6 factions, each human or an AI archetype,
+                          e.g. human,aggressor,economist; --names then names each seat
+  --connect <url>         Join a game hosted with "burn-rate serve" (ws://host:port)
+  --token <token>         With --connect, take back the seat the token was given for
   --system-check          Perform system health check and exit
 
+Simulate options (headless AI-vs-AI games for balance testing):
+  --games <n>             Number of games to play (default 100)
+  --player-ai <archetype> Archetype playing the player slot (default hybrid)
+  --ai <archetype>        Archetype playing the AI slot (default hybrid)
+  --seed <number>         Base seed; game i uses seed + i
+  --max-turns <n>         Stop unfinished games after n turns (default 100)
+  --omniscient            Let both archetypes see each other's true state
+  --format <json|csv>     Report format (default json)
+  --out <file>            Write the report to a file instead of stdout
+  --include-games         Include one row per game in the JSON report
+
+Serve options (host a game for two players on the network):
+  --port <number>         Port to listen on (default ${DEFAULT_PORT})
+  --host <address>        Address to listen on (default localhost; 0.0.0.0 for the LAN)
+  Also --seed, --resources, --names and --load, as for a local game
+
 Examples:
   burn-rate                           # Start with default settings
   burn-rate --debug                   # Start in debug mode
   burn-rate --ai aggressor            # Play against aggressive AI
   burn-rate --resources 50000 50000   # Start with more resources
+  burn-rate --load ~/.burn-rate/saves/campaign1.json  # Resume a saved game
+  burn-rate --replay ~/.burn-rate/replays/game-42-20261019-145842.json  # Watch a replay
+  burn-rate --seed 42 --script orders.txt --json  # Play a scripted game, JSON output
+  burn-rate --tui --seed 42           # Play on the dashboard
+  burn-rate --hotseat --names Ana Ben # Two players at one keyboard
+  burn-rate --factions human,aggressor,economist --names Ana Rex Vera  # Three-way free-for-all
+  burn-rate serve --host 0.0.0.0 --names Ana Ben  # Host a game on the LAN
+  burn-rate --connect ws://192.168.1.20:${DEFAULT_PORT}  # Join it
   burn-rate --system-check            # Check system health
+  burn-rate simulate --games 1000 --player-ai aggressor --ai economist --seed 42
 
 Game Commands (in-game):
-  help                    # Show in-game help
-  build <qty> <unit>      # Build units or structures
-  attack <F> <C> <B>      # Launch attack with fleet composition
-  scan <type>             # Perform intelligence scan
-  status                  # Show detailed game status
-  end                     # End current turn
-  quit                    # Exit game
-`);
+${formatCommandSummary()}`);
+}
+
+/**
+ * Lists the in-game commands, one line per way of typing each
+ */
+function formatCommandSummary(): string {
+  return createDefaultRegistry().getDefinitions()
+    .flatMap(definition => definition.usage)
+    .map(usage => `  ${usage.syntax.padEnd(38)} # ${usage.description}`)
+    .join('\n');
+}
+
+/**
+ * Hosts a game for two players until it is over and both have left, or the server is stopped
+ */
+async function runServer(config: any): Promise<void> {
+  rejectFactions(config, 'serve');
+  const port = config.port ?? DEFAULT_PORT;
+  const host = config.host ?? 'localhost';
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error('❌ --port must be a number from 0 to 65535');
+    process.exit(1);
+  }
+
+  const { gameEngine, errors } = GameInitializer.createHeadlessGame({ ...config, hotseat: true });
+  if (!gameEngine) {
+    errors.forEach(error => console.error(`❌ ${error}`));
+    process.exit(1);
+  }
+
+  if (!isHotseat(gameEngine.getGameState())) {
+    console.error('❌ Only hotseat games can be hosted; this save is a game against the AI');
+    process.exit(1);
+  }
+
+  const server = new GameServer(gameEngine, message => console.log(`[${new Date().toLocaleTimeString()}] ${message}`));
+  let listeningPort: number;
+  try {
+    listeningPort = await server.listen(port, host);
+  } catch (error) {
+    console.error(`❌ Cannot host the game on ${host}:${port}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+
+  const { sides } = gameEngine.getGameState();
+  const address = host === '0.0.0.0' || host === '::' ? '<this machine\'s address>' : host;
+  console.log(`🌐 Hosting ${sides.player.name} vs ${sides.ai.name} (seed ${gameEngine.getSeed()})`);
+  console.log(`   Players join with: burn-rate --connect ws://${address}:${listeningPort}`);
+
+  const shutdown = async (signal: string) => {
+    console.log(`\nReceived ${signal}. Stopping the server...`);
+    await server.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  await server.finished();
+  console.log('The game is over and both players have left');
+  await server.close();
+}
+
+/**
+ * Joins a networked game and plays one side of it from this terminal
+ */
+async function runNetworkGame(config: any): Promise<void> {
+  const networkInterface = new NetworkCLIInterface(config.connectUrl, config.cliConfig);
+  setupGracefulShutdown(networkInterface);
+
+  try {
+    await networkInterface.start(config.token);
+  } catch (error) {
+    console.error(`❌ Cannot join ${config.connectUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Loads a replay file and opens the step-through viewer
+ */
+async function runReplay(path: string): Promise<void> {
+  const parsed = parseReplayFile(readFileSync(path, 'utf8'));
+  if (!parsed.success || !parsed.replay) {
+    console.error(`❌ Replay file ${path} is invalid:`);
+    parsed.errors.forEach(error => console.error(`  - ${error}`));
+    process.exit(1);
+  }
+
+  const turns = parsed.replay.turns.length;
+  console.log(`🎞️  Replay: ${turns} turn(s) against the ${parsed.replay.aiArchetype} AI, seed ${parsed.replay.seed}`);
+
+  const viewer = new ReplayViewer(parsed.replay);
+  await viewer.start();
 }
 
 /**
@@ -1,15 +1,38 @@
-import { GameState } from '../models/GameState.js';
+import { DuelView } from '../models/Sides.js';
 import { AIState, AIDecision, BaseAIArchetype, AIArchetype } from '../models/AI.js';
 import { AggressorAI } from './ai/AggressorAI.js';
 import { EconomistAI } from './ai/EconomistAI.js';
 import { TricksterAI } from './ai/TricksterAI.js';
 import { HybridAI } from './ai/HybridAI.js';
+import { RandomSource, defaultRandom } from '../models/Random.js';
+import { IntelligenceEngine } from './IntelligenceEngine.js';
+import { IntelligencePicture, SCAN_COSTS } from '../models/Intelligence.js';
+import { calculateStructureIncome } from '../models/Economy.js';
+
+export interface AIEngineSnapshot {
+  archetype: AIArchetype;
+  omniscient: boolean;
+  aiState: AIState;
+  archetypeState: Record<string, unknown>;
+}
+
+/** Below this confidence the AI scans before making any other decision */
+const RECONNAISSANCE_CONFIDENCE = 0.3;
 
 export class AIEngine {
   private aiArchetype: BaseAIArchetype;
   private aiState: AIState;
+  private random: RandomSource;
+  private intelligenceEngine: IntelligenceEngine;
+  private omniscient: boolean;
 
-  constructor(archetype: AIArchetype) {
+  /**
+   * An omniscient AI sees the player's true fleet and economy; otherwise it only knows what its own scans found
+   */
+  constructor(archetype: AIArchetype, random: RandomSource = defaultRandom, omniscient: boolean = false) {
+    this.random = random;
+    this.omniscient = omniscient;
+    this.intelligenceEngine = new IntelligenceEngine(random);
     this.aiArchetype = this.createArchetype(archetype);
     this.aiState = this.initializeAIState(archetype);
   }
@@ -17,13 +40,13 @@ export class AIEngine {
   private createArchetype(archetype: AIArchetype): BaseAIArchetype {
     switch (archetype) {
       case 'aggressor':
-        return new AggressorAI();
+        return new AggressorAI(this.random);
       case 'economist':
-        return new EconomistAI();
+        return new EconomistAI(this.random);
       case 'trickster':
-        return new TricksterAI();
+        return new TricksterAI(this.random);
       case 'hybrid':
-        return new HybridAI();
+        return new HybridAI(this.random);
       default:
         throw new Error(`Unknown AI archetype: ${archetype}`);
     }
@@ -46,7 +69,8 @@ export class AIEngine {
         },
         inTransit: {
           outbound: []
-        }
+        },
+        nextFleetId: 1
       },
       economy: {
         reactors: 0,
@@ -63,6 +87,10 @@ export class AIEngine {
         scanAccuracy: 0.7,
         lastScanData: null,
         misinformationActive: false
+      },
+      standingOrders: {
+        orders: [],
+        nextId: 1
       }
     };
 
@@ -71,7 +99,22 @@ export class AIEngine {
       archetype,
       behaviorProbabilities: this.getBehaviorProbabilities(archetype),
       threatLevel: 0,
-      economicAdvantage: 0
+      economicAdvantage: 0,
+      intelligencePicture: this.createEmptyPicture()
+    };
+  }
+
+  /**
+   * What the AI knows before it has scanned anything: the player starts with nothing but base income
+   */
+  private createEmptyPicture(): IntelligencePicture {
+    return {
+      enemyFleet: { frigates: 0, cruisers: 0, battleships: 0 },
+      enemyIncome: calculateStructureIncome(0, 0),
+      estimatedInTransit: 0,
+      lastScanTurn: 0,
+      confidence: 0,
+      enemyLastScanTurn: 0
     };
   }
 
@@ -112,12 +155,12 @@ export class AIEngine {
     }
   }
 
-  public processTurn(gameState: GameState): AIDecision {
+  public processTurn(gameState: DuelView): AIDecision {
     // Update AI state with current game information
     this.updateAIState(gameState);
     
-    // Make decision based on archetype
-    const decision = this.aiArchetype.makeDecision(gameState, this.aiState);
+    // Scout first when intelligence has gone stale, otherwise decide by archetype
+    const decision = this.planReconnaissance() ?? this.aiArchetype.makeDecision(gameState, this.aiState);
     
     // Store the decision for future reference
     this.aiState.lastPlayerAction = decision;
@@ -125,20 +168,45 @@ export class AIEngine {
     return decision;
   }
 
-  private updateAIState(gameState: GameState): void {
+  private updateAIState(gameState: DuelView): void {
     // Update AI state to match current game state
     this.aiState.resources = { ...gameState.ai.resources };
     this.aiState.fleet = { ...gameState.ai.fleet };
     this.aiState.economy = { ...gameState.ai.economy };
     this.aiState.intelligence = { ...gameState.ai.intelligence };
+
+    // Everything the AI may know about the player goes through this picture
+    this.aiState.intelligencePicture = this.omniscient
+      ? this.intelligenceEngine.buildOmniscientPicture(gameState.player, gameState.turn)
+      : this.intelligenceEngine.buildIntelligencePicture(gameState.ai, gameState.player, gameState.turn);
     
     // Update threat assessment
     this.aiState.threatLevel = this.calculateThreatLevel(gameState);
     this.aiState.economicAdvantage = this.calculateEconomicAdvantage(gameState);
   }
 
-  private calculateThreatLevel(gameState: GameState): number {
-    const playerFleet = gameState.player.fleet.homeSystem;
+  /**
+   * Orders a scan when the AI's picture of the player is too old to act on.
+   * Deep scans are preferred since they also reveal the player's economy.
+   */
+  private planReconnaissance(): AIDecision | null {
+    if (this.aiState.intelligencePicture.confidence >= RECONNAISSANCE_CONFIDENCE) {
+      return null;
+    }
+
+    if (this.aiState.resources.energy >= SCAN_COSTS.deep.energy) {
+      return { type: 'scan', scanType: 'deep' };
+    }
+
+    if (this.aiState.resources.energy >= SCAN_COSTS.basic.energy) {
+      return { type: 'scan', scanType: 'basic' };
+    }
+
+    return null;
+  }
+
+  private calculateThreatLevel(gameState: DuelView): number {
+    const playerFleet = this.aiState.intelligencePicture.enemyFleet;
     const aiFleet = this.aiState.fleet.homeSystem;
     
     const playerStrength = this.calculateFleetStrength(playerFleet);
@@ -150,8 +218,8 @@ export class AIEngine {
     return Math.min(1.0, Math.max(0.0, ratio - 0.5));
   }
 
-  private calculateEconomicAdvantage(gameState: GameState): number {
-    const playerIncome = gameState.player.resources.metalIncome + gameState.player.resources.energyIncome;
+  private calculateEconomicAdvantage(gameState: DuelView): number {
+    const playerIncome = this.aiState.intelligencePicture.enemyIncome.metal + this.aiState.intelligencePicture.enemyIncome.energy;
     const aiIncome = this.aiState.resources.metalIncome + this.aiState.resources.energyIncome;
     
     if (playerIncome + aiIncome === 0) return 0;
@@ -170,4 +238,42 @@ export class AIEngine {
   public getArchetype(): AIArchetype {
     return this.aiState.archetype;
   }
+
+  /**
+   * Whether this AI sees the player's true state instead of its own intelligence
+   */
+  public isOmniscient(): boolean {
+    return this.omniscient;
+  }
+
+  /**
+   * Captures the AI's working state and archetype memory for saving
+   */
+  public getSnapshot(): AIEngineSnapshot {
+    return {
+      archetype: this.aiState.archetype,
+      omniscient: this.omniscient,
+      aiState: JSON.parse(JSON.stringify(this.aiState)),
+      archetypeState: this.aiArchetype.getArchetypeState()
+    };
+  }
+
+  /**
+   * Restores state captured by getSnapshot() into this engine
+   */
+  public restoreSnapshot(snapshot: AIEngineSnapshot): void {
+    if (snapshot.archetype !== this.aiState.archetype) {
+      throw new Error(`AI snapshot is for ${snapshot.archetype}, engine runs ${this.aiState.archetype}`);
+    }
+    if (snapshot.aiState?.archetype !== snapshot.archetype) {
+      throw new Error(`AI snapshot state is for ${snapshot.aiState?.archetype}, expected ${snapshot.archetype}`);
+    }
+
+    this.aiState = JSON.parse(JSON.stringify(snapshot.aiState));
+    if (!this.aiState.intelligencePicture) {
+      // Snapshots from before fog of war carry no picture; the next turn rebuilds it anyway
+      this.aiState.intelligencePicture = this.createEmptyPicture();
+    }
+    this.aiArchetype.restoreArchetypeState(snapshot.archetypeState || {});
+  }
 }
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { FleetComposition } from '../models/GameState.js';
+import { IntelligenceGap } from '../models/Intelligence.js';
+import { RandomSource, defaultRandom } from '../models/Random.js';
+import {
+  CombatResult,
+  resolveCombat,
+  addFleetCompositions,
+  createEmptyFleet,
+  calculateFleetBuildCost,
+  calculateFleetUpkeep
+} from '../models/Fleet.js';
+
+/** Battles fought for a preview unless asked for a different number */
+export const DEFAULT_SIMULATION_TRIALS = 2000;
+
+/** Spread of a fresh scan's counts; every bit of confidence lost since widens it further */
+export const BASE_ESTIMATE_SPREAD = 0.1;
+
+/**
+ * The enemy home fleet as a player's intelligence shows it, with the range each count may really be in
+ */
+export interface EnemyFleetEstimate {
+  fleet: FleetComposition; // as last scanned
+  low: FleetComposition;
+  high: FleetComposition;
+  confidence: number; // 0-1, from the intelligence gap
+  lastScanTurn: number;
+}
+
+export interface SimulationOptions {
+  trials?: number;
+  retreatThreshold?: number;
+}
+
+/**
+ * What an attack is likely to do, averaged over many simulated battles
+ */
+export interface BattlePreview {
+  attackFleet: FleetComposition;
+  retreatThreshold?: number;
+  enemy: EnemyFleetEstimate;
+  trials: number;
+  outcomes: Record<CombatResult['outcome'], number>; // share of battles, 0-1
+  retreatRate: number; // share of battles the attacker broke off
+  expectedCasualties: { attacker: FleetComposition; defender: FleetComposition }; // average ships lost
+  expectedSurvivors: { attacker: FleetComposition; defender: FleetComposition };
+  costs: {
+    upkeepPerTurn: { metal: number; energy: number }; // upkeep of the fleet sent
+    expectedLosses: { metal: number; energy: number }; // build cost of the ships expected to be lost
+    expectedEnemyLosses: { metal: number; energy: number };
+  };
+}
+
+/**
+ * Runs Monte Carlo previews of an attack against an uncertain enemy fleet
+ */
+export class BattleSimulator {
+  private random: RandomSource;
+
+  constructor(random: RandomSource = defaultRandom) {
+    this.random = random;
+  }
+
+  /**
+   * Widens the last known enemy fleet by how stale the intelligence behind it is
+   */
+  estimateEnemyFleet(gap: IntelligenceGap): EnemyFleetEstimate {
+    const spread = BASE_ESTIMATE_SPREAD + (1 - gap.confidence);
+    const widen = (count: number, direction: -1 | 1): number =>
+      direction < 0 ? Math.max(0, Math.floor(count * (1 - spread))) : Math.ceil(count * (1 + spread));
+
+    return {
+      fleet: { ...gap.lastKnownFleet },
+      low: {
+        frigates: widen(gap.lastKnownFleet.frigates, -1),
+        cruisers: widen(gap.lastKnownFleet.cruisers, -1),
+        battleships: widen(gap.lastKnownFleet.battleships, -1)
+      },
+      high: {
+        frigates: widen(gap.lastKnownFleet.frigates, 1),
+        cruisers: widen(gap.lastKnownFleet.cruisers, 1),
+        battleships: widen(gap.lastKnownFleet.battleships, 1)
+      },
+      confidence: gap.confidence,
+      lastScanTurn: gap.lastScanTurn
+    };
+  }
+
+  /**
+   * Fights the attack fleet against enemy fleets drawn from the estimate's ranges and averages the results
+   */
+  simulate(attackFleet: FleetComposition, enemy: EnemyFleetEstimate, options: SimulationOptions = {}): BattlePreview {
+    const trials = options.trials ?? DEFAULT_SIMULATION_TRIALS;
+    const outcomes: Record<CombatResult['outcome'], number> = { decisive_attacker: 0, close_battle: 0, decisive_defender: 0 };
+    let retreats = 0;
+    let attackerCasualties = createEmptyFleet();
+    let defenderCasualties = createEmptyFleet();
+    let attackerSurvivors = createEmptyFleet();
+    let defenderSurvivors = createEmptyFleet();
+
+    for (let i = 0; i < trials; i++) {
+      const defender = this.sampleFleet(enemy.low, enemy.high);
+      const result = resolveCombat(attackFleet, defender, undefined, this.random, {
+        retreatThreshold: options.retreatThreshold
+      });
+
+      outcomes[result.outcome]++;
+      if (result.attackerRetreated) retreats++;
+      attackerCasualties = addFleetCompositions(attackerCasualties, result.attackerCasualties);
+      defenderCasualties = addFleetCompositions(defenderCasualties, result.defenderCasualties);
+      attackerSurvivors = addFleetCompositions(attackerSurvivors, result.attackerSurvivors);
+      defenderSurvivors = addFleetCompositions(defenderSurvivors, result.defenderSurvivors);
+    }
+
+    const average = (fleet: FleetComposition): FleetComposition => ({
+      frigates: fleet.frigates / trials,
+      cruisers: fleet.cruisers / trials,
+      battleships: fleet.battleships / trials
+    });
+    const expectedAttackerCasualties = average(attackerCasualties);
+    const expectedDefenderCasualties = average(defenderCasualties);
+
+    return {
+      attackFleet: { ...attackFleet },
+      ...(options.retreatThreshold !== undefined && { retreatThreshold: options.retreatThreshold }),
+      enemy,
+      trials,
+      outcomes: {
+        decisive_attacker: outcomes.decisive_attacker / trials,
+        close_battle: outcomes.close_battle / trials,
+        decisive_defender: outcomes.decisive_defender / trials
+      },
+      retreatRate: retreats / trials,
+      expectedCasualties: { attacker: expectedAttackerCasualties, defender: expectedDefenderCasualties },
+      expectedSurvivors: { attacker: average(attackerSurvivors), defender: average(defenderSurvivors) },
+      costs: {
+        upkeepPerTurn: calculateFleetUpkeep(attackFleet),
+        expectedLosses: calculateFleetBuildCost(expectedAttackerCasualties),
+        expectedEnemyLosses: calculateFleetBuildCost(expectedDefenderCasualties)
+      }
+    };
+  }
+
+  /**
+   * Draws a fleet with each count uniform between its low and high estimate
+   */
+  private sampleFleet(low: FleetComposition, high: FleetComposition): FleetComposition {
+    const draw = (min: number, max: number): number => min + Math.floor(this.random.next() * (max - min + 1));
+
+    return {
+      frigates: draw(low.frigates, high.frigates),
+      cruisers: draw(low.cruisers, high.cruisers),
+      battleships: draw(low.battleships, high.battleships)
+    };
+  }
+}
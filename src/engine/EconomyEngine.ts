@@ -9,24 +9,57 @@ import {
   canAffordBuildOrder,
   canSustainBuildOrder,
   isStructureViable,
-  BuildOrder
+  calculateCancellationRefund,
+  BuildOrder,
+  BuildableType
 } from '../models/Economy.js';
 import { calculateFleetUpkeep, getTotalFleetSize } from '../models/Fleet.js';
 
+/** One construction queue entry as the player sees it */
+export interface ConstructionStatus {
+  order: BuildOrder;
+  index: number;
+  completionTurn: number;
+  drainPerTurn: { metal: number; energy: number };
+  refund: { metal: number; energy: number };
+}
+
+/** Turns projected when no length is given */
+export const DEFAULT_FORECAST_TURNS = 10;
+
+/** Longest forecast; beyond this the assumption that nothing else changes is meaningless */
+export const MAX_FORECAST_TURNS = 50;
+
+/** One projected turn of a player's economy, as it stands after that turn's income and construction */
+export interface ForecastTurn {
+  turn: number;
+  resources: { metal: number; energy: number };
+  netIncome: { metal: number; energy: number };
+  constructionDrain: { metal: number; energy: number };
+  fleetUpkeep: { metal: number; energy: number };
+  completed: { unitType: BuildableType; quantity: number }[];
+  stalled: boolean;
+  collapsed: boolean; // economic elimination conditions are met at the end of this turn
+}
+
+/** A player's economy projected forward, assuming no new orders and no fleet losses */
+export interface EconomicForecast {
+  turns: ForecastTurn[];
+  collapseTurn: number | null; // first turn the player would be economically eliminated
+}
+
 export class EconomyEngine {
   /**
    * Calculates and updates the player's resource income based on:
    * - Base income (+10,000 Metal/Energy per turn)
    * - Economic structure bonuses (+500 per structure)
+   * - Colony income (what the faction's colonies pay)
    * - Construction drain (resources consumed during building)
    * - Unit upkeep costs (permanent drain from completed units)
    */
   calculateIncome(player: PlayerState): void {
-    // Calculate base income from economic structures
-    const structureIncome = calculateStructureIncome(
-      player.economy.reactors, 
-      player.economy.mines
-    );
+    // Calculate base income from economic structures and colonies
+    const structureIncome = this.getProductionIncome(player);
 
     // Calculate construction drain from active build orders
     const constructionDrain = calculateConstructionDrain(player.economy.constructionQueue);
@@ -56,10 +89,7 @@ export class EconomyEngine {
    * Useful for checking economic viability before making decisions
    */
   getNetIncome(player: PlayerState): { metal: number; energy: number } {
-    const structureIncome = calculateStructureIncome(
-      player.economy.reactors, 
-      player.economy.mines
-    );
+    const structureIncome = this.getProductionIncome(player);
     const constructionDrain = calculateConstructionDrain(player.economy.constructionQueue);
     const fleetUpkeep = calculateFleetUpkeep(player.fleet.homeSystem);
 
@@ -76,12 +106,60 @@ export class EconomyEngine {
     return netIncome.metal <= 0 || netIncome.energy <= 0;
   }
 
+  /**
+   * Checks the economic defeat condition: the economy is stalled and both stockpiles are empty
+   */
+  isEconomicallyEliminated(player: PlayerState): boolean {
+    const hasNoResources = player.resources.metal <= 0 && player.resources.energy <= 0;
+    return this.isEconomyStalled(player) && hasNoResources;
+  }
+
+  /**
+   * Projects the player's economy forward from the end of currentTurn, running the same
+   * income and construction steps as turn processing on a copy of the player. Queued units
+   * and structures start paying upkeep or income on the turn after they complete.
+   */
+  forecast(player: PlayerState, currentTurn: number, turns: number = DEFAULT_FORECAST_TURNS): EconomicForecast {
+    const projected: PlayerState = JSON.parse(JSON.stringify(player));
+    const forecastTurns: ForecastTurn[] = [];
+    let collapseTurn: number | null = null;
+
+    for (let i = 0; i < turns; i++) {
+      const turn = currentTurn + i;
+      const constructionDrain = calculateConstructionDrain(projected.economy.constructionQueue);
+      const fleetUpkeep = calculateFleetUpkeep(projected.fleet.homeSystem);
+      const completed: ForecastTurn['completed'] = [];
+
+      this.calculateIncome(projected);
+      this.processConstruction(projected, order => completed.push({ unitType: order.unitType, quantity: order.quantity }));
+
+      const collapsed = this.isEconomicallyEliminated(projected);
+      if (collapsed && collapseTurn === null) {
+        collapseTurn = turn;
+      }
+
+      forecastTurns.push({
+        turn,
+        resources: { metal: projected.resources.metal, energy: projected.resources.energy },
+        netIncome: { metal: projected.resources.metalIncome, energy: projected.resources.energyIncome },
+        constructionDrain,
+        fleetUpkeep,
+        completed,
+        stalled: this.isEconomyStalled(projected),
+        collapsed
+      });
+    }
+
+    return { turns: forecastTurns, collapseTurn };
+  }
+
   /**
    * Gets detailed income breakdown for display/debugging
    */
   getIncomeBreakdown(player: PlayerState): {
     baseIncome: { metal: number; energy: number };
     structureBonus: { metal: number; energy: number };
+    colonyIncome: { metal: number; energy: number };
     constructionDrain: { metal: number; energy: number };
     fleetUpkeep: { metal: number; energy: number };
     netIncome: { metal: number; energy: number };
@@ -95,6 +173,7 @@ export class EconomyEngine {
       metal: structureIncome.metal - BASE_INCOME.metal,
       energy: structureIncome.energy - BASE_INCOME.energy
     };
+    const colonyIncome = { metal: 0, energy: 0, ...player.economy.colonyIncome };
     const constructionDrain = calculateConstructionDrain(player.economy.constructionQueue);
     const fleetUpkeep = calculateFleetUpkeep(player.fleet.homeSystem);
     const netIncome = this.getNetIncome(player);
@@ -102,6 +181,7 @@ export class EconomyEngine {
     return {
       baseIncome,
       structureBonus,
+      colonyIncome,
       constructionDrain,
       fleetUpkeep,
       netIncome
@@ -114,23 +194,35 @@ export class EconomyEngine {
    * - Completes finished orders and adds units/structures to player
    * - Validates resource availability before processing
    * - Halts production if economy is stalled
+   * onCompleted is called for each order as it is delivered.
    */
-  processConstruction(player: PlayerState): void {
+  processConstruction(player: PlayerState, onCompleted?: (order: BuildOrder) => void): void {
     // Check if economy is stalled - halt all new production
     if (this.isEconomyStalled(player)) {
       // Don't start new construction, but continue existing orders
-      this.advanceExistingConstruction(player);
+      this.advanceExistingConstruction(player, onCompleted);
       return;
     }
 
     // Process existing construction queue
-    this.advanceExistingConstruction(player);
+    this.advanceExistingConstruction(player, onCompleted);
+  }
+
+  /**
+   * What the player's economy produces before drains: base income, structures and colonies
+   */
+  private getProductionIncome(player: PlayerState): { metal: number; energy: number } {
+    const structureIncome = calculateStructureIncome(player.economy.reactors, player.economy.mines);
+    const colonyIncome = player.economy.colonyIncome;
+    return colonyIncome
+      ? { metal: structureIncome.metal + colonyIncome.metal, energy: structureIncome.energy + colonyIncome.energy }
+      : structureIncome;
   }
 
   /**
    * Advances existing construction orders by one turn and completes finished ones
    */
-  private advanceExistingConstruction(player: PlayerState): void {
+  private advanceExistingConstruction(player: PlayerState, onCompleted?: (order: BuildOrder) => void): void {
     const { completedOrders, remainingQueue } = processConstructionQueue(player.economy.constructionQueue);
     
     // Update construction queue
@@ -138,14 +230,14 @@ export class EconomyEngine {
 
     // Apply completed orders to player state
     for (const completedOrder of completedOrders) {
-      this.applyCompletedOrder(player, completedOrder);
+      this.applyCompletedOrder(player, completedOrder, onCompleted);
     }
   }
 
   /**
-   * Applies a completed build order to the player state
+   * Applies a completed build order to the player state and reports the delivery
    */
-  private applyCompletedOrder(player: PlayerState, order: BuildOrder): void {
+  private applyCompletedOrder(player: PlayerState, order: BuildOrder, onCompleted?: (order: BuildOrder) => void): void {
     switch (order.unitType) {
       case 'frigate':
         player.fleet.homeSystem.frigates += order.quantity;
@@ -163,6 +255,8 @@ export class EconomyEngine {
         player.economy.mines += order.quantity;
         break;
     }
+
+    onCompleted?.(order);
   }
 
   /**
@@ -215,10 +309,9 @@ export class EconomyEngine {
     // Check if economy would stall with this order
     const projectedQueue = [...player.economy.constructionQueue, buildOrder];
     const projectedDrain = calculateConstructionDrain(projectedQueue);
-    const structureIncome = calculateStructureIncome(player.economy.reactors, player.economy.mines);
     const fleetUpkeep = calculateFleetUpkeep(player.fleet.homeSystem);
     const projectedNetIncome = calculateNetIncome(
-      calculateNetIncome(structureIncome, projectedDrain),
+      calculateNetIncome(this.getProductionIncome(player), projectedDrain),
       fleetUpkeep
     );
 
@@ -249,6 +342,22 @@ export class EconomyEngine {
     return { success: true, errors: [] };
   }
 
+  /**
+   * Moves a build order to the front of the construction queue by index
+   */
+  prioritizeBuildOrder(player: PlayerState, index: number): {
+    success: boolean;
+    errors: string[];
+  } {
+    if (index < 0 || index >= player.economy.constructionQueue.length) {
+      return { success: false, errors: ['Invalid build order index'] };
+    }
+
+    const [order] = player.economy.constructionQueue.splice(index, 1);
+    player.economy.constructionQueue.unshift(order);
+    return { success: true, errors: [] };
+  }
+
   /**
    * Gets the total construction drain from all active build orders
    */
@@ -264,17 +373,15 @@ export class EconomyEngine {
   }
 
   /**
-   * Gets estimated completion times for all build orders
+   * Gets estimated completion times for all build orders. completionTurn counts turns from now.
    */
-  getConstructionStatus(player: PlayerState): Array<{
-    order: BuildOrder;
-    index: number;
-    completionTurn: number;
-  }> {
+  getConstructionStatus(player: PlayerState): ConstructionStatus[] {
     return player.economy.constructionQueue.map((order, index) => ({
       order,
       index,
-      completionTurn: order.turnsRemaining
+      completionTurn: order.turnsRemaining,
+      drainPerTurn: { ...order.resourceDrainPerTurn },
+      refund: calculateCancellationRefund(order)
     }));
   }
 
@@ -1,20 +1,71 @@
-import { GameState, GamePhase, CombatEvent, FleetComposition } from '../models/GameState.js';
-import { PlayerState, BuildOrder, BuildableType, UnitType, StructureType } from '../models/PlayerState.js';
-import { EconomyEngine } from './EconomyEngine.js';
-import { AIEngine } from './AIEngine.js';
+import { GameState, GamePhase, CombatEvent, FleetComposition, FactionId } from '../models/GameState.js';
+import { SideStatistics, TurnStatistics } from '../models/Statistics.js';
+import { PlayerState, BuildOrder, BuildableType, UnitType, StructureType, StandingOrder } from '../models/PlayerState.js';
+import { EconomyEngine, ConstructionStatus, EconomicForecast, DEFAULT_FORECAST_TURNS } from './EconomyEngine.js';
+import { AIEngine, AIEngineSnapshot } from './AIEngine.js';
 import { IntelligenceEngine } from './IntelligenceEngine.js';
 import { 
   processFleetMovements, 
   processCombatMovement, 
-  checkVictoryConditions,
   checkFleetElimination,
   FleetMovement,
   UNIT_STATS,
-  calculateFleetUpkeep
+  calculateFleetUpkeep,
+  createFleetMovement,
+  createReturningFleet,
+  getMovementTravelTurns,
+  canRecallFleet,
+  addFleetCompositions,
+  createEmptyFleet
 } from '../models/Fleet.js';
 import { AIDecision, AIArchetype } from '../models/AI.js';
-import { ScanType } from '../models/Intelligence.js';
-import { createStructureBuildOrder, createUnitBuildOrder } from '../models/Economy.js';
+import { ScanType, SCAN_COSTS, IntelligenceGap } from '../models/Intelligence.js';
+import { createStructureBuildOrder, createUnitBuildOrder, calculateCancellationRefund, calculateConstructionDrain } from '../models/Economy.js';
+import { SeededRandom, generateSeed } from '../models/Random.js';
+import {
+  Controller,
+  SideProfile,
+  MAX_FACTIONS,
+  toFactionId,
+  validateSideName,
+  findFaction,
+  getFactionIds,
+  getLivingFactions,
+  getRival,
+  viewForSide
+} from '../models/Sides.js';
+import {
+  SystemId,
+  createGalaxy,
+  findSystem,
+  getHomeSystem,
+  getColonies,
+  getColonyIncome,
+  getDistance,
+  getTravelTurns
+} from '../models/Galaxy.js';
+import { GameEvent, GameEventBus, GameEventListener, GameEventType, Side } from './GameEvents.js';
+import {
+  PlayerOrder,
+  OrderResult,
+  StandingPlayerOrder,
+  StandingOrderResult,
+  validateOrder,
+  validateStandingOrder,
+  getBuildOrderCost
+} from './Orders.js';
+import { BattleSimulator, BattlePreview, SimulationOptions } from './BattleSimulator.js';
+
+/** Frigates an AI sends to take a colony; it keeps at least as many at home */
+const AI_COLONY_DETACHMENT = 5;
+
+/** One seat at the table */
+export interface FactionConfig {
+  id?: FactionId; // made from the name when not given
+  name: string;
+  controller: Controller;
+  archetype?: AIArchetype; // how an AI-played faction plays, "hybrid" when not given
+}
 
 export interface GameEngineConfig {
   aiArchetype?: AIArchetype;
@@ -22,35 +73,84 @@ export interface GameEngineConfig {
     metal: number;
     energy: number;
   };
+  seed?: number;
+  omniscientAI?: boolean; // let the AI see the player's true state instead of scanning for it
+  hotseat?: boolean; // a second human plays the AI's side instead of the AI
+  sideNames?: Partial<Record<'player' | 'ai', string>>; // "Player" and "AI", or "Player 1" and "Player 2" in hotseat, unless given
+  factions?: FactionConfig[]; // 2-6 seats for a free-for-all, in seat order; replaces aiArchetype, hotseat and sideNames
 }
 
 export interface TurnResult {
   success: boolean;
   combatEvents: CombatEvent[];
   gameEnded: boolean;
-  winner?: 'player' | 'ai';
+  winner?: Side;
   victoryType?: 'military' | 'economic';
+  aiDecisions: Record<Side, AIDecision>; // what each AI-played faction did this turn
+  orderResults: OrderResult[];
   errors: string[];
 }
 
+export interface GameSnapshot {
+  gameState: GameState;
+  seed: number;
+  randomState: number;
+  aiEngines: Record<Side, AIEngineSnapshot>; // one per AI-played faction
+}
+
+/** What a side's income phase took out of its income */
+interface IncomeDrains {
+  constructionDrain: { metal: number; energy: number };
+  fleetUpkeep: { metal: number; energy: number };
+}
+
+/** Scans a side has made so far this turn */
+interface ScanTally {
+  scans: number;
+  spending: { metal: number; energy: number };
+}
+
+/** A seat with its id worked out */
+type Seat = FactionConfig & { id: FactionId };
+
 export class GameEngine {
   private gameState: GameState;
   private economyEngine: EconomyEngine;
-  private aiEngine: AIEngine;
+  private aiEngines: Record<Side, AIEngine>; // one per AI-played faction, in seat order
   private intelligenceEngine: IntelligenceEngine;
+  private random: SeededRandom;
+  private events: GameEventBus = new GameEventBus();
+  private scanTally: Record<Side, ScanTally>; // not saved; a game loaded mid-turn counts from the load
 
+  /**
+   * Starts a game. Throws when config.factions does not describe a playable table.
+   */
   constructor(config: GameEngineConfig = {}) {
+    const seats = createSeats(config);
+    this.random = new SeededRandom(config.seed ?? generateSeed());
     this.economyEngine = new EconomyEngine();
-    this.aiEngine = new AIEngine(config.aiArchetype || 'hybrid');
-    this.intelligenceEngine = new IntelligenceEngine();
+    this.aiEngines = this.createAIEngines(seats, config.omniscientAI);
+    this.intelligenceEngine = new IntelligenceEngine(this.random);
     
-    this.gameState = this.initializeGameState(config);
+    this.gameState = this.initializeGameState(config, seats);
+    this.scanTally = createScanTally(seats.map(seat => seat.id));
+  }
+
+  /**
+   * Creates the AI that plays each AI-played seat
+   */
+  private createAIEngines(seats: Seat[], omniscient?: boolean): Record<Side, AIEngine> {
+    const aiEngines: Record<Side, AIEngine> = {};
+    for (const seat of seats.filter(seat => seat.controller === 'ai')) {
+      aiEngines[seat.id] = new AIEngine(seat.archetype || 'hybrid', this.random, omniscient);
+    }
+    return aiEngines;
   }
 
   /**
    * Initializes a new game state with default values
    */
-  private initializeGameState(config: GameEngineConfig): GameState {
+  private initializeGameState(config: GameEngineConfig, seats: Seat[]): GameState {
     const startingResources = config.startingResources || { metal: 10000, energy: 10000 };
     
     const createInitialPlayerState = (): PlayerState => ({
@@ -68,7 +168,8 @@ export class GameEngine {
         },
         inTransit: {
           outbound: []
-        }
+        },
+        nextFleetId: 1
       },
       economy: {
         reactors: 0,
@@ -85,40 +186,60 @@ export class GameEngine {
         scanAccuracy: 0.7,
         scanHistory: [],
         misinformationChance: 0.2
+      },
+      standingOrders: {
+        orders: [],
+        nextId: 1
       }
     });
 
+    const factions: Record<Side, PlayerState> = {};
+    const sides: Record<Side, SideProfile> = {};
+    for (const seat of seats) {
+      factions[seat.id] = createInitialPlayerState();
+      sides[seat.id] = { name: seat.name, controller: seat.controller };
+    }
+
     return {
       turn: 1,
-      player: createInitialPlayerState(),
-      ai: createInitialPlayerState(),
+      factions,
+      sides,
+      galaxy: createGalaxy(seats.map(seat => seat.id)),
       combatLog: [],
+      history: [],
       gamePhase: 'early',
       isGameOver: false,
-      playerHasBeenAttacked: false,
-      aiHasBeenAttacked: false
+      attacked: [],
+      eliminated: []
     };
   }
 
   /**
    * Processes a complete game turn following the turn sequence:
-   * Start → Income → Actions → AI → Combat → Victory → Next
+   * Start → Actions → Income → AI → Combat → Victory → Next
+   * Orders given here are the "player" faction's, applied exactly as if they had been passed to
+   * applyOrder() during the turn; orders already applied that way must not be passed again. Other
+   * human-played factions give their orders through applyOrder(); AI-played ones move in the AI phase.
    */
-  public processTurn(playerActions?: any[]): TurnResult {
+  public processTurn(orders: PlayerOrder[] = []): TurnResult {
     const errors: string[] = [];
     const combatEvents: CombatEvent[] = [];
+    const orderResults: OrderResult[] = [];
 
     try {
       // 1. Start Phase - Process turn start
+      this.emit({ type: 'TurnStarted', turn: this.gameState.turn, phase: this.gameState.gamePhase });
+
+      // 2. Actions Phase - Validate and apply player orders in the order given
+      for (const order of orders) {
+        orderResults.push(this.applyOrder(order));
+      }
+
+      // 3. Income Phase - Calculate and apply resource income
+      const incomeDrains = this.processIncomePhase();
       
-      // 2. Income Phase - Calculate and apply resource income
-      this.processIncomePhase();
-      
-      // 3. Actions Phase - Process player actions (handled externally, state already updated)
-      // Player actions are processed before calling this method
-      
-      // 4. AI Phase - Process AI decision and actions
-      const aiDecision = this.processAIPhase();
+      // 4. AI Phase - Each AI-played faction decides and acts
+      const aiDecisions = this.processAIPhase();
       
       // 5. Combat Phase - Resolve all fleet movements and combat
       const combatResults = this.processCombatPhase();
@@ -126,7 +247,16 @@ export class GameEngine {
       
       // 6. Victory Phase - Check for game end conditions
       const victoryResult = this.checkVictoryConditions();
-      
+      this.recordTurnStatistics(incomeDrains, combatResults);
+      if (victoryResult.gameEnded && victoryResult.winner && victoryResult.victoryType) {
+        this.emit({
+          type: 'GameOver',
+          turn: this.gameState.turn,
+          winner: victoryResult.winner,
+          victoryType: victoryResult.victoryType
+        });
+      }
+
       // 7. Next Phase - Prepare for next turn
       if (!victoryResult.gameEnded) {
         this.prepareNextTurn();
@@ -140,6 +270,8 @@ export class GameEngine {
         gameEnded: victoryResult.gameEnded,
         winner: victoryResult.winner,
         victoryType: victoryResult.victoryType,
+        aiDecisions,
+        orderResults,
         errors
       };
 
@@ -149,16 +281,395 @@ export class GameEngine {
         success: false,
         combatEvents,
         gameEnded: false,
+        aiDecisions: {},
+        orderResults,
         errors
       };
     }
   }
 
+  /**
+   * Validates an order from a human-played side and, if it is legal, applies it to the game
+   * straight away. Frontends call this as orders are given so players see the effect immediately.
+   */
+  public applyOrder(order: PlayerOrder, side: Side = 'player'): OrderResult {
+    const validation = this.validateOrder(order, side);
+    if (!validation.isValid) {
+      return {
+        order,
+        success: false,
+        message: validation.errors.join('; '),
+        errors: validation.errors
+      };
+    }
+
+    let message: string;
+    switch (order.type) {
+      case 'build':
+        message = this.applyBuildOrder(side, order.buildType, order.quantity);
+        break;
+
+      case 'attack':
+        message = this.applyAttackOrder(side, order.attackFleet, this.resolveTarget(side, order.target).target!, order.retreatThreshold);
+        break;
+
+      case 'scan':
+        message = this.applyScanOrder(side, order.scanType, this.resolveOpponent(side, order.target, 'scan').faction!);
+        break;
+
+      case 'recall':
+        message = this.applyRecallOrder(side, order.fleetId);
+        break;
+
+      case 'cancel':
+        message = this.applyCancelOrder(side, order.position);
+        break;
+
+      case 'prioritize':
+        message = this.applyPrioritizeOrder(side, order.position);
+        break;
+    }
+
+    return { order, success: true, message, errors: [] };
+  }
+
+  /**
+   * Checks an order from a side against the current state without applying it. Only sides a
+   * human plays take orders, and only while they are still in the game.
+   */
+  public validateOrder(order: PlayerOrder, side: Side = 'player'): { isValid: boolean; errors: string[] } {
+    const profile = this.gameState.sides[side];
+    if (!profile) {
+      return { isValid: false, errors: [`No faction ${side} in this game`] };
+    }
+    if (profile.controller !== 'human') {
+      return { isValid: false, errors: [`${profile.name} is played by the AI and takes no orders`] };
+    }
+    if (this.gameState.eliminated.includes(side)) {
+      return { isValid: false, errors: [`${profile.name} has been eliminated`] };
+    }
+
+    const validation = validateOrder(order, this.gameState.factions[side], this.gameState.turn);
+    if (validation.isValid && order.type === 'attack') {
+      const { errors } = this.resolveTarget(side, order.target);
+      return { isValid: errors.length === 0, errors };
+    }
+    if (validation.isValid && order.type === 'scan') {
+      const { errors } = this.resolveOpponent(side, order.target, 'scan');
+      return { isValid: errors.length === 0, errors };
+    }
+    return validation;
+  }
+
+  /**
+   * Works out which opponent an order is aimed at: the faction named, by id or name, or the only
+   * opponent left when nothing is named
+   */
+  private resolveOpponent(side: Side, reference: string | undefined, action: 'attack' | 'scan'): { faction?: Side; errors: string[] } {
+    const opponents = getLivingFactions(this.gameState).filter(faction => faction !== side);
+    if (reference === undefined) {
+      return opponents.length === 1
+        ? { faction: opponents[0], errors: [] }
+        : { errors: [`Name the faction to ${action}: ${opponents.map(faction => this.gameState.sides[faction].name).join(', ')}`] };
+    }
+
+    const faction = findFaction(this.gameState, reference);
+    if (faction === undefined) {
+      return { errors: [`No faction called ${reference}`] };
+    }
+    if (faction === side) {
+      return { errors: [`A faction cannot ${action} itself`] };
+    }
+    if (!opponents.includes(faction)) {
+      return { errors: [`${this.gameState.sides[faction].name} has already been eliminated`] };
+    }
+    return { faction, errors: [] };
+  }
+
+  /**
+   * Works out which system a fleet is sent to: the home system of the faction named, the system
+   * named, or the home system of the only opponent left when nothing is named. Factions are
+   * looked up before systems, by id or name.
+   */
+  private resolveTarget(side: Side, reference: string | undefined): { target?: SystemId; errors: string[] } {
+    const galaxy = this.gameState.galaxy;
+    const opponents = getLivingFactions(this.gameState).filter(faction => faction !== side);
+    if (reference === undefined) {
+      const { faction, errors } = this.resolveOpponent(side, undefined, 'attack');
+      return faction !== undefined ? { target: getHomeSystem(galaxy, faction), errors: [] } : { errors };
+    }
+
+    const faction = findFaction(this.gameState, reference);
+    const target = faction !== undefined ? getHomeSystem(galaxy, faction) : findSystem(galaxy, reference);
+    if (target === undefined) {
+      return { errors: [`No faction or system called ${reference}`] };
+    }
+
+    const system = galaxy.systems[target];
+    if (system.owner === side) {
+      return { errors: [system.home ? 'A faction cannot attack itself' : `${system.name} is already yours`] };
+    }
+    if (system.home && !opponents.includes(system.owner!)) {
+      return { errors: [`${this.gameState.sides[system.owner!].name} has already been eliminated`] };
+    }
+    return { target, errors: [] };
+  }
+
+  /**
+   * Pays for a validated build order up front and queues it
+   */
+  private applyBuildOrder(side: Side, buildType: BuildableType, quantity: number): string {
+    const player = this.gameState.factions[side];
+    const cost = getBuildOrderCost(player, buildType, quantity);
+    const buildOrder = this.createBuildOrder(side, buildType, quantity);
+
+    player.resources.metal -= cost.metal;
+    player.resources.energy -= cost.energy;
+    player.economy.constructionQueue.push(buildOrder);
+
+    return `Started building ${quantity} ${buildType}(s). Cost: ${cost.metal} Metal, ${cost.energy} Energy`;
+  }
+
+  /**
+   * Creates the queue entry for a build order at the side's current structure counts
+   */
+  private createBuildOrder(side: Side, buildType: BuildableType, quantity: number): BuildOrder {
+    const player = this.gameState.factions[side];
+
+    return buildType === 'reactor' || buildType === 'mine'
+      ? this.createStructureBuildOrderInternal(buildType, quantity, buildType === 'reactor' ? player.economy.reactors : player.economy.mines)
+      : this.createUnitBuildOrderInternal(buildType, quantity);
+  }
+
+  /**
+   * Removes a validated build order from the queue and refunds its unspent up-front payment
+   */
+  private applyCancelOrder(side: Side, position: number): string {
+    const player = this.gameState.factions[side];
+    const order = player.economy.constructionQueue[position - 1];
+    const refund = calculateCancellationRefund(order);
+
+    this.economyEngine.cancelBuildOrder(player, position - 1);
+    player.resources.metal += refund.metal;
+    player.resources.energy += refund.energy;
+
+    this.emit({
+      type: 'ConstructionCancelled',
+      turn: this.gameState.turn,
+      side,
+      unitType: order.unitType,
+      quantity: order.quantity,
+      refund
+    });
+
+    return `Cancelled ${order.quantity} ${order.unitType}(s). Refunded: ${refund.metal} Metal, ${refund.energy} Energy`;
+  }
+
+  /**
+   * Moves a validated build order to the front of the queue
+   */
+  private applyPrioritizeOrder(side: Side, position: number): string {
+    const player = this.gameState.factions[side];
+    const order = player.economy.constructionQueue[position - 1];
+
+    this.economyEngine.prioritizeBuildOrder(player, position - 1);
+
+    return `Moved ${order.quantity} ${order.unitType}(s) to the front of the construction queue`;
+  }
+
+  /**
+   * Sends a validated attack fleet on its way
+   */
+  private applyAttackOrder(side: Side, attackFleet: FleetComposition, target: SystemId, retreatThreshold?: number): string {
+    const movement = this.launchFleet(side, attackFleet, target, retreatThreshold);
+
+    const system = this.gameState.galaxy.systems[target];
+    const destination = system.home ? `${this.gameState.sides[system.owner!].name} at ${system.name}` : system.name;
+    const totalShips = attackFleet.frigates + attackFleet.cruisers + attackFleet.battleships;
+    return `Fleet launched! ${totalShips} ships en route to ${destination} as fleet ${movement.id}. Arrival: Turn ${movement.arrivalTurn}, Return: Turn ${movement.returnTurn}`;
+  }
+
+  /**
+   * Takes a fleet out of a faction's home system and sends it to another system, taking as long
+   * as its slowest ship needs for the distance
+   */
+  private launchFleet(side: Side, attackFleet: FleetComposition, target: SystemId, retreatThreshold?: number): FleetMovement {
+    const homeFleet = this.gameState.factions[side].fleet.homeSystem;
+    homeFleet.frigates -= attackFleet.frigates;
+    homeFleet.cruisers -= attackFleet.cruisers;
+    homeFleet.battleships -= attackFleet.battleships;
+
+    const home = getHomeSystem(this.gameState.galaxy, side);
+    const travelTurns = getTravelTurns(getDistance(this.gameState.galaxy, home, target), attackFleet);
+    const movement = createFleetMovement({ ...attackFleet }, home, target, this.gameState.turn, this.takeFleetId(side), travelTurns);
+    if (retreatThreshold !== undefined) {
+      movement.retreatThreshold = retreatThreshold;
+    }
+
+    this.gameState.factions[side].fleet.inTransit.outbound.push(movement);
+    this.emit({
+      type: 'FleetLaunched',
+      turn: this.gameState.turn,
+      side,
+      fleetId: movement.id,
+      composition: { ...attackFleet },
+      target,
+      arrivalTurn: movement.arrivalTurn
+    });
+
+    return movement;
+  }
+
+  /**
+   * Turns validated outbound fleets around; they take as long to get home as they have been
+   * under way, at least a turn
+   */
+  private applyRecallOrder(side: Side, fleetId: number | 'all'): string {
+    const turn = this.gameState.turn;
+    const recalled: FleetMovement[] = [];
+    const fleet = this.gameState.factions[side].fleet;
+
+    fleet.inTransit.outbound = fleet.inTransit.outbound.map(movement => {
+      if ((fleetId !== 'all' && movement.id !== fleetId) || !canRecallFleet(movement, turn)) {
+        return movement;
+      }
+
+      // Validation guarantees a non-empty fleet, so there is always a returning movement
+      const launchTurn = movement.arrivalTurn - getMovementTravelTurns(movement);
+      const returning = createReturningFleet(movement.composition, movement, turn, Math.max(1, turn - launchTurn))!;
+      recalled.push(returning);
+      this.emit({
+        type: 'FleetRecalled',
+        turn,
+        side,
+        fleetId: returning.id,
+        composition: { ...returning.composition },
+        arrivalTurn: returning.arrivalTurn
+      });
+      return returning;
+    });
+
+    const totalShips = recalled.reduce((total, movement) =>
+      total + movement.composition.frigates + movement.composition.cruisers + movement.composition.battleships, 0);
+    const fleets = recalled.map(movement => movement.id).join(', ');
+    const arrivals = recalled.map(movement => movement.arrivalTurn);
+    const when = Math.min(...arrivals) === Math.max(...arrivals) ? 'on' : 'by';
+    return `Recalled fleet${recalled.length === 1 ? '' : 's'} ${fleets}: ${totalShips} ships return home ${when} Turn ${Math.max(...arrivals)}`;
+  }
+
+  /**
+   * Hands out the next fleet number for one side. Numbers are never reused within a game.
+   */
+  private takeFleetId(side: Side): number {
+    const fleet = this.gameState.factions[side].fleet;
+    return fleet.nextFleetId++;
+  }
+
+  /**
+   * Pays for a validated scan of the target faction, records what it found and returns the report
+   */
+  private applyScanOrder(side: Side, scanType: ScanType, target: Side): string {
+    const player = this.gameState.factions[side];
+    player.resources.energy -= SCAN_COSTS[scanType].energy;
+    this.tallyScan(side, scanType);
+
+    const scan = this.performScan(target, scanType);
+
+    player.intelligence.lastScanTurn = this.gameState.turn;
+    player.intelligence.knownEnemyFleet = {
+      frigates: scan.fleetData.frigates || 0,
+      cruisers: scan.fleetData.cruisers || 0,
+      battleships: scan.fleetData.battleships || 0
+    };
+    player.intelligence.scannedFaction = target;
+
+    this.emit({ type: 'ScanPerformed', turn: this.gameState.turn, side, scanType });
+
+    return scan.message;
+  }
+
+  /**
+   * Rolls what a human player's scan sees of the target side
+   */
+  private performScan(target: Side, scanType: ScanType): { fleetData: FleetComposition; message: string } {
+    const ai = this.gameState.factions[target];
+    const aiFleet = ai.fleet.homeSystem;
+    const totalShips = aiFleet.frigates + aiFleet.cruisers + aiFleet.battleships;
+
+    switch (scanType) {
+      case 'basic': {
+        // Basic scan: total fleet count with ±30% accuracy
+        const accuracy = 0.7 + (this.random.next() - 0.5) * 0.6; // 0.4 to 1.0
+        const reportedTotal = Math.max(0, Math.round(totalShips * accuracy));
+        return {
+          fleetData: { frigates: reportedTotal, cruisers: 0, battleships: 0 },
+          message: `Enemy fleet detected: approximately ${reportedTotal} ships`
+        };
+      }
+
+      case 'deep': {
+        // Deep scan: unit composition with ±10% accuracy
+        const applyAccuracy = (value: number): number => {
+          const factor = 0.9 + this.random.next() * 0.2; // 0.9 to 1.1
+          return Math.max(0, Math.round(value * factor));
+        };
+
+        const fleetData = {
+          frigates: applyAccuracy(aiFleet.frigates),
+          cruisers: applyAccuracy(aiFleet.cruisers),
+          battleships: applyAccuracy(aiFleet.battleships)
+        };
+        return {
+          fleetData,
+          message: `Detailed scan complete: ${fleetData.frigates} Frigates, ${fleetData.cruisers} Cruisers, ${fleetData.battleships} Battleships. Economic structures: ${ai.economy.reactors} Reactors, ${ai.economy.mines} Mines`
+        };
+      }
+
+      case 'advanced': {
+        // Advanced scan: strategic intent
+        const intent = this.determineIntent(target);
+        return {
+          fleetData: {
+            frigates: Math.floor(totalShips * 0.5),
+            cruisers: Math.floor(totalShips * 0.3),
+            battleships: Math.floor(totalShips * 0.2)
+          },
+          message: `Advanced scan reveals: ${intent}. Estimated fleet composition provided.`
+        };
+      }
+    }
+  }
+
+  /**
+   * Determines a side's strategic intent for advanced scans
+   */
+  private determineIntent(side: Side): string {
+    const ai = this.gameState.factions[side];
+    const name = this.gameState.sides[side].name;
+    const aiFleet = ai.fleet.homeSystem;
+    const totalShips = aiFleet.frigates + aiFleet.cruisers + aiFleet.battleships;
+    const aiIncome = ai.resources.metalIncome + ai.resources.energyIncome;
+    const structures = ai.economy.reactors + ai.economy.mines;
+
+    if (totalShips > 100) {
+      return `${name} is preparing for major offensive operations`;
+    } else if (structures > 3) {
+      return `${name} is focusing on economic expansion`;
+    } else if (aiIncome > 25000) {
+      return `${name} has strong economic foundation, likely planning military buildup`;
+    } else if (totalShips < 20) {
+      return `${name} appears to be in defensive posture`;
+    } else {
+      return `${name} strategy unclear - balanced military and economic development`;
+    }
+  }
+
   /**
    * Updates the game phase based on turn number and game state
    */
   private updateGamePhase(): void {
     const turn = this.gameState.turn;
+    const previousPhase = this.gameState.gamePhase;
     
     if (turn <= 5) {
       this.gameState.gamePhase = 'early';
@@ -169,57 +680,157 @@ export class GameEngine {
     } else {
       this.gameState.gamePhase = 'endgame';
     }
+
+    if (this.gameState.gamePhase !== previousPhase) {
+      this.emit({ type: 'PhaseChanged', turn, from: previousPhase, to: this.gameState.gamePhase });
+    }
   }
 
   /**
-   * Processes the income phase for both player and AI
+   * Processes the income phase for every faction still in the game
    */
-  private processIncomePhase(): void {
-    // Process player income
-    this.economyEngine.calculateIncome(this.gameState.player);
-    this.economyEngine.processConstruction(this.gameState.player);
-    
-    // Process AI income
-    this.economyEngine.calculateIncome(this.gameState.ai);
-    this.economyEngine.processConstruction(this.gameState.ai);
-    
+  private processIncomePhase(): Record<Side, IncomeDrains> {
+    const drains: Record<Side, IncomeDrains> = {};
+    const living = getLivingFactions(this.gameState);
+
+    for (const side of living) {
+      drains[side] = this.applyIncome(side);
+    }
+
     // Age intelligence data
-    this.intelligenceEngine.ageIntelligenceData(this.gameState.player, this.gameState.turn);
-    this.intelligenceEngine.ageIntelligenceData(this.gameState.ai, this.gameState.turn);
+    for (const side of living) {
+      this.intelligenceEngine.ageIntelligenceData(this.gameState.factions[side], this.gameState.turn);
+    }
+
+    return drains;
   }
 
   /**
-   * Processes AI decision making and actions
+   * Applies one side's income and advances its construction queue, returning what was taken
+   * out of the income
    */
-  private processAIPhase(): AIDecision {
-    const aiDecision = this.aiEngine.processTurn(this.gameState);
-    
-    // Apply AI decision to game state
-    this.applyAIDecision(aiDecision);
-    
-    return aiDecision;
+  private applyIncome(side: Side): IncomeDrains {
+    const player = this.gameState.factions[side];
+    const turn = this.gameState.turn;
+    const drains: IncomeDrains = {
+      constructionDrain: calculateConstructionDrain(player.economy.constructionQueue),
+      fleetUpkeep: calculateFleetUpkeep(player.fleet.homeSystem)
+    };
+
+    this.economyEngine.calculateIncome(player);
+    this.emit({
+      type: 'IncomeApplied',
+      turn,
+      side,
+      metalIncome: player.resources.metalIncome,
+      energyIncome: player.resources.energyIncome,
+      metal: player.resources.metal,
+      energy: player.resources.energy
+    });
+
+    this.economyEngine.processConstruction(player, order => this.emit({
+      type: 'ConstructionCompleted',
+      turn,
+      side,
+      unitType: order.unitType,
+      quantity: order.quantity
+    }));
+
+    return drains;
   }
 
   /**
-   * Applies AI decision to the game state
+   * Lets each AI-played faction still in the game decide and act, in seat order. Each AI
+   * plays against its rival, seeing the game as the "ai" side of a DuelView.
    */
-  private applyAIDecision(decision: AIDecision): void {
+  private processAIPhase(): Record<Side, AIDecision> {
+    const decisions: Record<Side, AIDecision> = {};
+
+    for (const [side, aiEngine] of Object.entries(this.aiEngines)) {
+      if (this.gameState.eliminated.includes(side)) {
+        continue;
+      }
+
+      const rival = this.chooseAIOpponent(side);
+      decisions[side] = aiEngine.processTurn(viewForSide(this.gameState, rival, side));
+      this.applyAIDecision(side, rival, decisions[side]);
+      this.sendAIColonyFleet(side);
+    }
+
+    return decisions;
+  }
+
+  /**
+   * The faction an AI plays against this turn: whoever attacked it last and is still in the
+   * game, otherwise the opponent holding the most systems on the map, the next in seat order on
+   * a tie. Ownership is public, so no AI learns more than a player could. In a duel this is
+   * always the other side.
+   */
+  private chooseAIOpponent(side: Side): Side {
+    const opponents = getLivingFactions(this.gameState).filter(faction => faction !== side);
+    if (opponents.length === 0) {
+      return getRival(this.gameState, side);
+    }
+
+    const lastAttack = [...this.gameState.combatLog].reverse()
+      .find(event => event.defender === side && opponents.includes(event.attacker));
+    if (lastAttack) {
+      return lastAttack.attacker;
+    }
+
+    const seats = getFactionIds(this.gameState);
+    const seat = seats.indexOf(side);
+    const systems = Object.values(this.gameState.galaxy.systems);
+    const held = (faction: Side) => systems.filter(system => system.owner === faction).length;
+    return [...seats.slice(seat + 1), ...seats.slice(0, seat)]
+      .filter(faction => opponents.includes(faction))
+      .reduce((leader, faction) => held(faction) > held(leader) ? faction : leader);
+  }
+
+  /**
+   * Sends a detachment of frigates from an AI's home to the nearest colony it does not hold,
+   * unowned or someone else's, unless one is already on its way or it cannot spare the ships.
+   * Colonies have no defences, so the detachment takes the colony on arrival.
+   */
+  private sendAIColonyFleet(side: Side): void {
+    const { galaxy } = this.gameState;
+    const fleet = this.gameState.factions[side].fleet;
+    const underway = fleet.inTransit.outbound.some(movement => !galaxy.systems[movement.target].home);
+    if (underway || fleet.homeSystem.frigates < AI_COLONY_DETACHMENT * 2) {
+      return;
+    }
+
+    const home = getHomeSystem(galaxy, side);
+    const target = Object.keys(galaxy.systems)
+      .filter(id => !galaxy.systems[id].home && galaxy.systems[id].owner !== side)
+      .reduce<SystemId | undefined>((nearest, id) =>
+        nearest === undefined || getDistance(galaxy, home, id) < getDistance(galaxy, home, nearest) ? id : nearest, undefined);
+    if (target !== undefined) {
+      this.launchFleet(side, { ...createEmptyFleet(), frigates: AI_COLONY_DETACHMENT }, target);
+    }
+  }
+
+  /**
+   * Applies an AI decision to the game state. Attacks and scans are aimed at the opponent the
+   * decision was made against.
+   */
+  private applyAIDecision(side: Side, rival: Side, decision: AIDecision): void {
     switch (decision.type) {
       case 'build':
         if (decision.buildType && decision.buildQuantity) {
-          this.applyAIBuildDecision(decision.buildType, decision.buildQuantity);
+          this.economyEngine.addBuildOrder(this.gameState.factions[side], this.createBuildOrder(side, decision.buildType, decision.buildQuantity));
         }
         break;
 
       case 'attack':
         if (decision.attackFleet && decision.attackTarget) {
-          this.applyAIAttackDecision(decision.attackFleet, decision.attackTarget);
+          this.applyAIAttackDecision(side, decision.attackFleet, getHomeSystem(this.gameState.galaxy, rival));
         }
         break;
 
       case 'scan':
         if (decision.scanType) {
-          this.applyAIScanDecision(decision.scanType);
+          this.applyAIScanDecision(side, rival, decision.scanType);
         }
         break;
 
@@ -229,68 +840,34 @@ export class GameEngine {
     }
   }
 
-  /**
-   * Applies AI build decision
-   */
-  private applyAIBuildDecision(buildType: BuildableType, quantity: number): void {
-    // Create appropriate build order based on type
-    let buildOrder: BuildOrder;
-
-    if (buildType === 'reactor' || buildType === 'mine') {
-      // Structure build order
-      const currentCount = buildType === 'reactor' ? 
-        this.gameState.ai.economy.reactors : 
-        this.gameState.ai.economy.mines;
-      
-      buildOrder = this.createStructureBuildOrderInternal(buildType, quantity, currentCount);
-    } else {
-      // Unit build order
-      buildOrder = this.createUnitBuildOrderInternal(buildType, quantity);
-    }
-
-    // Add to AI construction queue
-    this.economyEngine.addBuildOrder(this.gameState.ai, buildOrder);
-  }
-
   /**
    * Applies AI attack decision
    */
-  private applyAIAttackDecision(attackFleet: FleetComposition, target: string): void {
+  private applyAIAttackDecision(side: Side, attackFleet: FleetComposition, target: SystemId): void {
     // Validate AI has the fleet to send
-    const aiFleet = this.gameState.ai.fleet.homeSystem;
+    const aiFleet = this.gameState.factions[side].fleet.homeSystem;
     if (aiFleet.frigates >= attackFleet.frigates &&
         aiFleet.cruisers >= attackFleet.cruisers &&
         aiFleet.battleships >= attackFleet.battleships) {
-      
-      // Deduct fleet from home system
-      aiFleet.frigates -= attackFleet.frigates;
-      aiFleet.cruisers -= attackFleet.cruisers;
-      aiFleet.battleships -= attackFleet.battleships;
-      
-      // Create fleet movement
-      const movement: FleetMovement = {
-        composition: attackFleet,
-        target,
-        arrivalTurn: this.gameState.turn + 1,
-        returnTurn: this.gameState.turn + 3,
-        missionType: 'outbound'
-      };
-      
-      // Add to outbound movements
-      this.gameState.ai.fleet.inTransit.outbound.push(movement);
+      this.launchFleet(side, attackFleet, target);
     }
   }
 
   /**
    * Applies AI scan decision
    */
-  private applyAIScanDecision(scanType: ScanType): void {
-    this.intelligenceEngine.performScan(
-      this.gameState.ai,
-      this.gameState.player,
+  private applyAIScanDecision(side: Side, target: Side, scanType: ScanType): void {
+    const scan = this.intelligenceEngine.performScan(
+      this.gameState.factions[side],
+      this.gameState.factions[target],
       scanType,
       this.gameState.turn
     );
+    if (scan) {
+      this.tallyScan(side, scanType);
+      this.gameState.factions[side].intelligence.scannedFaction = target;
+    }
+    this.emit({ type: 'ScanPerformed', turn: this.gameState.turn, side, scanType });
   }
 
   /**
@@ -314,13 +891,10 @@ export class GameEngine {
   private processCombatPhase(): CombatEvent[] {
     const combatEvents: CombatEvent[] = [];
 
-    // Process player fleet movements
-    const playerCombatEvents = this.processPlayerFleetMovements();
-    combatEvents.push(...playerCombatEvents);
-
-    // Process AI fleet movements
-    const aiCombatEvents = this.processAIFleetMovements();
-    combatEvents.push(...aiCombatEvents);
+    // Each faction's fleets move in seat order
+    for (const side of getLivingFactions(this.gameState)) {
+      combatEvents.push(...this.resolveFleetMovements(side));
+    }
 
     // Store combat events in game state
     this.gameState.combatLog.push(...combatEvents);
@@ -329,74 +903,64 @@ export class GameEngine {
   }
 
   /**
-   * Processes player fleet movements and combat
+   * Moves one faction's fleets: attacks that reach an enemy home system fight its home fleet,
+   * fleets that reach a colony take it and turn back, and fleets that reach home rejoin the
+   * home fleet
    */
-  private processPlayerFleetMovements(): CombatEvent[] {
+  private resolveFleetMovements(side: Side): CombatEvent[] {
     const combatEvents: CombatEvent[] = [];
-    const playerMovements = this.gameState.player.fleet.inTransit.outbound;
+    const fleet = this.gameState.factions[side].fleet;
     
     const { updated, combatMovements, returning } = processFleetMovements(
-      playerMovements,
+      fleet.inTransit.outbound,
       this.gameState.turn
     );
 
-    // Update player movements
-    this.gameState.player.fleet.inTransit.outbound = updated;
+    fleet.inTransit.outbound = updated;
 
-    // Process combat movements
+    // Process fleets reaching their target
     for (const movement of combatMovements) {
-      const combatResult = processCombatMovement(
-        movement,
-        this.gameState.ai.fleet.homeSystem,
-        this.gameState.turn
-      );
-
-      // Update AI home fleet with combat results
-      this.gameState.ai.fleet.homeSystem = combatResult.updatedDefenderFleet;
-
-      // Add returning fleet if any survivors
-      if (combatResult.returningFleet) {
-        this.gameState.player.fleet.inTransit.outbound.push(combatResult.returningFleet);
-      }
-
-      // Mark AI as having been attacked
-      this.gameState.aiHasBeenAttacked = true;
-
-      // Return operational costs for destroyed ships to both players
-      this.returnOperationalCosts(this.gameState.player, combatResult.combatResult.attackerCasualties);
-      this.returnOperationalCosts(this.gameState.ai, combatResult.combatResult.defenderCasualties);
-
-      // Create combat event
-      const combatEvent: CombatEvent = {
+      const system = this.gameState.galaxy.systems[movement.target];
+      this.emit({
+        type: 'FleetArrived',
         turn: this.gameState.turn,
-        attacker: 'player',
-        attackerFleet: movement.composition,
-        defenderFleet: this.gameState.ai.fleet.homeSystem,
-        outcome: combatResult.combatResult.outcome,
-        casualties: {
-          attacker: combatResult.combatResult.attackerCasualties,
-          defender: combatResult.combatResult.defenderCasualties
-        },
-        survivors: {
-          attacker: combatResult.combatResult.attackerSurvivors,
-          defender: combatResult.combatResult.defenderSurvivors
-        }
-      };
+        side,
+        fleetId: movement.id,
+        composition: { ...movement.composition },
+        destination: system.home ? 'enemy' : 'colony'
+      });
+
+      if (system.home && getLivingFactions(this.gameState).includes(system.owner!)) {
+        combatEvents.push(this.resolveAttack(side, movement));
+        continue;
+      }
 
-      combatEvents.push(combatEvent);
+      // A colony has no defences of its own; an enemy home whose faction is out of the game has nobody left to fight
+      if (!system.home && system.owner !== side) {
+        this.claimSystem(side, movement.target);
+      }
+      fleet.inTransit.outbound.push(createReturningFleet(movement.composition, movement, this.gameState.turn)!);
     }
 
     // Process returning fleets
     for (const returningFleet of returning) {
       if (returningFleet.arrivalTurn <= this.gameState.turn) {
         // Fleet has returned home
-        const homeFleet = this.gameState.player.fleet.homeSystem;
+        const homeFleet = fleet.homeSystem;
         homeFleet.frigates += returningFleet.composition.frigates;
         homeFleet.cruisers += returningFleet.composition.cruisers;
         homeFleet.battleships += returningFleet.composition.battleships;
+        this.emit({
+          type: 'FleetArrived',
+          turn: this.gameState.turn,
+          side,
+          fleetId: returningFleet.id,
+          composition: { ...returningFleet.composition },
+          destination: 'home'
+        });
       } else {
         // Fleet still returning
-        this.gameState.player.fleet.inTransit.outbound.push(returningFleet);
+        fleet.inTransit.outbound.push(returningFleet);
       }
     }
 
@@ -404,135 +968,139 @@ export class GameEngine {
   }
 
   /**
-   * Processes AI fleet movements and combat
+   * Hands a colony to a faction, along with the income it pays
    */
-  private processAIFleetMovements(): CombatEvent[] {
-    const combatEvents: CombatEvent[] = [];
-    const aiMovements = this.gameState.ai.fleet.inTransit.outbound;
-    
-    const { updated, combatMovements, returning } = processFleetMovements(
-      aiMovements,
-      this.gameState.turn
-    );
-
-    // Update AI movements
-    this.gameState.ai.fleet.inTransit.outbound = updated;
+  private claimSystem(side: Side, system: SystemId): void {
+    const previousOwner = this.gameState.galaxy.systems[system].owner;
+    this.gameState.galaxy.systems[system].owner = side;
+    this.updateColonyIncome(side);
+    if (previousOwner !== undefined) {
+      this.updateColonyIncome(previousOwner);
+    }
 
-    // Process combat movements
-    for (const movement of combatMovements) {
-      const combatResult = processCombatMovement(
-        movement,
-        this.gameState.player.fleet.homeSystem,
-        this.gameState.turn
-      );
-
-      // Update player home fleet with combat results
-      this.gameState.player.fleet.homeSystem = combatResult.updatedDefenderFleet;
-
-      // Add returning fleet if any survivors
-      if (combatResult.returningFleet) {
-        this.gameState.ai.fleet.inTransit.outbound.push(combatResult.returningFleet);
-      }
+    this.emit({
+      type: 'SystemClaimed',
+      turn: this.gameState.turn,
+      side,
+      system,
+      name: this.gameState.galaxy.systems[system].name,
+      ...(previousOwner !== undefined && { from: previousOwner })
+    });
+  }
 
-      // Mark player as having been attacked
-      this.gameState.playerHasBeenAttacked = true;
+  /**
+   * Brings what a faction's colonies pay it in line with the map
+   */
+  private updateColonyIncome(side: Side): void {
+    this.gameState.factions[side].economy.colonyIncome = getColonyIncome(this.gameState.galaxy, side);
+  }
 
-      // Return operational costs for destroyed ships to both players
-      this.returnOperationalCosts(this.gameState.ai, combatResult.combatResult.attackerCasualties);
-      this.returnOperationalCosts(this.gameState.player, combatResult.combatResult.defenderCasualties);
+  /**
+   * Fights an arriving attack against the home fleet of the faction whose home it reached
+   */
+  private resolveAttack(side: Side, movement: FleetMovement): CombatEvent {
+    const defenderSide = this.gameState.galaxy.systems[movement.target].owner!;
+    const attacker = this.gameState.factions[side];
+    const defender = this.gameState.factions[defenderSide];
+
+    const defenderFleet = { ...defender.fleet.homeSystem };
+    const combatResult = processCombatMovement(
+      movement,
+      defender.fleet.homeSystem,
+      this.gameState.turn,
+      this.random
+    );
 
-      // Create combat event
-      const combatEvent: CombatEvent = {
-        turn: this.gameState.turn,
-        attacker: 'ai',
-        attackerFleet: movement.composition,
-        defenderFleet: this.gameState.player.fleet.homeSystem,
-        outcome: combatResult.combatResult.outcome,
-        casualties: {
-          attacker: combatResult.combatResult.attackerCasualties,
-          defender: combatResult.combatResult.defenderCasualties
-        },
-        survivors: {
-          attacker: combatResult.combatResult.attackerSurvivors,
-          defender: combatResult.combatResult.defenderSurvivors
-        }
-      };
+    // Update the defender's home fleet with combat results (copied so later changes do not rewrite the combat log)
+    defender.fleet.homeSystem = { ...combatResult.updatedDefenderFleet };
 
-      combatEvents.push(combatEvent);
+    // Add returning fleet if any survivors
+    if (combatResult.returningFleet) {
+      attacker.fleet.inTransit.outbound.push(combatResult.returningFleet);
     }
 
-    // Process returning fleets
-    for (const returningFleet of returning) {
-      if (returningFleet.arrivalTurn <= this.gameState.turn) {
-        // Fleet has returned home
-        const homeFleet = this.gameState.ai.fleet.homeSystem;
-        homeFleet.frigates += returningFleet.composition.frigates;
-        homeFleet.cruisers += returningFleet.composition.cruisers;
-        homeFleet.battleships += returningFleet.composition.battleships;
-      } else {
-        // Fleet still returning
-        this.gameState.ai.fleet.inTransit.outbound.push(returningFleet);
-      }
+    // Mark the defender as having been attacked
+    if (!this.gameState.attacked.includes(defenderSide)) {
+      this.gameState.attacked.push(defenderSide);
     }
 
-    return combatEvents;
+    // Return operational costs for destroyed ships to both players
+    this.returnOperationalCosts(attacker, combatResult.combatResult.attackerCasualties);
+    this.returnOperationalCosts(defender, combatResult.combatResult.defenderCasualties);
+
+    const combatEvent: CombatEvent = {
+      turn: this.gameState.turn,
+      attacker: side,
+      defender: defenderSide,
+      attackerFleet: movement.composition,
+      defenderFleet,
+      outcome: combatResult.combatResult.outcome,
+      casualties: {
+        attacker: combatResult.combatResult.attackerCasualties,
+        defender: combatResult.combatResult.defenderCasualties
+      },
+      survivors: {
+        attacker: combatResult.combatResult.attackerSurvivors,
+        defender: combatResult.combatResult.defenderSurvivors
+      },
+      rounds: combatResult.combatResult.rounds,
+      attackerRetreated: combatResult.combatResult.attackerRetreated
+    };
+
+    this.emit({ type: 'CombatResolved', turn: this.gameState.turn, combat: combatEvent });
+    return combatEvent;
   }
 
   /**
-   * Checks victory conditions and updates game state
+   * Knocks out the factions that fell this turn and ends the game once one is left standing.
+   * Economic collapse is checked first as the more definitive defeat. If the last factions all
+   * fall on the same turn, the one latest in seat order wins the tie; in a two-sided game that
+   * is the second side (the "ai" slot).
    */
   private checkVictoryConditions(): {
     gameEnded: boolean;
-    winner?: 'player' | 'ai';
+    winner?: Side;
     victoryType?: 'military' | 'economic';
   } {
-    // Check for economic victory first (more definitive)
-    const playerEconomicCollapse = this.isPlayerEconomicallyEliminated(this.gameState.player);
-    const aiEconomicCollapse = this.isPlayerEconomicallyEliminated(this.gameState.ai);
-
-    if (playerEconomicCollapse && !aiEconomicCollapse) {
-      this.gameState.isGameOver = true;
-      this.gameState.winner = 'ai';
-      this.gameState.victoryType = 'economic';
-      return { gameEnded: true, winner: 'ai', victoryType: 'economic' };
-    } else if (aiEconomicCollapse && !playerEconomicCollapse) {
-      this.gameState.isGameOver = true;
-      this.gameState.winner = 'player';
-      this.gameState.victoryType = 'economic';
-      return { gameEnded: true, winner: 'player', victoryType: 'economic' };
-    } else if (playerEconomicCollapse && aiEconomicCollapse) {
-      // Both economies collapsed - AI wins by default
-      this.gameState.isGameOver = true;
-      this.gameState.winner = 'ai';
-      this.gameState.victoryType = 'economic';
-      return { gameEnded: true, winner: 'ai', victoryType: 'economic' };
-    }
-
-    // Check for military victory (only if no economic victory)
-    const playerMilitaryEliminated = this.isPlayerMilitarilyEliminated(this.gameState.player);
-    const aiMilitaryEliminated = this.isPlayerMilitarilyEliminated(this.gameState.ai);
-
-    if (playerMilitaryEliminated && !aiMilitaryEliminated) {
-      this.gameState.isGameOver = true;
-      this.gameState.winner = 'ai';
-      this.gameState.victoryType = 'military';
-      return { gameEnded: true, winner: 'ai', victoryType: 'military' };
-    } else if (aiMilitaryEliminated && !playerMilitaryEliminated) {
-      this.gameState.isGameOver = true;
-      this.gameState.winner = 'player';
-      this.gameState.victoryType = 'military';
-      return { gameEnded: true, winner: 'player', victoryType: 'military' };
-    } else if (playerMilitaryEliminated && aiMilitaryEliminated) {
-      // Both militarily eliminated - AI wins by default
-      this.gameState.isGameOver = true;
-      this.gameState.winner = 'ai';
-      this.gameState.victoryType = 'military';
-      return { gameEnded: true, winner: 'ai', victoryType: 'military' };
+    const checks: Array<['economic' | 'military', (side: Side) => boolean]> = [
+      ['economic', side => this.isPlayerEconomicallyEliminated(this.gameState.factions[side])],
+      ['military', side => this.isPlayerMilitarilyEliminated(side)]
+    ];
+
+    for (const [victoryType, isEliminated] of checks) {
+      const living = getLivingFactions(this.gameState);
+      const fallen = living.filter(isEliminated);
+      if (fallen.length === 0) {
+        continue;
+      }
+
+      const knockedOut = fallen.length === living.length ? fallen.slice(0, -1) : fallen;
+      knockedOut.forEach(side => this.eliminate(side, victoryType));
+
+      const survivors = getLivingFactions(this.gameState);
+      if (survivors.length === 1) {
+        const winner = survivors[0];
+        this.gameState.isGameOver = true;
+        this.gameState.winner = winner;
+        this.gameState.victoryType = victoryType;
+        return { gameEnded: true, winner, victoryType };
+      }
     }
 
     return { gameEnded: false };
   }
 
+  /**
+   * Takes a faction out of the game. It keeps its state but takes no further part, and its
+   * colonies are left for others to take.
+   */
+  private eliminate(side: Side, cause: 'military' | 'economic'): void {
+    this.gameState.eliminated.push(side);
+    getColonies(this.gameState.galaxy, side).forEach(system => { delete this.gameState.galaxy.systems[system].owner; });
+    this.updateColonyIncome(side);
+    this.emit({ type: 'FactionEliminated', turn: this.gameState.turn, side, cause });
+  }
+
   /**
    * Determines if a player is economically eliminated
    * A player is economically eliminated if:
@@ -541,37 +1109,24 @@ export class GameEngine {
    * 3. They cannot recover (no way to generate positive income)
    */
   private isPlayerEconomicallyEliminated(player: PlayerState): boolean {
-    const isStalled = this.economyEngine.isEconomyStalled(player);
-    const hasNoResources = player.resources.metal <= 0 && player.resources.energy <= 0;
-    
-    // Only consider economically eliminated if both stalled AND no resources
-    return isStalled && hasNoResources;
+    return this.economyEngine.isEconomicallyEliminated(player);
   }
 
   /**
-   * Determines if a player is militarily eliminated
-   * A player is militarily eliminated if:
+   * Determines if a faction is militarily eliminated
+   * A faction is militarily eliminated if:
    * 1. They have no fleets (home or in transit)
    * 2. They have been attacked (victory condition requirement)
    */
-  private isPlayerMilitarilyEliminated(player: PlayerState): boolean {
-    // Check if player has any fleets
+  private isPlayerMilitarilyEliminated(side: Side): boolean {
+    const player = this.gameState.factions[side];
     const hasFleets = !checkFleetElimination(
       player.fleet.homeSystem,
       player.fleet.inTransit.outbound
     );
     
-    if (hasFleets) {
-      return false; // Has fleets, not eliminated
-    }
-
-    // No fleets - check if they have been attacked (new victory condition)
-    const hasBeenAttacked = player === this.gameState.player ? 
-      (this.gameState.playerHasBeenAttacked || false) : 
-      (this.gameState.aiHasBeenAttacked || false);
-    
     // Victory condition: 0 fleet AND has been attacked
-    return hasBeenAttacked;
+    return !hasFleets && this.gameState.attacked.includes(side);
   }
 
   /**
@@ -586,6 +1141,60 @@ export class GameEngine {
     player.resources.energy += upkeepCosts.energy;
   }
 
+  /**
+   * Counts a scan toward this turn's statistics
+   */
+  private tallyScan(side: Side, scanType: ScanType): void {
+    const tally = this.scanTally[side];
+    tally.scans++;
+    tally.spending.metal += SCAN_COSTS[scanType].metal;
+    tally.spending.energy += SCAN_COSTS[scanType].energy;
+  }
+
+  /**
+   * Adds every faction's end-of-turn statistics to the history. Factions already out of the
+   * game had no income phase, so nothing was drained.
+   */
+  private recordTurnStatistics(incomeDrains: Record<Side, IncomeDrains>, combatEvents: CombatEvent[]): void {
+    const sideStatistics = (side: Side): SideStatistics => {
+      const player = this.gameState.factions[side];
+      let shipsLost = createEmptyFleet();
+      let shipsKilled = createEmptyFleet();
+
+      for (const event of combatEvents) {
+        if (event.attacker === side) {
+          shipsLost = addFleetCompositions(shipsLost, event.casualties.attacker);
+          shipsKilled = addFleetCompositions(shipsKilled, event.casualties.defender);
+        } else if (event.defender === side) {
+          shipsLost = addFleetCompositions(shipsLost, event.casualties.defender);
+          shipsKilled = addFleetCompositions(shipsKilled, event.casualties.attacker);
+        }
+      }
+
+      return {
+        resources: { metal: player.resources.metal, energy: player.resources.energy },
+        netIncome: { metal: player.resources.metalIncome, energy: player.resources.energyIncome },
+        ...(incomeDrains[side] ?? { constructionDrain: { metal: 0, energy: 0 }, fleetUpkeep: { metal: 0, energy: 0 } }),
+        homeFleet: { ...player.fleet.homeSystem },
+        inTransit: player.fleet.inTransit.outbound.reduce((total, movement) => addFleetCompositions(total, movement.composition), createEmptyFleet()),
+        structures: { reactors: player.economy.reactors, mines: player.economy.mines },
+        scans: this.scanTally[side].scans,
+        scanSpending: { ...this.scanTally[side].spending },
+        shipsLost,
+        shipsKilled,
+        enemyFleetEstimate: player.intelligence.lastScanTurn > 0 ? { ...player.intelligence.knownEnemyFleet } : null
+      };
+    };
+
+    const factions: Record<Side, SideStatistics> = {};
+    for (const side of getFactionIds(this.gameState)) {
+      factions[side] = sideStatistics(side);
+    }
+
+    this.gameState.history.push({ turn: this.gameState.turn, factions });
+    this.scanTally = createScanTally(getFactionIds(this.gameState));
+  }
+
   /**
    * Prepares for the next turn
    */
@@ -624,7 +1233,7 @@ export class GameEngine {
   /**
    * Gets the winner if the game is over
    */
-  public getWinner(): 'player' | 'ai' | undefined {
+  public getWinner(): Side | undefined {
     return this.gameState.winner;
   }
 
@@ -642,12 +1251,111 @@ export class GameEngine {
     return [...this.gameState.combatLog];
   }
 
+  /**
+   * Gets every faction's statistics for every completed turn, oldest first
+   */
+  public getHistory(): TurnStatistics[] {
+    return [...this.gameState.history];
+  }
+
   /**
    * Resets the game to initial state
    */
   public resetGame(config: GameEngineConfig = {}): void {
-    this.gameState = this.initializeGameState(config);
-    this.aiEngine = new AIEngine(config.aiArchetype || 'hybrid');
+    const seats = createSeats(config);
+    this.random = new SeededRandom(config.seed ?? generateSeed());
+    this.gameState = this.initializeGameState(config, seats);
+    this.aiEngines = this.createAIEngines(seats, config.omniscientAI);
+    this.intelligenceEngine = new IntelligenceEngine(this.random);
+    this.scanTally = createScanTally(seats.map(seat => seat.id));
+  }
+
+  /**
+   * Subscribes to one type of game event. Returns a function that unsubscribes.
+   * Subscriptions survive resetGame() and restore().
+   */
+  public subscribe<T extends GameEventType>(type: T, listener: GameEventListener<T>): () => void {
+    return this.events.subscribe(type, listener);
+  }
+
+  /**
+   * Subscribes to every game event. Returns a function that unsubscribes.
+   */
+  public subscribeAll(listener: (event: GameEvent) => void): () => void {
+    return this.events.subscribeAll(listener);
+  }
+
+  /**
+   * Removes a listener added with subscribe(), or with subscribeAll() when type is '*'
+   */
+  public unsubscribe<T extends GameEventType>(type: T | '*', listener: GameEventListener<T> | ((event: GameEvent) => void)): void {
+    this.events.unsubscribe(type, listener);
+  }
+
+  /**
+   * Publishes a game event. Used by the engine itself and by controllers that
+   * apply player orders directly to the game state.
+   */
+  public emit(event: GameEvent): void {
+    this.events.emit(event);
+  }
+
+  /**
+   * Gets the seed driving this game's random rolls
+   */
+  public getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  /**
+   * Gets the game's random source so callers outside the engine roll from the same sequence
+   */
+  public getRandom(): SeededRandom {
+    return this.random;
+  }
+
+  /**
+   * Captures everything needed to resume this game later: game state,
+   * AI working state and archetype memory, and the RNG position
+   */
+  public serialize(): GameSnapshot {
+    return {
+      gameState: JSON.parse(JSON.stringify(this.gameState)),
+      seed: this.random.getSeed(),
+      randomState: this.random.getState(),
+      aiEngines: Object.fromEntries(Object.entries(this.aiEngines).map(([side, aiEngine]) => [side, aiEngine.getSnapshot()]))
+    };
+  }
+
+  /**
+   * Replaces the running game with one captured by serialize()
+   */
+  public restore(snapshot: GameSnapshot): void {
+    // Rebuild the AIs before touching our own state so a bad snapshot leaves the game intact
+    const random = new SeededRandom(snapshot.seed);
+    const aiEngines: Record<Side, AIEngine> = {};
+    for (const [side, ai] of Object.entries(snapshot.aiEngines)) {
+      aiEngines[side] = new AIEngine(ai.archetype, random, ai.omniscient);
+      aiEngines[side].restoreSnapshot(ai);
+    }
+
+    // Archetype constructors may draw from the RNG, so its position is restored last
+    random.setState(snapshot.randomState);
+
+    this.random = random;
+    this.aiEngines = aiEngines;
+    this.intelligenceEngine = new IntelligenceEngine(random);
+    this.gameState = JSON.parse(JSON.stringify(snapshot.gameState));
+    this.scanTally = createScanTally(getFactionIds(this.gameState));
+  }
+
+  /**
+   * Creates an engine that resumes the game captured in a snapshot
+   */
+  public static fromSnapshot(snapshot: GameSnapshot): GameEngine {
+    const engine = new GameEngine({ seed: snapshot.seed });
+    engine.restore(snapshot);
+    return engine;
   }
 
   /**
@@ -664,25 +1372,19 @@ export class GameEngine {
       errors.push('Turn number must be positive');
     }
 
-    // Validate resources are not negative
-    if (this.gameState.player.resources.metal < 0 || this.gameState.player.resources.energy < 0) {
-      errors.push('Player resources cannot be negative');
-    }
+    for (const [side, player] of Object.entries(this.gameState.factions)) {
+      const name = this.gameState.sides[side]?.name ?? side;
 
-    if (this.gameState.ai.resources.metal < 0 || this.gameState.ai.resources.energy < 0) {
-      errors.push('AI resources cannot be negative');
-    }
-
-    // Validate fleet compositions
-    const playerFleet = this.gameState.player.fleet.homeSystem;
-    const aiFleet = this.gameState.ai.fleet.homeSystem;
-
-    if (playerFleet.frigates < 0 || playerFleet.cruisers < 0 || playerFleet.battleships < 0) {
-      errors.push('Player fleet counts cannot be negative');
-    }
+      // Validate resources are not negative
+      if (player.resources.metal < 0 || player.resources.energy < 0) {
+        errors.push(`${name} resources cannot be negative`);
+      }
 
-    if (aiFleet.frigates < 0 || aiFleet.cruisers < 0 || aiFleet.battleships < 0) {
-      errors.push('AI fleet counts cannot be negative');
+      // Validate fleet compositions
+      const fleet = player.fleet.homeSystem;
+      if (fleet.frigates < 0 || fleet.cruisers < 0 || fleet.battleships < 0) {
+        errors.push(`${name} fleet counts cannot be negative`);
+      }
     }
 
     // Validate game over state consistency
@@ -701,9 +1403,143 @@ export class GameEngine {
   }
 
   /**
-   * Gets detailed game statistics
+   * Gets a side's construction queue with ETA, drain and cancellation refund per order
+   */
+  public getConstructionStatus(side: Side = 'player'): ConstructionStatus[] {
+    return this.economyEngine.getConstructionStatus(this.gameState.factions[side]);
+  }
+
+  /**
+   * Gets what a side's scans say about the enemy fleet and how far to trust it
+   */
+  public getIntelligenceGap(side: Side = 'player'): IntelligenceGap {
+    return this.intelligenceEngine.calculateIntelligenceGap(this.gameState.factions[side], this.gameState.turn);
+  }
+
+  /**
+   * Adds a standing order, given again at the start of every `every` turns from next turn on
+   */
+  public addStandingOrder(order: StandingPlayerOrder, every: number, side: Side = 'player'): { success: boolean; standingOrder?: StandingOrder; errors: string[] } {
+    const validation = validateStandingOrder(order, every);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+
+    const standingOrders = this.gameState.factions[side].standingOrders;
+    const standingOrder: StandingOrder = {
+      id: standingOrders.nextId++,
+      order: { ...order },
+      every,
+      nextTurn: this.gameState.turn + 1
+    };
+    standingOrders.orders.push(standingOrder);
+
+    return { success: true, standingOrder: { ...standingOrder, order: { ...standingOrder.order } }, errors: [] };
+  }
+
+  /**
+   * Removes a standing order by the number it was given
+   */
+  public cancelStandingOrder(id: number, side: Side = 'player'): { success: boolean; standingOrder?: StandingOrder; errors: string[] } {
+    const orders = this.gameState.factions[side].standingOrders.orders;
+    const index = orders.findIndex(standingOrder => standingOrder.id === id);
+    if (index < 0) {
+      return { success: false, errors: [`No standing order ${id}`] };
+    }
+
+    const [standingOrder] = orders.splice(index, 1);
+    return { success: true, standingOrder, errors: [] };
+  }
+
+  /**
+   * Gets a side's standing orders in the order they were given
+   */
+  public getStandingOrders(side: Side = 'player'): StandingOrder[] {
+    return this.gameState.factions[side].standingOrders.orders.map(standingOrder => ({ ...standingOrder, order: { ...standingOrder.order } }));
+  }
+
+  /**
+   * Gives every standing order due this turn through applyOrder(). A build that
+   * canAffordAndSustainBuildOrder() rejects, or any order that fails validation, is skipped
+   * until its next run.
+   */
+  public applyStandingOrders(side: Side = 'player'): StandingOrderResult[] {
+    const player = this.gameState.factions[side];
+    const turn = this.gameState.turn;
+    const results: StandingOrderResult[] = [];
+
+    for (const standingOrder of player.standingOrders.orders) {
+      if (standingOrder.nextTurn > turn) {
+        continue;
+      }
+      standingOrder.nextTurn = turn + standingOrder.every;
+
+      const order: PlayerOrder = { ...standingOrder.order };
+      const blocked = order.type === 'build'
+        ? this.economyEngine.canAffordAndSustainBuildOrder(player, this.createBuildOrder(side, order.buildType, order.quantity)).errors
+        : [];
+      const result = blocked.length > 0
+        ? { order, success: false, message: blocked.join('; '), errors: blocked }
+        : this.applyOrder(order, side);
+
+      results.push({ ...result, standingOrderId: standingOrder.id });
+    }
+
+    return results;
+  }
+
+  /**
+   * Projects a side's resources and income over the coming turns, including when queued
+   * construction completes, and flags the turn the economy would collapse
+   */
+  public getEconomicForecast(turns: number = DEFAULT_FORECAST_TURNS, side: Side = 'player'): EconomicForecast {
+    return this.economyEngine.forecast(this.gameState.factions[side], this.gameState.turn, turns);
+  }
+
+  /**
+   * Simulates an attack against the enemy home fleet as the side's intelligence shows it. With a
+   * target, the last scan must have been of that faction. The fleet need not be at home, so
+   * hypothetical fleets can be compared. Previews draw from their own random source, so they
+   * never change how the game plays out.
    */
-  public getGameStatistics(): {
+  public previewAttack(attackFleet: FleetComposition, options: SimulationOptions = {}, side: Side = 'player', target?: string): { success: boolean; preview?: BattlePreview; errors: string[] } {
+    const counts = [attackFleet.frigates, attackFleet.cruisers, attackFleet.battleships];
+    if (!counts.every(count => Number.isInteger(count) && count >= 0) || counts.every(count => count === 0)) {
+      return { success: false, errors: ['Simulated fleet needs a whole, non-negative number of ships and at least one ship'] };
+    }
+
+    if (options.retreatThreshold !== undefined && !(options.retreatThreshold > 0 && options.retreatThreshold < 1)) {
+      return { success: false, errors: ['Retreat threshold must be between 1% and 99% of the fleet'] };
+    }
+
+    const gap = this.getIntelligenceGap(side);
+    if (gap.lastScanTurn === 0) {
+      return { success: false, errors: ['No intelligence on the enemy fleet yet. Scan before simulating an attack'] };
+    }
+
+    if (target !== undefined) {
+      const { faction, errors } = this.resolveOpponent(side, target, 'attack');
+      if (faction === undefined) {
+        return { success: false, errors };
+      }
+      const scanned = this.gameState.factions[side].intelligence.scannedFaction;
+      if (scanned !== faction) {
+        const name = this.gameState.sides[faction].name;
+        const last = scanned === undefined ? '' : `Your last scan was of ${this.gameState.sides[scanned]?.name ?? scanned}. `;
+        return { success: false, errors: [`${last}Scan ${name} before simulating an attack on it`] };
+      }
+    }
+
+    const simulator = new BattleSimulator(new SeededRandom(this.random.getSeed() + this.gameState.turn));
+    const preview = simulator.simulate(attackFleet, simulator.estimateEnemyFleet(gap), options);
+    return { success: true, preview, errors: [] };
+  }
+
+  /**
+   * Gets detailed game statistics for a side, as "player", against an opponent, by default its
+   * rival, as "ai"
+   */
+  public getGameStatistics(side: Side = 'player', opponent: Side = getRival(this.gameState, side)): {
     turn: number;
     gamePhase: GamePhase;
     playerStats: {
@@ -718,23 +1554,83 @@ export class GameEngine {
     };
     combatEvents: number;
   } {
-    const playerFleet = this.gameState.player.fleet.homeSystem;
-    const aiFleet = this.gameState.ai.fleet.homeSystem;
+    const sideStats = (player: PlayerState) => ({
+      totalFleetSize: player.fleet.homeSystem.frigates + player.fleet.homeSystem.cruisers + player.fleet.homeSystem.battleships,
+      netIncome: this.economyEngine.getNetIncome(player),
+      economicStructures: player.economy.reactors + player.economy.mines
+    });
 
     return {
       turn: this.gameState.turn,
       gamePhase: this.gameState.gamePhase,
-      playerStats: {
-        totalFleetSize: playerFleet.frigates + playerFleet.cruisers + playerFleet.battleships,
-        netIncome: this.economyEngine.getNetIncome(this.gameState.player),
-        economicStructures: this.gameState.player.economy.reactors + this.gameState.player.economy.mines
-      },
-      aiStats: {
-        totalFleetSize: aiFleet.frigates + aiFleet.cruisers + aiFleet.battleships,
-        netIncome: this.economyEngine.getNetIncome(this.gameState.ai),
-        economicStructures: this.gameState.ai.economy.reactors + this.gameState.ai.economy.mines
-      },
+      playerStats: sideStats(this.gameState.factions[side]),
+      aiStats: sideStats(this.gameState.factions[opponent]),
       combatEvents: this.gameState.combatLog.length
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Checks the seats of a free-for-all: 2-6 factions with different names and ids
+ */
+export function validateFactionConfigs(factions: FactionConfig[]): string[] {
+  const errors: string[] = [];
+
+  if (factions.length < 2 || factions.length > MAX_FACTIONS) {
+    errors.push(`A game seats 2 to ${MAX_FACTIONS} factions, got ${factions.length}`);
+  }
+
+  const ids = new Set<FactionId>();
+  const names = new Set<string>();
+  for (const faction of factions) {
+    errors.push(...validateSideName(faction.name));
+
+    const id = faction.id ?? toFactionId(faction.name);
+    if (!/^[a-z][a-z0-9-]*$/.test(id)) {
+      errors.push(`Faction ids are lower case letters, digits and "-", starting with a letter: ${id}`);
+    } else if (ids.has(id)) {
+      errors.push(`Two factions would have the id ${id}`);
+    }
+    ids.add(id);
+
+    const name = faction.name.trim().toLowerCase();
+    if (names.has(name)) {
+      errors.push(`Two factions are called ${faction.name.trim()}`);
+    }
+    names.add(name);
+
+    if (faction.controller !== 'human' && faction.controller !== 'ai') {
+      errors.push(`${faction.name}: controller must be human or ai, got ${faction.controller}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Seats the factions of a game: those configured, or a human "player" against the "ai"
+ */
+function createSeats(config: GameEngineConfig): Seat[] {
+  if (config.factions) {
+    const errors = validateFactionConfigs(config.factions);
+    if (errors.length > 0) {
+      throw new Error(`Invalid factions: ${errors.join('; ')}`);
+    }
+    return config.factions.map(faction => ({ ...faction, id: faction.id ?? toFactionId(faction.name), name: faction.name.trim() }));
+  }
+
+  // Two people at one keyboard are Player 1 and Player 2 unless they give their names
+  return [
+    { id: 'player', name: config.sideNames?.player?.trim() || (config.hotseat ? 'Player 1' : 'Player'), controller: 'human' },
+    {
+      id: 'ai',
+      name: config.sideNames?.ai?.trim() || (config.hotseat ? 'Player 2' : 'AI'),
+      controller: config.hotseat ? 'human' : 'ai',
+      archetype: config.aiArchetype
+    }
+  ];
+}
+
+function createScanTally(sides: Side[]): Record<Side, ScanTally> {
+  return Object.fromEntries(sides.map(side => [side, { scans: 0, spending: { metal: 0, energy: 0 } }]));
+}
@@ -0,0 +1,193 @@
+import { CombatEvent, FleetComposition, GamePhase, FactionId } from '../models/GameState.js';
+import { BuildableType } from '../models/PlayerState.js';
+import { ScanType } from '../models/Intelligence.js';
+import { SystemId } from '../models/Galaxy.js';
+
+/** A faction taking part in the game; "player" or "ai" in a two-sided game */
+export type Side = FactionId;
+
+export interface TurnStartedEvent {
+  type: 'TurnStarted';
+  turn: number;
+  phase: GamePhase;
+}
+
+export interface IncomeAppliedEvent {
+  type: 'IncomeApplied';
+  turn: number;
+  side: Side;
+  metalIncome: number;
+  energyIncome: number;
+  metal: number;
+  energy: number;
+}
+
+export interface ConstructionCompletedEvent {
+  type: 'ConstructionCompleted';
+  turn: number;
+  side: Side;
+  unitType: BuildableType;
+  quantity: number;
+}
+
+export interface ConstructionCancelledEvent {
+  type: 'ConstructionCancelled';
+  turn: number;
+  side: Side;
+  unitType: BuildableType;
+  quantity: number;
+  refund: { metal: number; energy: number };
+}
+
+export interface FleetLaunchedEvent {
+  type: 'FleetLaunched';
+  turn: number;
+  side: Side;
+  fleetId: number;
+  composition: FleetComposition;
+  target: SystemId;
+  arrivalTurn: number;
+}
+
+export interface FleetRecalledEvent {
+  type: 'FleetRecalled';
+  turn: number;
+  side: Side;
+  fleetId: number;
+  composition: FleetComposition;
+  arrivalTurn: number;
+}
+
+export interface FleetArrivedEvent {
+  type: 'FleetArrived';
+  turn: number;
+  side: Side;
+  fleetId: number;
+  composition: FleetComposition;
+  destination: 'enemy' | 'colony' | 'home';
+}
+
+export interface SystemClaimedEvent {
+  type: 'SystemClaimed';
+  turn: number;
+  side: Side;
+  system: SystemId;
+  name: string;
+  from?: Side; // the faction that held it, unset when nobody did
+}
+
+export interface CombatResolvedEvent {
+  type: 'CombatResolved';
+  turn: number;
+  combat: CombatEvent;
+}
+
+export interface ScanPerformedEvent {
+  type: 'ScanPerformed';
+  turn: number;
+  side: Side;
+  scanType: ScanType;
+}
+
+export interface PhaseChangedEvent {
+  type: 'PhaseChanged';
+  turn: number;
+  from: GamePhase;
+  to: GamePhase;
+}
+
+export interface FactionEliminatedEvent {
+  type: 'FactionEliminated';
+  turn: number;
+  side: Side;
+  cause: 'military' | 'economic';
+}
+
+export interface GameOverEvent {
+  type: 'GameOver';
+  turn: number;
+  winner: Side;
+  victoryType: 'military' | 'economic';
+}
+
+export type GameEvent =
+  | TurnStartedEvent
+  | IncomeAppliedEvent
+  | ConstructionCompletedEvent
+  | ConstructionCancelledEvent
+  | FleetLaunchedEvent
+  | FleetRecalledEvent
+  | FleetArrivedEvent
+  | SystemClaimedEvent
+  | CombatResolvedEvent
+  | ScanPerformedEvent
+  | PhaseChangedEvent
+  | FactionEliminatedEvent
+  | GameOverEvent;
+
+export type GameEventType = GameEvent['type'];
+
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+export type GameEventListener<T extends GameEventType = GameEventType> = (event: GameEventOf<T>) => void;
+
+/**
+ * Delivers typed game events to subscribers, per event type or for every event
+ */
+export class GameEventBus {
+  private listeners: Map<GameEventType | '*', Set<(event: any) => void>> = new Map();
+
+  /**
+   * Subscribes to one event type. Returns a function that unsubscribes.
+   */
+  public subscribe<T extends GameEventType>(type: T, listener: GameEventListener<T>): () => void {
+    return this.add(type, listener);
+  }
+
+  /**
+   * Subscribes to every event. Returns a function that unsubscribes.
+   */
+  public subscribeAll(listener: (event: GameEvent) => void): () => void {
+    return this.add('*', listener);
+  }
+
+  /**
+   * Removes a listener added with subscribe() or subscribeAll() ('*')
+   */
+  public unsubscribe<T extends GameEventType>(type: T | '*', listener: GameEventListener<T> | ((event: GameEvent) => void)): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Delivers an event to its type's listeners, then to catch-all listeners.
+   * A failing listener is reported and skipped so it cannot break turn processing.
+   */
+  public emit(event: GameEvent): void {
+    const listeners = [...(this.listeners.get(event.type) ?? []), ...(this.listeners.get('*') ?? [])];
+
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`${event.type} listener failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Removes every listener
+   */
+  public clear(): void {
+    this.listeners.clear();
+  }
+
+  private add(type: GameEventType | '*', listener: (event: any) => void): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener);
+    return () => this.unsubscribe(type, listener);
+  }
+}
@@ -5,11 +5,21 @@ import {
   ScanResult, 
   SCAN_COSTS, 
   IntelligenceGap,
+  IntelligencePicture,
   MISINFORMATION_BASE_CHANCE,
   CONFIDENCE_DECAY_RATE 
 } from '../models/Intelligence.js';
+import { RandomSource, defaultRandom } from '../models/Random.js';
+import { calculateStructureIncome, calculateNetIncome } from '../models/Economy.js';
+import { calculateFleetUpkeep } from '../models/Fleet.js';
 
 export class IntelligenceEngine {
+  private random: RandomSource;
+
+  constructor(random: RandomSource = defaultRandom) {
+    this.random = random;
+  }
+
   /**
    * Validates if a player has sufficient resources to perform a scan
    */
@@ -43,7 +53,7 @@ export class IntelligenceEngine {
     
     // Apply ±30% accuracy variation
     const accuracyVariation = 0.3;
-    const randomFactor = 1 + (Math.random() - 0.5) * 2 * accuracyVariation;
+    const randomFactor = 1 + (this.random.next() - 0.5) * 2 * accuracyVariation;
     const reportedTotal = Math.max(0, Math.round(totalShips * randomFactor));
 
     return {
@@ -69,7 +79,7 @@ export class IntelligenceEngine {
 
     // Apply ±10% accuracy to each unit type
     const applyAccuracy = (value: number): number => {
-      const randomFactor = 1 + (Math.random() - 0.5) * 2 * accuracyVariation;
+      const randomFactor = 1 + (this.random.next() - 0.5) * 2 * accuracyVariation;
       return Math.max(0, Math.round(value * randomFactor));
     };
 
@@ -201,7 +211,7 @@ export class IntelligenceEngine {
    * Applies misinformation to scan results
    */
   applyMisinformation(scanResult: ScanResult, misinformationChance: number): ScanResult {
-    if (Math.random() < misinformationChance) {
+    if (this.random.next() < misinformationChance) {
       const misinformedResult = { ...scanResult };
       misinformedResult.isMisinformation = true;
       
@@ -209,9 +219,9 @@ export class IntelligenceEngine {
       if (misinformedResult.fleetData) {
         const variation = 0.5; // ±50% variation for misinformation
         misinformedResult.fleetData = {
-          frigates: Math.max(0, Math.round((misinformedResult.fleetData.frigates || 0) * (1 + (Math.random() - 0.5) * 2 * variation))),
-          cruisers: Math.max(0, Math.round((misinformedResult.fleetData.cruisers || 0) * (1 + (Math.random() - 0.5) * 2 * variation))),
-          battleships: Math.max(0, Math.round((misinformedResult.fleetData.battleships || 0) * (1 + (Math.random() - 0.5) * 2 * variation)))
+          frigates: Math.max(0, Math.round((misinformedResult.fleetData.frigates || 0) * (1 + (this.random.next() - 0.5) * 2 * variation))),
+          cruisers: Math.max(0, Math.round((misinformedResult.fleetData.cruisers || 0) * (1 + (this.random.next() - 0.5) * 2 * variation))),
+          battleships: Math.max(0, Math.round((misinformedResult.fleetData.battleships || 0) * (1 + (this.random.next() - 0.5) * 2 * variation)))
         };
       }
       
@@ -241,9 +251,10 @@ export class IntelligenceEngine {
    * Calculates intelligence gaps for in-transit fleets
    */
   calculateIntelligenceGap(playerState: PlayerState, currentTurn: number): IntelligenceGap {
-    const lastScan = this.getLatestScan(playerState);
+    // Player scans only record the turn and fleet seen, not a scan history entry
+    const lastScanTurn = this.getLatestScan(playerState)?.timestamp ?? playerState.intelligence.lastScanTurn;
     
-    if (!lastScan) {
+    if (!lastScanTurn) {
       return {
         lastKnownFleet: { frigates: 0, cruisers: 0, battleships: 0 },
         lastScanTurn: 0,
@@ -252,7 +263,7 @@ export class IntelligenceEngine {
       };
     }
 
-    const turnsSinceLastScan = currentTurn - lastScan.timestamp;
+    const turnsSinceLastScan = currentTurn - lastScanTurn;
     const confidence = Math.max(0, 1 - (turnsSinceLastScan * CONFIDENCE_DECAY_RATE));
     
     // Estimate potential in-transit fleets based on time gap
@@ -263,12 +274,56 @@ export class IntelligenceEngine {
 
     return {
       lastKnownFleet: playerState.intelligence.knownEnemyFleet,
-      lastScanTurn: lastScan.timestamp,
+      lastScanTurn,
       estimatedInTransit,
       confidence
     };
   }
 
+  /**
+   * Builds what a player believes about its opponent from its own scan history.
+   * Income is estimated from the last scan that saw the enemy economy, less the upkeep
+   * of the fleet it believes the enemy has. Of the target's own state only its last
+   * scan turn is read: a sweep is noticed by the system being swept.
+   */
+  buildIntelligencePicture(playerState: PlayerState, targetState: PlayerState, currentTurn: number): IntelligencePicture {
+    const gap = this.calculateIntelligenceGap(playerState, currentTurn);
+    const economicScan = [...(playerState.intelligence.scanHistory || [])].reverse().find(scan => scan.economicData);
+    const structureIncome = calculateStructureIncome(
+      economicScan?.economicData?.reactors ?? 0,
+      economicScan?.economicData?.mines ?? 0
+    );
+
+    return {
+      enemyFleet: { ...gap.lastKnownFleet },
+      enemyIncome: calculateNetIncome(structureIncome, calculateFleetUpkeep(gap.lastKnownFleet)),
+      estimatedInTransit: gap.estimatedInTransit,
+      lastScanTurn: gap.lastScanTurn,
+      confidence: gap.confidence,
+      enemyLastScanTurn: targetState.intelligence.lastScanTurn
+    };
+  }
+
+  /**
+   * Builds an exact picture straight from the opponent's state, for sides allowed to see everything
+   */
+  buildOmniscientPicture(targetState: PlayerState, currentTurn: number): IntelligencePicture {
+    const inTransit = targetState.fleet.inTransit.outbound.reduce((total, movement) =>
+      total + movement.composition.frigates + movement.composition.cruisers + movement.composition.battleships, 0);
+
+    return {
+      enemyFleet: { ...targetState.fleet.homeSystem },
+      enemyIncome: {
+        metal: targetState.resources.metalIncome,
+        energy: targetState.resources.energyIncome
+      },
+      estimatedInTransit: inTransit,
+      lastScanTurn: currentTurn,
+      confidence: 1,
+      enemyLastScanTurn: targetState.intelligence.lastScanTurn
+    };
+  }
+
   /**
    * Gets the most recent scan result
    */
@@ -0,0 +1,302 @@
+import { FleetComposition } from '../models/GameState.js';
+import { PlayerState, BuildableType } from '../models/PlayerState.js';
+import { ScanType, SCAN_COSTS } from '../models/Intelligence.js';
+import { getBuildCosts } from '../models/Economy.js';
+import { UNIT_STATS, canRecallFleet } from '../models/Fleet.js';
+
+const BUILDABLE_TYPES: BuildableType[] = ['frigate', 'cruiser', 'battleship', 'reactor', 'mine'];
+const SCAN_TYPES: ScanType[] = ['basic', 'deep', 'advanced'];
+
+export interface BuildPlayerOrder {
+  type: 'build';
+  buildType: BuildableType;
+  quantity: number;
+}
+
+export interface AttackPlayerOrder {
+  type: 'attack';
+  attackFleet: FleetComposition;
+  target?: string; // a faction (meaning its home system) or a system, by id or name; may be left out while only one opponent remains
+  retreatThreshold?: number; // break off once this share of the fleet is lost (0-1)
+}
+
+export interface ScanPlayerOrder {
+  type: 'scan';
+  scanType: ScanType;
+  target?: string; // the faction to scan, by id or name; may be left out while only one opponent remains
+}
+
+export interface RecallPlayerOrder {
+  type: 'recall';
+  fleetId: number | 'all';
+}
+
+export interface CancelPlayerOrder {
+  type: 'cancel';
+  position: number; // 1-based, as the construction queue is listed
+}
+
+export interface PrioritizePlayerOrder {
+  type: 'prioritize';
+  position: number; // 1-based, as the construction queue is listed
+}
+
+/** An order a player gives during the actions phase of a turn */
+export type PlayerOrder =
+  | BuildPlayerOrder
+  | AttackPlayerOrder
+  | ScanPlayerOrder
+  | RecallPlayerOrder
+  | CancelPlayerOrder
+  | PrioritizePlayerOrder;
+
+/** An order that can be repeated every few turns as a standing order */
+export type StandingPlayerOrder = BuildPlayerOrder | ScanPlayerOrder;
+
+/** Longest interval between runs of a standing order */
+export const MAX_STANDING_ORDER_INTERVAL = 50;
+
+export interface OrderResult {
+  order: PlayerOrder;
+  success: boolean;
+  message: string;
+  errors: string[];
+}
+
+/** The result of a standing order given at the start of a turn; a failed one was skipped */
+export interface StandingOrderResult extends OrderResult {
+  standingOrderId: number;
+}
+
+/**
+ * Gets the total cost of a build order for this player, including structure cost scaling
+ */
+export function getBuildOrderCost(player: PlayerState, buildType: BuildableType, quantity: number): { metal: number; energy: number } {
+  const currentCount = buildType === 'reactor' ? player.economy.reactors :
+    buildType === 'mine' ? player.economy.mines : 0;
+  const costs = getBuildCosts(buildType, currentCount);
+
+  return {
+    metal: costs.metal * quantity,
+    energy: costs.energy * quantity
+  };
+}
+
+/**
+ * Checks an order against the player's current state. These are the only order rules:
+ * every frontend validates through here, and the engine re-checks before applying.
+ */
+export function validateOrder(order: PlayerOrder, player: PlayerState, currentTurn: number): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  switch (order.type) {
+    case 'build':
+      errors.push(...validateBuildOrder(order, player));
+      break;
+
+    case 'attack':
+      errors.push(...validateAttackOrder(order, player));
+      break;
+
+    case 'scan':
+      errors.push(...validateScanOrder(order, player));
+      break;
+
+    case 'recall':
+      errors.push(...validateRecallOrder(order, player, currentTurn));
+      break;
+
+    case 'cancel':
+      errors.push(...validateQueuePosition(order.position, player));
+      break;
+
+    case 'prioritize':
+      errors.push(...validateQueuePosition(order.position, player));
+      if (errors.length === 0 && order.position === 1) {
+        errors.push('Build order 1 is already first in the queue');
+      }
+      break;
+
+    default:
+      errors.push(`Unknown order type: ${(order as { type: string }).type}`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Checks that a standing order is a build or scan the player could give, repeated at a sensible
+ * interval. Cost is not checked here: it is checked each time the order runs.
+ */
+export function validateStandingOrder(order: StandingPlayerOrder, every: number): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (order.type === 'build') {
+    if (!BUILDABLE_TYPES.includes(order.buildType)) {
+      errors.push(`Invalid build type: ${order.buildType}. Valid types: ${BUILDABLE_TYPES.join(', ')}`);
+    } else if (!Number.isInteger(order.quantity) || order.quantity <= 0) {
+      errors.push('Quantity must be a positive number');
+    }
+  } else if (order.type === 'scan') {
+    if (!SCAN_TYPES.includes(order.scanType)) {
+      errors.push(`Invalid scan type: ${order.scanType}. Valid types: ${SCAN_TYPES.join(', ')}`);
+    }
+  } else {
+    errors.push(`Only build and scan orders can be standing orders, not ${(order as { type: string }).type}`);
+  }
+
+  if (!Number.isInteger(every) || every < 1 || every > MAX_STANDING_ORDER_INTERVAL) {
+    errors.push(`Standing orders repeat every 1-${MAX_STANDING_ORDER_INTERVAL} turns`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Build orders need a known type, a positive quantity, the full cost in hand
+ * and, for units, enough income left to pay their upkeep
+ */
+function validateBuildOrder(order: BuildPlayerOrder, player: PlayerState): string[] {
+  if (!BUILDABLE_TYPES.includes(order.buildType)) {
+    return [`Invalid build type: ${order.buildType}. Valid types: ${BUILDABLE_TYPES.join(', ')}`];
+  }
+
+  if (!Number.isInteger(order.quantity) || order.quantity <= 0) {
+    return ['Quantity must be a positive number'];
+  }
+
+  const errors: string[] = [];
+  const cost = getBuildOrderCost(player, order.buildType, order.quantity);
+
+  if (player.resources.metal < cost.metal) {
+    errors.push(`Insufficient metal. Need: ${cost.metal.toLocaleString()}, Have: ${player.resources.metal.toLocaleString()}`);
+  }
+
+  if (player.resources.energy < cost.energy) {
+    errors.push(`Insufficient energy. Need: ${cost.energy.toLocaleString()}, Have: ${player.resources.energy.toLocaleString()}`);
+  }
+
+  if (order.buildType !== 'reactor' && order.buildType !== 'mine') {
+    const upkeep = UNIT_STATS[order.buildType].upkeepCost;
+    const totalMetalUpkeep = upkeep.metal * order.quantity;
+    const totalEnergyUpkeep = upkeep.energy * order.quantity;
+
+    if (player.resources.metalIncome - totalMetalUpkeep < 0 || player.resources.energyIncome - totalEnergyUpkeep < 0) {
+      errors.push(`Building ${order.quantity} ${order.buildType}(s) would cause economic stall. Upkeep: ${totalMetalUpkeep} Metal, ${totalEnergyUpkeep} Energy per turn`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Attack orders need a non-empty fleet of whole ships that are all at home,
+ * and a retreat threshold, if given, that is a share of the fleet
+ */
+function validateAttackOrder(order: AttackPlayerOrder, player: PlayerState): string[] {
+  const fleet = order.attackFleet;
+  const counts = [fleet?.frigates, fleet?.cruisers, fleet?.battleships];
+
+  if (!counts.every(count => Number.isInteger(count))) {
+    return ['Fleet numbers must be valid integers'];
+  }
+
+  if (counts.some(count => count < 0)) {
+    return ['Fleet numbers cannot be negative'];
+  }
+
+  if (fleet.frigates + fleet.cruisers + fleet.battleships === 0) {
+    return ['Cannot attack with empty fleet'];
+  }
+
+  if (order.retreatThreshold !== undefined &&
+      !(order.retreatThreshold > 0 && order.retreatThreshold < 1)) {
+    return ['Retreat threshold must be between 1% and 99% of the fleet'];
+  }
+
+  const errors: string[] = [];
+  const home = player.fleet.homeSystem;
+
+  if (home.frigates < fleet.frigates) {
+    errors.push(`Insufficient frigates. Need: ${fleet.frigates}, Have: ${home.frigates}`);
+  }
+
+  if (home.cruisers < fleet.cruisers) {
+    errors.push(`Insufficient cruisers. Need: ${fleet.cruisers}, Have: ${home.cruisers}`);
+  }
+
+  if (home.battleships < fleet.battleships) {
+    errors.push(`Insufficient battleships. Need: ${fleet.battleships}, Have: ${home.battleships}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Scan orders need a known scan type and the energy to pay for it
+ */
+function validateScanOrder(order: ScanPlayerOrder, player: PlayerState): string[] {
+  if (!SCAN_TYPES.includes(order.scanType)) {
+    return [`Invalid scan type: ${order.scanType}. Valid types: ${SCAN_TYPES.join(', ')}`];
+  }
+
+  const cost = SCAN_COSTS[order.scanType];
+  if (player.resources.energy < cost.energy) {
+    return [`Insufficient energy for ${order.scanType} scan. Need: ${cost.energy}, Have: ${player.resources.energy}`];
+  }
+
+  return [];
+}
+
+/**
+ * Recall orders need an outbound fleet that has not fought yet, or for "all", at least one
+ */
+function validateRecallOrder(order: RecallPlayerOrder, player: PlayerState, currentTurn: number): string[] {
+  const outbound = player.fleet.inTransit.outbound;
+
+  if (order.fleetId === 'all') {
+    return outbound.some(movement => canRecallFleet(movement, currentTurn))
+      ? []
+      : ['No fleets can be recalled'];
+  }
+
+  if (!Number.isInteger(order.fleetId)) {
+    return ['Fleet id must be a number or "all"'];
+  }
+
+  const movement = outbound.find(candidate => candidate.id === order.fleetId);
+  if (!movement) {
+    return [`No fleet ${order.fleetId} in transit`];
+  }
+
+  if (!canRecallFleet(movement, currentTurn)) {
+    return movement.missionType === 'returning'
+      ? [`Fleet ${order.fleetId} is already returning home`]
+      : [`Fleet ${order.fleetId} has already reached its target`];
+  }
+
+  return [];
+}
+
+/**
+ * Queue orders need the position of an order in the construction queue
+ */
+function validateQueuePosition(position: number, player: PlayerState): string[] {
+  const queue = player.economy.constructionQueue;
+
+  if (queue.length === 0) {
+    return ['The construction queue is empty'];
+  }
+
+  if (!Number.isInteger(position) || position < 1 || position > queue.length) {
+    return [`No build order ${position} in the queue. Choose 1-${queue.length}`];
+  }
+
+  return [];
+}
@@ -0,0 +1,756 @@
+import { GameEngine, GameSnapshot } from './GameEngine.js';
+import { GamePhase } from '../models/GameState.js';
+import { AIArchetype } from '../models/AI.js';
+import { validateGameState, determineGamePhase } from '../models/validation.js';
+import { UNIT_STATS } from '../models/Fleet.js';
+import { STRUCTURE_STATS, BASE_INCOME } from '../models/Economy.js';
+import { SCAN_COSTS } from '../models/Intelligence.js';
+import { createDefaultSides, validateSideName, MAX_SIDE_NAME_LENGTH, MAX_FACTIONS } from '../models/Sides.js';
+import { createGalaxy, getColonyIncome } from '../models/Galaxy.js';
+
+/** Current save format. Bump it and add a migration whenever the saved shape changes. */
+export const SAVE_FORMAT_VERSION = 10;
+
+/** Engine release recorded in save files (mirrors package.json) */
+export const ENGINE_VERSION = '1.0.0';
+
+export interface SaveFile {
+  format: 'burn-rate-save';
+  formatVersion: number;
+  engineVersion: string;
+  seed: number;
+  rulesHash: string;
+  savedAt: string;
+  snapshot: GameSnapshot;
+}
+
+export interface SaveLoadResult {
+  success: boolean;
+  snapshot?: GameSnapshot;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Migrations keyed by the version they upgrade from. Each returns data in the next version's shape.
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // Version 1 was the bare engine snapshot, written before saves had an envelope
+  1: (snapshot: any) => ({
+    format: 'burn-rate-save',
+    formatVersion: 2,
+    engineVersion: 'unknown',
+    seed: snapshot.seed,
+    rulesHash: 'unknown',
+    savedAt: new Date(0).toISOString(),
+    snapshot
+  }),
+  // Version 2 AIs read the player's true state; keep them that way so old games play on unchanged
+  2: (data: any) => {
+    if (isObject(data.snapshot) && isObject(data.snapshot.ai) && data.snapshot.ai.omniscient === undefined) {
+      data.snapshot.ai.omniscient = true;
+    }
+    return { ...data, formatVersion: 3 };
+  },
+  // Version 3 fleets in transit had no ids; number each side's fleets in launch order
+  3: (data: any) => {
+    const gameState = isObject(data.snapshot) ? data.snapshot.gameState : undefined;
+    for (const side of ['player', 'ai']) {
+      const fleet = isObject(gameState) && isObject(gameState[side]) ? gameState[side].fleet : undefined;
+      if (!isObject(fleet) || !isObject(fleet.inTransit) || !Array.isArray(fleet.inTransit.outbound)) continue;
+
+      fleet.inTransit.outbound.forEach((movement: any, i: number) => {
+        if (isObject(movement) && movement.id === undefined) {
+          movement.id = i + 1;
+        }
+      });
+      if (fleet.nextFleetId === undefined) {
+        fleet.nextFleetId = fleet.inTransit.outbound.length + 1;
+      }
+    }
+    return { ...data, formatVersion: 4 };
+  },
+  // Version 4 battles were resolved in one step and kept no round log
+  4: (data: any) => {
+    const gameState = isObject(data.snapshot) ? data.snapshot.gameState : undefined;
+    if (isObject(gameState) && Array.isArray(gameState.combatLog)) {
+      for (const event of gameState.combatLog) {
+        if (!isObject(event)) continue;
+        event.rounds ??= [];
+        event.attackerRetreated ??= false;
+      }
+    }
+    return { ...data, formatVersion: 5 };
+  },
+  // Version 5 had no standing orders
+  5: (data: any) => {
+    const gameState = isObject(data.snapshot) ? data.snapshot.gameState : undefined;
+    for (const side of ['player', 'ai']) {
+      if (isObject(gameState) && isObject(gameState[side]) && gameState[side].standingOrders === undefined) {
+        gameState[side].standingOrders = { orders: [], nextId: 1 };
+      }
+    }
+    return { ...data, formatVersion: 6 };
+  },
+  // Version 6 kept no per-turn statistics; the turns already played are not recoverable
+  6: (data: any) => {
+    const gameState = isObject(data.snapshot) ? data.snapshot.gameState : undefined;
+    if (isObject(gameState) && gameState.history === undefined) {
+      gameState.history = [];
+    }
+    return { ...data, formatVersion: 7 };
+  },
+  // Version 7 games were always a human "Player" against the AI
+  7: (data: any) => {
+    const gameState = isObject(data.snapshot) ? data.snapshot.gameState : undefined;
+    if (isObject(gameState) && gameState.sides === undefined) {
+      gameState.sides = createDefaultSides();
+    }
+    return { ...data, formatVersion: 8 };
+  },
+  // Version 8 games were always "player" against "ai"; seat the two as factions
+  8: (data: any) => {
+    const snapshot = isObject(data.snapshot) ? data.snapshot : undefined;
+    const gameState = snapshot && isObject(snapshot.gameState) ? snapshot.gameState : undefined;
+    const opponent = (side: string) => side === 'player' ? 'ai' : 'player';
+
+    if (gameState && gameState.factions === undefined) {
+      const combatLog: any[] = Array.isArray(gameState.combatLog) ? gameState.combatLog : [];
+      for (const event of combatLog) {
+        if (isObject(event) && (event.attacker === 'player' || event.attacker === 'ai')) {
+          event.defender ??= opponent(event.attacker);
+        }
+      }
+
+      for (const side of ['player', 'ai']) {
+        const outbound = isObject(gameState[side]) ? gameState[side].fleet?.inTransit?.outbound : undefined;
+        if (!Array.isArray(outbound)) continue;
+        for (const movement of outbound) {
+          if (isObject(movement)) {
+            movement.target = movement.missionType === 'returning' ? 'home' : opponent(side);
+          }
+        }
+      }
+
+      // Saves older than the attack flags rebuild them from the combat log
+      gameState.attacked = ['player', 'ai'].filter(side =>
+        gameState[`${side}HasBeenAttacked`] ?? combatLog.some(event => event?.defender === side));
+      gameState.eliminated = gameState.isGameOver === true && (gameState.winner === 'player' || gameState.winner === 'ai')
+        ? [opponent(gameState.winner)]
+        : [];
+
+      if (Array.isArray(gameState.history)) {
+        gameState.history = gameState.history.map((turn: any) =>
+          isObject(turn) ? { turn: turn.turn, factions: { player: turn.player, ai: turn.ai } } : turn);
+      }
+
+      gameState.factions = { player: gameState.player, ai: gameState.ai };
+      delete gameState.player;
+      delete gameState.ai;
+      delete gameState.playerHasBeenAttacked;
+      delete gameState.aiHasBeenAttacked;
+    }
+
+    if (snapshot && snapshot.aiEngines === undefined) {
+      // Hotseat games carried an AI that never played
+      const aiPlays = !isObject(gameState?.sides?.ai) || gameState.sides.ai.controller !== 'human';
+      snapshot.aiEngines = aiPlays ? { ai: snapshot.ai } : {};
+      delete snapshot.ai;
+    }
+    return { ...data, formatVersion: 9 };
+  },
+  // Version 9 had no star map: fleets flew from their home straight to an enemy home and back
+  9: (data: any) => {
+    const gameState = isObject(data.snapshot) ? data.snapshot.gameState : undefined;
+    const factions = isObject(gameState) && isObject(gameState.factions) ? Object.keys(gameState.factions) : [];
+
+    if (gameState && gameState.galaxy === undefined && factions.length <= MAX_FACTIONS) {
+      const galaxy = createGalaxy(factions);
+      const homeOf = (faction: any) => Object.keys(galaxy.systems).find(id => galaxy.systems[id].home && galaxy.systems[id].owner === faction);
+      const combatLog: any[] = Array.isArray(gameState.combatLog) ? gameState.combatLog : [];
+
+      for (const faction of factions) {
+        const outbound = isObject(gameState.factions[faction]) ? gameState.factions[faction].fleet?.inTransit?.outbound : undefined;
+        if (!Array.isArray(outbound)) continue;
+
+        // Fleets on their way home are coming back from the last faction they fought
+        const lastFought = [...combatLog].reverse().find(event => event?.attacker === faction)?.defender;
+        for (const movement of outbound) {
+          if (!isObject(movement)) continue;
+          if (movement.missionType === 'returning') {
+            movement.origin = homeOf(lastFought) ?? homeOf(faction);
+            movement.target = homeOf(faction);
+          } else {
+            movement.origin = homeOf(faction);
+            movement.target = homeOf(movement.target) ?? movement.target;
+          }
+        }
+      }
+      gameState.galaxy = galaxy;
+    }
+    return { ...data, formatVersion: 10 };
+  }
+};
+
+const VALID_PHASES: GamePhase[] = ['early', 'mid', 'late', 'endgame'];
+const VALID_ARCHETYPES: AIArchetype[] = ['aggressor', 'economist', 'trickster', 'hybrid'];
+const VALID_BUILD_TYPES = ['frigate', 'cruiser', 'battleship', 'reactor', 'mine'];
+const VALID_MISSION_TYPES = ['outbound', 'combat', 'returning'];
+const VALID_SCAN_TYPES = ['basic', 'deep', 'advanced'];
+const VALID_CONTROLLERS = ['human', 'ai'];
+const VALID_FACTION_ID = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * Hashes the balance tables so a save can tell whether it was made under different rules
+ */
+export function computeRulesHash(): string {
+  const rules = JSON.stringify({ UNIT_STATS, STRUCTURE_STATS, BASE_INCOME, SCAN_COSTS });
+
+  // FNV-1a, 32 bit
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < rules.length; i++) {
+    hash ^= rules.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Wraps the engine's current snapshot in a versioned save envelope
+ */
+export function createSaveFile(engine: GameEngine): SaveFile {
+  const snapshot = engine.serialize();
+  return {
+    format: 'burn-rate-save',
+    formatVersion: SAVE_FORMAT_VERSION,
+    engineVersion: ENGINE_VERSION,
+    seed: snapshot.seed,
+    rulesHash: computeRulesHash(),
+    savedAt: new Date().toISOString(),
+    snapshot
+  };
+}
+
+/**
+ * Parses, migrates, repairs and validates a save file. Only a result with success=true
+ * carries a snapshot that is safe to hand to GameEngine.restore().
+ */
+export function parseSaveFile(json: string): SaveLoadResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return {
+      success: false,
+      errors: [`Save file is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`],
+      warnings
+    };
+  }
+
+  if (!isObject(data)) {
+    return { success: false, errors: ['Save file must contain a JSON object'], warnings };
+  }
+
+  // Bring older formats up to date
+  let version = detectFormatVersion(data);
+  if (version === null) {
+    return { success: false, errors: ['formatVersion: missing or not a positive integer'], warnings };
+  }
+  if (version > SAVE_FORMAT_VERSION) {
+    return {
+      success: false,
+      errors: [`formatVersion: save uses format ${version}, this version of Burn Rate reads up to ${SAVE_FORMAT_VERSION}`],
+      warnings
+    };
+  }
+  while (version < SAVE_FORMAT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      return { success: false, errors: [`formatVersion: no migration available from format ${version}`], warnings };
+    }
+    data = migrate(data);
+    warnings.push(`Upgraded save from format ${version} to ${version + 1}`);
+    version++;
+  }
+
+  // Envelope
+  if (data.format !== 'burn-rate-save') {
+    errors.push(`format: expected "burn-rate-save", got ${describe(data.format)}`);
+  }
+  if (typeof data.engineVersion === 'string' && data.engineVersion !== ENGINE_VERSION && data.engineVersion !== 'unknown') {
+    warnings.push(`Save was made with engine ${data.engineVersion}, running ${ENGINE_VERSION}`);
+  }
+  if (typeof data.rulesHash === 'string' && data.rulesHash !== 'unknown' && data.rulesHash !== computeRulesHash()) {
+    warnings.push('Save was made under different game rules; unit and structure balance may differ');
+  }
+
+  const snapshot = data.snapshot;
+  if (!isObject(snapshot)) {
+    errors.push(`snapshot: expected an object, got ${describe(snapshot)}`);
+    return { success: false, errors, warnings };
+  }
+
+  checkInteger(snapshot.seed, 'snapshot.seed', errors, 0);
+  checkInteger(snapshot.randomState, 'snapshot.randomState', errors, 0);
+  if (isFiniteNumber(data.seed) && isFiniteNumber(snapshot.seed) && data.seed !== snapshot.seed) {
+    errors.push(`seed: envelope seed ${data.seed} does not match snapshot seed ${snapshot.seed}`);
+  }
+
+  checkGameStateShape(snapshot.gameState, 'snapshot.gameState', errors, warnings);
+  checkAIEngines(snapshot.aiEngines, snapshot.gameState, 'snapshot.aiEngines', errors, warnings);
+
+  // Only run the semantic rules once the shape is known to be sound
+  if (errors.length === 0) {
+    const validation = validateGameState(snapshot.gameState);
+    const factions = Object.keys(snapshot.gameState.factions);
+    errors.push(...validation.errors.map(error => prefixValidationError(error, 'snapshot.gameState', factions)));
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors, warnings };
+  }
+
+  return { success: true, snapshot: snapshot as GameSnapshot, errors, warnings };
+}
+
+/**
+ * Determines the format version, treating a bare engine snapshot as version 1
+ */
+function detectFormatVersion(data: any): number | null {
+  if (data.formatVersion === undefined) {
+    return isObject(data.gameState) && isObject(data.ai) ? 1 : null;
+  }
+  return Number.isInteger(data.formatVersion) && data.formatVersion > 0 ? data.formatVersion : null;
+}
+
+/**
+ * Rewrites validateGameState's "<faction>: " prefixes as paths into the save file
+ */
+function prefixValidationError(error: string, path: string, factions: string[]): string {
+  const faction = factions.find(id => error.startsWith(`${id}: `));
+  return faction === undefined
+    ? `${path}: ${error}`
+    : `${path}.factions.${faction}: ${error.slice(faction.length + 2)}`;
+}
+
+/**
+ * Checks there is one AI for each faction the AI plays, and no other
+ */
+function checkAIEngines(aiEngines: any, gameState: any, path: string, errors: string[], warnings: string[]): void {
+  if (!checkObject(aiEngines, path, errors)) return;
+
+  const sides = isObject(gameState) && isObject(gameState.sides) ? gameState.sides : {};
+  for (const faction of Object.keys(sides)) {
+    if (sides[faction]?.controller === 'ai' && aiEngines[faction] === undefined) {
+      errors.push(`${path}.${faction}: missing for a faction the AI plays`);
+    }
+  }
+  for (const faction of Object.keys(aiEngines)) {
+    if (sides[faction]?.controller !== 'ai') {
+      errors.push(`${path}.${faction}: expected only factions the AI plays, got an AI for ${describe(faction)}`);
+    } else {
+      checkAISnapshot(aiEngines[faction], `${path}.${faction}`, errors, warnings);
+    }
+  }
+}
+
+function checkAISnapshot(ai: any, path: string, errors: string[], warnings: string[]): void {
+  if (!isObject(ai)) {
+    errors.push(`${path}: expected an object, got ${describe(ai)}`);
+    return;
+  }
+
+  if (!VALID_ARCHETYPES.includes(ai.archetype)) {
+    errors.push(`${path}.archetype: expected one of ${VALID_ARCHETYPES.join(', ')}, got ${describe(ai.archetype)}`);
+  }
+
+  if (typeof ai.omniscient !== 'boolean') {
+    errors.push(`${path}.omniscient: expected true or false, got ${describe(ai.omniscient)}`);
+  }
+
+  if (!isObject(ai.aiState)) {
+    errors.push(`${path}.aiState: expected an object, got ${describe(ai.aiState)}`);
+  } else if (ai.aiState.archetype !== ai.archetype) {
+    errors.push(`${path}.aiState.archetype: expected ${describe(ai.archetype)}, got ${describe(ai.aiState.archetype)}`);
+  }
+
+  if (ai.archetypeState === undefined) {
+    ai.archetypeState = {};
+    warnings.push(`${path}.archetypeState: missing, AI strategy memory reset`);
+  } else if (!isObject(ai.archetypeState)) {
+    errors.push(`${path}.archetypeState: expected an object, got ${describe(ai.archetypeState)}`);
+  }
+}
+
+function checkGameStateShape(gameState: any, path: string, errors: string[], warnings: string[]): void {
+  if (!isObject(gameState)) {
+    errors.push(`${path}: expected an object, got ${describe(gameState)}`);
+    return;
+  }
+
+  checkInteger(gameState.turn, `${path}.turn`, errors, 1);
+
+  const factions = isObject(gameState.factions) ? Object.keys(gameState.factions) : [];
+  if (checkObject(gameState.factions, `${path}.factions`, errors) && (factions.length < 2 || factions.length > MAX_FACTIONS)) {
+    errors.push(`${path}.factions: expected 2-${MAX_FACTIONS} factions, got ${factions.length}`);
+  }
+  const isFaction = (value: any) => factions.includes(value);
+
+  const errorsBeforeGalaxy = errors.length;
+  checkGalaxyShape(gameState.galaxy, `${path}.galaxy`, errors, isFaction);
+  const galaxyIsSound = errors.length === errorsBeforeGalaxy;
+  const systems = isObject(gameState.galaxy) && isObject(gameState.galaxy.systems) ? Object.keys(gameState.galaxy.systems) : [];
+
+  for (const faction of factions) {
+    if (!VALID_FACTION_ID.test(faction)) {
+      errors.push(`${path}.factions.${faction}: faction ids are lower-case letters, digits and "-", starting with a letter`);
+    }
+    const errorsBeforeFaction = errors.length;
+    checkPlayerShape(gameState.factions[faction], `${path}.factions.${faction}`, errors, warnings, systems, isFaction);
+
+    // Colony income follows from the map, so one that does not match it can be recomputed
+    if (galaxyIsSound && errors.length === errorsBeforeFaction) {
+      const economy = gameState.factions[faction].economy;
+      const expected = getColonyIncome(gameState.galaxy, faction);
+      const actual = economy.colonyIncome ?? { metal: 0, energy: 0 };
+      if (actual.metal !== expected.metal || actual.energy !== expected.energy) {
+        warnings.push(`${path}.factions.${faction}.economy.colonyIncome: repaired to match the colonies held`);
+        economy.colonyIncome = expected;
+      }
+    }
+  }
+
+  if (gameState.combatLog === undefined) {
+    gameState.combatLog = [];
+    warnings.push(`${path}.combatLog: missing, started an empty log`);
+  } else if (!Array.isArray(gameState.combatLog)) {
+    errors.push(`${path}.combatLog: expected an array, got ${describe(gameState.combatLog)}`);
+  } else {
+    gameState.combatLog.forEach((event: any, i: number) => {
+      const eventPath = `${path}.combatLog[${i}]`;
+      if (!isObject(event)) {
+        errors.push(`${eventPath}: expected an object, got ${describe(event)}`);
+      } else if (!isFaction(event.attacker)) {
+        errors.push(`${eventPath}.attacker: expected a faction, got ${describe(event.attacker)}`);
+      } else if (!isFaction(event.defender) || event.defender === event.attacker) {
+        errors.push(`${eventPath}.defender: expected a faction other than the attacker, got ${describe(event.defender)}`);
+      } else if (!Array.isArray(event.rounds)) {
+        errors.push(`${eventPath}.rounds: expected an array, got ${describe(event.rounds)}`);
+      } else {
+        event.rounds.forEach((round: any, j: number) => {
+          const roundPath = `${eventPath}.rounds[${j}]`;
+          if (!checkObject(round, roundPath, errors)) return;
+          checkInteger(round.round, `${roundPath}.round`, errors, 1);
+          for (const key of ['attackerFleet', 'defenderFleet', 'attackerLosses', 'defenderLosses']) {
+            checkComposition(round[key], `${roundPath}.${key}`, errors);
+          }
+        });
+      }
+    });
+  }
+
+  if (!Array.isArray(gameState.history)) {
+    errors.push(`${path}.history: expected an array, got ${describe(gameState.history)}`);
+  } else {
+    gameState.history.forEach((turn: any, i: number) => {
+      const turnPath = `${path}.history[${i}]`;
+      if (!checkObject(turn, turnPath, errors)) return;
+      checkInteger(turn.turn, `${turnPath}.turn`, errors, 1);
+      if (!checkObject(turn.factions, `${turnPath}.factions`, errors)) return;
+      for (const faction of factions) {
+        if (!checkObject(turn.factions[faction], `${turnPath}.factions.${faction}`, errors)) continue;
+        for (const key of ['homeFleet', 'inTransit', 'shipsLost', 'shipsKilled']) {
+          checkComposition(turn.factions[faction][key], `${turnPath}.factions.${faction}.${key}`, errors);
+        }
+      }
+    });
+  }
+
+  if (checkObject(gameState.sides, `${path}.sides`, errors)) {
+    const extra = Object.keys(gameState.sides).filter(side => !isFaction(side));
+    if (extra.length > 0) {
+      errors.push(`${path}.sides: expected only the factions, got ${extra.map(describe).join(', ')}`);
+    }
+    const names = new Set<string>();
+    for (const side of factions) {
+      const sidePath = `${path}.sides.${side}`;
+      const profile = gameState.sides[side];
+      if (!checkObject(profile, sidePath, errors)) continue;
+      if (typeof profile.name !== 'string' || validateSideName(profile.name).length > 0) {
+        errors.push(`${sidePath}.name: expected a name of 1-${MAX_SIDE_NAME_LENGTH} characters, got ${describe(profile.name)}`);
+      }
+      if (!VALID_CONTROLLERS.includes(profile.controller)) {
+        errors.push(`${sidePath}.controller: expected "human" or "ai", got ${describe(profile.controller)}`);
+      }
+      if (typeof profile.name === 'string' && names.has(profile.name.toLowerCase())) {
+        errors.push(`${sidePath}.name: ${describe(profile.name)} is taken by another faction`);
+      }
+      names.add(String(profile.name).toLowerCase());
+    }
+    // A game against the AI is played from the "player" side
+    if (factions.join() === 'player,ai' && gameState.sides.player?.controller === 'ai') {
+      errors.push(`${path}.sides.player.controller: the player's side must be played by a human`);
+    }
+  }
+
+  if (typeof gameState.isGameOver !== 'boolean') {
+    errors.push(`${path}.isGameOver: expected a boolean, got ${describe(gameState.isGameOver)}`);
+  }
+
+  // The phase is derived from the turn, so a stale or missing one can be recomputed
+  if (Number.isInteger(gameState.turn) && gameState.turn >= 1) {
+    const expectedPhase = determineGamePhase(gameState.turn);
+    if (gameState.gamePhase !== expectedPhase) {
+      if (gameState.gamePhase !== undefined && !VALID_PHASES.includes(gameState.gamePhase)) {
+        errors.push(`${path}.gamePhase: expected one of ${VALID_PHASES.join(', ')}, got ${describe(gameState.gamePhase)}`);
+      } else {
+        warnings.push(`${path}.gamePhase: ${describe(gameState.gamePhase)} repaired to "${expectedPhase}" for turn ${gameState.turn}`);
+        gameState.gamePhase = expectedPhase;
+      }
+    }
+  }
+
+  for (const key of ['attacked', 'eliminated']) {
+    if (!Array.isArray(gameState[key])) {
+      errors.push(`${path}.${key}: expected an array, got ${describe(gameState[key])}`);
+      continue;
+    }
+    gameState[key].forEach((faction: any, i: number) => {
+      if (!isFaction(faction)) {
+        errors.push(`${path}.${key}[${i}]: expected a faction, got ${describe(faction)}`);
+      }
+    });
+  }
+}
+
+/**
+ * Checks the star map's shape; validateGameState checks it makes a playable map
+ */
+function checkGalaxyShape(galaxy: any, path: string, errors: string[], isFaction: (value: any) => boolean): void {
+  if (!checkObject(galaxy, path, errors)) return;
+
+  if (checkObject(galaxy.systems, `${path}.systems`, errors)) {
+    for (const [id, system] of Object.entries<any>(galaxy.systems)) {
+      const systemPath = `${path}.systems.${id}`;
+      if (!checkObject(system, systemPath, errors)) continue;
+      if (typeof system.name !== 'string' || system.name.trim().length === 0) {
+        errors.push(`${systemPath}.name: expected a name, got ${describe(system.name)}`);
+      }
+      if (typeof system.home !== 'boolean') {
+        errors.push(`${systemPath}.home: expected true or false, got ${describe(system.home)}`);
+      }
+      if (system.owner !== undefined && !isFaction(system.owner)) {
+        errors.push(`${systemPath}.owner: expected a faction, got ${describe(system.owner)}`);
+      }
+      if (checkObject(system.income, `${systemPath}.income`, errors)) {
+        checkNumber(system.income.metal, `${systemPath}.income.metal`, errors);
+        checkNumber(system.income.energy, `${systemPath}.income.energy`, errors);
+      }
+    }
+  }
+
+  if (!Array.isArray(galaxy.jumps)) {
+    errors.push(`${path}.jumps: expected an array, got ${describe(galaxy.jumps)}`);
+    return;
+  }
+  galaxy.jumps.forEach((jump: any, i: number) => {
+    const jumpPath = `${path}.jumps[${i}]`;
+    if (!checkObject(jump, jumpPath, errors)) return;
+    for (const key of ['from', 'to']) {
+      if (!isObject(galaxy.systems) || !(jump[key] in galaxy.systems)) {
+        errors.push(`${jumpPath}.${key}: expected a system, got ${describe(jump[key])}`);
+      }
+    }
+    checkNumber(jump.distance, `${jumpPath}.distance`, errors);
+  });
+}
+
+function checkPlayerShape(player: any, path: string, errors: string[], warnings: string[], systems: string[], isFaction: (value: any) => boolean): void {
+  if (!isObject(player)) {
+    errors.push(`${path}: expected an object, got ${describe(player)}`);
+    return;
+  }
+
+  if (checkObject(player.resources, `${path}.resources`, errors)) {
+    for (const key of ['metal', 'energy', 'metalIncome', 'energyIncome']) {
+      checkNumber(player.resources[key], `${path}.resources.${key}`, errors);
+    }
+  }
+
+  if (checkObject(player.fleet, `${path}.fleet`, errors)) {
+    checkComposition(player.fleet.homeSystem, `${path}.fleet.homeSystem`, errors);
+    checkInteger(player.fleet.nextFleetId, `${path}.fleet.nextFleetId`, errors, 1);
+
+    if (checkObject(player.fleet.inTransit, `${path}.fleet.inTransit`, errors)) {
+      const outbound = player.fleet.inTransit.outbound;
+      if (!Array.isArray(outbound)) {
+        errors.push(`${path}.fleet.inTransit.outbound: expected an array, got ${describe(outbound)}`);
+      } else {
+        const seenIds = new Set<number>();
+        outbound.forEach((movement: any, i: number) => {
+          const movementPath = `${path}.fleet.inTransit.outbound[${i}]`;
+          if (!checkObject(movement, movementPath, errors)) return;
+          checkInteger(movement.id, `${movementPath}.id`, errors, 1);
+          if (seenIds.has(movement.id)) {
+            errors.push(`${movementPath}.id: fleet ${movement.id} appears more than once`);
+          } else if (Number.isInteger(player.fleet.nextFleetId) && movement.id >= player.fleet.nextFleetId) {
+            errors.push(`${movementPath}.id: expected below nextFleetId ${player.fleet.nextFleetId}, got ${movement.id}`);
+          }
+          seenIds.add(movement.id);
+          checkComposition(movement.composition, `${movementPath}.composition`, errors);
+          for (const key of ['origin', 'target']) {
+            if (!systems.includes(movement[key])) {
+              errors.push(`${movementPath}.${key}: expected a system, got ${describe(movement[key])}`);
+            }
+          }
+          checkInteger(movement.arrivalTurn, `${movementPath}.arrivalTurn`, errors, 1);
+          checkInteger(movement.returnTurn, `${movementPath}.returnTurn`, errors, 1);
+          if (!VALID_MISSION_TYPES.includes(movement.missionType)) {
+            errors.push(`${movementPath}.missionType: expected one of ${VALID_MISSION_TYPES.join(', ')}, got ${describe(movement.missionType)}`);
+          }
+          if (movement.retreatThreshold !== undefined &&
+              !(isFiniteNumber(movement.retreatThreshold) && movement.retreatThreshold > 0 && movement.retreatThreshold < 1)) {
+            errors.push(`${movementPath}.retreatThreshold: expected a number between 0 and 1, got ${describe(movement.retreatThreshold)}`);
+          }
+        });
+      }
+    }
+  }
+
+  if (checkObject(player.economy, `${path}.economy`, errors)) {
+    checkInteger(player.economy.reactors, `${path}.economy.reactors`, errors, 0);
+    checkInteger(player.economy.mines, `${path}.economy.mines`, errors, 0);
+    if (player.economy.colonyIncome !== undefined && checkObject(player.economy.colonyIncome, `${path}.economy.colonyIncome`, errors)) {
+      checkNumber(player.economy.colonyIncome.metal, `${path}.economy.colonyIncome.metal`, errors);
+      checkNumber(player.economy.colonyIncome.energy, `${path}.economy.colonyIncome.energy`, errors);
+    }
+
+    const queue = player.economy.constructionQueue;
+    if (!Array.isArray(queue)) {
+      errors.push(`${path}.economy.constructionQueue: expected an array, got ${describe(queue)}`);
+    } else {
+      queue.forEach((order: any, i: number) => {
+        const orderPath = `${path}.economy.constructionQueue[${i}]`;
+        if (!checkObject(order, orderPath, errors)) return;
+        if (!VALID_BUILD_TYPES.includes(order.unitType)) {
+          errors.push(`${orderPath}.unitType: expected one of ${VALID_BUILD_TYPES.join(', ')}, got ${describe(order.unitType)}`);
+        }
+        checkInteger(order.quantity, `${orderPath}.quantity`, errors, 1);
+        checkInteger(order.turnsRemaining, `${orderPath}.turnsRemaining`, errors, 0);
+        if (checkObject(order.resourceDrainPerTurn, `${orderPath}.resourceDrainPerTurn`, errors)) {
+          checkNumber(order.resourceDrainPerTurn.metal, `${orderPath}.resourceDrainPerTurn.metal`, errors);
+          checkNumber(order.resourceDrainPerTurn.energy, `${orderPath}.resourceDrainPerTurn.energy`, errors);
+        }
+      });
+    }
+  }
+
+  if (checkObject(player.standingOrders, `${path}.standingOrders`, errors)) {
+    const standingOrders = player.standingOrders;
+    checkInteger(standingOrders.nextId, `${path}.standingOrders.nextId`, errors, 1);
+
+    if (!Array.isArray(standingOrders.orders)) {
+      errors.push(`${path}.standingOrders.orders: expected an array, got ${describe(standingOrders.orders)}`);
+    } else {
+      standingOrders.orders.forEach((standing: any, i: number) => {
+        const standingPath = `${path}.standingOrders.orders[${i}]`;
+        if (!checkObject(standing, standingPath, errors)) return;
+        checkInteger(standing.id, `${standingPath}.id`, errors, 1);
+        if (Number.isInteger(standingOrders.nextId) && standing.id >= standingOrders.nextId) {
+          errors.push(`${standingPath}.id: expected below nextId ${standingOrders.nextId}, got ${standing.id}`);
+        }
+        checkInteger(standing.every, `${standingPath}.every`, errors, 1);
+        checkInteger(standing.nextTurn, `${standingPath}.nextTurn`, errors, 1);
+        if (!checkObject(standing.order, `${standingPath}.order`, errors)) return;
+        if (standing.order.type === 'build') {
+          if (!VALID_BUILD_TYPES.includes(standing.order.buildType)) {
+            errors.push(`${standingPath}.order.buildType: expected one of ${VALID_BUILD_TYPES.join(', ')}, got ${describe(standing.order.buildType)}`);
+          }
+          checkInteger(standing.order.quantity, `${standingPath}.order.quantity`, errors, 1);
+        } else if (standing.order.type === 'scan') {
+          if (!VALID_SCAN_TYPES.includes(standing.order.scanType)) {
+            errors.push(`${standingPath}.order.scanType: expected one of ${VALID_SCAN_TYPES.join(', ')}, got ${describe(standing.order.scanType)}`);
+          }
+          if (standing.order.target !== undefined && typeof standing.order.target !== 'string') {
+            errors.push(`${standingPath}.order.target: expected a faction name, got ${describe(standing.order.target)}`);
+          }
+        } else {
+          errors.push(`${standingPath}.order.type: expected build or scan, got ${describe(standing.order.type)}`);
+        }
+      });
+    }
+  }
+
+  if (checkObject(player.intelligence, `${path}.intelligence`, errors)) {
+    const intelligence = player.intelligence;
+    checkInteger(intelligence.lastScanTurn, `${path}.intelligence.lastScanTurn`, errors, 0);
+    checkComposition(intelligence.knownEnemyFleet, `${path}.intelligence.knownEnemyFleet`, errors);
+    checkNumber(intelligence.scanAccuracy, `${path}.intelligence.scanAccuracy`, errors);
+    if (intelligence.scannedFaction !== undefined && !isFaction(intelligence.scannedFaction)) {
+      errors.push(`${path}.intelligence.scannedFaction: expected a faction, got ${describe(intelligence.scannedFaction)}`);
+    }
+
+    if (intelligence.scanHistory === undefined) {
+      intelligence.scanHistory = [];
+      warnings.push(`${path}.intelligence.scanHistory: missing, started an empty history`);
+    } else if (!Array.isArray(intelligence.scanHistory)) {
+      errors.push(`${path}.intelligence.scanHistory: expected an array, got ${describe(intelligence.scanHistory)}`);
+    }
+
+    if (intelligence.misinformationChance === undefined) {
+      intelligence.misinformationChance = 0.2;
+      warnings.push(`${path}.intelligence.misinformationChance: missing, reset to the default 0.2`);
+    } else {
+      checkNumber(intelligence.misinformationChance, `${path}.intelligence.misinformationChance`, errors);
+    }
+  }
+}
+
+function checkComposition(composition: any, path: string, errors: string[]): void {
+  if (!checkObject(composition, path, errors)) return;
+  for (const key of ['frigates', 'cruisers', 'battleships']) {
+    checkInteger(composition[key], `${path}.${key}`, errors, 0);
+  }
+}
+
+function checkObject(value: any, path: string, errors: string[]): boolean {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object, got ${describe(value)}`);
+    return false;
+  }
+  return true;
+}
+
+function checkNumber(value: any, path: string, errors: string[]): void {
+  if (!isFiniteNumber(value)) {
+    errors.push(`${path}: expected a number, got ${describe(value)}`);
+  }
+}
+
+function checkInteger(value: any, path: string, errors: string[], min: number): void {
+  if (!Number.isInteger(value)) {
+    errors.push(`${path}: expected an integer, got ${describe(value)}`);
+  } else if (value < min) {
+    errors.push(`${path}: must be at least ${min}, got ${value}`);
+  }
+}
+
+function isObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: any): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function describe(value: any): string {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
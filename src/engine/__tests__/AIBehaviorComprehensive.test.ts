@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { AIEngine } from '../AIEngine.js';
 import { GameState } from '../../models/GameState.js';
 import { PlayerState } from '../../models/PlayerState.js';
+import { defaultRandom } from '../../models/Random.js';
 import { createEmptyFleet } from '../../models/Fleet.js';
 
 describe('AI Behavior - Comprehensive Archetype Testing', () => {
@@ -45,7 +46,7 @@ describe('AI Behavior - Comprehensive Archetype Testing', () => {
     let aggressorAI: AIEngine;
 
     beforeEach(() => {
-      aggressorAI = new AIEngine('aggressor');
+      aggressorAI = new AIEngine('aggressor', defaultRandom, true);
     });
 
     it('should prioritize military units in early game', () => {
@@ -136,7 +137,7 @@ describe('AI Behavior - Comprehensive Archetype Testing', () => {
     let economistAI: AIEngine;
 
     beforeEach(() => {
-      economistAI = new AIEngine('economist');
+      economistAI = new AIEngine('economist', defaultRandom, true);
     });
 
     it('should focus on economic structures early game', () => {
@@ -214,7 +215,7 @@ describe('AI Behavior - Comprehensive Archetype Testing', () => {
     let tricksterAI: AIEngine;
 
     beforeEach(() => {
-      tricksterAI = new AIEngine('trickster');
+      tricksterAI = new AIEngine('trickster', defaultRandom, true);
     });
 
     it('should use deception and misdirection (70% of time)', () => {
@@ -283,7 +284,7 @@ describe('AI Behavior - Comprehensive Archetype Testing', () => {
     let hybridAI: AIEngine;
 
     beforeEach(() => {
-      hybridAI = new AIEngine('hybrid');
+      hybridAI = new AIEngine('hybrid', defaultRandom, true);
     });
 
     it('should show balanced decision making (60% predictable)', () => {
@@ -380,7 +381,7 @@ describe('AI Behavior - Comprehensive Archetype Testing', () => {
       const archetypes = ['aggressor', 'economist', 'trickster', 'hybrid'] as const;
       
       archetypes.forEach(archetype => {
-        const ai = new AIEngine(archetype);
+        const ai = new AIEngine(archetype, defaultRandom, true);
         
         // No threat scenario
         gameState.player.fleet.homeSystem = createEmptyFleet();
@@ -401,7 +402,7 @@ describe('AI Behavior - Comprehensive Archetype Testing', () => {
     });
 
     it('should calculate economic advantage correctly', () => {
-      const ai = new AIEngine('economist');
+      const ai = new AIEngine('economist', defaultRandom, true);
       
       // AI economic advantage
       gameState.ai.resources.metalIncome = 20000;
@@ -416,7 +417,7 @@ describe('AI Behavior - Comprehensive Archetype Testing', () => {
     });
 
     it('should maintain consistent archetype behavior over time', () => {
-      const aggressorAI = new AIEngine('aggressor');
+      const aggressorAI = new AIEngine('aggressor', defaultRandom, true);
       
       // Run multiple turns and verify archetype consistency
       const decisions = [];
@@ -440,7 +441,7 @@ describe('AI Behavior - Comprehensive Archetype Testing', () => {
 
   describe('AI Decision Validation and Error Handling', () => {
     it('should handle resource constraints gracefully', () => {
-      const ai = new AIEngine('aggressor');
+      const ai = new AIEngine('aggressor', defaultRandom, true);
       
       // Set AI to have minimal resources
       gameState.ai.resources.metal = 100;
@@ -457,7 +458,7 @@ describe('AI Behavior - Comprehensive Archetype Testing', () => {
     });
 
     it('should not make invalid attack decisions', () => {
-      const ai = new AIEngine('aggressor');
+      const ai = new AIEngine('aggressor', defaultRandom, true);
       
       // AI has no fleet
       gameState.ai.fleet.homeSystem = createEmptyFleet();
@@ -469,7 +470,7 @@ describe('AI Behavior - Comprehensive Archetype Testing', () => {
     });
 
     it('should handle stalled economy appropriately', () => {
-      const ai = new AIEngine('economist');
+      const ai = new AIEngine('economist', defaultRandom, true);
       
       // Create stalled economy
       gameState.ai.fleet.homeSystem.frigates = 6000; // Causes stall
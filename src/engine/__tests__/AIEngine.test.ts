@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { AIEngine } from '../AIEngine.js';
 import { GameState } from '../../models/GameState.js';
 import { PlayerState } from '../../models/PlayerState.js';
+import { defaultRandom } from '../../models/Random.js';
 
 describe('AIEngine', () => {
   let aiEngine: AIEngine;
@@ -56,7 +57,7 @@ describe('AIEngine', () => {
 
   describe('Aggressor AI', () => {
     beforeEach(() => {
-      aiEngine = new AIEngine('aggressor');
+      aiEngine = new AIEngine('aggressor', defaultRandom, true);
     });
 
     it('should initialize with aggressor archetype', () => {
@@ -95,7 +96,7 @@ describe('AIEngine', () => {
 
   describe('Economist AI', () => {
     beforeEach(() => {
-      aiEngine = new AIEngine('economist');
+      aiEngine = new AIEngine('economist', defaultRandom, true);
     });
 
     it('should initialize with economist archetype', () => {
@@ -135,7 +136,7 @@ describe('AIEngine', () => {
 
   describe('Trickster AI', () => {
     beforeEach(() => {
-      aiEngine = new AIEngine('trickster');
+      aiEngine = new AIEngine('trickster', defaultRandom, true);
     });
 
     it('should initialize with trickster archetype', () => {
@@ -173,7 +174,7 @@ describe('AIEngine', () => {
 
   describe('Hybrid AI', () => {
     beforeEach(() => {
-      aiEngine = new AIEngine('hybrid');
+      aiEngine = new AIEngine('hybrid', defaultRandom, true);
     });
 
     it('should initialize with hybrid archetype', () => {
@@ -225,7 +226,7 @@ describe('AIEngine', () => {
 
   describe('Decision Validation', () => {
     beforeEach(() => {
-      aiEngine = new AIEngine('aggressor');
+      aiEngine = new AIEngine('aggressor', defaultRandom, true);
     });
 
     it('should not make invalid build decisions', () => {
@@ -270,7 +271,7 @@ describe('AIEngine', () => {
 
   describe('AI State Management', () => {
     beforeEach(() => {
-      aiEngine = new AIEngine('economist');
+      aiEngine = new AIEngine('economist', defaultRandom, true);
     });
 
     it('should update threat level based on player fleet', () => {
@@ -308,4 +309,70 @@ describe('AIEngine', () => {
       expect(aiState.economicAdvantage).toBeLessThan(0);
     });
   });
+
+  describe('Fog of War', () => {
+    beforeEach(() => {
+      aiEngine = new AIEngine('aggressor', defaultRandom);
+      mockGameState.player.fleet.homeSystem = { frigates: 40, cruisers: 20, battleships: 10 };
+      mockGameState.player.resources.metalIncome = 30000;
+    });
+
+    it('should not see the player fleet before scanning it', () => {
+      const decision = aiEngine.processTurn(mockGameState);
+      const picture = aiEngine.getAIState().intelligencePicture;
+
+      expect(aiEngine.isOmniscient()).toBe(false);
+      expect(picture.enemyFleet).toEqual({ frigates: 0, cruisers: 0, battleships: 0 });
+      expect(picture.enemyIncome).toEqual({ metal: 10000, energy: 10000 });
+      expect(decision).toEqual({ type: 'scan', scanType: 'deep' });
+    });
+
+    it('should decide from its last scan rather than the true fleet', () => {
+      mockGameState.turn = 4;
+      mockGameState.ai.fleet.homeSystem = { frigates: 10, cruisers: 0, battleships: 0 };
+      mockGameState.ai.intelligence.knownEnemyFleet = { frigates: 5, cruisers: 0, battleships: 0 };
+      mockGameState.ai.intelligence.scanHistory = [{
+        scanType: 'deep',
+        timestamp: 3,
+        fleetData: { frigates: 5, cruisers: 0, battleships: 0 },
+        economicData: { reactors: 2, mines: 0 },
+        accuracy: 0.9,
+        dataAge: 1
+      }];
+
+      const decision = aiEngine.processTurn(mockGameState);
+      const picture = aiEngine.getAIState().intelligencePicture;
+
+      expect(picture.enemyFleet).toEqual({ frigates: 5, cruisers: 0, battleships: 0 });
+      expect(picture.enemyIncome).toEqual({ metal: 10000 - 5 * 2, energy: 11000 - 5 });
+      expect(picture.confidence).toBeCloseTo(0.9);
+      expect(decision.type).not.toBe('scan');
+      expect(aiEngine.getAIState().threatLevel).toBe(0);
+    });
+
+    it('should rescan once its intelligence goes stale', () => {
+      mockGameState.turn = 12;
+      mockGameState.ai.intelligence.scanHistory = [{
+        scanType: 'basic',
+        timestamp: 2,
+        fleetData: { frigates: 5, cruisers: 0, battleships: 0 },
+        accuracy: 0.7,
+        dataAge: 10
+      }];
+      mockGameState.ai.resources.energy = 1500;
+
+      expect(aiEngine.processTurn(mockGameState)).toEqual({ type: 'scan', scanType: 'basic' });
+    });
+
+    it('should see the true player state when omniscient', () => {
+      aiEngine = new AIEngine('aggressor', defaultRandom, true);
+
+      aiEngine.processTurn(mockGameState);
+      const picture = aiEngine.getAIState().intelligencePicture;
+
+      expect(picture.enemyFleet).toEqual({ frigates: 40, cruisers: 20, battleships: 10 });
+      expect(picture.enemyIncome.metal).toBe(30000);
+      expect(picture.confidence).toBe(1);
+    });
+  });
 });
\ No newline at end of file
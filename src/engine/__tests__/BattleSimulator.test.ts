@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { BattleSimulator, BASE_ESTIMATE_SPREAD } from '../BattleSimulator.js';
+import { GameEngine } from '../GameEngine.js';
+import { SeededRandom } from '../../models/Random.js';
+import { FleetComposition } from '../../models/GameState.js';
+import { GameController } from '../../ui/GameController.js';
+import { InputHandler } from '../../ui/InputHandler.js';
+
+describe('BattleSimulator', () => {
+  const knownFleet: FleetComposition = { frigates: 40, cruisers: 20, battleships: 10 };
+  const gap = (confidence: number) => ({ lastKnownFleet: knownFleet, lastScanTurn: 3, estimatedInTransit: 0, confidence });
+
+  describe('estimateEnemyFleet', () => {
+    it('should widen the estimate as confidence drops', () => {
+      const simulator = new BattleSimulator();
+      const fresh = simulator.estimateEnemyFleet(gap(1));
+      const stale = simulator.estimateEnemyFleet(gap(0.5));
+
+      expect(fresh.low.frigates).toBe(Math.floor(40 * (1 - BASE_ESTIMATE_SPREAD)));
+      expect(fresh.high.frigates).toBe(Math.ceil(40 * (1 + BASE_ESTIMATE_SPREAD)));
+      expect(stale.low.frigates).toBeLessThan(fresh.low.frigates);
+      expect(stale.high.frigates).toBeGreaterThan(fresh.high.frigates);
+    });
+
+    it('should never estimate fewer than zero ships', () => {
+      const estimate = new BattleSimulator().estimateEnemyFleet(gap(0));
+
+      expect(estimate.low).toEqual({ frigates: 0, cruisers: 0, battleships: 0 });
+    });
+  });
+
+  describe('simulate', () => {
+    const attackFleet: FleetComposition = { frigates: 30, cruisers: 20, battleships: 10 };
+
+    it('should report outcome shares that add up to one', () => {
+      const simulator = new BattleSimulator(new SeededRandom(5));
+      const preview = simulator.simulate(attackFleet, simulator.estimateEnemyFleet(gap(0.8)), { trials: 500 });
+      const { decisive_attacker, close_battle, decisive_defender } = preview.outcomes;
+
+      expect(preview.trials).toBe(500);
+      expect(decisive_attacker + close_battle + decisive_defender).toBeCloseTo(1);
+    });
+
+    it('should account for every ship of the attack fleet', () => {
+      const simulator = new BattleSimulator(new SeededRandom(5));
+      const preview = simulator.simulate(attackFleet, simulator.estimateEnemyFleet(gap(0.8)), { trials: 200 });
+
+      expect(preview.expectedCasualties.attacker.frigates + preview.expectedSurvivors.attacker.frigates).toBeCloseTo(30);
+      expect(preview.expectedCasualties.attacker.cruisers + preview.expectedSurvivors.attacker.cruisers).toBeCloseTo(20);
+      expect(preview.expectedCasualties.attacker.battleships + preview.expectedSurvivors.attacker.battleships).toBeCloseTo(10);
+    });
+
+    it('should favour an overwhelming fleet', () => {
+      const simulator = new BattleSimulator(new SeededRandom(5));
+      const preview = simulator.simulate({ frigates: 400, cruisers: 200, battleships: 100 }, simulator.estimateEnemyFleet(gap(1)), { trials: 200 });
+
+      expect(preview.outcomes.decisive_attacker).toBe(1);
+      expect(preview.costs.expectedEnemyLosses.metal).toBeGreaterThan(preview.costs.expectedLosses.metal);
+    });
+
+    it('should leave even fleets to close battles and let numbers decide', () => {
+      const simulator = new BattleSimulator(new SeededRandom(7));
+      const enemy = simulator.estimateEnemyFleet(gap(1));
+      const scaled = (factor: number): FleetComposition => ({
+        frigates: knownFleet.frigates * factor,
+        cruisers: knownFleet.cruisers * factor,
+        battleships: knownFleet.battleships * factor
+      });
+
+      const outcomes = [0.5, 1, 1.5, 2].map(factor => simulator.simulate(scaled(factor), enemy, { trials: 500 }).outcomes);
+
+      expect(outcomes[0].decisive_defender).toBe(1);
+      expect(outcomes[1].close_battle).toBe(1);
+      expect(outcomes[2].decisive_attacker).toBeGreaterThan(0.5);
+      expect(outcomes[2].decisive_attacker).toBeLessThan(0.9);
+      expect(outcomes[3].decisive_attacker).toBe(1);
+    });
+
+    it('should report how often a retreating fleet breaks off', () => {
+      const simulator = new BattleSimulator(new SeededRandom(5));
+      const preview = simulator.simulate({ frigates: 10, cruisers: 0, battleships: 0 }, simulator.estimateEnemyFleet(gap(1)), {
+        trials: 200,
+        retreatThreshold: 0.1
+      });
+
+      expect(preview.retreatThreshold).toBe(0.1);
+      expect(preview.retreatRate).toBeGreaterThan(0);
+    });
+
+    it('should give the same preview for the same seed', () => {
+      const run = () => {
+        const simulator = new BattleSimulator(new SeededRandom(11));
+        return simulator.simulate(attackFleet, simulator.estimateEnemyFleet(gap(0.7)), { trials: 100 });
+      };
+
+      expect(run()).toEqual(run());
+    });
+  });
+
+  describe('GameEngine.previewAttack', () => {
+    it('should need a scan of the enemy first', () => {
+      const result = new GameEngine({ seed: 3 }).previewAttack({ frigates: 10, cruisers: 0, battleships: 0 });
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('Scan before simulating');
+    });
+
+    it('should simulate against the latest scan without touching the game', () => {
+      const gameEngine = new GameEngine({ seed: 3 });
+      gameEngine.applyOrder({ type: 'scan', scanType: 'deep' });
+      const before = gameEngine.serialize();
+
+      const result = gameEngine.previewAttack({ frigates: 500, cruisers: 0, battleships: 0 }, { trials: 100 });
+
+      expect(result.success).toBe(true);
+      expect(result.preview?.enemy.lastScanTurn).toBe(1);
+      expect(result.preview?.enemy.fleet).toEqual(gameEngine.getGameState().factions.player.intelligence.knownEnemyFleet);
+      expect(gameEngine.serialize()).toEqual(before);
+    });
+  });
+
+  describe('Frontends', () => {
+    it('should parse simulate commands for fleets that are not at home', () => {
+      const gameState = new GameEngine({ seed: 3 }).getGameState();
+      const inputHandler = new InputHandler();
+
+      expect(inputHandler.processCommand('simulate 500 0 0 retreat 30', gameState).command).toEqual({
+        type: 'simulate',
+        attackFleet: { frigates: 500, cruisers: 0, battleships: 0 },
+        retreatThreshold: 0.3
+      });
+      expect(inputHandler.processCommand('simulate 0 0 0', gameState).error).toBe('Cannot simulate with empty fleet');
+    });
+
+    it('should keep the preview for the frontend to display', () => {
+      const gameEngine = new GameEngine({ seed: 3 });
+      const gameController = new GameController(gameEngine);
+      gameController.executeCommand({ type: 'scan', scanType: 'basic' });
+
+      const result = gameController.executeCommand({ type: 'simulate', attackFleet: { frigates: 20, cruisers: 0, battleships: 0 } });
+
+      expect(result.success).toBe(true);
+      expect(result.gameStateChanged).toBe(false);
+      expect(result.message).toMatch(/^Simulated 2,000 battles: \d+% decisive victory$/);
+      expect(gameController.getLastBattlePreview()?.attackFleet.frigates).toBe(20);
+    });
+  });
+});
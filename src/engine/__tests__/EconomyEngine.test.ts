@@ -58,6 +58,16 @@ describe('EconomyEngine - Income Calculation', () => {
       expect(basePlayerState.resources.energyIncome).toBe(BASE_INCOME.energy + 2 * 500);
     });
 
+    it('should add what the colonies held pay', () => {
+      basePlayerState.economy.colonyIncome = { metal: 1500, energy: 1500 };
+
+      economyEngine.calculateIncome(basePlayerState);
+
+      expect(basePlayerState.resources.metalIncome).toBe(BASE_INCOME.metal + 1500);
+      expect(basePlayerState.resources.energyIncome).toBe(BASE_INCOME.energy + 1500);
+      expect(economyEngine.getIncomeBreakdown(basePlayerState).colonyIncome).toEqual({ metal: 1500, energy: 1500 });
+    });
+
     it('should subtract construction drain from income', () => {
       basePlayerState.economy.constructionQueue = [
         {
@@ -241,6 +251,7 @@ describe('EconomyEngine - Income Calculation', () => {
 
       expect(breakdown.baseIncome).toEqual(BASE_INCOME);
       expect(breakdown.structureBonus).toEqual({ metal: 0, energy: 0 });
+      expect(breakdown.colonyIncome).toEqual({ metal: 0, energy: 0 });
       expect(breakdown.constructionDrain).toEqual({ metal: 0, energy: 0 });
       expect(breakdown.fleetUpkeep).toEqual({ metal: 0, energy: 0 });
       expect(breakdown.netIncome).toEqual(BASE_INCOME);
@@ -499,6 +510,24 @@ describe('EconomyEngine - Income Calculation', () => {
         expect(basePlayerState.economy.constructionQueue).toHaveLength(0);
       });
 
+      it('should count colony income when checking for a stall', () => {
+        basePlayerState.resources.metal = 100000;
+        basePlayerState.resources.energy = 100000;
+        basePlayerState.economy.colonyIncome = { metal: 1500, energy: 1500 };
+
+        const order: BuildOrder = {
+          unitType: 'battleship',
+          quantity: 100,
+          turnsRemaining: 1,
+          resourceDrainPerTurn: { metal: 11000, energy: 11000 } // Stalls on base income alone, not with the colonies
+        };
+
+        const result = economyEngine.addBuildOrder(basePlayerState, order);
+
+        expect(result).toEqual({ success: true, errors: [] });
+        expect(basePlayerState.economy.constructionQueue).toHaveLength(1);
+      });
+
       it('should allow multiple build orders if sustainable', () => {
         const order1: BuildOrder = {
           unitType: 'frigate',
@@ -566,6 +595,104 @@ describe('EconomyEngine - Income Calculation', () => {
       });
     });
 
+    describe('prioritizeBuildOrder', () => {
+      beforeEach(() => {
+        basePlayerState.economy.constructionQueue = [
+          { unitType: 'frigate', quantity: 5, turnsRemaining: 1, resourceDrainPerTurn: { metal: 20, energy: 10 } },
+          { unitType: 'cruiser', quantity: 3, turnsRemaining: 2, resourceDrainPerTurn: { metal: 30, energy: 18 } },
+          { unitType: 'battleship', quantity: 1, turnsRemaining: 4, resourceDrainPerTurn: { metal: 20, energy: 15 } }
+        ];
+      });
+
+      it('should move the order to the front and keep the rest in order', () => {
+        const result = economyEngine.prioritizeBuildOrder(basePlayerState, 2);
+
+        expect(result.success).toBe(true);
+        expect(basePlayerState.economy.constructionQueue.map(order => order.unitType)).toEqual(['battleship', 'frigate', 'cruiser']);
+      });
+
+      it('should reject invalid index', () => {
+        const result = economyEngine.prioritizeBuildOrder(basePlayerState, 3);
+
+        expect(result.success).toBe(false);
+        expect(result.errors[0]).toContain('Invalid build order index');
+      });
+    });
+
+    describe('Stalled construction', () => {
+      beforeEach(() => {
+        basePlayerState.fleet.homeSystem.frigates = 0;
+        basePlayerState.economy.constructionQueue = [
+          { unitType: 'battleship', quantity: 200, turnsRemaining: 4, resourceDrainPerTurn: { metal: 8000, energy: 6000 } },
+          { unitType: 'cruiser', quantity: 200, turnsRemaining: 2, resourceDrainPerTurn: { metal: 5000, energy: 3000 } }
+        ];
+      });
+
+      it('should keep building and draining every order when the queue stalls the economy', () => {
+        economyEngine.calculateIncome(basePlayerState);
+        economyEngine.processConstruction(basePlayerState);
+
+        expect(basePlayerState.resources.metalIncome).toBe(10000 - 8000 - 5000);
+        expect(basePlayerState.economy.constructionQueue.map(order => order.turnsRemaining)).toEqual([3, 1]);
+      });
+
+      it('should keep the prioritized order in front', () => {
+        economyEngine.prioritizeBuildOrder(basePlayerState, 1);
+        economyEngine.processConstruction(basePlayerState);
+
+        expect(basePlayerState.economy.constructionQueue.map(order => order.unitType)).toEqual(['cruiser', 'battleship']);
+        expect(basePlayerState.economy.constructionQueue.map(order => order.turnsRemaining)).toEqual([1, 3]);
+      });
+
+      it('should report drain and refund in the construction status', () => {
+        const status = economyEngine.getConstructionStatus(basePlayerState);
+
+        expect(status.map(entry => entry.completionTurn)).toEqual([4, 2]);
+        expect(status[1].drainPerTurn).toEqual({ metal: 5000, energy: 3000 });
+        expect(status[1].refund).toEqual({ metal: 5000, energy: 3000 });
+      });
+    });
+
+    describe('forecast', () => {
+      it('should start paying upkeep the turn after queued units complete', () => {
+        basePlayerState.economy.constructionQueue = [
+          { unitType: 'frigate', quantity: 1000, turnsRemaining: 1, resourceDrainPerTurn: { metal: 4000, energy: 2000 } }
+        ];
+
+        const forecast = economyEngine.forecast(basePlayerState, 4, 2);
+
+        expect(forecast.turns.map(entry => entry.turn)).toEqual([4, 5]);
+        expect(forecast.turns[0].netIncome).toEqual({ metal: 6000, energy: 8000 });
+        expect(forecast.turns[0].completed).toEqual([{ unitType: 'frigate', quantity: 1000 }]);
+        expect(forecast.turns[1].netIncome).toEqual({ metal: 8000, energy: 9000 });
+        expect(forecast.turns[1].fleetUpkeep).toEqual({ metal: 2000, energy: 1000 });
+        expect(forecast.turns[1].resources).toEqual({ metal: 15000 + 6000 + 8000, energy: 12000 + 8000 + 9000 });
+        expect(forecast.collapseTurn).toBeNull();
+      });
+
+      it('should flag the turn the economy would collapse', () => {
+        basePlayerState.fleet.homeSystem.cruisers = 4000; // 20,000 Metal and 12,000 Energy upkeep
+
+        const forecast = economyEngine.forecast(basePlayerState, 1, 10);
+
+        expect(forecast.turns[1].resources.metal).toBe(0);
+        expect(forecast.turns[4].collapsed).toBe(false);
+        expect(forecast.collapseTurn).toBe(6);
+        expect(forecast.turns[5].collapsed).toBe(true);
+      });
+
+      it('should leave the player untouched', () => {
+        basePlayerState.economy.constructionQueue = [
+          { unitType: 'reactor', quantity: 1, turnsRemaining: 2, resourceDrainPerTurn: { metal: 900, energy: 1200 } }
+        ];
+        const before = JSON.parse(JSON.stringify(basePlayerState));
+
+        economyEngine.forecast(basePlayerState, 1);
+
+        expect(basePlayerState).toEqual(before);
+      });
+    });
+
     describe('Construction Utility Methods', () => {
       beforeEach(() => {
         basePlayerState.economy.constructionQueue = [
@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { GameEngine } from '../GameEngine.js';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GameEngine, validateFactionConfigs } from '../GameEngine.js';
 import { GameState } from '../../models/GameState.js';
+import { DuelView } from '../../models/Sides.js';
 
 describe('GameEngine', () => {
   let gameEngine: GameEngine;
@@ -16,17 +17,17 @@ describe('GameEngine', () => {
       expect(gameState.turn).toBe(1);
       expect(gameState.gamePhase).toBe('early');
       expect(gameState.isGameOver).toBe(false);
-      expect(gameState.player.resources.metal).toBe(10000);
-      expect(gameState.player.resources.energy).toBe(10000);
-      expect(gameState.ai.resources.metal).toBe(10000);
-      expect(gameState.ai.resources.energy).toBe(10000);
+      expect(gameState.factions.player.resources.metal).toBe(10000);
+      expect(gameState.factions.player.resources.energy).toBe(10000);
+      expect(gameState.factions.ai.resources.metal).toBe(10000);
+      expect(gameState.factions.ai.resources.energy).toBe(10000);
       // Check starting fleets
-      expect(gameState.player.fleet.homeSystem.frigates).toBe(50);
-      expect(gameState.player.fleet.homeSystem.cruisers).toBe(20);
-      expect(gameState.player.fleet.homeSystem.battleships).toBe(10);
-      expect(gameState.ai.fleet.homeSystem.frigates).toBe(50);
-      expect(gameState.ai.fleet.homeSystem.cruisers).toBe(20);
-      expect(gameState.ai.fleet.homeSystem.battleships).toBe(10);
+      expect(gameState.factions.player.fleet.homeSystem.frigates).toBe(50);
+      expect(gameState.factions.player.fleet.homeSystem.cruisers).toBe(20);
+      expect(gameState.factions.player.fleet.homeSystem.battleships).toBe(10);
+      expect(gameState.factions.ai.fleet.homeSystem.frigates).toBe(50);
+      expect(gameState.factions.ai.fleet.homeSystem.cruisers).toBe(20);
+      expect(gameState.factions.ai.fleet.homeSystem.battleships).toBe(10);
     });
 
     it('should initialize with custom starting resources', () => {
@@ -35,10 +36,10 @@ describe('GameEngine', () => {
       });
       
       const gameState = customEngine.getGameState();
-      expect(gameState.player.resources.metal).toBe(5000);
-      expect(gameState.player.resources.energy).toBe(8000);
-      expect(gameState.ai.resources.metal).toBe(5000);
-      expect(gameState.ai.resources.energy).toBe(8000);
+      expect(gameState.factions.player.resources.metal).toBe(5000);
+      expect(gameState.factions.player.resources.energy).toBe(8000);
+      expect(gameState.factions.ai.resources.metal).toBe(5000);
+      expect(gameState.factions.ai.resources.energy).toBe(8000);
     });
 
     it('should initialize with specified AI archetype', () => {
@@ -106,8 +107,8 @@ describe('GameEngine', () => {
 
     it('should apply income each turn', () => {
       const initialState = gameEngine.getGameState();
-      const initialPlayerMetal = initialState.player.resources.metal;
-      const initialPlayerEnergy = initialState.player.resources.energy;
+      const initialPlayerMetal = initialState.factions.player.resources.metal;
+      const initialPlayerEnergy = initialState.factions.player.resources.energy;
       
       gameEngine.processTurn();
       
@@ -117,8 +118,8 @@ describe('GameEngine', () => {
       // Total upkeep: 50*2 + 20*5 + 10*10 = 100 + 100 + 100 = 300 metal
       //               50*1 + 20*3 + 10*6 = 50 + 60 + 60 = 170 energy
       // Net income: 10000 - 300 = 9700 metal, 10000 - 170 = 9830 energy
-      expect(newState.player.resources.metal).toBe(initialPlayerMetal + 9700);
-      expect(newState.player.resources.energy).toBe(initialPlayerEnergy + 9830);
+      expect(newState.factions.player.resources.metal).toBe(initialPlayerMetal + 9700);
+      expect(newState.factions.player.resources.energy).toBe(initialPlayerEnergy + 9830);
     });
 
     it('should handle multiple turns without errors', () => {
@@ -156,6 +157,54 @@ describe('GameEngine', () => {
       expect(stats.turn).toBe(3);
       expect(stats.gamePhase).toBe('early');
     });
+
+    it('should record both sides at the end of every turn', () => {
+      const result = gameEngine.processTurn([
+        { type: 'build', buildType: 'frigate', quantity: 10 },
+        { type: 'scan', scanType: 'basic' },
+        { type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'ai' }
+      ]);
+      gameEngine.processTurn();
+
+      const history = gameEngine.getHistory();
+      const player = history[0].factions.player;
+      expect(result.orderResults.every(orderResult => orderResult.success)).toBe(true);
+      expect(history.map(turn => turn.turn)).toEqual([1, 2]);
+      expect(player.homeFleet).toEqual({ frigates: 50, cruisers: 20, battleships: 10 }); // 10 sent, 10 built
+      expect(player.inTransit).toEqual({ frigates: 10, cruisers: 0, battleships: 0 });
+      expect(player.scans).toBe(1);
+      expect(player.scanSpending).toEqual({ metal: 0, energy: 1000 });
+      expect(player.enemyFleetEstimate).toEqual(gameEngine.getGameState().factions.player.intelligence.knownEnemyFleet);
+      expect(player.constructionDrain.metal).toBeGreaterThan(0);
+      expect(player.netIncome.metal).toBe(10000 - player.constructionDrain.metal - player.fleetUpkeep.metal);
+      expect(history[1].factions.player.scans).toBe(0);
+    });
+
+    it('should count one side\'s losses as the other side\'s kills', () => {
+      gameEngine.processTurn([
+        { type: 'attack', attackFleet: { frigates: 50, cruisers: 20, battleships: 10 }, target: 'ai' }
+      ]);
+      while (gameEngine.getCombatLog().length === 0) {
+        gameEngine.processTurn();
+      }
+
+      const history = gameEngine.getHistory();
+      const playerLost = history.reduce((total, turn) => total + turn.factions.player.shipsLost.frigates + turn.factions.player.shipsLost.cruisers + turn.factions.player.shipsLost.battleships, 0);
+      const aiKilled = history.reduce((total, turn) => total + turn.factions.ai.shipsKilled.frigates + turn.factions.ai.shipsKilled.cruisers + turn.factions.ai.shipsKilled.battleships, 0);
+      expect(playerLost).toBeGreaterThan(0);
+      expect(aiKilled).toBe(playerLost);
+    });
+
+    it('should carry the history through a save', () => {
+      gameEngine.processTurn();
+      gameEngine.processTurn();
+
+      const restored = GameEngine.fromSnapshot(gameEngine.serialize());
+      restored.processTurn();
+
+      expect(restored.getHistory().slice(0, 2)).toEqual(gameEngine.getHistory());
+      expect(restored.getHistory()).toHaveLength(3);
+    });
   });
 
   describe('Game State Validation', () => {
@@ -190,8 +239,8 @@ describe('GameEngine', () => {
       expect(gameEngine.isGameOver()).toBe(false);
       
       const gameState = gameEngine.getGameState();
-      expect(gameState.player.resources.metal).toBe(10000);
-      expect(gameState.player.resources.energy).toBe(10000);
+      expect(gameState.factions.player.resources.metal).toBe(10000);
+      expect(gameState.factions.player.resources.energy).toBe(10000);
     });
 
     it('should reset with new configuration', () => {
@@ -201,8 +250,8 @@ describe('GameEngine', () => {
       });
       
       const gameState = gameEngine.getGameState();
-      expect(gameState.player.resources.metal).toBe(15000);
-      expect(gameState.player.resources.energy).toBe(12000);
+      expect(gameState.factions.player.resources.metal).toBe(15000);
+      expect(gameState.factions.player.resources.energy).toBe(12000);
     });
   });
 
@@ -259,4 +308,455 @@ describe('GameEngine', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('Seeded Games', () => {
+    const playTurns = (engine: GameEngine, turns: number): void => {
+      for (let i = 0; i < turns && !engine.isGameOver(); i++) {
+        const state = engine.getGameState();
+        // Send a raid every few turns so player combat rolls are exercised too
+        if (state.turn % 4 === 0 && state.factions.player.fleet.homeSystem.frigates >= 10) {
+          state.factions.player.fleet.homeSystem.frigates -= 10;
+          state.factions.player.fleet.inTransit.outbound.push({
+            composition: { frigates: 10, cruisers: 0, battleships: 0 },
+            target: 'ai',
+            arrivalTurn: state.turn + 1,
+            returnTurn: state.turn + 3,
+            missionType: 'outbound'
+          });
+        }
+        engine.processTurn();
+      }
+    };
+
+    it('should expose the configured seed', () => {
+      const seededEngine = new GameEngine({ seed: 1234 });
+      expect(seededEngine.getSeed()).toBe(1234);
+    });
+
+    it('should generate a seed when none is configured', () => {
+      expect(Number.isInteger(gameEngine.getSeed())).toBe(true);
+    });
+
+    it('should produce identical games from the same seed and commands', () => {
+      for (const aiArchetype of ['aggressor', 'economist', 'trickster', 'hybrid'] as const) {
+        const first = new GameEngine({ seed: 42, aiArchetype });
+        const second = new GameEngine({ seed: 42, aiArchetype });
+
+        playTurns(first, 20);
+        playTurns(second, 20);
+
+        expect(JSON.stringify(second.getGameState())).toBe(JSON.stringify(first.getGameState()));
+      }
+    });
+
+    it('should restart the sequence when reset with the same seed', () => {
+      const engine = new GameEngine({ seed: 7, aiArchetype: 'hybrid' });
+      playTurns(engine, 10);
+      const firstRun = JSON.stringify(engine.getGameState());
+
+      engine.resetGame({ seed: 7, aiArchetype: 'hybrid' });
+      playTurns(engine, 10);
+
+      expect(JSON.stringify(engine.getGameState())).toBe(firstRun);
+    });
+
+    it('should continue identically after a save and restore', () => {
+      for (const aiArchetype of ['aggressor', 'economist', 'trickster', 'hybrid'] as const) {
+        const original = new GameEngine({ seed: 99, aiArchetype });
+        playTurns(original, 8);
+
+        const snapshot = JSON.parse(JSON.stringify(original.serialize()));
+        const restored = GameEngine.fromSnapshot(snapshot);
+
+        playTurns(original, 12);
+        playTurns(restored, 12);
+
+        expect(JSON.stringify(restored.getGameState())).toBe(JSON.stringify(original.getGameState()));
+      }
+    });
+
+    it('should reject a snapshot whose AI archetype does not match', () => {
+      const engine = new GameEngine({ seed: 5, aiArchetype: 'hybrid' });
+      const before = JSON.stringify(engine.getGameState());
+      const snapshot = engine.serialize();
+      snapshot.aiEngines.ai.archetype = 'aggressor';
+      snapshot.aiEngines.ai.aiState.archetype = 'hybrid';
+
+      expect(() => engine.restore(snapshot)).toThrow();
+      expect(JSON.stringify(engine.getGameState())).toBe(before);
+    });
+  });
+
+  describe('Standing Orders', () => {
+    it('should give a standing order from the next turn on, every few turns', () => {
+      const engine = new GameEngine({ seed: 8, startingResources: { metal: 50000, energy: 50000 } });
+      const added = engine.addStandingOrder({ type: 'scan', scanType: 'basic' }, 2);
+
+      expect(added.standingOrder).toMatchObject({ id: 1, every: 2, nextTurn: 2 });
+      expect(engine.applyStandingOrders()).toEqual([]);
+
+      engine.processTurn();
+      const results = engine.applyStandingOrders();
+
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ standingOrderId: 1, success: true });
+      expect(engine.getGameState().factions.player.intelligence.lastScanTurn).toBe(2);
+      expect(engine.getStandingOrders()[0].nextTurn).toBe(4);
+    });
+
+    it('should skip a build that cannot be afforded and sustained until its next run', () => {
+      const engine = new GameEngine({ seed: 8 });
+      engine.addStandingOrder({ type: 'build', buildType: 'battleship', quantity: 5000 }, 1);
+      engine.processTurn();
+      const queued = engine.getGameState().factions.player.economy.constructionQueue.length;
+
+      const [result] = engine.applyStandingOrders();
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('Insufficient resources');
+      expect(engine.getGameState().factions.player.economy.constructionQueue).toHaveLength(queued);
+      expect(engine.getStandingOrders()[0].nextTurn).toBe(3);
+    });
+
+    it('should reject orders that cannot stand and cancel by id', () => {
+      expect(gameEngine.addStandingOrder({ type: 'scan', scanType: 'basic' }, 0).errors).toEqual(['Standing orders repeat every 1-50 turns']);
+
+      gameEngine.addStandingOrder({ type: 'build', buildType: 'frigate', quantity: 5 }, 1);
+      gameEngine.addStandingOrder({ type: 'scan', scanType: 'deep' }, 3);
+
+      expect(gameEngine.cancelStandingOrder(1).success).toBe(true);
+      expect(gameEngine.cancelStandingOrder(1).errors).toEqual(['No standing order 1']);
+      expect(gameEngine.getStandingOrders().map(standingOrder => standingOrder.id)).toEqual([2]);
+    });
+  });
+
+  describe('AI Intelligence', () => {
+    it('should have the AI scout the player before acting on what it cannot see', () => {
+      const engine = new GameEngine({ seed: 3, aiArchetype: 'aggressor' });
+
+      const result = engine.processTurn();
+
+      expect(result.aiDecisions.ai).toEqual({ type: 'scan', scanType: 'deep' });
+      expect(engine.getGameState().factions.ai.intelligence.scanHistory).toHaveLength(1);
+    });
+
+    it('should let an omniscient AI act without scouting', () => {
+      const engine = new GameEngine({ seed: 3, aiArchetype: 'aggressor', omniscientAI: true });
+
+      const result = engine.processTurn();
+
+      expect(result.aiDecisions.ai?.type).not.toBe('scan');
+      expect(engine.serialize().aiEngines.ai.omniscient).toBe(true);
+    });
+  });
+
+  describe('Hotseat', () => {
+    it('should name the sides and leave the second side to a human', () => {
+      const engine = new GameEngine({ seed: 3, hotseat: true, sideNames: { player: 'Ana', ai: 'Ben' } });
+
+      const result = engine.processTurn();
+
+      expect(engine.getGameState().sides).toEqual({
+        player: { name: 'Ana', controller: 'human' },
+        ai: { name: 'Ben', controller: 'human' }
+      });
+      expect(result.aiDecisions.ai).toBeUndefined();
+      expect(engine.getGameState().factions.ai.intelligence.scanHistory).toHaveLength(0);
+    });
+
+    it('should take orders for the second side only when a human plays it', () => {
+      const order = { type: 'build' as const, buildType: 'frigate' as const, quantity: 10 };
+      const hotseat = new GameEngine({ seed: 3, hotseat: true });
+
+      expect(hotseat.applyOrder(order, 'ai').success).toBe(true);
+      expect(hotseat.getGameState().factions.ai.economy.constructionQueue).toHaveLength(1);
+      expect(hotseat.getGameState().factions.player.economy.constructionQueue).toHaveLength(0);
+      expect(new GameEngine({ seed: 3 }).applyOrder(order, 'ai').errors).toEqual(['AI is played by the AI and takes no orders']);
+    });
+
+    it('should give each side its own intelligence', () => {
+      const engine = new GameEngine({ seed: 3, hotseat: true });
+
+      engine.applyOrder({ type: 'scan', scanType: 'basic' }, 'ai');
+
+      expect(engine.getGameState().factions.ai.intelligence.lastScanTurn).toBe(1);
+      expect(engine.getGameState().factions.player.intelligence.lastScanTurn).not.toBe(1);
+      expect(engine.getIntelligenceGap('ai')).not.toEqual(engine.getIntelligenceGap('player'));
+    });
+  });
+
+  describe('Star Map', () => {
+    const sendFleet = (target: string, attackFleet = { frigates: 10, cruisers: 0, battleships: 0 }) =>
+      gameEngine.applyOrder({ type: 'attack', attackFleet, target });
+
+    it('should start every faction at its home system with the colonies unclaimed', () => {
+      const galaxy = gameEngine.getGameState().galaxy;
+
+      expect(galaxy.systems.sol).toMatchObject({ name: 'Sol', home: true, owner: 'player' });
+      expect(galaxy.systems.kepler).toMatchObject({ name: 'Kepler', home: true, owner: 'ai' });
+      expect(['meridian', 'vega', 'altair'].map(id => galaxy.systems[id].owner)).toEqual([undefined, undefined, undefined]);
+    });
+
+    it('should take as long as the slowest ship needs for the distance', () => {
+      sendFleet('vega', { frigates: 10, cruisers: 0, battleships: 0 });
+      sendFleet('vega', { frigates: 10, cruisers: 0, battleships: 1 });
+
+      const [frigates, withBattleship] = gameEngine.getGameState().factions.player.fleet.inTransit.outbound;
+      expect(frigates).toMatchObject({ origin: 'sol', target: 'vega', arrivalTurn: 2 });
+      expect(withBattleship.arrivalTurn).toBe(3);
+    });
+
+    it('should take an unclaimed colony and start collecting its income', () => {
+      const claimed: string[] = [];
+      gameEngine.subscribe('SystemClaimed', event => { claimed.push(`${event.side} ${event.system}`); });
+      sendFleet('Vega');
+
+      gameEngine.processTurn();
+      gameEngine.processTurn();
+      const state = gameEngine.getGameState();
+
+      expect(claimed).toEqual(['player vega', 'ai meridian']);
+      expect(state.galaxy.systems.vega.owner).toBe('player');
+      expect(state.factions.player.economy.colonyIncome).toEqual({ metal: 1000, energy: 500 });
+      expect(state.factions.player.fleet.inTransit.outbound[0]).toMatchObject({ missionType: 'returning', target: 'sol' });
+
+    });
+
+    it('should refuse to send a fleet to a colony it already holds', () => {
+      sendFleet('vega');
+      gameEngine.processTurn();
+      gameEngine.processTurn();
+
+      expect(sendFleet('vega').errors).toEqual(['Vega is already yours']);
+      expect(sendFleet('sol').errors).toEqual(['A faction cannot attack itself']);
+    });
+
+    it('should lose an undefended colony to whoever arrives next, and take it back the same way', () => {
+      const hotseat = new GameEngine({ seed: 7, hotseat: true });
+      const claimed: string[] = [];
+      hotseat.subscribe('SystemClaimed', event => { claimed.push(`${event.side} ${event.system} from ${event.from ?? 'nobody'}`); });
+      const playUntilClaimed = (count: number) => {
+        for (let turn = 0; turn < 10 && claimed.length < count; turn++) {
+          hotseat.processTurn();
+        }
+      };
+      const attackMeridian = (side: 'player' | 'ai') =>
+        hotseat.applyOrder({ type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'meridian' }, side);
+
+      attackMeridian('player');
+      playUntilClaimed(1);
+      attackMeridian('ai');
+      playUntilClaimed(2);
+      const { factions } = hotseat.getGameState();
+      expect(factions.player.economy.colonyIncome).toEqual({ metal: 0, energy: 0 });
+      expect(factions.ai.economy.colonyIncome).toEqual({ metal: 1500, energy: 1500 });
+
+      attackMeridian('player');
+      playUntilClaimed(3);
+
+      expect(claimed).toEqual(['player meridian from nobody', 'ai meridian from player', 'player meridian from ai']);
+      expect(hotseat.getGameState().galaxy.systems.meridian.owner).toBe('player');
+      expect(hotseat.getGameState().factions.ai.economy.colonyIncome).toEqual({ metal: 0, energy: 0 });
+    });
+
+    it('should send the AI to take the nearest colony it does not hold, even one of the player\'s', () => {
+      gameEngine.processTurn();
+      const detachment = gameEngine.getGameState().factions.ai.fleet.inTransit.outbound.find(movement => movement.target === 'meridian');
+      expect(detachment?.composition).toEqual({ frigates: 5, cruisers: 0, battleships: 0 });
+
+      const snapshot = gameEngine.serialize();
+      snapshot.gameState.factions.ai.fleet.inTransit.outbound = [];
+      snapshot.gameState.galaxy.systems.meridian.owner = 'player';
+      gameEngine.restore(snapshot);
+      for (let turn = 0; turn < 3; turn++) {
+        gameEngine.processTurn();
+      }
+
+      expect(gameEngine.getGameState().galaxy.systems.meridian.owner).toBe('ai');
+    });
+
+    it('should aim an attack named after a faction at its home system', () => {
+      const result = sendFleet('ai');
+
+      expect(result.message).toContain('en route to AI at Kepler');
+      expect(gameEngine.getGameState().factions.player.fleet.inTransit.outbound[0].target).toBe('kepler');
+    });
+  });
+
+  describe('Free-for-all', () => {
+    const attackOrder = (target?: string) => ({
+      type: 'attack' as const,
+      attackFleet: { frigates: 10, cruisers: 0, battleships: 0 },
+      ...(target !== undefined && { target })
+    });
+    let engine: GameEngine;
+
+    beforeEach(() => {
+      engine = new GameEngine({
+        seed: 5,
+        factions: [
+          { name: 'Ana', controller: 'human' },
+          { name: 'Ben', controller: 'human' },
+          { name: 'Crimson Fleet', controller: 'human' }
+        ]
+      });
+    });
+
+    /** Leaves the named factions without ships after being attacked */
+    const defeat = (...factions: string[]) => {
+      const snapshot = engine.serialize();
+      for (const faction of factions) {
+        snapshot.gameState.factions[faction].fleet.homeSystem = { frigates: 0, cruisers: 0, battleships: 0 };
+        snapshot.gameState.attacked.push(faction);
+      }
+      engine.restore(snapshot);
+    };
+
+    it('should seat the factions in order with ids made from their names', () => {
+      expect(Object.keys(engine.getGameState().factions)).toEqual(['ana', 'ben', 'crimson-fleet']);
+      expect(engine.getGameState().sides['crimson-fleet']).toEqual({ name: 'Crimson Fleet', controller: 'human' });
+    });
+
+    it('should ask which faction to attack when there are several', () => {
+      expect(engine.applyOrder(attackOrder(), 'ana').errors).toEqual(['Name the faction to attack: Ben, Crimson Fleet']);
+      expect(engine.applyOrder(attackOrder('ana'), 'ana').errors).toEqual(['A faction cannot attack itself']);
+      expect(engine.applyOrder(attackOrder('nobody'), 'ana').errors).toEqual(['No faction or system called nobody']);
+    });
+
+    it('should send an attack to the home system of the faction named', () => {
+      expect(engine.applyOrder(attackOrder('crimson fleet'), 'ana').success).toBe(true);
+
+      expect(engine.getGameState().factions.ana.fleet.inTransit.outbound[0]).toMatchObject({ origin: 'sol', target: 'tau-ceti' });
+    });
+
+    it('should ask which faction to scan when there are several', () => {
+      const scan = (target?: string) => ({ type: 'scan' as const, scanType: 'deep' as const, ...(target !== undefined && { target }) });
+
+      expect(engine.applyOrder(scan(), 'ana').errors).toEqual(['Name the faction to scan: Ben, Crimson Fleet']);
+      expect(engine.applyOrder(scan('Ana'), 'ana').errors).toEqual(['A faction cannot scan itself']);
+      expect(engine.applyOrder(scan('vega'), 'ana').errors).toEqual(['No faction called vega']);
+    });
+
+    it('should scan the faction named and remember whom it scanned', () => {
+      const snapshot = engine.serialize();
+      snapshot.gameState.factions['crimson-fleet'].fleet.homeSystem = { frigates: 500, cruisers: 0, battleships: 0 };
+      engine.restore(snapshot);
+
+      expect(engine.applyOrder({ type: 'scan', scanType: 'deep', target: 'crimson fleet' }, 'ana').success).toBe(true);
+
+      const intelligence = engine.getGameState().factions.ana.intelligence;
+      expect(intelligence.scannedFaction).toBe('crimson-fleet');
+      expect(intelligence.knownEnemyFleet.frigates).toBeGreaterThanOrEqual(450);
+      expect(intelligence.knownEnemyFleet.cruisers).toBe(0);
+    });
+
+    it('should only simulate an attack on the faction last scanned', () => {
+      const fleet = { frigates: 10, cruisers: 0, battleships: 0 };
+      engine.applyOrder({ type: 'scan', scanType: 'deep', target: 'ben' }, 'ana');
+
+      expect(engine.previewAttack(fleet, {}, 'ana', 'ben').success).toBe(true);
+      expect(engine.previewAttack(fleet, {}, 'ana', 'crimson fleet').errors)
+        .toEqual(['Your last scan was of Ben. Scan Crimson Fleet before simulating an attack on it']);
+    });
+
+    it('should knock out a beaten faction and play on', () => {
+      const eliminated: string[] = [];
+      engine.subscribe('FactionEliminated', event => { eliminated.push(event.side); });
+      defeat('ben');
+
+      const result = engine.processTurn();
+
+      expect(result.gameEnded).toBe(false);
+      expect(eliminated).toEqual(['ben']);
+      expect(engine.getGameState().eliminated).toEqual(['ben']);
+      expect(engine.applyOrder(attackOrder('ben'), 'ana').errors).toEqual(['Ben has already been eliminated']);
+      expect(engine.applyOrder({ type: 'scan', scanType: 'basic', target: 'ben' }, 'ana').errors).toEqual(['Ben has already been eliminated']);
+      expect(engine.applyOrder({ type: 'scan', scanType: 'basic' }, 'ana').success).toBe(true);
+      expect(engine.applyOrder(attackOrder(), 'ana').success).toBe(true);
+    });
+
+    it('should end the game when one faction is left standing', () => {
+      defeat('ana', 'crimson-fleet');
+
+      const result = engine.processTurn();
+
+      expect(result).toMatchObject({ gameEnded: true, winner: 'ben', victoryType: 'military' });
+      expect(engine.getGameState().eliminated).toEqual(['ana', 'crimson-fleet']);
+    });
+
+    it('should leave the colonies of a beaten faction for others to take', () => {
+      engine.applyOrder(attackOrder('rigel'), 'crimson-fleet');
+      engine.processTurn();
+      engine.processTurn();
+      expect(engine.getGameState().galaxy.systems.rigel.owner).toBe('crimson-fleet');
+      engine.processTurn();
+      defeat('crimson-fleet');
+
+      engine.processTurn();
+
+      expect(engine.getGameState().galaxy.systems.rigel.owner).toBeUndefined();
+      expect(engine.getGameState().factions['crimson-fleet'].economy.colonyIncome).toEqual({ metal: 0, energy: 0 });
+    });
+
+    describe('AI opponents', () => {
+      let aiEngine: GameEngine;
+
+      beforeEach(() => {
+        aiEngine = new GameEngine({
+          seed: 5,
+          factions: [
+            { name: 'Ana', controller: 'human' },
+            { name: 'Rex', controller: 'ai', archetype: 'aggressor' },
+            { name: 'Ben', controller: 'human' },
+            { name: 'Cleo', controller: 'human' }
+          ]
+        });
+      });
+
+      /** Plays a turn in which Rex attacks with five frigates, returning where they went and whom Rex saw as its opponent */
+      const playRex = () => {
+        const processTurn = vi.spyOn((aiEngine as any).aiEngines.rex, 'processTurn')
+          .mockReturnValue({ type: 'attack', attackTarget: 'player_home', attackFleet: { frigates: 5, cruisers: 0, battleships: 0 } });
+        aiEngine.processTurn();
+        // The AI plays the "ai" slot of its view, against the "player" slot
+        return {
+          target: aiEngine.getGameState().factions.rex.fleet.inTransit.outbound[0]?.target,
+          opponent: (processTurn.mock.calls[0][0] as DuelView).sides.player.name
+        };
+      };
+
+      it('should play against the next faction while nobody leads', () => {
+        expect(playRex()).toEqual({ target: 'tau-ceti', opponent: 'Ben' });
+      });
+
+      it('should turn on the faction holding the most systems', () => {
+        const snapshot = aiEngine.serialize();
+        snapshot.gameState.galaxy.systems.meridian.owner = 'cleo';
+        aiEngine.restore(snapshot);
+
+        expect(playRex()).toEqual({ target: 'barnard', opponent: 'Cleo' });
+      });
+
+      it('should strike back at whoever attacked it last', () => {
+        const snapshot = aiEngine.serialize();
+        const fleet = { frigates: 5, cruisers: 0, battleships: 0 };
+        const none = { frigates: 0, cruisers: 0, battleships: 0 };
+        snapshot.gameState.galaxy.systems.meridian.owner = 'cleo';
+        snapshot.gameState.combatLog.push({
+          turn: 0, attacker: 'ana', defender: 'rex', attackerFleet: fleet, defenderFleet: fleet, outcome: 'close_battle',
+          casualties: { attacker: none, defender: none }, survivors: { attacker: fleet, defender: fleet }, rounds: [], attackerRetreated: false
+        });
+        aiEngine.restore(snapshot);
+
+        expect(playRex()).toEqual({ target: 'sol', opponent: 'Ana' });
+      });
+    });
+
+    it('should refuse a table that cannot be played', () => {
+      expect(validateFactionConfigs([{ name: 'Ana', controller: 'human' }])).toEqual(['A game seats 2 to 6 factions, got 1']);
+      expect(validateFactionConfigs([{ name: 'Ana', controller: 'human' }, { name: 'ANA', controller: 'ai' }]))
+        .toEqual(['Two factions would have the id ana', 'Two factions are called ANA']);
+      expect(() => new GameEngine({ factions: [] })).toThrow('Invalid factions: A game seats 2 to 6 factions, got 0');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GameEngine } from '../GameEngine.js';
+import { GameEvent, GameEventBus } from '../GameEvents.js';
+import { GameController } from '../../ui/GameController.js';
+
+describe('GameEvents', () => {
+  let gameEngine: GameEngine;
+  let gameController: GameController;
+  let events: GameEvent[];
+
+  beforeEach(() => {
+    gameEngine = new GameEngine({ seed: 7, aiArchetype: 'economist' });
+    gameController = new GameController(gameEngine);
+    events = [];
+    gameEngine.subscribeAll(event => events.push(event));
+  });
+
+  const endTurns = (count: number): void => {
+    for (let i = 0; i < count; i++) {
+      gameController.executeCommand({ type: 'end_turn' });
+    }
+  };
+
+  describe('GameEventBus', () => {
+    it('should deliver events only to listeners of their type', () => {
+      const bus = new GameEventBus();
+      const turns: number[] = [];
+      bus.subscribe('TurnStarted', event => turns.push(event.turn));
+
+      bus.emit({ type: 'TurnStarted', turn: 3, phase: 'early' });
+      bus.emit({ type: 'PhaseChanged', turn: 6, from: 'early', to: 'mid' });
+
+      expect(turns).toEqual([3]);
+    });
+
+    it('should stop delivering after unsubscribing', () => {
+      const bus = new GameEventBus();
+      const listener = vi.fn();
+      const unsubscribe = bus.subscribe('TurnStarted', listener);
+      const catchAll = vi.fn();
+      bus.subscribeAll(catchAll);
+
+      unsubscribe();
+      bus.unsubscribe('*', catchAll);
+      bus.emit({ type: 'TurnStarted', turn: 1, phase: 'early' });
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(catchAll).not.toHaveBeenCalled();
+    });
+
+    it('should keep delivering when a listener throws', () => {
+      const bus = new GameEventBus();
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const listener = vi.fn();
+      bus.subscribe('TurnStarted', () => { throw new Error('boom'); });
+      bus.subscribe('TurnStarted', listener);
+
+      bus.emit({ type: 'TurnStarted', turn: 1, phase: 'early' });
+
+      expect(listener).toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('Turn processing', () => {
+    it('should start each turn and apply income to both sides', () => {
+      endTurns(1);
+
+      expect(events[0]).toEqual({ type: 'TurnStarted', turn: 1, phase: 'early' });
+      const income = events.filter(event => event.type === 'IncomeApplied');
+      expect(income.map(event => event.type === 'IncomeApplied' && event.side)).toEqual(['player', 'ai']);
+
+      const playerResources = gameEngine.getGameState().factions.player.resources;
+      expect(income[0]).toMatchObject({ metalIncome: playerResources.metalIncome, metal: playerResources.metal });
+    });
+
+    it('should report construction as it completes', () => {
+      gameController.executeCommand({ type: 'build', buildType: 'frigate', quantity: 5 });
+      endTurns(4);
+
+      const completed = events.filter(event => event.type === 'ConstructionCompleted' && event.side === 'player');
+      expect(completed).toHaveLength(1);
+      expect(completed[0]).toMatchObject({ unitType: 'frigate', quantity: 5 });
+    });
+
+    it('should report the phase change when the mid game begins', () => {
+      endTurns(5);
+
+      expect(events.filter(event => event.type === 'PhaseChanged')).toEqual([
+        { type: 'PhaseChanged', turn: 6, from: 'early', to: 'mid' }
+      ]);
+    });
+  });
+
+  describe('Fleets and combat', () => {
+    it('should follow a player attack from launch to combat', () => {
+      gameController.executeCommand({ type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'ai' });
+      endTurns(2);
+
+      const types = events.map(event => event.type);
+      expect(types[0]).toBe('FleetLaunched');
+      expect(types.indexOf('FleetArrived')).toBeLessThan(types.indexOf('CombatResolved'));
+
+      const combat = events.find(event => event.type === 'CombatResolved');
+      expect(combat?.type === 'CombatResolved' && combat.combat.attacker).toBe('player');
+      expect(gameEngine.getCombatLog()).toContainEqual(combat?.type === 'CombatResolved' && combat.combat);
+    });
+
+    it('should report player scans', () => {
+      gameController.executeCommand({ type: 'scan', scanType: 'basic' });
+
+      expect(events).toEqual([{ type: 'ScanPerformed', turn: 1, side: 'player', scanType: 'basic' }]);
+    });
+
+    it('should announce the winner when the game ends', () => {
+      const snapshot = gameEngine.serialize();
+      snapshot.gameState.factions.ai.fleet.homeSystem = { frigates: 0, cruisers: 0, battleships: 0 };
+      snapshot.gameState.attacked = ['ai'];
+      gameEngine.restore(snapshot);
+
+      endTurns(1);
+
+      expect(events[events.length - 1]).toEqual({ type: 'GameOver', turn: 1, winner: 'player', victoryType: 'military' });
+    });
+  });
+
+  describe('Subscriptions', () => {
+    it('should survive restoring and resetting the game', () => {
+      const snapshot = gameEngine.serialize();
+      gameEngine.restore(snapshot);
+      gameEngine.resetGame({ seed: 8 });
+
+      gameEngine.processTurn();
+
+      expect(events.some(event => event.type === 'TurnStarted')).toBe(true);
+    });
+
+    it('should not break a turn when a listener throws', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      gameEngine.subscribe('IncomeApplied', () => { throw new Error('bad plugin'); });
+
+      const result = gameEngine.processTurn();
+
+      expect(result.success).toBe(true);
+      expect(gameEngine.getCurrentTurn()).toBe(2);
+      errorSpy.mockRestore();
+    });
+  });
+});
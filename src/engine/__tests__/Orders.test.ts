@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameEngine } from '../GameEngine.js';
+import { PlayerOrder, validateOrder, getBuildOrderCost } from '../Orders.js';
+import { GameController } from '../../ui/GameController.js';
+import { InputHandler } from '../../ui/InputHandler.js';
+import { viewForSide } from '../../models/Sides.js';
+
+describe('Orders', () => {
+  let gameEngine: GameEngine;
+
+  beforeEach(() => {
+    gameEngine = new GameEngine({ seed: 99, aiArchetype: 'hybrid' });
+  });
+
+  const orders: PlayerOrder[] = [
+    { type: 'build', buildType: 'cruiser', quantity: 10 },
+    { type: 'attack', attackFleet: { frigates: 20, cruisers: 5, battleships: 0 }, target: 'ai' },
+    { type: 'scan', scanType: 'deep' }
+  ];
+
+  describe('Validation', () => {
+    it('should accept legal orders', () => {
+      const player = gameEngine.getGameState().factions.player;
+
+      for (const order of orders) {
+        expect(validateOrder(order, player, 1)).toEqual({ isValid: true, errors: [] });
+      }
+    });
+
+    it('should report every shortfall of an unaffordable build', () => {
+      const result = validateOrder({ type: 'build', buildType: 'reactor', quantity: 20 }, gameEngine.getGameState().factions.player, 1);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0]).toContain('Insufficient metal');
+      expect(result.errors[1]).toContain('Insufficient energy');
+    });
+
+    it('should reject malformed orders that bypass the parser', () => {
+      const player = gameEngine.getGameState().factions.player;
+
+      expect(validateOrder({ type: 'build', buildType: 'frigate', quantity: 2.5 }, player, 1).isValid).toBe(false);
+      expect(validateOrder({ type: 'attack', attackFleet: { frigates: 0, cruisers: 0, battleships: 0 }, target: 'ai' }, player, 1).errors)
+        .toEqual(['Cannot attack with empty fleet']);
+      expect(validateOrder({ type: 'scan', scanType: 'psychic' as any }, player, 1).errors[0]).toContain('Invalid scan type');
+    });
+
+    it('should only accept retreat thresholds between 0 and 1', () => {
+      const player = gameEngine.getGameState().factions.player;
+      const attack = (retreatThreshold: number) => validateOrder(
+        { type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'ai', retreatThreshold },
+        player,
+        1
+      );
+
+      expect(attack(0.4).isValid).toBe(true);
+      expect(attack(0).errors).toEqual(['Retreat threshold must be between 1% and 99% of the fleet']);
+      expect(attack(1).isValid).toBe(false);
+    });
+
+    it('should only recall outbound fleets that exist and have not arrived', () => {
+      gameEngine.applyOrder({ type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'ai' });
+      const player = gameEngine.getGameState().factions.player;
+      const arrivalTurn = player.fleet.inTransit.outbound[0].arrivalTurn;
+
+      expect(validateOrder({ type: 'recall', fleetId: 1 }, player, 1).isValid).toBe(true);
+      expect(validateOrder({ type: 'recall', fleetId: 'all' }, player, 1).isValid).toBe(true);
+      expect(validateOrder({ type: 'recall', fleetId: 2 }, player, 1).errors).toEqual(['No fleet 2 in transit']);
+      expect(validateOrder({ type: 'recall', fleetId: 1 }, player, arrivalTurn + 1).errors)
+        .toEqual(['Fleet 1 has already reached its target']);
+    });
+
+    it('should not recall a fleet that is already heading home', () => {
+      gameEngine.applyOrder({ type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'ai' });
+      gameEngine.applyOrder({ type: 'recall', fleetId: 1 });
+      const player = gameEngine.getGameState().factions.player;
+
+      expect(validateOrder({ type: 'recall', fleetId: 1 }, player, 1).errors).toEqual(['Fleet 1 is already returning home']);
+      expect(validateOrder({ type: 'recall', fleetId: 'all' }, player, 1).errors).toEqual(['No fleets can be recalled']);
+    });
+
+    it('should only cancel or prioritize orders that are in the queue', () => {
+      gameEngine.applyOrder({ type: 'build', buildType: 'frigate', quantity: 5 });
+      const player = gameEngine.getGameState().factions.player;
+
+      expect(validateOrder({ type: 'cancel', position: 1 }, player, 1).isValid).toBe(true);
+      expect(validateOrder({ type: 'cancel', position: 2 }, player, 1).errors).toEqual(['No build order 2 in the queue. Choose 1-1']);
+      expect(validateOrder({ type: 'prioritize', position: 1 }, player, 1).errors).toEqual(['Build order 1 is already first in the queue']);
+      expect(validateOrder({ type: 'cancel', position: 1 }, new GameEngine({ seed: 1 }).getGameState().factions.player, 1).errors)
+        .toEqual(['The construction queue is empty']);
+    });
+
+    it('should price structures by how many are already built', () => {
+      const player = JSON.parse(JSON.stringify(gameEngine.getGameState().factions.player));
+      const firstReactor = getBuildOrderCost(player, 'reactor', 1);
+
+      player.economy.reactors = 3;
+
+      expect(firstReactor).toEqual({ metal: 900, energy: 1200 });
+      expect(getBuildOrderCost(player, 'reactor', 1).metal).toBeGreaterThan(900);
+    });
+  });
+
+  describe('Engine pipeline', () => {
+    it('should return a result for each order given to processTurn', () => {
+      const result = gameEngine.processTurn([
+        ...orders,
+        { type: 'build', buildType: 'battleship', quantity: 5000 }
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.orderResults.map(orderResult => orderResult.success)).toEqual([true, true, true, false]);
+      expect(result.orderResults[3].errors[0]).toContain('Insufficient metal');
+    });
+
+    it('should validate each order against the state left by the ones before it', () => {
+      const result = gameEngine.processTurn([
+        { type: 'attack', attackFleet: { frigates: 50, cruisers: 0, battleships: 0 }, target: 'ai' },
+        { type: 'attack', attackFleet: { frigates: 1, cruisers: 0, battleships: 0 }, target: 'ai' }
+      ]);
+
+      expect(result.orderResults[0].success).toBe(true);
+      expect(result.orderResults[1].errors).toEqual(['Insufficient frigates. Need: 1, Have: 0']);
+    });
+
+    it('should play out the same whether orders are applied early or passed to processTurn', () => {
+      const other = new GameEngine({ seed: 99, aiArchetype: 'hybrid' });
+
+      orders.forEach(order => gameEngine.applyOrder(order));
+      gameEngine.processTurn();
+      other.processTurn(orders);
+
+      expect(other.serialize()).toEqual(gameEngine.serialize());
+    });
+
+    it('should bring a recalled fleet home without fighting', () => {
+      const events: string[] = [];
+      gameEngine.subscribeAll(event => events.push(event.type));
+
+      const result = gameEngine.processTurn([
+        { type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'ai' },
+        { type: 'recall', fleetId: 1 }
+      ]);
+      gameEngine.processTurn();
+
+      expect(result.orderResults[1].message).toBe('Recalled fleet 1: 10 ships return home on Turn 2');
+      expect(events).toContain('FleetRecalled');
+      expect(events).not.toContain('CombatResolved');
+      expect(gameEngine.getGameState().factions.player.fleet.homeSystem.frigates).toBe(50);
+      expect(gameEngine.getGameState().factions.player.fleet.inTransit.outbound).toEqual([]);
+    });
+
+    it('should send survivors home after one battle instead of attacking again', () => {
+      gameEngine.processTurn([
+        { type: 'attack', attackFleet: { frigates: 50, cruisers: 0, battleships: 0 }, target: 'ai' }
+      ]);
+      for (let i = 0; i < 4; i++) {
+        gameEngine.processTurn();
+      }
+
+      const playerBattles = gameEngine.getCombatLog().filter(event => event.attacker === 'player');
+      expect(playerBattles).toHaveLength(1);
+      expect(gameEngine.getGameState().factions.player.fleet.inTransit.outbound).toEqual([]);
+      expect(gameEngine.getGameState().factions.player.fleet.homeSystem.frigates).toBe(playerBattles[0].survivors.attacker.frigates);
+    });
+
+    it('should refund a cancelled order by the build time it has left', () => {
+      const start = { ...gameEngine.getGameState().factions.player.resources };
+      gameEngine.applyOrder({ type: 'build', buildType: 'battleship', quantity: 2 });
+
+      const result = gameEngine.applyOrder({ type: 'cancel', position: 1 });
+
+      expect(result.message).toBe('Cancelled 2 battleship(s). Refunded: 40 Metal, 24 Energy');
+      expect(gameEngine.getGameState().factions.player.resources).toMatchObject({ metal: start.metal, energy: start.energy });
+      expect(gameEngine.getGameState().factions.player.economy.constructionQueue).toEqual([]);
+    });
+
+    it('should move a prioritized order to the front of the queue', () => {
+      const results = [
+        gameEngine.applyOrder({ type: 'build', buildType: 'frigate', quantity: 5 }),
+        gameEngine.applyOrder({ type: 'build', buildType: 'reactor', quantity: 1 }),
+        gameEngine.applyOrder({ type: 'prioritize', position: 2 })
+      ];
+
+      expect(results[2].message).toBe('Moved 1 reactor(s) to the front of the construction queue');
+      expect(gameEngine.getConstructionStatus().map(entry => entry.order.unitType)).toEqual(['reactor', 'frigate']);
+    });
+
+    it('should leave the game untouched when an order is rejected', () => {
+      const before = gameEngine.serialize();
+
+      const result = gameEngine.applyOrder({ type: 'attack', attackFleet: { frigates: 500, cruisers: 0, battleships: 0 }, target: 'ai' });
+
+      expect(result.success).toBe(false);
+      expect(gameEngine.serialize()).toEqual(before);
+    });
+
+    it('should report the same deep scan it records', () => {
+      const result = gameEngine.applyOrder({ type: 'scan', scanType: 'deep' });
+      const known = gameEngine.getGameState().factions.player.intelligence.knownEnemyFleet;
+
+      expect(result.message).toContain(`${known.frigates} Frigates, ${known.cruisers} Cruisers, ${known.battleships} Battleships`);
+    });
+  });
+
+  describe('Frontends', () => {
+    it('should give the parser and the controller the same verdict', () => {
+      const gameState = viewForSide(gameEngine.getGameState(), 'player');
+      const parsed = new InputHandler().processCommand('build 5000 battleship', gameState);
+      const executed = new GameController(gameEngine).executeCommand({ type: 'build', buildType: 'battleship', quantity: 5000 });
+
+      expect(parsed.success).toBe(false);
+      expect(executed.success).toBe(false);
+      expect(executed.message.startsWith(parsed.error!)).toBe(true);
+    });
+
+    it('should parse queue commands', () => {
+      gameEngine.applyOrder({ type: 'build', buildType: 'frigate', quantity: 5 });
+      const inputHandler = new InputHandler();
+      const gameState = viewForSide(gameEngine.getGameState(), 'player');
+
+      expect(inputHandler.processCommand('queue', gameState).command).toEqual({ type: 'queue' });
+      expect(inputHandler.processCommand('cancel 1', gameState).command).toEqual({ type: 'cancel', position: 1 });
+      expect(inputHandler.processCommand('prioritize 1', gameState).error).toBe('Build order 1 is already first in the queue');
+      expect(inputHandler.processCommand('cancel x', gameState).success).toBe(false);
+    });
+
+    it('should parse an optional retreat percentage on attacks', () => {
+      const inputHandler = new InputHandler();
+      const gameState = viewForSide(gameEngine.getGameState(), 'player');
+
+      expect(inputHandler.processCommand('attack 10 0 0 retreat 40', gameState).command).toMatchObject({ type: 'attack', retreatThreshold: 0.4 });
+      expect(inputHandler.processCommand('attack 10 0 0', gameState).command).not.toHaveProperty('retreatThreshold');
+      expect(inputHandler.processCommand('attack 10 0 0 retreat 100', gameState).success).toBe(false);
+    });
+
+    it('should carry the retreat threshold into combat', () => {
+      gameEngine.processTurn([
+        { type: 'attack', attackFleet: { frigates: 20, cruisers: 0, battleships: 0 }, target: 'ai', retreatThreshold: 0.01 }
+      ]);
+      gameEngine.processTurn();
+
+      const battle = gameEngine.getCombatLog().find(event => event.attacker === 'player')!;
+      expect(battle.attackerRetreated).toBe(true);
+      expect(battle.rounds).toHaveLength(1);
+    });
+
+    it('should parse recall commands for a fleet id or all', () => {
+      gameEngine.applyOrder({ type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'ai' });
+      const inputHandler = new InputHandler();
+      const gameState = viewForSide(gameEngine.getGameState(), 'player');
+
+      expect(inputHandler.processCommand('recall 1', gameState).command).toEqual({ type: 'recall', fleetId: 1 });
+      expect(inputHandler.processCommand('recall all', gameState).command).toEqual({ type: 'recall', fleetId: 'all' });
+      expect(inputHandler.processCommand('recall 7', gameState).error).toBe('No fleet 7 in transit');
+      expect(inputHandler.processCommand('recall first', gameState).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,343 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameEngine } from '../GameEngine.js';
+import { createSaveFile, parseSaveFile, SAVE_FORMAT_VERSION, ENGINE_VERSION, computeRulesHash } from '../SaveFile.js';
+
+describe('SaveFile', () => {
+  let gameEngine: GameEngine;
+
+  beforeEach(() => {
+    gameEngine = new GameEngine({ seed: 42, aiArchetype: 'hybrid' });
+    for (let i = 0; i < 5; i++) {
+      gameEngine.processTurn();
+    }
+  });
+
+  const saveJson = (mutate?: (data: any) => void): string => {
+    const data = JSON.parse(JSON.stringify(createSaveFile(gameEngine)));
+    mutate?.(data);
+    return JSON.stringify(data);
+  };
+
+  // A save of this game in the shape of format 9 and before, when fleets went to factions rather than systems,
+  // and of format 8 and before, when the sides were "player" and "ai"
+  const legacySaveJson = (formatVersion: number, mutate?: (data: any) => void): string => saveJson(data => {
+    const { galaxy } = data.snapshot.gameState;
+    delete data.snapshot.gameState.galaxy;
+    for (const faction of Object.values<any>(data.snapshot.gameState.factions)) {
+      delete faction.economy.colonyIncome;
+      // Fleets then only ever went to a faction's home, never to a colony
+      faction.fleet.inTransit.outbound = faction.fleet.inTransit.outbound
+        .filter((movement: any) => galaxy.systems[movement.missionType === 'returning' ? movement.origin : movement.target].home);
+      faction.fleet.inTransit.outbound.forEach((movement: any) => {
+        delete movement.origin;
+        movement.target = movement.missionType === 'returning' ? 'home' : galaxy.systems[movement.target].owner;
+      });
+    }
+    data.formatVersion = formatVersion;
+    if (formatVersion <= 8) {
+      toFormat8(data);
+    }
+    mutate?.(data);
+  });
+
+  const toFormat8 = (data: any): void => {
+    const { factions, attacked, eliminated, ...gameState } = data.snapshot.gameState;
+    data.snapshot.gameState = {
+      ...gameState,
+      player: factions.player,
+      ai: factions.ai,
+      combatLog: gameState.combatLog.map(({ defender, ...event }: any) => event),
+      history: gameState.history.map((turn: any) => ({ turn: turn.turn, ...turn.factions })),
+      playerHasBeenAttacked: attacked.includes('player'),
+      aiHasBeenAttacked: attacked.includes('ai')
+    };
+    data.snapshot.ai = data.snapshot.aiEngines.ai;
+    delete data.snapshot.aiEngines;
+  };
+
+  describe('Envelope', () => {
+    it('should record format version, engine version, seed and rules hash', () => {
+      const saveFile = createSaveFile(gameEngine);
+
+      expect(saveFile.formatVersion).toBe(SAVE_FORMAT_VERSION);
+      expect(saveFile.engineVersion).toBe(ENGINE_VERSION);
+      expect(saveFile.seed).toBe(42);
+      expect(saveFile.rulesHash).toBe(computeRulesHash());
+    });
+
+    it('should round-trip a running game without errors or warnings', () => {
+      const result = parseSaveFile(saveJson());
+
+      expect(result.success).toBe(true);
+      expect(result.errors).toHaveLength(0);
+      expect(result.warnings).toHaveLength(0);
+      expect(result.snapshot).toEqual(gameEngine.serialize());
+    });
+
+    it('should reject files that are not JSON', () => {
+      const result = parseSaveFile('{broken');
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('not valid JSON');
+    });
+
+    it('should reject formats newer than it understands', () => {
+      const result = parseSaveFile(saveJson(data => { data.formatVersion = SAVE_FORMAT_VERSION + 1; }));
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('formatVersion');
+    });
+
+    it('should warn when the save was made under different rules', () => {
+      const result = parseSaveFile(saveJson(data => { data.rulesHash = 'deadbeef'; }));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings.some(warning => warning.includes('different game rules'))).toBe(true);
+    });
+  });
+
+  describe('Migrations', () => {
+    it('should upgrade a bare version 1 snapshot', () => {
+      const result = parseSaveFile(JSON.stringify(JSON.parse(legacySaveJson(1)).snapshot));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toContain('Upgraded save from format 1 to 2');
+      expect(result.snapshot?.gameState.turn).toBe(gameEngine.getCurrentTurn());
+    });
+
+    it('should keep the AI of a version 2 save omniscient', () => {
+      const result = parseSaveFile(legacySaveJson(2, data => {
+        delete data.snapshot.ai.omniscient;
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual(['Upgraded save from format 2 to 3', 'Upgraded save from format 3 to 4', 'Upgraded save from format 4 to 5', 'Upgraded save from format 5 to 6', 'Upgraded save from format 6 to 7', 'Upgraded save from format 7 to 8', 'Upgraded save from format 8 to 9', 'Upgraded save from format 9 to 10']);
+      expect(result.snapshot?.aiEngines.ai.omniscient).toBe(true);
+      expect(GameEngine.fromSnapshot(result.snapshot!).serialize().aiEngines.ai.omniscient).toBe(true);
+    });
+
+    it('should number the fleets in transit of a version 3 save', () => {
+      gameEngine.applyOrder({ type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'ai' });
+      gameEngine.applyOrder({ type: 'attack', attackFleet: { frigates: 5, cruisers: 0, battleships: 0 }, target: 'ai' });
+
+      const result = parseSaveFile(legacySaveJson(3, data => {
+        const fleet = data.snapshot.gameState.player.fleet;
+        delete fleet.nextFleetId;
+        fleet.inTransit.outbound.forEach((movement: any) => delete movement.id);
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual(['Upgraded save from format 3 to 4', 'Upgraded save from format 4 to 5', 'Upgraded save from format 5 to 6', 'Upgraded save from format 6 to 7', 'Upgraded save from format 7 to 8', 'Upgraded save from format 8 to 9', 'Upgraded save from format 9 to 10']);
+      const fleet = result.snapshot!.gameState.factions.player.fleet;
+      expect(fleet.inTransit.outbound.map(movement => movement.id)).toEqual([1, 2]);
+      expect(fleet.nextFleetId).toBe(3);
+    });
+
+    it('should give the battles of a version 4 save an empty round log', () => {
+      const result = parseSaveFile(legacySaveJson(4, data => {
+        data.snapshot.gameState.combatLog = [{ turn: 3, attacker: 'ai' }];
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual(['Upgraded save from format 4 to 5', 'Upgraded save from format 5 to 6', 'Upgraded save from format 6 to 7', 'Upgraded save from format 7 to 8', 'Upgraded save from format 8 to 9', 'Upgraded save from format 9 to 10']);
+      expect(result.snapshot?.gameState.combatLog[0]).toMatchObject({ rounds: [], attackerRetreated: false });
+    });
+
+    it('should give both sides of a version 5 save no standing orders', () => {
+      const result = parseSaveFile(legacySaveJson(5, data => {
+        delete data.snapshot.gameState.player.standingOrders;
+        delete data.snapshot.gameState.ai.standingOrders;
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual(['Upgraded save from format 5 to 6', 'Upgraded save from format 6 to 7', 'Upgraded save from format 7 to 8', 'Upgraded save from format 8 to 9', 'Upgraded save from format 9 to 10']);
+      expect(result.snapshot?.gameState.factions.player.standingOrders).toEqual({ orders: [], nextId: 1 });
+      expect(result.snapshot?.gameState.factions.ai.standingOrders).toEqual({ orders: [], nextId: 1 });
+    });
+
+    it('should start an empty statistics history for a version 6 save', () => {
+      const result = parseSaveFile(legacySaveJson(6, data => {
+        delete data.snapshot.gameState.history;
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual(['Upgraded save from format 6 to 7', 'Upgraded save from format 7 to 8', 'Upgraded save from format 8 to 9', 'Upgraded save from format 9 to 10']);
+      expect(result.snapshot?.gameState.history).toEqual([]);
+    });
+
+    it('should make a version 7 save a game of the player against the AI', () => {
+      const result = parseSaveFile(legacySaveJson(7, data => {
+        delete data.snapshot.gameState.sides;
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual(['Upgraded save from format 7 to 8', 'Upgraded save from format 8 to 9', 'Upgraded save from format 9 to 10']);
+      expect(result.snapshot?.gameState.sides).toEqual({
+        player: { name: 'Player', controller: 'human' },
+        ai: { name: 'AI', controller: 'ai' }
+      });
+    });
+
+    it('should seat the two sides of a version 8 save as factions', () => {
+      const result = parseSaveFile(legacySaveJson(8, data => {
+        data.snapshot.gameState.combatLog = [{ turn: 3, attacker: 'ai', rounds: [], attackerRetreated: false }];
+        delete data.snapshot.gameState.playerHasBeenAttacked;
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toContain('Upgraded save from format 8 to 9');
+      const gameState = result.snapshot!.gameState;
+      expect(Object.keys(gameState.factions)).toEqual(['player', 'ai']);
+      expect(gameState.combatLog[0]).toMatchObject({ attacker: 'ai', defender: 'player' });
+      expect(gameState.attacked).toEqual(['player']);
+      expect(gameState.eliminated).toEqual([]);
+      expect(gameState.history[0].factions.ai).toBeDefined();
+      expect(result.snapshot?.aiEngines.ai.archetype).toBe('hybrid');
+      expect(gameState).not.toHaveProperty('player');
+    });
+
+    it('should keep no AI for a version 8 hotseat save', () => {
+      const result = parseSaveFile(legacySaveJson(8, data => {
+        data.snapshot.gameState.sides.ai.controller = 'human';
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.snapshot?.aiEngines).toEqual({});
+    });
+
+    it('should put the fleets of a version 9 save on the star map', () => {
+      gameEngine.applyOrder({ type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'ai' });
+
+      const result = parseSaveFile(legacySaveJson(9));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual(['Upgraded save from format 9 to 10']);
+      const gameState = result.snapshot!.gameState;
+      expect(Object.keys(gameState.galaxy.systems)).toContain('meridian');
+      expect(gameState.galaxy.systems.kepler.owner).toBe('ai');
+      expect(gameState.factions.player.fleet.inTransit.outbound[0]).toMatchObject({ origin: 'sol', target: 'kepler' });
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject a save with the AI playing the player side', () => {
+      const result = parseSaveFile(saveJson(data => {
+        data.snapshot.gameState.sides.player.controller = 'ai';
+      }));
+
+      expect(result.success).toBe(false);
+      expect(result.errors.some(error => error.startsWith('snapshot.gameState.sides.player.controller'))).toBe(true);
+    });
+
+    it('should reject two fleets in transit with the same id', () => {
+      gameEngine.applyOrder({ type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'ai' });
+      gameEngine.applyOrder({ type: 'attack', attackFleet: { frigates: 5, cruisers: 0, battleships: 0 }, target: 'ai' });
+
+      const result = parseSaveFile(saveJson(data => {
+        data.snapshot.gameState.factions.player.fleet.inTransit.outbound[1].id = 1;
+      }));
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('snapshot.gameState.factions.player.fleet.inTransit.outbound[1].id: fleet 1 appears more than once');
+    });
+
+    it('should reject a standing order for something that cannot be repeated', () => {
+      gameEngine.addStandingOrder({ type: 'scan', scanType: 'basic' }, 3);
+
+      const result = parseSaveFile(saveJson(data => {
+        data.snapshot.gameState.factions.player.standingOrders.orders[0].order = { type: 'attack' };
+      }));
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('snapshot.gameState.factions.player.standingOrders.orders[0].order.type: expected build or scan, got "attack"');
+    });
+
+    it('should reject a retreat threshold outside 0-1', () => {
+      gameEngine.applyOrder({ type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'ai', retreatThreshold: 0.5 });
+
+      const result = parseSaveFile(saveJson(data => {
+        data.snapshot.gameState.factions.player.fleet.inTransit.outbound[0].retreatThreshold = 50;
+      }));
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('snapshot.gameState.factions.player.fleet.inTransit.outbound[0].retreatThreshold: expected a number between 0 and 1, got 50');
+    });
+
+    it('should report the exact path of a field with the wrong type', () => {
+      const result = parseSaveFile(saveJson(data => {
+        data.snapshot.gameState.factions.player.fleet.homeSystem.frigates = 'many';
+      }));
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('snapshot.gameState.factions.player.fleet.homeSystem.frigates: expected an integer, got "many"');
+    });
+
+    it('should index into arrays when reporting paths', () => {
+      const result = parseSaveFile(saveJson(data => {
+        data.snapshot.gameState.factions.ai.economy.constructionQueue = [{ unitType: 'dreadnought', quantity: 1, turnsRemaining: 1, resourceDrainPerTurn: { metal: 0, energy: 0 } }];
+      }));
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toMatch(/^snapshot\.gameState\.factions\.ai\.economy\.constructionQueue\[0\]\.unitType:/);
+    });
+
+    it('should reject a fleet headed for a system that is not on the map', () => {
+      gameEngine.applyOrder({ type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'ai' });
+
+      const result = parseSaveFile(saveJson(data => {
+        data.snapshot.gameState.factions.player.fleet.inTransit.outbound[0].target = 'andromeda';
+      }));
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toMatch(/^snapshot\.gameState\.factions\.player\.fleet\.inTransit\.outbound\[0\]\.target: expected a system/);
+    });
+
+    it('should bring colony income in line with the colonies held', () => {
+      const result = parseSaveFile(saveJson(data => {
+        data.snapshot.gameState.factions.player.economy.colonyIncome = { metal: 99999, energy: 0 };
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual(['snapshot.gameState.factions.player.economy.colonyIncome: repaired to match the colonies held']);
+      expect(result.snapshot?.gameState.factions.player.economy.colonyIncome).toEqual({ metal: 0, energy: 0 });
+    });
+
+    it('should apply the game state validation rules', () => {
+      const result = parseSaveFile(saveJson(data => {
+        data.snapshot.gameState.factions.player.resources.metal = -500000;
+      }));
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('snapshot.gameState.factions.player: Metal resources are unreasonably negative');
+    });
+
+    it('should reject an AI snapshot for an unknown archetype', () => {
+      const result = parseSaveFile(saveJson(data => { data.snapshot.aiEngines.ai.archetype = 'berserker'; }));
+
+      expect(result.success).toBe(false);
+      expect(result.errors.some(error => error.startsWith('snapshot.aiEngines.ai.archetype:'))).toBe(true);
+    });
+  });
+
+  describe('Repairs', () => {
+    it('should fill in optional fields that older saves lack', () => {
+      const result = parseSaveFile(saveJson(data => {
+        delete data.snapshot.gameState.factions.player.intelligence.scanHistory;
+        delete data.snapshot.gameState.factions.player.intelligence.misinformationChance;
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toHaveLength(2);
+      expect(result.snapshot?.gameState.factions.player.intelligence.scanHistory).toEqual([]);
+      expect(result.snapshot?.gameState.factions.player.intelligence.misinformationChance).toBe(0.2);
+    });
+
+    it('should recompute a game phase that does not match the turn', () => {
+      const result = parseSaveFile(saveJson(data => { data.snapshot.gameState.gamePhase = 'endgame'; }));
+
+      expect(result.success).toBe(true);
+      expect(result.snapshot?.gameState.gamePhase).toBe('mid');
+      expect(result.warnings[0]).toContain('snapshot.gameState.gamePhase');
+    });
+  });
+});
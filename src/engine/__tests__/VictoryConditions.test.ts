@@ -13,7 +13,7 @@ describe('Victory Conditions', () => {
     it('should not end game when player has no fleet but has not been attacked', () => {
       // Manually set player fleet to zero but don't mark as attacked
       const gameState = gameEngine.getGameState();
-      gameState.player.fleet.homeSystem = { frigates: 0, cruisers: 0, battleships: 0 };
+      gameState.factions.player.fleet.homeSystem = { frigates: 0, cruisers: 0, battleships: 0 };
       
       const result = gameEngine.processTurn();
       expect(result.gameEnded).toBe(false);
@@ -24,10 +24,10 @@ describe('Victory Conditions', () => {
       const gameState = gameEngine.getGameState();
       
       // Remove player's fleet
-      gameState.player.fleet.homeSystem = { frigates: 0, cruisers: 0, battleships: 0 };
+      gameState.factions.player.fleet.homeSystem = { frigates: 0, cruisers: 0, battleships: 0 };
       
       // Simulate AI attack by creating an AI fleet movement that will attack player
-      gameState.ai.fleet.homeSystem = { frigates: 100, cruisers: 50, battleships: 25 };
+      gameState.factions.ai.fleet.homeSystem = { frigates: 100, cruisers: 50, battleships: 25 };
       
       // Process several turns to allow combat to occur
       let result;
@@ -44,12 +44,11 @@ describe('Victory Conditions', () => {
     it('should handle mutual elimination correctly', () => {
       // Set both players to have no fleets
       const gameState = gameEngine.getGameState();
-      gameState.player.fleet.homeSystem = { frigates: 0, cruisers: 0, battleships: 0 };
-      gameState.ai.fleet.homeSystem = { frigates: 0, cruisers: 0, battleships: 0 };
+      gameState.factions.player.fleet.homeSystem = { frigates: 0, cruisers: 0, battleships: 0 };
+      gameState.factions.ai.fleet.homeSystem = { frigates: 0, cruisers: 0, battleships: 0 };
       
       // Mark both as having been attacked
-      gameState.playerHasBeenAttacked = true;
-      gameState.aiHasBeenAttacked = true;
+      gameState.attacked.push('player', 'ai');
       
       const result = gameEngine.processTurn();
       
@@ -65,10 +64,10 @@ describe('Victory Conditions', () => {
       const gameState = gameEngine.getGameState();
       
       // Set player to have no resources and a stalled economy
-      gameState.player.resources.metal = 0;
-      gameState.player.resources.energy = 0;
-      gameState.player.resources.metalIncome = -1000; // Negative income
-      gameState.player.resources.energyIncome = -1000;
+      gameState.factions.player.resources.metal = 0;
+      gameState.factions.player.resources.energy = 0;
+      gameState.factions.player.resources.metalIncome = -1000; // Negative income
+      gameState.factions.player.resources.energyIncome = -1000;
       
       // Advance game past early phase
       for (let i = 0; i < 15; i++) {
@@ -87,8 +86,8 @@ describe('Victory Conditions', () => {
       const gameState = gameEngine.getGameState();
       
       // Set player to have no resources
-      gameState.player.resources.metal = 0;
-      gameState.player.resources.energy = 0;
+      gameState.factions.player.resources.metal = 0;
+      gameState.factions.player.resources.energy = 0;
       
       // Process a few early turns
       for (let i = 0; i < 5; i++) {
@@ -101,8 +100,8 @@ describe('Victory Conditions', () => {
   describe('Victory Condition Integration', () => {
     it('should return operational costs when ships are destroyed', () => {
       const gameState = gameEngine.getGameState();
-      const initialMetal = gameState.player.resources.metal;
-      const initialEnergy = gameState.player.resources.energy;
+      const initialMetal = gameState.factions.player.resources.metal;
+      const initialEnergy = gameState.factions.player.resources.energy;
       
       // Create a scenario where player loses some ships in combat
       // This is complex to set up, so we'll test the concept
@@ -116,13 +115,11 @@ describe('Victory Conditions', () => {
       const gameState = gameEngine.getGameState();
       
       // Initially, no one should be marked as attacked
-      expect(gameState.playerHasBeenAttacked).toBeFalsy();
-      expect(gameState.aiHasBeenAttacked).toBeFalsy();
+      expect(gameState.attacked).toEqual([]);
       
       // After processing turns, the attack status should be updated if combat occurs
-      // This depends on AI behavior, so we just verify the fields exist
-      expect('playerHasBeenAttacked' in gameState).toBe(true);
-      expect('aiHasBeenAttacked' in gameState).toBe(true);
+      // This depends on AI behavior, so we just verify the field exists
+      expect(Array.isArray(gameState.attacked)).toBe(true);
     });
 
     it('should validate game state after victory conditions are checked', () => {
@@ -159,8 +156,8 @@ describe('Victory Conditions', () => {
     it('should handle game reset after victory', () => {
       // Force a victory condition
       const gameState = gameEngine.getGameState();
-      gameState.player.fleet.homeSystem = { frigates: 0, cruisers: 0, battleships: 0 };
-      gameState.playerHasBeenAttacked = true;
+      gameState.factions.player.fleet.homeSystem = { frigates: 0, cruisers: 0, battleships: 0 };
+      gameState.attacked.push('player');
       
       gameEngine.processTurn();
       
@@ -173,8 +170,8 @@ describe('Victory Conditions', () => {
       expect(gameEngine.getVictoryType()).toBeUndefined();
       
       const newGameState = gameEngine.getGameState();
-      expect(newGameState.playerHasBeenAttacked).toBeFalsy();
-      expect(newGameState.aiHasBeenAttacked).toBeFalsy();
+      expect(newGameState.attacked).toEqual([]);
+      expect(newGameState.eliminated).toEqual([]);
     });
 
     it('should maintain consistent victory state', () => {
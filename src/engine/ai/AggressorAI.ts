@@ -1,18 +1,19 @@
 import { BaseAIArchetype, AIState, AIDecision } from '../../models/AI.js';
-import { GameState } from '../../models/GameState.js';
+import { DuelView } from '../../models/Sides.js';
+import { RandomSource } from '../../models/Random.js';
 
 export class AggressorAI extends BaseAIArchetype {
-  constructor() {
+  constructor(random?: RandomSource) {
     super('aggressor', {
       militaryFocus: 0.8,
       economicFocus: 0.2,
       aggressionLevel: 0.9,
       deceptionChance: 0.1,
       adaptiveVariation: 0.2
-    });
+    }, random);
   }
 
-  makeDecision(gameState: GameState, aiState: AIState): AIDecision {
+  makeDecision(gameState: DuelView, aiState: AIState): AIDecision {
     // Update threat assessment
     aiState.threatLevel = this.calculateThreatLevel(gameState, aiState);
     aiState.economicAdvantage = this.calculateEconomicAdvantage(gameState, aiState);
@@ -23,7 +24,7 @@ export class AggressorAI extends BaseAIArchetype {
     }
 
     // 80% military focus - prioritize building units and attacking
-    if (Math.random() < this.behaviorProbabilities.militaryFocus) {
+    if (this.random.next() < this.behaviorProbabilities.militaryFocus) {
       return this.makeMilitaryDecision(gameState, aiState);
     }
 
@@ -45,7 +46,7 @@ export class AggressorAI extends BaseAIArchetype {
       return {
         type: 'build',
         buildType: 'cruiser',
-        buildQuantity: Math.floor(Math.random() * 3) + 1
+        buildQuantity: Math.floor(this.random.next() * 3) + 1
       };
     }
 
@@ -53,20 +54,20 @@ export class AggressorAI extends BaseAIArchetype {
       return {
         type: 'build',
         buildType: 'frigate',
-        buildQuantity: Math.floor(Math.random() * 5) + 1
+        buildQuantity: Math.floor(this.random.next() * 5) + 1
       };
     }
 
     return { type: 'wait' };
   }
 
-  private makeMilitaryDecision(gameState: GameState, aiState: AIState): AIDecision {
+  private makeMilitaryDecision(gameState: DuelView, aiState: AIState): AIDecision {
     const currentFleet = aiState.fleet.homeSystem;
     const totalUnits = currentFleet.frigates + currentFleet.cruisers + currentFleet.battleships;
 
     // If we have a decent fleet, consider attacking
     if (totalUnits >= 5 && aiState.threatLevel < 0.8) {
-      const playerFleet = gameState.player.fleet.homeSystem;
+      const playerFleet = aiState.intelligencePicture.enemyFleet;
       const attackFleet = this.planAttackFleet(currentFleet, playerFleet);
       
       if (attackFleet && this.hasAvailableFleet(aiState, attackFleet)) {
@@ -88,7 +89,7 @@ export class AggressorAI extends BaseAIArchetype {
     if (totalAvailable < 3) return null;
 
     // Use 60-80% of available fleet for attack
-    const attackRatio = 0.6 + Math.random() * 0.2;
+    const attackRatio = 0.6 + this.random.next() * 0.2;
     
     return {
       frigates: Math.floor(availableFleet.frigates * attackRatio),
@@ -103,7 +104,7 @@ export class AggressorAI extends BaseAIArchetype {
       return {
         type: 'build',
         buildType: 'frigate',
-        buildQuantity: Math.floor(Math.random() * 3) + 1
+        buildQuantity: Math.floor(this.random.next() * 3) + 1
       };
     }
 
@@ -111,7 +112,7 @@ export class AggressorAI extends BaseAIArchetype {
       return {
         type: 'build',
         buildType: 'cruiser',
-        buildQuantity: Math.floor(Math.random() * 2) + 1
+        buildQuantity: Math.floor(this.random.next() * 2) + 1
       };
     }
 
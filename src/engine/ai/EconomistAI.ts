@@ -1,29 +1,30 @@
 import { BaseAIArchetype, AIState, AIDecision } from '../../models/AI.js';
-import { GameState } from '../../models/GameState.js';
+import { DuelView } from '../../models/Sides.js';
+import { RandomSource } from '../../models/Random.js';
 
 export class EconomistAI extends BaseAIArchetype {
-  constructor() {
+  constructor(random?: RandomSource) {
     super('economist', {
       militaryFocus: 0.25,
       economicFocus: 0.75,
       aggressionLevel: 0.3,
       deceptionChance: 0.1,
       adaptiveVariation: 0.25
-    });
+    }, random);
   }
 
-  makeDecision(gameState: GameState, aiState: AIState): AIDecision {
+  makeDecision(gameState: DuelView, aiState: AIState): AIDecision {
     // Update threat assessment
     aiState.threatLevel = this.calculateThreatLevel(gameState, aiState);
     aiState.economicAdvantage = this.calculateEconomicAdvantage(gameState, aiState);
 
     // 25% chance to build military when threatened
-    if (aiState.threatLevel > 0.5 && Math.random() < this.behaviorProbabilities.militaryFocus) {
+    if (aiState.threatLevel > 0.5 && this.random.next() < this.behaviorProbabilities.militaryFocus) {
       return this.makeMilitaryDecision(gameState, aiState);
     }
 
     // 75% economic focus - prioritize economic expansion
-    if (Math.random() < this.behaviorProbabilities.economicFocus) {
+    if (this.random.next() < this.behaviorProbabilities.economicFocus) {
       return this.makeEconomicDecision(aiState);
     }
 
@@ -60,13 +61,13 @@ export class EconomistAI extends BaseAIArchetype {
     return this.makeDefensiveMilitaryDecision(aiState);
   }
 
-  private makeMilitaryDecision(gameState: GameState, aiState: AIState): AIDecision {
+  private makeMilitaryDecision(gameState: DuelView, aiState: AIState): AIDecision {
     const currentFleet = aiState.fleet.homeSystem;
     const totalUnits = currentFleet.frigates + currentFleet.cruisers + currentFleet.battleships;
 
     // Only attack if we have overwhelming advantage
     if (totalUnits >= 10 && aiState.economicAdvantage > 0.3) {
-      const playerFleet = gameState.player.fleet.homeSystem;
+      const playerFleet = aiState.intelligencePicture.enemyFleet;
       const attackFleet = this.planConservativeAttack(currentFleet, playerFleet);
       
       if (attackFleet && this.hasAvailableFleet(aiState, attackFleet)) {
@@ -90,7 +91,7 @@ export class EconomistAI extends BaseAIArchetype {
     if (ourStrength < enemyStrength * 2) return null;
 
     // Use only 40-50% of fleet for attack (conservative)
-    const attackRatio = 0.4 + Math.random() * 0.1;
+    const attackRatio = 0.4 + this.random.next() * 0.1;
     
     return {
       frigates: Math.floor(availableFleet.frigates * attackRatio),
@@ -134,7 +135,7 @@ export class EconomistAI extends BaseAIArchetype {
     }
 
     // If defensive fleet is adequate, scan for intelligence
-    if (aiState.resources.energy >= 2500 && Math.random() < 0.3) {
+    if (aiState.resources.energy >= 2500 && this.random.next() < 0.3) {
       return {
         type: 'scan',
         scanType: 'deep'
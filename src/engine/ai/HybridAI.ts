@@ -1,24 +1,25 @@
 import { BaseAIArchetype, AIState, AIDecision } from '../../models/AI.js';
-import { GameState } from '../../models/GameState.js';
+import { DuelView } from '../../models/Sides.js';
+import { RandomSource } from '../../models/Random.js';
 
 export class HybridAI extends BaseAIArchetype {
   private currentStrategy: 'aggressive' | 'economic' | 'defensive' | 'opportunistic';
   private strategyChangeTimer: number = 0;
   private strategyDuration: number = 3; // Turns to stick with a strategy
 
-  constructor() {
+  constructor(random?: RandomSource) {
     super('hybrid', {
       militaryFocus: 0.6,
       economicFocus: 0.6,
       aggressionLevel: 0.5,
       deceptionChance: 0.2,
       adaptiveVariation: 0.4
-    });
+    }, random);
     
     this.currentStrategy = this.selectInitialStrategy();
   }
 
-  makeDecision(gameState: GameState, aiState: AIState): AIDecision {
+  makeDecision(gameState: DuelView, aiState: AIState): AIDecision {
     // Update threat assessment
     aiState.threatLevel = this.calculateThreatLevel(gameState, aiState);
     aiState.economicAdvantage = this.calculateEconomicAdvantage(gameState, aiState);
@@ -33,55 +34,76 @@ export class HybridAI extends BaseAIArchetype {
     if (this.strategyChangeTimer >= this.strategyDuration) {
       this.currentStrategy = this.selectNewStrategy(gameState, aiState);
       this.strategyChangeTimer = 0;
-      this.strategyDuration = Math.floor(Math.random() * 3) + 2; // 2-4 turns
+      this.strategyDuration = Math.floor(this.random.next() * 3) + 2; // 2-4 turns
     }
 
     // Execute decision based on current strategy
     return this.executeStrategy(gameState, aiState);
   }
 
+  getArchetypeState(): Record<string, unknown> {
+    return {
+      currentStrategy: this.currentStrategy,
+      strategyChangeTimer: this.strategyChangeTimer,
+      strategyDuration: this.strategyDuration
+    };
+  }
+
+  restoreArchetypeState(state: Record<string, unknown>): void {
+    const strategies = ['aggressive', 'economic', 'defensive', 'opportunistic'];
+    if (typeof state.currentStrategy === 'string' && strategies.includes(state.currentStrategy)) {
+      this.currentStrategy = state.currentStrategy as 'aggressive' | 'economic' | 'defensive' | 'opportunistic';
+    }
+    if (typeof state.strategyChangeTimer === 'number') {
+      this.strategyChangeTimer = state.strategyChangeTimer;
+    }
+    if (typeof state.strategyDuration === 'number') {
+      this.strategyDuration = state.strategyDuration;
+    }
+  }
+
   private selectInitialStrategy(): 'aggressive' | 'economic' | 'defensive' | 'opportunistic' {
     const strategies = ['aggressive', 'economic', 'defensive', 'opportunistic'] as const;
-    return strategies[Math.floor(Math.random() * strategies.length)];
+    return strategies[Math.floor(this.random.next() * strategies.length)];
   }
 
-  private selectNewStrategy(gameState: GameState, aiState: AIState): 'aggressive' | 'economic' | 'defensive' | 'opportunistic' {
+  private selectNewStrategy(gameState: DuelView, aiState: AIState): 'aggressive' | 'economic' | 'defensive' | 'opportunistic' {
     // Choose strategy based on game state
     if (aiState.threatLevel > 0.7) {
-      return Math.random() < 0.7 ? 'defensive' : 'aggressive';
+      return this.random.next() < 0.7 ? 'defensive' : 'aggressive';
     }
     
     if (aiState.economicAdvantage < -0.3) {
-      return Math.random() < 0.6 ? 'economic' : 'opportunistic';
+      return this.random.next() < 0.6 ? 'economic' : 'opportunistic';
     }
     
     if (aiState.economicAdvantage > 0.3) {
-      return Math.random() < 0.6 ? 'aggressive' : 'opportunistic';
+      return this.random.next() < 0.6 ? 'aggressive' : 'opportunistic';
     }
     
     // Balanced situation - random choice
     const strategies = ['aggressive', 'economic', 'defensive', 'opportunistic'] as const;
-    return strategies[Math.floor(Math.random() * strategies.length)];
+    return strategies[Math.floor(this.random.next() * strategies.length)];
   }
 
-  private adaptStrategy(gameState: GameState, aiState: AIState): void {
+  private adaptStrategy(gameState: DuelView, aiState: AIState): void {
     // Reactive adaptation based on player actions
-    const playerFleet = gameState.player.fleet.homeSystem;
+    const playerFleet = aiState.intelligencePicture.enemyFleet;
     const playerTotalUnits = playerFleet.frigates + playerFleet.cruisers + playerFleet.battleships;
     
     // If player is building military, adapt accordingly
     if (playerTotalUnits > 5 && aiState.threatLevel > 0.5) {
-      this.currentStrategy = Math.random() < 0.6 ? 'defensive' : 'aggressive';
+      this.currentStrategy = this.random.next() < 0.6 ? 'defensive' : 'aggressive';
     }
     
     // If player is focusing on economy, exploit or match
-    const playerIncome = gameState.player.resources.metalIncome + gameState.player.resources.energyIncome;
+    const playerIncome = aiState.intelligencePicture.enemyIncome.metal + aiState.intelligencePicture.enemyIncome.energy;
     if (playerIncome > 20000 && aiState.economicAdvantage < 0) {
-      this.currentStrategy = Math.random() < 0.5 ? 'economic' : 'aggressive';
+      this.currentStrategy = this.random.next() < 0.5 ? 'economic' : 'aggressive';
     }
   }
 
-  private executeStrategy(gameState: GameState, aiState: AIState): AIDecision {
+  private executeStrategy(gameState: DuelView, aiState: AIState): AIDecision {
     switch (this.currentStrategy) {
       case 'aggressive':
         return this.makeAggressiveDecision(gameState, aiState);
@@ -94,13 +116,13 @@ export class HybridAI extends BaseAIArchetype {
     }
   }
 
-  private makeAggressiveDecision(gameState: GameState, aiState: AIState): AIDecision {
+  private makeAggressiveDecision(gameState: DuelView, aiState: AIState): AIDecision {
     const currentFleet = aiState.fleet.homeSystem;
     const totalUnits = currentFleet.frigates + currentFleet.cruisers + currentFleet.battleships;
 
     // Attack if we have sufficient force
     if (totalUnits >= 4) {
-      const playerFleet = gameState.player.fleet.homeSystem;
+      const playerFleet = aiState.intelligencePicture.enemyFleet;
       const attackFleet = this.planAggressiveAttack(currentFleet, playerFleet);
       
       if (attackFleet && this.hasAvailableFleet(aiState, attackFleet)) {
@@ -117,7 +139,7 @@ export class HybridAI extends BaseAIArchetype {
       return {
         type: 'build',
         buildType: 'frigate',
-        buildQuantity: Math.floor(Math.random() * 3) + 1
+        buildQuantity: Math.floor(this.random.next() * 3) + 1
       };
     }
 
@@ -132,7 +154,7 @@ export class HybridAI extends BaseAIArchetype {
     return { type: 'wait' };
   }
 
-  private makeEconomicDecision(gameState: GameState, aiState: AIState): AIDecision {
+  private makeEconomicDecision(gameState: DuelView, aiState: AIState): AIDecision {
     const targetIncome = 20000;
     const currentIncome = aiState.resources.metalIncome + aiState.resources.energyIncome;
 
@@ -174,14 +196,14 @@ export class HybridAI extends BaseAIArchetype {
     return { type: 'wait' };
   }
 
-  private makeDefensiveDecision(gameState: GameState, aiState: AIState): AIDecision {
+  private makeDefensiveDecision(gameState: DuelView, aiState: AIState): AIDecision {
     const currentFleet = aiState.fleet.homeSystem;
     const totalUnits = currentFleet.frigates + currentFleet.cruisers + currentFleet.battleships;
     const targetDefense = 8;
 
     if (totalUnits < targetDefense) {
       // Build defensive units based on threat
-      const playerFleet = gameState.player.fleet.homeSystem;
+      const playerFleet = aiState.intelligencePicture.enemyFleet;
       const counterUnit = this.getDefensiveCounter(playerFleet);
       
       if (this.canAffordBuild(aiState.resources, counterUnit)) {
@@ -194,7 +216,7 @@ export class HybridAI extends BaseAIArchetype {
     }
 
     // Scan for intelligence when defensive
-    if (aiState.resources.energy >= 2500 && Math.random() < 0.4) {
+    if (aiState.resources.energy >= 2500 && this.random.next() < 0.4) {
       return {
         type: 'scan',
         scanType: 'deep'
@@ -204,9 +226,9 @@ export class HybridAI extends BaseAIArchetype {
     return { type: 'wait' };
   }
 
-  private makeOpportunisticDecision(gameState: GameState, aiState: AIState): AIDecision {
+  private makeOpportunisticDecision(gameState: DuelView, aiState: AIState): AIDecision {
     // Look for opportunities based on game state
-    const playerFleet = gameState.player.fleet.homeSystem;
+    const playerFleet = aiState.intelligencePicture.enemyFleet;
     const playerTotalUnits = playerFleet.frigates + playerFleet.cruisers + playerFleet.battleships;
     
     // If player fleet is weak, attack
@@ -227,7 +249,7 @@ export class HybridAI extends BaseAIArchetype {
     }
 
     // If player is building economy, match or counter
-    const playerIncome = gameState.player.resources.metalIncome + gameState.player.resources.energyIncome;
+    const playerIncome = aiState.intelligencePicture.enemyIncome.metal + aiState.intelligencePicture.enemyIncome.energy;
     if (playerIncome > aiState.resources.metalIncome + aiState.resources.energyIncome) {
       return this.makeEconomicDecision(gameState, aiState);
     }
@@ -258,7 +280,7 @@ export class HybridAI extends BaseAIArchetype {
     if (totalAvailable < 2) return null;
 
     // Use 70-90% of available fleet for aggressive attack
-    const attackRatio = 0.7 + Math.random() * 0.2;
+    const attackRatio = 0.7 + this.random.next() * 0.2;
     
     return {
       frigates: Math.floor(availableFleet.frigates * attackRatio),
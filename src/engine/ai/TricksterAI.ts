@@ -1,35 +1,36 @@
 import { BaseAIArchetype, AIState, AIDecision } from '../../models/AI.js';
-import { GameState } from '../../models/GameState.js';
+import { DuelView } from '../../models/Sides.js';
+import { RandomSource } from '../../models/Random.js';
 
 export class TricksterAI extends BaseAIArchetype {
   private lastDeceptionTurn: number = 0;
   private deceptionCooldown: number = 3; // Turns between deception attempts
 
-  constructor() {
+  constructor(random?: RandomSource) {
     super('trickster', {
       militaryFocus: 0.4,
       economicFocus: 0.3,
       aggressionLevel: 0.6,
       deceptionChance: 0.7,
       adaptiveVariation: 0.3
-    });
+    }, random);
   }
 
-  makeDecision(gameState: GameState, aiState: AIState): AIDecision {
+  makeDecision(gameState: DuelView, aiState: AIState): AIDecision {
     // Update threat assessment
     aiState.threatLevel = this.calculateThreatLevel(gameState, aiState);
     aiState.economicAdvantage = this.calculateEconomicAdvantage(gameState, aiState);
 
     // 30% chance to play straightforward when player stops scanning
-    const playerLastScan = gameState.player.intelligence.lastScanTurn;
+    const playerLastScan = aiState.intelligencePicture.enemyLastScanTurn;
     const turnsSincePlayerScan = gameState.turn - playerLastScan;
     
-    if (turnsSincePlayerScan > 3 && Math.random() < 0.3) {
+    if (turnsSincePlayerScan > 3 && this.random.next() < 0.3) {
       return this.makeStraightforwardDecision(gameState, aiState);
     }
 
     // 70% deception and misdirection
-    if (Math.random() < this.behaviorProbabilities.deceptionChance) {
+    if (this.random.next() < this.behaviorProbabilities.deceptionChance) {
       return this.makeDeceptiveDecision(gameState, aiState);
     }
 
@@ -37,13 +38,25 @@ export class TricksterAI extends BaseAIArchetype {
     return this.makeBalancedDecision(gameState, aiState);
   }
 
-  private makeDeceptiveDecision(gameState: GameState, aiState: AIState): AIDecision {
+  getArchetypeState(): Record<string, unknown> {
+    return {
+      lastDeceptionTurn: this.lastDeceptionTurn
+    };
+  }
+
+  restoreArchetypeState(state: Record<string, unknown>): void {
+    if (typeof state.lastDeceptionTurn === 'number') {
+      this.lastDeceptionTurn = state.lastDeceptionTurn;
+    }
+  }
+
+  private makeDeceptiveDecision(gameState: DuelView, aiState: AIState): AIDecision {
     const currentTurn = gameState.turn;
     
     // Deploy misinformation through scanning behavior
     if (currentTurn - this.lastDeceptionTurn >= this.deceptionCooldown) {
       // Scan to appear like we're gathering intelligence (misdirection)
-      if (aiState.resources.energy >= 1000 && Math.random() < 0.4) {
+      if (aiState.resources.energy >= 1000 && this.random.next() < 0.4) {
         this.lastDeceptionTurn = currentTurn;
         return {
           type: 'scan',
@@ -56,8 +69,8 @@ export class TricksterAI extends BaseAIArchetype {
     return this.buildUnexpectedUnits(aiState, gameState);
   }
 
-  private buildUnexpectedUnits(aiState: AIState, gameState: GameState): AIDecision {
-    const playerFleet = gameState.player.fleet.homeSystem;
+  private buildUnexpectedUnits(aiState: AIState, gameState: DuelView): AIDecision {
+    const playerFleet = aiState.intelligencePicture.enemyFleet;
     const playerDominantUnit = this.getDominantUnitType(playerFleet);
     
     // Build units that seem suboptimal but create confusion
@@ -68,7 +81,7 @@ export class TricksterAI extends BaseAIArchetype {
           return {
             type: 'build',
             buildType: 'cruiser',
-            buildQuantity: Math.floor(Math.random() * 2) + 1
+            buildQuantity: Math.floor(this.random.next() * 2) + 1
           };
         }
         break;
@@ -90,7 +103,7 @@ export class TricksterAI extends BaseAIArchetype {
           return {
             type: 'build',
             buildType: 'frigate',
-            buildQuantity: Math.floor(Math.random() * 4) + 2
+            buildQuantity: Math.floor(this.random.next() * 4) + 2
           };
         }
         break;
@@ -98,7 +111,7 @@ export class TricksterAI extends BaseAIArchetype {
 
     // Fallback to random unit type
     const unitTypes = ['frigate', 'cruiser', 'battleship'] as const;
-    const randomUnit = unitTypes[Math.floor(Math.random() * unitTypes.length)];
+    const randomUnit = unitTypes[Math.floor(this.random.next() * unitTypes.length)];
     
     if (this.canAffordBuild(aiState.resources, randomUnit)) {
       return {
@@ -111,14 +124,14 @@ export class TricksterAI extends BaseAIArchetype {
     return { type: 'wait' };
   }
 
-  private makeStraightforwardDecision(gameState: GameState, aiState: AIState): AIDecision {
+  private makeStraightforwardDecision(gameState: DuelView, aiState: AIState): AIDecision {
     // Play optimally when player isn't watching
     const currentFleet = aiState.fleet.homeSystem;
     const totalUnits = currentFleet.frigates + currentFleet.cruisers + currentFleet.battleships;
 
     // Attack if we have advantage
     if (totalUnits >= 6 && aiState.threatLevel < 0.6) {
-      const playerFleet = gameState.player.fleet.homeSystem;
+      const playerFleet = aiState.intelligencePicture.enemyFleet;
       const attackFleet = this.planOptimalAttack(currentFleet, playerFleet);
       
       if (attackFleet && this.hasAvailableFleet(aiState, attackFleet)) {
@@ -141,7 +154,7 @@ export class TricksterAI extends BaseAIArchetype {
     if (ourStrength < enemyStrength * 1.2) return null;
 
     // Use 50-70% of fleet for attack
-    const attackRatio = 0.5 + Math.random() * 0.2;
+    const attackRatio = 0.5 + this.random.next() * 0.2;
     
     return {
       frigates: Math.floor(availableFleet.frigates * attackRatio),
@@ -150,8 +163,8 @@ export class TricksterAI extends BaseAIArchetype {
     };
   }
 
-  private buildOptimalUnits(aiState: AIState, gameState: GameState): AIDecision {
-    const playerFleet = gameState.player.fleet.homeSystem;
+  private buildOptimalUnits(aiState: AIState, gameState: DuelView): AIDecision {
+    const playerFleet = aiState.intelligencePicture.enemyFleet;
     const optimalCounter = this.getOptimalCounter(playerFleet);
     
     if (this.canAffordBuild(aiState.resources, optimalCounter.unitType, optimalCounter.quantity)) {
@@ -187,9 +200,9 @@ export class TricksterAI extends BaseAIArchetype {
     }
   }
 
-  private makeBalancedDecision(gameState: GameState, aiState: AIState): AIDecision {
+  private makeBalancedDecision(gameState: DuelView, aiState: AIState): AIDecision {
     // Mix of economic and military decisions
-    if (Math.random() < 0.5) {
+    if (this.random.next() < 0.5) {
       return this.makeEconomicDecision(aiState);
     } else {
       return this.makeMilitaryDecision(aiState);
@@ -218,7 +231,7 @@ export class TricksterAI extends BaseAIArchetype {
 
   private makeMilitaryDecision(aiState: AIState): AIDecision {
     const unitTypes = ['frigate', 'cruiser', 'battleship'] as const;
-    const randomUnit = unitTypes[Math.floor(Math.random() * unitTypes.length)];
+    const randomUnit = unitTypes[Math.floor(this.random.next() * unitTypes.length)];
     
     if (this.canAffordBuild(aiState.resources, randomUnit)) {
       return {
@@ -2,4 +2,8 @@
 export * from './GameEngine.js';
 export * from './EconomyEngine.js';
 export * from './IntelligenceEngine.js';
-export * from './AIEngine.js';
\ No newline at end of file
+export * from './AIEngine.js';
+export * from './SaveFile.js';
+export * from './GameEvents.js';
+export * from './Orders.js';
+export * from './BattleSimulator.js';
\ No newline at end of file
@@ -7,6 +7,7 @@ export * from './ui/index.js';
 export { GameInitializer } from './GameInitializer.js';
 export { ErrorHandler } from './ErrorHandler.js';
 export { IntegrationValidator } from './IntegrationValidator.js';
+export { BatchSimulator } from './BatchSimulator.js';
 
 // CLI entry point
 export { main } from './cli.js';
\ No newline at end of file
@@ -1,5 +1,9 @@
 import { PlayerState, BuildableType, UnitType } from './PlayerState.js';
-import { GameState, FleetComposition } from './GameState.js';
+import { FleetComposition } from './GameState.js';
+import { DuelView } from './Sides.js';
+import { RandomSource, defaultRandom } from './Random.js';
+import { getBuildCosts } from './Economy.js';
+import { IntelligencePicture } from './Intelligence.js';
 
 export type AIArchetype = 'aggressor' | 'economist' | 'trickster' | 'hybrid';
 
@@ -26,21 +30,42 @@ export interface AIState extends PlayerState {
   lastPlayerAction?: AIDecision;
   threatLevel: number; // 0-1 scale based on player military strength
   economicAdvantage: number; // -1 to 1 scale comparing economies
+  intelligencePicture: IntelligencePicture; // everything the AI knows about the player
 }
 
 export abstract class BaseAIArchetype {
   protected archetype: AIArchetype;
   protected behaviorProbabilities: AIBehaviorProbabilities;
+  protected random: RandomSource;
 
-  constructor(archetype: AIArchetype, probabilities: AIBehaviorProbabilities) {
+  constructor(archetype: AIArchetype, probabilities: AIBehaviorProbabilities, random: RandomSource = defaultRandom) {
     this.archetype = archetype;
     this.behaviorProbabilities = probabilities;
+    this.random = random;
   }
 
-  abstract makeDecision(gameState: GameState, aiState: AIState): AIDecision;
+  /**
+   * Decides this turn's action. The player is known only through aiState.intelligencePicture;
+   * gameState is for the turn and the AI's own side.
+   */
+  abstract makeDecision(gameState: DuelView, aiState: AIState): AIDecision;
+
+  /**
+   * Gets archetype-specific memory (strategy timers, cooldowns) for saving
+   */
+  getArchetypeState(): Record<string, unknown> {
+    return {};
+  }
+
+  /**
+   * Restores archetype-specific memory previously returned by getArchetypeState()
+   */
+  restoreArchetypeState(state: Record<string, unknown>): void {
+    // Stateless archetypes have nothing to restore
+  }
 
-  protected calculateThreatLevel(gameState: GameState, aiState: AIState): number {
-    const playerFleet = gameState.player.fleet.homeSystem;
+  protected calculateThreatLevel(gameState: DuelView, aiState: AIState): number {
+    const playerFleet = aiState.intelligencePicture.enemyFleet;
     const aiFleet = aiState.fleet.homeSystem;
     
     const playerStrength = this.calculateFleetStrength(playerFleet);
@@ -52,8 +77,8 @@ export abstract class BaseAIArchetype {
     return Math.min(1.0, Math.max(0.0, ratio - 0.5)); // Normalize to 0-1 scale
   }
 
-  protected calculateEconomicAdvantage(gameState: GameState, aiState: AIState): number {
-    const playerIncome = gameState.player.resources.metalIncome + gameState.player.resources.energyIncome;
+  protected calculateEconomicAdvantage(gameState: DuelView, aiState: AIState): number {
+    const playerIncome = aiState.intelligencePicture.enemyIncome.metal + aiState.intelligencePicture.enemyIncome.energy;
     const aiIncome = aiState.resources.metalIncome + aiState.resources.energyIncome;
     
     if (playerIncome + aiIncome === 0) return 0;
@@ -67,27 +92,15 @@ export abstract class BaseAIArchetype {
   }
 
   protected shouldAdaptBehavior(): boolean {
-    return Math.random() < this.behaviorProbabilities.adaptiveVariation;
+    return this.random.next() < this.behaviorProbabilities.adaptiveVariation;
   }
 
   protected canAffordBuild(resources: PlayerState['resources'], buildType: BuildableType, quantity: number = 1): boolean {
-    const costs = this.getBuildCosts(buildType);
+    const costs = getBuildCosts(buildType);
     return resources.metal >= costs.metal * quantity && 
            resources.energy >= costs.energy * quantity;
   }
 
-  protected getBuildCosts(buildType: BuildableType): { metal: number; energy: number } {
-    const costs = {
-      frigate: { metal: 4, energy: 2 },
-      cruiser: { metal: 10, energy: 6 },
-      battleship: { metal: 20, energy: 12 },
-      reactor: { metal: 900, energy: 1200 },
-      mine: { metal: 1500, energy: 600 }
-    };
-    
-    return costs[buildType];
-  }
-
   protected getOptimalFleetComposition(targetStrength: number, threatType?: FleetComposition): FleetComposition {
     // Simple composition logic - can be enhanced later
     if (threatType) {
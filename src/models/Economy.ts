@@ -1,3 +1,5 @@
+import { UNIT_STATS } from './Fleet.js';
+
 export type StructureType = 'reactor' | 'mine';
 export type BuildableType = 'frigate' | 'cruiser' | 'battleship' | 'reactor' | 'mine';
 
@@ -22,6 +24,7 @@ export interface Economy {
   reactors: number;
   mines: number;
   constructionQueue: BuildOrder[];
+  colonyIncome?: { metal: number; energy: number }; // what the faction's colonies pay each turn; unset before its first
 }
 
 export interface StructureStats {
@@ -129,6 +132,17 @@ export function calculateStructureCost(structureType: StructureType, currentCoun
   };
 }
 
+/**
+ * Gets the per-item build cost of any buildable. Structures cost more for each one
+ * already built, so pass the current count of that structure.
+ */
+export function getBuildCosts(buildType: BuildableType, currentCount: number = 0): { metal: number; energy: number } {
+  if (buildType === 'reactor' || buildType === 'mine') {
+    return calculateStructureCost(buildType, currentCount);
+  }
+  return { ...UNIT_STATS[buildType].buildCost };
+}
+
 /**
  * Calculates the total income from economic structures
  */
@@ -233,6 +247,30 @@ export function processConstructionQueue(
   return { completedOrders, remainingQueue };
 }
 
+/**
+ * Gets how many turns a build type takes from start to delivery
+ */
+export function getBuildTime(buildType: BuildableType): number {
+  if (buildType === 'reactor' || buildType === 'mine') {
+    return STRUCTURE_STATS[buildType].buildTime;
+  }
+  return UNIT_STATS[buildType].buildTime;
+}
+
+/**
+ * Calculates what cancelling a build order gives back. The up-front payment, which equals
+ * the order's per-turn drain, is refunded for the share of build time not yet spent;
+ * drain already paid is not refunded.
+ */
+export function calculateCancellationRefund(buildOrder: BuildOrder): { metal: number; energy: number } {
+  const unspent = Math.min(1, buildOrder.turnsRemaining / getBuildTime(buildOrder.unitType));
+
+  return {
+    metal: Math.floor(buildOrder.resourceDrainPerTurn.metal * unspent),
+    energy: Math.floor(buildOrder.resourceDrainPerTurn.energy * unspent)
+  };
+}
+
 /**
  * Checks if resources are sufficient to start a build order
  */
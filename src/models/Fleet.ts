@@ -1,14 +1,18 @@
-import { FleetComposition } from './GameState.js';
+import { CombatRound, FleetComposition } from './GameState.js';
+import { RandomSource, defaultRandom } from './Random.js';
 
 export type UnitType = 'frigate' | 'cruiser' | 'battleship';
 export type MissionType = 'outbound' | 'combat' | 'returning';
 
 export interface FleetMovement {
+  id: number; // fleet number shown to the player, unique per side
   composition: FleetComposition;
-  target: string;
+  origin: string; // system it set out from: its home outbound, the system it visited returning
+  target: string; // system it is heading for: an enemy home or a colony outbound, its home returning
   arrivalTurn: number;
   returnTurn: number;
   missionType: MissionType;
+  retreatThreshold?: number; // share of the fleet it can lose before breaking off an attack (0-1)
 }
 
 export interface Fleet {
@@ -16,6 +20,7 @@ export interface Fleet {
   inTransit: {
     outbound: FleetMovement[];
   };
+  nextFleetId: number;
 }
 
 export interface UnitStats {
@@ -28,6 +33,7 @@ export interface UnitStats {
     metal: number;
     energy: number;
   };
+  speed: number; // jump distance covered per turn
   effectiveness: {
     vsFrigate: number;
     vsCruiser: number;
@@ -40,18 +46,21 @@ export const UNIT_STATS: Record<UnitType, UnitStats> = {
     buildTime: 1,
     buildCost: { metal: 4, energy: 2 },
     upkeepCost: { metal: 2, energy: 1 },
+    speed: 4,
     effectiveness: { vsFrigate: 1.0, vsCruiser: 1.5, vsBattleship: 0.7 }
   },
   cruiser: {
     buildTime: 2,
     buildCost: { metal: 10, energy: 6 },
     upkeepCost: { metal: 5, energy: 3 },
+    speed: 3,
     effectiveness: { vsFrigate: 0.7, vsCruiser: 1.0, vsBattleship: 1.5 }
   },
   battleship: {
     buildTime: 4,
     buildCost: { metal: 20, energy: 12 },
     upkeepCost: { metal: 10, energy: 6 },
+    speed: 2,
     effectiveness: { vsFrigate: 1.5, vsCruiser: 0.7, vsBattleship: 1.0 }
   }
 };
@@ -229,8 +238,8 @@ export function isFleetEmpty(composition: FleetComposition): boolean {
 /**
  * Generates a random factor for combat calculations (0.8-1.2x per unit type)
  */
-export function generateRandomFactor(): number {
-  return 0.8 + Math.random() * 0.4;
+export function generateRandomFactor(random: RandomSource = defaultRandom): number {
+  return 0.8 + random.next() * 0.4;
 }
 
 /**
@@ -263,13 +272,14 @@ export function calculateUnitTypeStrength(
 export function calculateFleetStrength(
   attacker: FleetComposition, 
   defender: FleetComposition,
-  randomFactors?: { frigate: number; cruiser: number; battleship: number }
+  randomFactors?: { frigate: number; cruiser: number; battleship: number },
+  random: RandomSource = defaultRandom
 ): number {
   // Generate random factors if not provided (for testing determinism)
   const factors = randomFactors || {
-    frigate: generateRandomFactor(),
-    cruiser: generateRandomFactor(),
-    battleship: generateRandomFactor()
+    frigate: generateRandomFactor(random),
+    cruiser: generateRandomFactor(random),
+    battleship: generateRandomFactor(random)
   };
 
   const frigateStrength = calculateUnitTypeStrength(
@@ -297,22 +307,35 @@ export function calculateFleetStrength(
 }
 
 /**
- * Creates a fleet movement for attacking a target with 3-turn cycle
+ * Creates a fleet movement from one system to another. The fleet arrives after travelTurns,
+ * spends a turn at the target and takes as long again to get back.
  */
 export function createFleetMovement(
   composition: FleetComposition,
+  origin: string,
   target: string,
-  currentTurn: number
+  currentTurn: number,
+  id: number,
+  travelTurns: number = 1
 ): FleetMovement {
   return {
+    id,
     composition,
+    origin,
     target,
-    arrivalTurn: currentTurn + 1, // Takes 1 turn to reach target
-    returnTurn: currentTurn + 3,   // Takes 1 turn for combat + 1 turn to return
+    arrivalTurn: currentTurn + travelTurns,
+    returnTurn: currentTurn + 2 * travelTurns + 1,
     missionType: 'outbound'
   };
 }
 
+/**
+ * Turns a fleet takes to reach its target, as set when it was launched
+ */
+export function getMovementTravelTurns(movement: FleetMovement): number {
+  return Math.max(1, movement.returnTurn - movement.arrivalTurn - 1);
+}
+
 /**
  * Checks if a fleet is currently in transit (invisible to scans)
  */
@@ -321,10 +344,11 @@ export function isFleetInTransit(movement: FleetMovement, currentTurn: number):
 }
 
 /**
- * Checks if a fleet can be recalled (only before departure)
+ * Checks if a fleet can be recalled: it must still be outbound, and orders given
+ * on its arrival turn come before combat, so that turn still counts
  */
 export function canRecallFleet(movement: FleetMovement, currentTurn: number): boolean {
-  return currentTurn < movement.arrivalTurn - 1;
+  return movement.missionType === 'outbound' && currentTurn <= movement.arrivalTurn;
 }
 
 /**
@@ -333,7 +357,10 @@ export function canRecallFleet(movement: FleetMovement, currentTurn: number): bo
 export function updateFleetMissionType(movement: FleetMovement, currentTurn: number): FleetMovement {
   let missionType: MissionType;
   
-  if (currentTurn < movement.arrivalTurn) {
+  if (movement.missionType === 'returning') {
+    // Fleets heading home never turn back into attackers
+    missionType = 'returning';
+  } else if (currentTurn < movement.arrivalTurn) {
     missionType = 'outbound';
   } else if (currentTurn === movement.arrivalTurn) {
     missionType = 'combat';
@@ -433,12 +460,14 @@ export function getVisibleFleets(
 }
 
 /**
- * Creates a returning fleet movement after combat
+ * Creates the movement of a fleet heading back to where it set out from, which by default takes
+ * as long as the way out
  */
 export function createReturningFleet(
   survivors: FleetComposition,
   originalMovement: FleetMovement,
-  currentTurn: number
+  currentTurn: number,
+  travelTurns: number = getMovementTravelTurns(originalMovement)
 ): FleetMovement | null {
   // If no survivors, no fleet returns
   if (getTotalFleetSize(survivors) === 0) {
@@ -446,10 +475,12 @@ export function createReturningFleet(
   }
   
   return {
+    id: originalMovement.id,
     composition: survivors,
-    target: 'home', // Returning home
-    arrivalTurn: currentTurn + 1, // Takes 1 turn to return
-    returnTurn: currentTurn + 1,  // Arrives home immediately
+    origin: originalMovement.target,
+    target: originalMovement.origin,
+    arrivalTurn: currentTurn + travelTurns,
+    returnTurn: currentTurn + travelTurns, // Arrives home immediately
     missionType: 'returning'
   };
 }
@@ -464,9 +495,31 @@ export interface CombatResult {
   defenderSurvivors: FleetComposition;
   attackerCasualties: FleetComposition;
   defenderCasualties: FleetComposition;
-  strengthRatio: number;
+  strengthRatio: number; // attacker's total firepower over the defender's, across all rounds
+  rounds: CombatRound[];
+  attackerRetreated: boolean;
 }
 
+export interface CombatOptions {
+  maxRounds?: number;
+  retreatThreshold?: number; // share of its ships the attacker can lose before breaking off (0-1)
+}
+
+/**
+ * Rounds fought before a battle breaks off with both sides still standing. With ROUND_LETHALITY
+ * this leaves evenly matched fleets at about half strength, so only a larger fleet wins decisively.
+ */
+export const MAX_COMBAT_ROUNDS = 5;
+
+/** Ships destroyed per round by each ship at 1.0 effectiveness, before the random factor */
+export const ROUND_LETHALITY = 0.15;
+
+const FLEET_KEYS: Record<UnitType, keyof FleetComposition> = {
+  frigate: 'frigates',
+  cruiser: 'cruisers',
+  battleship: 'battleships'
+};
+
 /**
  * Determines battle outcome based on strength ratio
  */
@@ -495,24 +548,27 @@ export function determineBattleOutcome(attackerStrength: number, defenderStrengt
 
 /**
  * Calculates casualties based on battle outcome
+ * @deprecated Combat is fought in rounds by resolveCombat, which counts casualties ship by ship.
+ * This is the old single-roll rule, kept for callers outside the engine.
  */
 export function calculateCasualties(
   fleet: FleetComposition,
   outcome: 'decisive_attacker' | 'decisive_defender' | 'close_battle',
-  isWinner: boolean
+  isWinner: boolean,
+  random: RandomSource = defaultRandom
 ): { survivors: FleetComposition; casualties: FleetComposition } {
   let casualtyRate: number;
   
   if (outcome === 'close_battle') {
     // Close battles: 40-60% casualties for both sides
-    casualtyRate = 0.4 + Math.random() * 0.2;
+    casualtyRate = 0.4 + random.next() * 0.2;
   } else {
     if (isWinner) {
       // Decisive winner: 10-30% casualties
-      casualtyRate = 0.1 + Math.random() * 0.2;
+      casualtyRate = 0.1 + random.next() * 0.2;
     } else {
       // Decisive loser: 70-90% casualties
-      casualtyRate = 0.7 + Math.random() * 0.2;
+      casualtyRate = 0.7 + random.next() * 0.2;
     }
   }
   
@@ -536,7 +592,11 @@ export function calculateCasualties(
 }
 
 /**
- * Resolves combat between two fleets
+ * Resolves combat between two fleets in rounds of simultaneous fire. Each round every unit
+ * type spreads its fire over the enemy's unit types in proportion to their numbers, scaled by
+ * the effectiveness matrix and a random factor per unit type. Damage that does not add up to
+ * a whole ship carries over to the next round. The battle ends when a side is destroyed, the
+ * round limit is reached, or the attacker's losses reach its retreat threshold.
  */
 export function resolveCombat(
   attacker: FleetComposition,
@@ -544,49 +604,118 @@ export function resolveCombat(
   randomFactors?: { 
     attackerFactors: { frigate: number; cruiser: number; battleship: number };
     defenderFactors: { frigate: number; cruiser: number; battleship: number };
-  }
+  },
+  random: RandomSource = defaultRandom,
+  options: CombatOptions = {}
 ): CombatResult {
-  // Calculate combat strengths
-  const attackerStrength = calculateFleetStrength(
-    attacker, 
-    defender, 
-    randomFactors?.attackerFactors
-  );
-  
-  const defenderStrength = calculateFleetStrength(
-    defender, 
-    attacker, 
-    randomFactors?.defenderFactors
-  );
-  
-  // Determine battle outcome
-  const outcome = determineBattleOutcome(attackerStrength, defenderStrength);
-  
-  // Calculate casualties
-  const attackerResult = calculateCasualties(
-    attacker, 
-    outcome, 
-    outcome === 'decisive_attacker'
-  );
-  
-  const defenderResult = calculateCasualties(
-    defender, 
-    outcome, 
-    outcome === 'decisive_defender'
-  );
-  
-  const strengthRatio = defenderStrength > 0 ? attackerStrength / defenderStrength : Infinity;
-  
+  const maxRounds = options.maxRounds ?? MAX_COMBAT_ROUNDS;
+  const attackerStart = getTotalFleetSize(attacker);
+
+  let attackerFleet = { ...attacker };
+  let defenderFleet = { ...defender };
+  const attackerCarry = createEmptyFleet(); // damage taken by the attacker, short of a whole ship
+  const defenderCarry = createEmptyFleet();
+  let attackerFirepower = 0;
+  let defenderFirepower = 0;
+  let attackerRetreated = false;
+  const rounds: CombatRound[] = [];
+
+  while (rounds.length < maxRounds && !isFleetEmpty(attackerFleet) && !isFleetEmpty(defenderFleet)) {
+    const attackerFactors = randomFactors?.attackerFactors ?? generateRoundFactors(random);
+    const defenderFactors = randomFactors?.defenderFactors ?? generateRoundFactors(random);
+
+    // Both sides fire at the fleets as they stood at the start of the round
+    const damageToDefender = calculateRoundDamage(attackerFleet, defenderFleet, attackerFactors);
+    const damageToAttacker = calculateRoundDamage(defenderFleet, attackerFleet, defenderFactors);
+    attackerFirepower += getTotalFleetSize(damageToDefender);
+    defenderFirepower += getTotalFleetSize(damageToAttacker);
+
+    const defenderLosses = applyRoundDamage(defenderFleet, damageToDefender, defenderCarry);
+    const attackerLosses = applyRoundDamage(attackerFleet, damageToAttacker, attackerCarry);
+
+    rounds.push({
+      round: rounds.length + 1,
+      attackerFleet,
+      defenderFleet,
+      attackerLosses,
+      defenderLosses
+    });
+
+    attackerFleet = subtractFleetCompositions(attackerFleet, attackerLosses);
+    defenderFleet = subtractFleetCompositions(defenderFleet, defenderLosses);
+
+    if (options.retreatThreshold !== undefined &&
+        !isFleetEmpty(attackerFleet) && !isFleetEmpty(defenderFleet) &&
+        attackerStart - getTotalFleetSize(attackerFleet) >= attackerStart * options.retreatThreshold) {
+      attackerRetreated = true;
+      break;
+    }
+  }
+
+  const outcome = isFleetEmpty(attackerFleet) ? 'decisive_defender' :
+    isFleetEmpty(defenderFleet) ? 'decisive_attacker' :
+    determineBattleOutcome(attackerFirepower, defenderFirepower);
+
+  return {
+    // A fleet that broke off did not win decisively, whatever it inflicted first
+    outcome: attackerRetreated && outcome === 'decisive_attacker' ? 'close_battle' : outcome,
+    attackerSurvivors: attackerFleet,
+    defenderSurvivors: defenderFleet,
+    attackerCasualties: subtractFleetCompositions(attacker, attackerFleet),
+    defenderCasualties: subtractFleetCompositions(defender, defenderFleet),
+    strengthRatio: defenderFirepower > 0 ? attackerFirepower / defenderFirepower : attackerFirepower > 0 ? Infinity : 0,
+    rounds,
+    attackerRetreated
+  };
+}
+
+/**
+ * Draws one random factor per unit type for a round
+ */
+function generateRoundFactors(random: RandomSource): { frigate: number; cruiser: number; battleship: number } {
   return {
-    outcome,
-    attackerSurvivors: attackerResult.survivors,
-    defenderSurvivors: defenderResult.survivors,
-    attackerCasualties: attackerResult.casualties,
-    defenderCasualties: defenderResult.casualties,
-    strengthRatio
+    frigate: generateRandomFactor(random),
+    cruiser: generateRandomFactor(random),
+    battleship: generateRandomFactor(random)
   };
 }
 
+/**
+ * Calculates the ships' worth of damage one fleet deals to each of the target's unit types in a round
+ */
+export function calculateRoundDamage(
+  shooters: FleetComposition,
+  target: FleetComposition,
+  factors: { frigate: number; cruiser: number; battleship: number }
+): FleetComposition {
+  const damage = createEmptyFleet();
+  const targetTotal = getTotalFleetSize(target);
+  if (targetTotal === 0) return damage;
+
+  // The shooters' strength against each unit type, spread over the whole target fleet
+  for (const key of Object.values(FLEET_KEYS)) {
+    const targetOfType = { ...createEmptyFleet(), [key]: target[key] };
+    damage[key] = calculateFleetStrength(shooters, targetOfType, factors) * ROUND_LETHALITY / targetTotal;
+  }
+
+  return damage;
+}
+
+/**
+ * Turns a round's damage into whole ship losses, carrying fractions into the next round
+ */
+function applyRoundDamage(fleet: FleetComposition, damage: FleetComposition, carry: FleetComposition): FleetComposition {
+  const losses = createEmptyFleet();
+
+  for (const key of Object.values(FLEET_KEYS)) {
+    const total = carry[key] + damage[key];
+    losses[key] = Math.min(fleet[key], Math.floor(total));
+    carry[key] = losses[key] === fleet[key] ? 0 : total - losses[key];
+  }
+
+  return losses;
+}
+
 /**
  * Checks if a player has been eliminated (no fleets remaining)
  */
@@ -616,14 +745,17 @@ export function checkFleetElimination(
 export function processCombatMovement(
   movement: FleetMovement,
   defenderHomeFleet: FleetComposition,
-  currentTurn: number
+  currentTurn: number,
+  random: RandomSource = defaultRandom
 ): {
   combatResult: CombatResult;
   returningFleet: FleetMovement | null;
   updatedDefenderFleet: FleetComposition;
 } {
   // Resolve combat
-  const combatResult = resolveCombat(movement.composition, defenderHomeFleet);
+  const combatResult = resolveCombat(movement.composition, defenderHomeFleet, undefined, random, {
+    retreatThreshold: movement.retreatThreshold
+  });
   
   // Create returning fleet from survivors
   const returningFleet = createReturningFleet(
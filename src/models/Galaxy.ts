@@ -0,0 +1,226 @@
+import { FleetComposition, FactionId } from './GameState.js';
+import { UNIT_STATS, UnitType } from './Fleet.js';
+
+/** Names a star system: a slug of its name */
+export type SystemId = string;
+
+/** A star system: a faction's home, or a colony that pays its owner every turn */
+export interface StarSystem {
+  name: string;
+  home: boolean; // a faction's home system, where its fleet is based; never changes hands
+  owner?: FactionId; // unset for a colony nobody holds
+  income: { metal: number; energy: number }; // paid to the owner each turn; nothing for home systems
+}
+
+/** A route between two systems, usable both ways */
+export interface Jump {
+  from: SystemId;
+  to: SystemId;
+  distance: number;
+}
+
+/** The systems of a game and the jumps between them. Systems are kept in the order they are listed. */
+export interface GalaxyMap {
+  systems: Record<SystemId, StarSystem>;
+  jumps: Jump[];
+}
+
+/** Home systems, handed out in seat order */
+const HOME_SYSTEM_NAMES = ['Sol', 'Kepler', 'Tau Ceti', 'Barnard', 'Gliese', 'Wolf'];
+
+/** Each faction's nearest colony, handed out in seat order */
+const FRONTIER_SYSTEM_NAMES = ['Vega', 'Altair', 'Rigel', 'Deneb', 'Sirius', 'Procyon'];
+
+/** The colony in the middle of the map, one jump from every home system */
+const HUB_SYSTEM_NAME = 'Meridian';
+
+const HUB_INCOME = { metal: 1500, energy: 1500 };
+const FRONTIER_INCOME = { metal: 1000, energy: 500 };
+
+/**
+ * The map a game starts on: a home system per faction, all one short jump from the Meridian
+ * hub, and a frontier colony per faction three jumps out from its home and from the hub. Home
+ * systems are two jumps apart, which any fleet crosses in one turn.
+ */
+export function createGalaxy(factions: FactionId[]): GalaxyMap {
+  const hub = toSystemId(HUB_SYSTEM_NAME);
+  const galaxy: GalaxyMap = { systems: {}, jumps: [] };
+
+  factions.forEach((faction, seat) => {
+    galaxy.systems[toSystemId(HOME_SYSTEM_NAMES[seat])] = {
+      name: HOME_SYSTEM_NAMES[seat],
+      home: true,
+      owner: faction,
+      income: { metal: 0, energy: 0 }
+    };
+  });
+  galaxy.systems[hub] = { name: HUB_SYSTEM_NAME, home: false, income: { ...HUB_INCOME } };
+  factions.forEach((_, seat) => {
+    galaxy.systems[toSystemId(FRONTIER_SYSTEM_NAMES[seat])] = {
+      name: FRONTIER_SYSTEM_NAMES[seat],
+      home: false,
+      income: { ...FRONTIER_INCOME }
+    };
+  });
+
+  factions.forEach((_, seat) => {
+    const home = toSystemId(HOME_SYSTEM_NAMES[seat]);
+    const frontier = toSystemId(FRONTIER_SYSTEM_NAMES[seat]);
+    galaxy.jumps.push(
+      { from: home, to: hub, distance: 1 },
+      { from: home, to: frontier, distance: 3 },
+      { from: frontier, to: hub, distance: 3 }
+    );
+  });
+
+  return galaxy;
+}
+
+/**
+ * Turns a system name into its id: lower case, with runs of anything else than letters and
+ * digits as "-"
+ */
+export function toSystemId(name: string): SystemId {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * The home system of a faction
+ */
+export function getHomeSystem(galaxy: GalaxyMap, faction: FactionId): SystemId {
+  const home = Object.keys(galaxy.systems).find(id => galaxy.systems[id].home && galaxy.systems[id].owner === faction);
+  if (home === undefined) {
+    throw new Error(`${faction} has no home system`);
+  }
+  return home;
+}
+
+/**
+ * Finds a system by its id or, ignoring case, its name
+ */
+export function findSystem(galaxy: GalaxyMap, reference: string): SystemId | undefined {
+  const wanted = reference.trim().toLowerCase();
+  return Object.keys(galaxy.systems).find(id => id === wanted) ??
+    Object.keys(galaxy.systems).find(id => galaxy.systems[id].name.toLowerCase() === wanted);
+}
+
+/**
+ * The colonies a faction holds, in map order
+ */
+export function getColonies(galaxy: GalaxyMap, faction: FactionId): SystemId[] {
+  return Object.keys(galaxy.systems).filter(id => !galaxy.systems[id].home && galaxy.systems[id].owner === faction);
+}
+
+/**
+ * What a faction's colonies pay it each turn
+ */
+export function getColonyIncome(galaxy: GalaxyMap, faction: FactionId): { metal: number; energy: number } {
+  return getColonies(galaxy, faction).reduce((total, id) => ({
+    metal: total.metal + galaxy.systems[id].income.metal,
+    energy: total.energy + galaxy.systems[id].income.energy
+  }), { metal: 0, energy: 0 });
+}
+
+/**
+ * The length of the shortest route between two systems, or Infinity when none connects them
+ */
+export function getDistance(galaxy: GalaxyMap, from: SystemId, to: SystemId): number {
+  const distances = new Map<SystemId, number>([[from, 0]]);
+  const unvisited = new Set(Object.keys(galaxy.systems));
+
+  while (unvisited.size > 0) {
+    let current: SystemId | undefined;
+    for (const id of unvisited) {
+      if (distances.has(id) && (current === undefined || distances.get(id)! < distances.get(current)!)) {
+        current = id;
+      }
+    }
+    if (current === undefined || current === to) {
+      break;
+    }
+    unvisited.delete(current);
+
+    for (const jump of galaxy.jumps) {
+      const next = jump.from === current ? jump.to : jump.to === current ? jump.from : undefined;
+      if (next !== undefined && unvisited.has(next)) {
+        const distance = distances.get(current)! + jump.distance;
+        if (distance < (distances.get(next) ?? Infinity)) {
+          distances.set(next, distance);
+        }
+      }
+    }
+  }
+
+  return distances.get(to) ?? Infinity;
+}
+
+/**
+ * The speed of the slowest ship type in a fleet, which the whole fleet travels at
+ */
+export function getSlowestSpeed(composition: FleetComposition): number {
+  const counts: Record<UnitType, number> = {
+    frigate: composition.frigates,
+    cruiser: composition.cruisers,
+    battleship: composition.battleships
+  };
+  const speeds = (Object.keys(counts) as UnitType[])
+    .filter(unitType => counts[unitType] > 0)
+    .map(unitType => UNIT_STATS[unitType].speed);
+  return speeds.length > 0 ? Math.min(...speeds) : Infinity;
+}
+
+/**
+ * Turns a fleet takes to cover a distance at the speed of its slowest ship; at least one
+ */
+export function getTravelTurns(distance: number, composition: FleetComposition): number {
+  return Math.max(1, Math.ceil(distance / getSlowestSpeed(composition)));
+}
+
+/**
+ * Checks a map against the factions of the game: every faction has one home system, owners are
+ * factions, jumps join known systems over positive distances, and every system can be reached
+ */
+export function validateGalaxy(galaxy: GalaxyMap, factions: FactionId[]): string[] {
+  const errors: string[] = [];
+  const systems = Object.keys(galaxy.systems);
+
+  for (const faction of factions) {
+    const homes = systems.filter(id => galaxy.systems[id].home && galaxy.systems[id].owner === faction);
+    if (homes.length !== 1) {
+      errors.push(`${faction} must have exactly one home system, has ${homes.length}`);
+    }
+  }
+
+  for (const id of systems) {
+    const system = galaxy.systems[id];
+    if (system.owner !== undefined && !factions.includes(system.owner)) {
+      errors.push(`${system.name} is held by an unknown faction: ${system.owner}`);
+    }
+    if (system.home && system.owner === undefined) {
+      errors.push(`${system.name} is a home system without an owner`);
+    }
+    if (system.income.metal < 0 || system.income.energy < 0) {
+      errors.push(`${system.name} cannot have negative income`);
+    }
+  }
+
+  for (const jump of galaxy.jumps) {
+    if (!(jump.from in galaxy.systems) || !(jump.to in galaxy.systems)) {
+      errors.push(`Jump between unknown systems: ${jump.from} - ${jump.to}`);
+    } else if (jump.from === jump.to) {
+      errors.push(`Jump from ${jump.from} to itself`);
+    }
+    if (!(jump.distance > 0)) {
+      errors.push(`Jump ${jump.from} - ${jump.to} must have a positive distance`);
+    }
+  }
+
+  if (errors.length === 0 && systems.length > 0) {
+    const unreachable = systems.filter(id => getDistance(galaxy, systems[0], id) === Infinity);
+    if (unreachable.length > 0) {
+      errors.push(`Systems cannot be reached: ${unreachable.join(', ')}`);
+    }
+  }
+
+  return errors;
+}
@@ -1,10 +1,26 @@
 import { PlayerState } from './PlayerState.js';
+import { TurnStatistics } from './Statistics.js';
+import { SideProfile } from './Sides.js';
+import { GalaxyMap } from './Galaxy.js';
 
 export type GamePhase = 'early' | 'mid' | 'late' | 'endgame';
 
+/** Names a faction in a game: "player" and "ai" in a two-sided game, slugs of the names in a free-for-all */
+export type FactionId = string;
+
+/** One exchange of fire in a battle. The fleets are as they stood when the round began. */
+export interface CombatRound {
+  round: number;
+  attackerFleet: FleetComposition;
+  defenderFleet: FleetComposition;
+  attackerLosses: FleetComposition;
+  defenderLosses: FleetComposition;
+}
+
 export interface CombatEvent {
   turn: number;
-  attacker: 'player' | 'ai';
+  attacker: FactionId;
+  defender: FactionId;
   attackerFleet: FleetComposition;
   defenderFleet: FleetComposition;
   outcome: 'decisive_attacker' | 'decisive_defender' | 'close_battle';
@@ -16,6 +32,8 @@ export interface CombatEvent {
     attacker: FleetComposition;
     defender: FleetComposition;
   };
+  rounds: CombatRound[];
+  attackerRetreated: boolean;
 }
 
 export interface FleetComposition {
@@ -24,15 +42,20 @@ export interface FleetComposition {
   battleships: number;
 }
 
+/**
+ * The whole game. Factions are kept in seat order, which is the order they act in each phase.
+ */
 export interface GameState {
   turn: number;
-  player: PlayerState;
-  ai: PlayerState;
+  factions: Record<FactionId, PlayerState>;
+  sides: Record<FactionId, SideProfile>; // same keys as factions
+  galaxy: GalaxyMap; // the star map, with who holds each system
   combatLog: CombatEvent[];
+  history: TurnStatistics[]; // one entry per completed turn, oldest first
   gamePhase: GamePhase;
   isGameOver: boolean;
-  winner?: 'player' | 'ai';
+  winner?: FactionId;
   victoryType?: 'military' | 'economic';
-  playerHasBeenAttacked?: boolean;
-  aiHasBeenAttacked?: boolean;
+  attacked: FactionId[]; // factions whose home system has been attacked, in the order it first happened
+  eliminated: FactionId[]; // factions out of the game, in the order they fell
 }
\ No newline at end of file
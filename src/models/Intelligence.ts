@@ -1,10 +1,11 @@
-import { FleetComposition } from './GameState.js';
+import { FleetComposition, FactionId } from './GameState.js';
 
 export type ScanType = 'basic' | 'deep' | 'advanced';
 
 export interface Intelligence {
   lastScanTurn: number;
   knownEnemyFleet: FleetComposition;
+  scannedFaction?: FactionId; // whom the last scan, and so knownEnemyFleet, was of; unset before the first
   scanAccuracy: number;
   scanHistory?: ScanResult[];
   misinformationChance?: number;
@@ -33,6 +34,18 @@ export interface IntelligenceGap {
   confidence: number; // 0-1, decreases over time
 }
 
+/**
+ * Everything one side believes about its opponent. The AI decides from this alone.
+ */
+export interface IntelligencePicture {
+  enemyFleet: FleetComposition; // estimated ships at the enemy home system
+  enemyIncome: { metal: number; energy: number }; // estimated net income per turn
+  estimatedInTransit: number; // estimated ships that might be in transit
+  lastScanTurn: number; // 0 if never scanned
+  confidence: number; // 0-1, decreases over time
+  enemyLastScanTurn: number; // last turn the enemy scanned us
+}
+
 export interface ScanCosts {
   basic: { metal: 0, energy: 1000 };
   deep: { metal: 0, energy: 2500 };
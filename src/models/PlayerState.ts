@@ -1,5 +1,5 @@
 import { FleetComposition } from './GameState.js';
-import { Intelligence as IntelligenceData } from './Intelligence.js';
+import { Intelligence as IntelligenceData, ScanType } from './Intelligence.js';
 
 export type UnitType = 'frigate' | 'cruiser' | 'battleship';
 export type StructureType = 'reactor' | 'mine';
@@ -23,11 +23,14 @@ export interface BuildOrder {
 }
 
 export interface FleetMovement {
+  id: number; // fleet number shown to the player, unique per side
   composition: FleetComposition;
-  target: string;
+  origin: string; // system it set out from: its home outbound, the system it visited returning
+  target: string; // system it is heading for: an enemy home or a colony outbound, its home returning
   arrivalTurn: number;
   returnTurn: number;
   missionType: 'outbound' | 'combat' | 'returning';
+  retreatThreshold?: number; // share of the fleet it can lose before breaking off an attack (0-1)
 }
 
 export interface Fleet {
@@ -35,12 +38,29 @@ export interface Fleet {
   inTransit: {
     outbound: FleetMovement[];
   };
+  nextFleetId: number;
 }
 
 export interface Economy {
   reactors: number;
   mines: number;
   constructionQueue: BuildOrder[];
+  colonyIncome?: { metal: number; energy: number }; // what the faction's colonies pay each turn; unset before its first
+}
+
+/**
+ * An order the player has asked to be given again every few turns
+ */
+export interface StandingOrder {
+  id: number; // standing order number shown to the player, unique per side
+  order: { type: 'build'; buildType: BuildableType; quantity: number } | { type: 'scan'; scanType: ScanType; target?: string };
+  every: number; // turns between runs
+  nextTurn: number; // turn it next runs on, at the start of the turn
+}
+
+export interface StandingOrders {
+  orders: StandingOrder[];
+  nextId: number;
 }
 
 export interface PlayerState {
@@ -48,4 +68,5 @@ export interface PlayerState {
   fleet: Fleet;
   economy: Economy;
   intelligence: IntelligenceData;
+  standingOrders: StandingOrders;
 }
\ No newline at end of file
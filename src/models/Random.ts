@@ -0,0 +1,66 @@
+/**
+ * Random number sources used by combat, intelligence and AI decisions
+ */
+
+export interface RandomSource {
+  /**
+   * Returns a float in the range [0, 1)
+   */
+  next(): number;
+}
+
+/**
+ * Unseeded source backed by Math.random (read at call time so tests can stub it)
+ */
+export const defaultRandom: RandomSource = {
+  next: () => Math.random()
+};
+
+/**
+ * Deterministic random source (mulberry32) so a seed reproduces a whole game
+ */
+export class SeededRandom implements RandomSource {
+  private readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Gets the seed this generator was created with
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Gets the internal state so the sequence can be resumed later
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Restores a state previously returned by getState()
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+/**
+ * Generates a fresh seed for games started without one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x7FFFFFFF);
+}
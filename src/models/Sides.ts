@@ -0,0 +1,208 @@
+import { GameState, GamePhase, CombatEvent, FactionId } from './GameState.js';
+import { PlayerState } from './PlayerState.js';
+import { SideStatistics, DuelStatistics } from './Statistics.js';
+import { GalaxyMap } from './Galaxy.js';
+
+/** Who gives a side's orders */
+export type Controller = 'human' | 'ai';
+
+/** What a side is called and who plays it */
+export interface SideProfile {
+  name: string;
+  controller: Controller;
+}
+
+/** A faction's place in a DuelView: the faction itself, or the opponent it faces */
+export type DuelSide = 'player' | 'ai';
+
+/**
+ * The game as one faction sees it against one opponent, with the faction as "player" and the
+ * opponent as "ai". Everything written from the player's point of view (displays, command
+ * parsing, AI archetypes) works on this, so it serves any faction in any game.
+ */
+export interface DuelView {
+  turn: number;
+  player: PlayerState;
+  ai: PlayerState;
+  sides: { player: SideProfile; ai: SideProfile };
+  galaxy: GalaxyMap; // owners are "player" and "ai" for the two, and their own ids for any other faction
+  combatLog: Array<CombatEvent & { attacker: DuelSide; defender: DuelSide }>; // battles between the two
+  history: DuelStatistics[];
+  gamePhase: GamePhase;
+  isGameOver: boolean;
+  winner?: DuelSide; // unset while the game goes on, or when a third faction won
+  victoryType?: 'military' | 'economic';
+  playerHasBeenAttacked: boolean;
+  aiHasBeenAttacked: boolean;
+}
+
+/**
+ * What one side may know of the game, with that side as "player": its own state, the battles it
+ * fought and its own statistics. Nothing of the opponent but what its scans and battles showed.
+ */
+export interface SideView extends Pick<DuelView, 'turn' | 'gamePhase' | 'sides' | 'galaxy' | 'player' | 'combatLog' | 'isGameOver' | 'winner' | 'victoryType' | 'playerHasBeenAttacked'> {
+  history: Array<{ turn: number; player: SideStatistics }>;
+}
+
+/** Longest side name accepted */
+export const MAX_SIDE_NAME_LENGTH = 20;
+
+/** Most factions a free-for-all seats */
+export const MAX_FACTIONS = 6;
+
+/**
+ * The sides of a single-player game: a human as "player" against the AI
+ */
+export function createDefaultSides(): Record<FactionId, SideProfile> {
+  return {
+    player: { name: 'Player', controller: 'human' },
+    ai: { name: 'AI', controller: 'ai' }
+  };
+}
+
+/**
+ * The other side of a DuelView
+ */
+export function getOpponent(side: DuelSide): DuelSide {
+  return side === 'player' ? 'ai' : 'player';
+}
+
+/**
+ * Whether people share the game: more than one side is played by a human
+ */
+export function isHotseat(gameState: Pick<GameState, 'sides'>): boolean {
+  return Object.values(gameState.sides).filter(profile => profile.controller === 'human').length > 1;
+}
+
+/**
+ * Checks a side name: 1-20 characters, not blank
+ */
+export function validateSideName(name: string): string[] {
+  if (name.trim().length === 0) {
+    return ['Side names cannot be blank'];
+  }
+  if (name.length > MAX_SIDE_NAME_LENGTH) {
+    return [`Side names must be at most ${MAX_SIDE_NAME_LENGTH} characters`];
+  }
+  return [];
+}
+
+/**
+ * Turns a side name into a faction id: lower case, with runs of anything else than letters and
+ * digits as "-". Ids always start with a letter so the factions keep their seat order.
+ */
+export function toFactionId(name: string): FactionId {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return /^[a-z]/.test(slug) ? slug : `f-${slug}`.replace(/-$/, '');
+}
+
+/**
+ * The factions in seat order
+ */
+export function getFactionIds(gameState: Pick<GameState, 'factions'>): FactionId[] {
+  return Object.keys(gameState.factions);
+}
+
+/**
+ * The factions still in the game, in seat order
+ */
+export function getLivingFactions(gameState: Pick<GameState, 'factions' | 'eliminated'>): FactionId[] {
+  return getFactionIds(gameState).filter(faction => !gameState.eliminated.includes(faction));
+}
+
+/**
+ * Finds a faction by its id or, ignoring case, its name
+ */
+export function findFaction(gameState: Pick<GameState, 'sides'>, reference: string): FactionId | undefined {
+  const wanted = reference.trim().toLowerCase();
+  return Object.keys(gameState.sides).find(faction => faction === wanted) ??
+    Object.keys(gameState.sides).find(faction => gameState.sides[faction].name.toLowerCase() === wanted);
+}
+
+/**
+ * The opponent a faction is facing: whoever won once the game is over, otherwise the faction
+ * that attacked it last while still in the game, otherwise the next faction still in the game
+ * after it in seat order. With two factions this is always the other one.
+ */
+export function getRival(gameState: Pick<GameState, 'factions' | 'combatLog' | 'eliminated' | 'winner'>, faction: FactionId): FactionId {
+  if (gameState.winner !== undefined && gameState.winner !== faction) {
+    return gameState.winner;
+  }
+
+  const isOpponent = (other: FactionId) => other !== faction && !gameState.eliminated.includes(other);
+  for (let i = gameState.combatLog.length - 1; i >= 0; i--) {
+    const event = gameState.combatLog[i];
+    if (event.defender === faction && isOpponent(event.attacker)) {
+      return event.attacker;
+    }
+  }
+
+  const seats = getFactionIds(gameState);
+  const seat = seats.indexOf(faction);
+  const after = [...seats.slice(seat + 1), ...seats.slice(0, seat)].filter(other => other !== faction);
+  const lastBeaten = [...gameState.eliminated].reverse().find(other => other !== faction);
+  return after.find(isOpponent) ?? lastBeaten ?? after[0];
+}
+
+/**
+ * The game as one faction sees it against an opponent, by default its rival. The view is a deep
+ * copy, so nothing done to it reaches the real state. Factions named in it (owners on the map,
+ * whom a side last scanned) are "player" and "ai" for the two, and their own ids for the others.
+ */
+export function viewForSide(gameState: GameState, side: FactionId, opponent: FactionId = getRival(gameState, side)): DuelView {
+  const slotOf = (faction: FactionId): DuelSide | undefined =>
+    faction === side ? 'player' : faction === opponent ? 'ai' : undefined;
+
+  const view: DuelView = {
+    turn: gameState.turn,
+    player: gameState.factions[side],
+    ai: gameState.factions[opponent],
+    sides: { player: gameState.sides[side], ai: gameState.sides[opponent] },
+    galaxy: {
+      systems: Object.fromEntries(Object.entries(gameState.galaxy.systems).map(([id, system]) => [
+        id,
+        system.owner === undefined ? system : { ...system, owner: slotOf(system.owner) ?? system.owner }
+      ])),
+      jumps: gameState.galaxy.jumps
+    },
+    combatLog: gameState.combatLog
+      .filter(event => slotOf(event.attacker) && slotOf(event.defender))
+      .map(event => ({ ...event, attacker: slotOf(event.attacker)!, defender: slotOf(event.defender)! })),
+    history: gameState.history.map(turn => ({ turn: turn.turn, player: turn.factions[side], ai: turn.factions[opponent] })),
+    gamePhase: gameState.gamePhase,
+    isGameOver: gameState.isGameOver,
+    winner: gameState.winner === undefined ? undefined : slotOf(gameState.winner),
+    victoryType: gameState.victoryType,
+    playerHasBeenAttacked: gameState.attacked.includes(side),
+    aiHasBeenAttacked: gameState.attacked.includes(opponent)
+  };
+
+  const copy: DuelView = JSON.parse(JSON.stringify(view));
+  for (const state of [copy.player, copy.ai]) {
+    const scanned = state.intelligence.scannedFaction;
+    if (scanned !== undefined) {
+      state.intelligence.scannedFaction = slotOf(scanned) ?? scanned;
+    }
+  }
+  return copy;
+}
+
+/**
+ * The game as one side may see it, for sending to a player who must not see the opponent's state
+ */
+export function filterForSide(gameState: GameState, side: FactionId): SideView {
+  const view = viewForSide(gameState, side);
+  return {
+    turn: view.turn,
+    gamePhase: view.gamePhase,
+    sides: view.sides,
+    galaxy: view.galaxy,
+    player: view.player,
+    combatLog: view.combatLog,
+    history: view.history.map(turn => ({ turn: turn.turn, player: turn.player })),
+    isGameOver: view.isGameOver,
+    winner: view.winner,
+    victoryType: view.victoryType,
+    playerHasBeenAttacked: view.playerHasBeenAttacked
+  };
+}
@@ -0,0 +1,77 @@
+import { FleetComposition, FactionId } from './GameState.js';
+import { getTotalFleetSize } from './Fleet.js';
+
+/** One side's position at the end of a turn, and what it spent and lost during the turn */
+export interface SideStatistics {
+  resources: { metal: number; energy: number };
+  netIncome: { metal: number; energy: number }; // applied this turn, after upkeep and construction drain
+  fleetUpkeep: { metal: number; energy: number };
+  constructionDrain: { metal: number; energy: number };
+  homeFleet: FleetComposition;
+  inTransit: FleetComposition;
+  structures: { reactors: number; mines: number };
+  scans: number;
+  scanSpending: { metal: number; energy: number };
+  shipsLost: FleetComposition;
+  shipsKilled: FleetComposition;
+  enemyFleetEstimate: FleetComposition | null; // what the side's last scan showed, null before its first
+}
+
+/** Every faction as a turn ended */
+export interface TurnStatistics {
+  turn: number;
+  factions: Record<FactionId, SideStatistics>;
+}
+
+/** A faction and its opponent as a turn ended, as a DuelView shows them */
+export interface DuelStatistics {
+  turn: number;
+  player: SideStatistics;
+  ai: SideStatistics;
+}
+
+/** What one side did over a whole game */
+export interface StatisticsTotals {
+  shipsLost: number;
+  shipsKilled: number;
+  scans: number;
+  peakFleet: number; // most ships owned at the end of a turn
+}
+
+/**
+ * Ships a side owns at home and in transit
+ */
+export function getTotalShips(statistics: SideStatistics): number {
+  return getTotalFleetSize(statistics.homeFleet) + getTotalFleetSize(statistics.inTransit);
+}
+
+/**
+ * Adds up one side's losses, kills and scans over the game
+ */
+export function getStatisticsTotals(history: DuelStatistics[], side: 'player' | 'ai'): StatisticsTotals {
+  return history.reduce<StatisticsTotals>((totals, turn) => ({
+    shipsLost: totals.shipsLost + getTotalFleetSize(turn[side].shipsLost),
+    shipsKilled: totals.shipsKilled + getTotalFleetSize(turn[side].shipsKilled),
+    scans: totals.scans + turn[side].scans,
+    peakFleet: Math.max(totals.peakFleet, getTotalShips(turn[side]))
+  }), { shipsLost: 0, shipsKilled: 0, scans: 0, peakFleet: 0 });
+}
+
+/**
+ * Finds the turn the player fell behind the AI in ships and has stayed behind since,
+ * or null if the player is not behind at the last recorded turn
+ */
+export function findLeadLostTurn(history: DuelStatistics[]): number | null {
+  let lostTurn: number | null = null;
+
+  for (const turn of history) {
+    const behind = getTotalShips(turn.player) < getTotalShips(turn.ai);
+    if (!behind) {
+      lostTurn = null;
+    } else if (lostTurn === null) {
+      lostTurn = turn.turn;
+    }
+  }
+
+  return lostTurn;
+}
@@ -13,6 +13,7 @@ import {
   canSustainBuildOrder,
   calculateStructurePaybackTime,
   isStructureViable,
+  calculateCancellationRefund,
   createEmptyEconomy,
   getTotalStructures,
   STRUCTURE_STATS,
@@ -242,6 +243,24 @@ describe('Economy Management', () => {
     });
   });
 
+  describe('calculateCancellationRefund', () => {
+    const battleships: BuildOrder = {
+      unitType: 'battleship',
+      quantity: 2,
+      turnsRemaining: 4,
+      resourceDrainPerTurn: { metal: 40, energy: 30 }
+    };
+
+    it('should refund everything before any build time is spent', () => {
+      expect(calculateCancellationRefund(battleships)).toEqual({ metal: 40, energy: 30 });
+    });
+
+    it('should refund the unspent share of a partly built order, rounded down', () => {
+      expect(calculateCancellationRefund({ ...battleships, turnsRemaining: 3 })).toEqual({ metal: 30, energy: 22 });
+      expect(calculateCancellationRefund({ ...battleships, turnsRemaining: 1 })).toEqual({ metal: 10, energy: 7 });
+    });
+  });
+
   describe('canAffordBuildOrder', () => {
     it('should return true when resources are sufficient', () => {
       const buildOrder: BuildOrder = {
@@ -22,13 +22,17 @@ import {
   getCounterAttackWindow,
   getVisibleFleets,
   createReturningFleet,
+  getMovementTravelTurns,
   determineBattleOutcome,
   calculateCasualties,
+  calculateRoundDamage,
   resolveCombat,
   checkFleetElimination,
   processCombatMovement,
   checkVictoryConditions,
-  UNIT_STATS
+  UNIT_STATS,
+  MAX_COMBAT_ROUNDS,
+  ROUND_LETHALITY
 } from '../Fleet.js';
 import { FleetComposition, FleetMovement } from '../index.js';
 
@@ -360,14 +364,23 @@ describe('Fleet Management', () => {
 
   describe('createFleetMovement', () => {
     it('should create a valid fleet movement', () => {
-      const movement = createFleetMovement(sampleFleet, 'target_system', 5);
+      const movement = createFleetMovement(sampleFleet, 'home_system', 'target_system', 5, 1);
       
       expect(movement.composition).toEqual(sampleFleet);
+      expect(movement.origin).toBe('home_system');
       expect(movement.target).toBe('target_system');
       expect(movement.arrivalTurn).toBe(6); // currentTurn + 1
       expect(movement.returnTurn).toBe(8);  // currentTurn + 3
       expect(movement.missionType).toBe('outbound');
     });
+
+    it('should take longer over a longer trip', () => {
+      const movement = createFleetMovement(sampleFleet, 'home_system', 'target_system', 5, 1, 2);
+
+      expect(movement.arrivalTurn).toBe(7);
+      expect(movement.returnTurn).toBe(10);
+      expect(getMovementTravelTurns(movement)).toBe(2);
+    });
   });
 
   describe('isFleetInTransit', () => {
@@ -402,6 +415,7 @@ describe('Fleet Management', () => {
 
   describe('canRecallFleet', () => {
     const movement: FleetMovement = {
+      id: 1,
       composition: sampleFleet,
       target: 'enemy_system',
       arrivalTurn: 6,
@@ -409,22 +423,27 @@ describe('Fleet Management', () => {
       missionType: 'outbound'
     };
 
-    it('should allow recall before departure', () => {
+    it('should allow recall while the fleet is outbound', () => {
       expect(canRecallFleet(movement, 4)).toBe(true);
+      expect(canRecallFleet(movement, 5)).toBe(true);
     });
 
-    it('should not allow recall on departure turn', () => {
-      expect(canRecallFleet(movement, 5)).toBe(false);
+    it('should allow recall up to the arrival turn, before combat resolves', () => {
+      expect(canRecallFleet(movement, 6)).toBe(true);
     });
 
-    it('should not allow recall after departure', () => {
-      expect(canRecallFleet(movement, 6)).toBe(false);
+    it('should not allow recall after the fleet has arrived', () => {
       expect(canRecallFleet(movement, 7)).toBe(false);
     });
+
+    it('should not allow recalling a fleet that is already returning', () => {
+      expect(canRecallFleet({ ...movement, missionType: 'returning' }, 4)).toBe(false);
+    });
   });
 
   describe('updateFleetMissionType', () => {
     const baseMovement: FleetMovement = {
+      id: 3,
       composition: sampleFleet,
       target: 'enemy_system',
       arrivalTurn: 6,
@@ -446,6 +465,13 @@ describe('Fleet Management', () => {
       const updated = updateFleetMissionType(baseMovement, 7);
       expect(updated.missionType).toBe('returning');
     });
+
+    it('should keep a returning fleet returning when it reaches home', () => {
+      const returning = createReturningFleet(sampleFleet, baseMovement, 6)!;
+      const updated = updateFleetMissionType(returning, returning.arrivalTurn);
+      expect(updated.missionType).toBe('returning');
+      expect(updated.id).toBe(baseMovement.id);
+    });
   });
 
   describe('processFleetMovements', () => {
@@ -570,6 +596,7 @@ describe('Fleet Management', () => {
   describe('createReturningFleet', () => {
     const originalMovement: FleetMovement = {
       composition: sampleFleet,
+      origin: 'home_system',
       target: 'enemy_system',
       arrivalTurn: 6,
       returnTurn: 8,
@@ -582,7 +609,8 @@ describe('Fleet Management', () => {
       
       expect(returning).not.toBeNull();
       expect(returning!.composition).toEqual(survivors);
-      expect(returning!.target).toBe('home');
+      expect(returning!.origin).toBe('enemy_system');
+      expect(returning!.target).toBe('home_system');
       expect(returning!.arrivalTurn).toBe(7);
       expect(returning!.returnTurn).toBe(7);
       expect(returning!.missionType).toBe('returning');
@@ -694,6 +722,33 @@ describe('Fleet Management', () => {
       });
     });
 
+    describe('calculateRoundDamage', () => {
+      const evenFactors = { frigate: 1.0, cruiser: 1.0, battleship: 1.0 };
+
+      it('should scale damage by the effectiveness of each matchup', () => {
+        const frigates: FleetComposition = { frigates: 100, cruisers: 0, battleships: 0 };
+
+        const vsCruisers = calculateRoundDamage(frigates, { frigates: 0, cruisers: 50, battleships: 0 }, evenFactors);
+        const vsBattleships = calculateRoundDamage(frigates, { frigates: 0, cruisers: 0, battleships: 50 }, evenFactors);
+
+        expect(vsCruisers.cruisers).toBeCloseTo(100 * ROUND_LETHALITY * UNIT_STATS.frigate.effectiveness.vsCruiser);
+        expect(vsBattleships.battleships).toBeCloseTo(100 * ROUND_LETHALITY * UNIT_STATS.frigate.effectiveness.vsBattleship);
+        expect(vsCruisers.cruisers).toBeGreaterThan(vsBattleships.battleships);
+      });
+
+      it('should spread fire over enemy types by their numbers', () => {
+        const damage = calculateRoundDamage(
+          { frigates: 0, cruisers: 40, battleships: 0 },
+          { frigates: 30, cruisers: 0, battleships: 10 },
+          evenFactors
+        );
+
+        expect(damage.frigates).toBeCloseTo(40 * ROUND_LETHALITY * UNIT_STATS.cruiser.effectiveness.vsFrigate * 0.75);
+        expect(damage.battleships).toBeCloseTo(40 * ROUND_LETHALITY * UNIT_STATS.cruiser.effectiveness.vsBattleship * 0.25);
+        expect(damage.cruisers).toBe(0);
+      });
+    });
+
     describe('resolveCombat', () => {
       const attackerFleet: FleetComposition = { frigates: 20, cruisers: 10, battleships: 5 };
       const defenderFleet: FleetComposition = { frigates: 15, cruisers: 8, battleships: 3 };
@@ -736,6 +791,59 @@ describe('Fleet Management', () => {
         expect(result1.outcome).toBe(result2.outcome);
         expect(result1.strengthRatio).toBe(result2.strengthRatio);
       });
+
+      it('should log rounds whose losses add up to the casualties', () => {
+        const result = resolveCombat(attackerFleet, defenderFleet);
+
+        expect(result.rounds.length).toBeGreaterThan(0);
+        expect(result.rounds.length).toBeLessThanOrEqual(MAX_COMBAT_ROUNDS);
+        expect(result.rounds[0].attackerFleet).toEqual(attackerFleet);
+        expect(result.rounds[0].defenderFleet).toEqual(defenderFleet);
+
+        const attackerLosses = result.rounds.reduce((total, round) => addFleetCompositions(total, round.attackerLosses), createEmptyFleet());
+        const defenderLosses = result.rounds.reduce((total, round) => addFleetCompositions(total, round.defenderLosses), createEmptyFleet());
+        expect(attackerLosses).toEqual(result.attackerCasualties);
+        expect(defenderLosses).toEqual(result.defenderCasualties);
+      });
+
+      it('should start each round with the survivors of the last', () => {
+        const result = resolveCombat({ frigates: 200, cruisers: 0, battleships: 0 }, { frigates: 0, cruisers: 100, battleships: 0 });
+
+        for (let i = 1; i < result.rounds.length; i++) {
+          const previous = result.rounds[i - 1];
+          expect(result.rounds[i].attackerFleet).toEqual(subtractFleetCompositions(previous.attackerFleet, previous.attackerLosses));
+          expect(result.rounds[i].defenderFleet).toEqual(subtractFleetCompositions(previous.defenderFleet, previous.defenderLosses));
+        }
+      });
+
+      it('should let the counter unit win an even fight', () => {
+        const fixedFactors = {
+          attackerFactors: { frigate: 1.0, cruiser: 1.0, battleship: 1.0 },
+          defenderFactors: { frigate: 1.0, cruiser: 1.0, battleship: 1.0 }
+        };
+
+        const result = resolveCombat({ frigates: 50, cruisers: 0, battleships: 0 }, { frigates: 0, cruisers: 50, battleships: 0 }, fixedFactors);
+
+        expect(getTotalFleetSize(result.defenderCasualties)).toBeGreaterThan(getTotalFleetSize(result.attackerCasualties));
+      });
+
+      it('should stop fighting once the attacker loses its retreat threshold', () => {
+        const attacker: FleetComposition = { frigates: 20, cruisers: 0, battleships: 0 };
+        const result = resolveCombat(attacker, { frigates: 0, cruisers: 0, battleships: 60 }, undefined, undefined, { retreatThreshold: 0.25 });
+
+        expect(result.attackerRetreated).toBe(true);
+        expect(getTotalFleetSize(result.attackerCasualties)).toBeGreaterThanOrEqual(5);
+        expect(getTotalFleetSize(result.attackerSurvivors)).toBeGreaterThan(0);
+        expect(result.rounds.length).toBeLessThan(MAX_COMBAT_ROUNDS);
+        expect(result.outcome).not.toBe('decisive_attacker');
+      });
+
+      it('should fight every round without a retreat threshold', () => {
+        const result = resolveCombat({ frigates: 100, cruisers: 0, battleships: 0 }, { frigates: 100, cruisers: 0, battleships: 0 });
+
+        expect(result.attackerRetreated).toBe(false);
+        expect(result.rounds).toHaveLength(MAX_COMBAT_ROUNDS);
+      });
     });
 
     describe('checkFleetElimination', () => {
@@ -783,6 +891,7 @@ describe('Fleet Management', () => {
     describe('processCombatMovement', () => {
       const attackingMovement: FleetMovement = {
         composition: { frigates: 10, cruisers: 5, battleships: 2 },
+        origin: 'attacker_system',
         target: 'defender_system',
         arrivalTurn: 6,
         returnTurn: 8,
@@ -800,7 +909,7 @@ describe('Fleet Management', () => {
         // Should have returning fleet if there are survivors
         if (getTotalFleetSize(result.combatResult.attackerSurvivors) > 0) {
           expect(result.returningFleet).not.toBeNull();
-          expect(result.returningFleet!.target).toBe('home');
+          expect(result.returningFleet!.target).toBe('attacker_system');
         } else {
           expect(result.returningFleet).toBeNull();
         }
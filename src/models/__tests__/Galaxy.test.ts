@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createGalaxy,
+  toSystemId,
+  getHomeSystem,
+  findSystem,
+  getColonyIncome,
+  getDistance,
+  getTravelTurns,
+  validateGalaxy
+} from '../Galaxy.js';
+
+describe('Galaxy', () => {
+  describe('createGalaxy', () => {
+    it('should give every faction a home system and a frontier colony around one hub', () => {
+      const galaxy = createGalaxy(['player', 'ai']);
+
+      expect(Object.keys(galaxy.systems)).toEqual(['sol', 'kepler', 'meridian', 'vega', 'altair']);
+      expect(getHomeSystem(galaxy, 'ai')).toBe('kepler');
+      expect(galaxy.systems.meridian.owner).toBeUndefined();
+      expect(validateGalaxy(galaxy, ['player', 'ai'])).toEqual([]);
+    });
+
+    it('should seat up to six factions', () => {
+      const factions = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+      expect(validateGalaxy(createGalaxy(factions), factions)).toEqual([]);
+      expect(getHomeSystem(createGalaxy(factions), 'c')).toBe('tau-ceti');
+    });
+  });
+
+  describe('findSystem', () => {
+    it('should find a system by id or by name in any case', () => {
+      const galaxy = createGalaxy(['player', 'ai']);
+
+      expect(findSystem(galaxy, 'vega')).toBe('vega');
+      expect(findSystem(galaxy, ' MERIDIAN ')).toBe('meridian');
+      expect(findSystem(galaxy, 'andromeda')).toBeUndefined();
+      expect(toSystemId('Tau Ceti')).toBe('tau-ceti');
+    });
+  });
+
+  describe('getDistance', () => {
+    it('should take the shortest route over the jumps', () => {
+      const galaxy = createGalaxy(['player', 'ai']);
+
+      expect(getDistance(galaxy, 'sol', 'sol')).toBe(0);
+      expect(getDistance(galaxy, 'sol', 'kepler')).toBe(2);
+      expect(getDistance(galaxy, 'sol', 'vega')).toBe(3);
+      expect(getDistance(galaxy, 'sol', 'altair')).toBe(4);
+    });
+
+    it('should be infinite between systems no jump connects', () => {
+      const galaxy = createGalaxy(['player', 'ai']);
+      galaxy.jumps = galaxy.jumps.filter(jump => jump.from !== 'kepler');
+
+      expect(getDistance(galaxy, 'sol', 'kepler')).toBe(Infinity);
+    });
+  });
+
+  describe('getTravelTurns', () => {
+    it('should move a fleet at the speed of its slowest ship', () => {
+      expect(getTravelTurns(3, { frigates: 10, cruisers: 0, battleships: 0 })).toBe(1);
+      expect(getTravelTurns(4, { frigates: 10, cruisers: 1, battleships: 0 })).toBe(2);
+      expect(getTravelTurns(4, { frigates: 10, cruisers: 1, battleships: 1 })).toBe(2);
+      expect(getTravelTurns(5, { frigates: 0, cruisers: 0, battleships: 1 })).toBe(3);
+    });
+
+    it('should always take at least one turn', () => {
+      expect(getTravelTurns(0, { frigates: 1, cruisers: 0, battleships: 0 })).toBe(1);
+    });
+  });
+
+  describe('getColonyIncome', () => {
+    it('should add up what the colonies held pay, but not the home system', () => {
+      const galaxy = createGalaxy(['player', 'ai']);
+      galaxy.systems.meridian.owner = 'player';
+      galaxy.systems.vega.owner = 'player';
+
+      expect(getColonyIncome(galaxy, 'player')).toEqual({ metal: 2500, energy: 2000 });
+      expect(getColonyIncome(galaxy, 'ai')).toEqual({ metal: 0, energy: 0 });
+    });
+  });
+
+  describe('validateGalaxy', () => {
+    it('should require one home system per faction', () => {
+      const galaxy = createGalaxy(['player', 'ai']);
+
+      expect(validateGalaxy(galaxy, ['player', 'ai', 'third'])).toEqual(['third must have exactly one home system, has 0']);
+    });
+
+    it('should reject owners, jumps and income that make no sense', () => {
+      const galaxy = createGalaxy(['player', 'ai']);
+      galaxy.systems.vega.owner = 'nobody';
+      galaxy.systems.altair.income.metal = -1;
+      galaxy.jumps.push({ from: 'sol', to: 'andromeda', distance: 0 });
+
+      expect(validateGalaxy(galaxy, ['player', 'ai'])).toEqual([
+        'Vega is held by an unknown faction: nobody',
+        'Altair cannot have negative income',
+        'Jump between unknown systems: sol - andromeda',
+        'Jump sol - andromeda must have a positive distance'
+      ]);
+    });
+
+    it('should reject systems that cannot be reached', () => {
+      const galaxy = createGalaxy(['player', 'ai']);
+      galaxy.jumps = galaxy.jumps.filter(jump => jump.to !== 'altair' && jump.from !== 'altair');
+
+      expect(validateGalaxy(galaxy, ['player', 'ai'])).toEqual(['Systems cannot be reached: altair']);
+    });
+  });
+});
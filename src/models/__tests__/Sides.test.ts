@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { viewForSide, filterForSide, validateSideName, isHotseat, toFactionId, findFaction, getRival } from '../Sides.js';
+import { GameEngine } from '../../engine/GameEngine.js';
+
+describe('Sides', () => {
+  const playTurn = () => {
+    const engine = new GameEngine({ seed: 7, hotseat: true, sideNames: { player: 'Ana', ai: 'Ben' } });
+    engine.applyOrder({ type: 'attack', attackFleet: { frigates: 50, cruisers: 0, battleships: 0 }, target: 'ai' });
+    engine.applyOrder({ type: 'build', buildType: 'frigate', quantity: 5 }, 'ai');
+    engine.processTurn();
+    engine.processTurn();
+    return engine.getGameState();
+  };
+
+  describe('viewForSide', () => {
+    it('should show the second side as the player', () => {
+      const gameState = playTurn();
+      const view = viewForSide(gameState, 'ai');
+
+      expect(view.player).toEqual(gameState.factions.ai);
+      expect(view.ai).toEqual(gameState.factions.player);
+      expect(view.sides.player.name).toBe('Ben');
+      expect(view.history.map(turn => turn.player)).toEqual(gameState.history.map(turn => turn.factions.ai));
+      expect(view.combatLog.map(event => event.attacker)).toEqual(gameState.combatLog.map(() => 'ai'));
+      expect(view.playerHasBeenAttacked).toBe(true);
+    });
+
+    it('should name whom each side last scanned as the view names them', () => {
+      const engine = new GameEngine({ seed: 7, hotseat: true });
+      engine.applyOrder({ type: 'scan', scanType: 'basic' }, 'ai');
+      const gameState = engine.getGameState();
+
+      expect(gameState.factions.ai.intelligence.scannedFaction).toBe('player');
+      expect(viewForSide(gameState, 'ai').player.intelligence.scannedFaction).toBe('ai');
+      expect(viewForSide(gameState, 'player').ai.intelligence.scannedFaction).toBe('player');
+    });
+
+    it('should leave the real state alone', () => {
+      const gameState = playTurn();
+      const before = JSON.stringify(gameState);
+
+      viewForSide(gameState, 'ai').player.resources.metal = 0;
+
+      expect(viewForSide(gameState, 'player').player).not.toBe(gameState.factions.player);
+      expect(JSON.stringify(gameState)).toBe(before);
+    });
+  });
+
+  describe('filterForSide', () => {
+    it('should leave out the opponent\'s position and history', () => {
+      const gameState = playTurn();
+      const view = filterForSide(gameState, 'ai');
+
+      expect(view).not.toHaveProperty('ai');
+      expect(view.player).toEqual(gameState.factions.ai);
+      expect(view.history).toEqual(gameState.history.map(turn => ({ turn: turn.turn, player: turn.factions.ai })));
+      expect(view.sides.player.name).toBe('Ben');
+    });
+
+    it('should not share objects with the real state', () => {
+      const gameState = playTurn();
+
+      filterForSide(gameState, 'player').player.resources.metal = 0;
+
+      expect(gameState.factions.player.resources.metal).toBeGreaterThan(0);
+    });
+  });
+
+  describe('factions', () => {
+    const freeForAll = () => new GameEngine({
+      seed: 7,
+      factions: [
+        { name: 'Ana', controller: 'human' },
+        { name: 'Crimson Fleet', controller: 'ai', archetype: 'aggressor' },
+        { name: '7th Armada', controller: 'ai' }
+      ]
+    });
+
+    it('should make ids of names that start with a letter', () => {
+      expect(toFactionId('Crimson Fleet')).toBe('crimson-fleet');
+      expect(toFactionId('  Ben! ')).toBe('ben');
+      expect(toFactionId('7th Armada')).toBe('f-7th-armada');
+    });
+
+    it('should find factions by id or by name in any case', () => {
+      const gameState = freeForAll().getGameState();
+
+      expect(findFaction(gameState, 'crimson-fleet')).toBe('crimson-fleet');
+      expect(findFaction(gameState, 'CRIMSON FLEET')).toBe('crimson-fleet');
+      expect(findFaction(gameState, 'nobody')).toBeUndefined();
+    });
+
+    it('should face the last attacker, and otherwise the next faction in seat order', () => {
+      const engine = freeForAll();
+      expect(getRival(engine.getGameState(), 'crimson-fleet')).toBe('f-7th-armada');
+      expect(getRival(engine.getGameState(), 'f-7th-armada')).toBe('ana');
+
+      engine.applyOrder({ type: 'attack', attackFleet: { frigates: 10, cruisers: 0, battleships: 0 }, target: 'Crimson Fleet' }, 'ana');
+      engine.processTurn();
+      engine.processTurn();
+
+      expect(engine.getCombatLog().map(event => [event.attacker, event.defender])).toEqual([['ana', 'crimson-fleet']]);
+      expect(getRival(engine.getGameState(), 'crimson-fleet')).toBe('ana');
+    });
+  });
+
+  it('should be a hotseat game only when humans play both sides', () => {
+    expect(isHotseat(playTurn())).toBe(true);
+    expect(isHotseat(new GameEngine().getGameState())).toBe(false);
+  });
+
+  it('should accept names of 1-20 characters', () => {
+    expect(validateSideName('Ana')).toEqual([]);
+    expect(validateSideName('  ')).toEqual(['Side names cannot be blank']);
+    expect(validateSideName('x'.repeat(21))).toEqual(['Side names must be at most 20 characters']);
+  });
+});
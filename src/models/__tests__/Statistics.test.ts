@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { SideStatistics, TurnStatistics, findLeadLostTurn, getStatisticsTotals } from '../Statistics.js';
+
+describe('Statistics', () => {
+  const side = (frigates: number, lost: number = 0, killed: number = 0): SideStatistics => ({
+    resources: { metal: 0, energy: 0 },
+    netIncome: { metal: 10000, energy: 10000 },
+    fleetUpkeep: { metal: 0, energy: 0 },
+    constructionDrain: { metal: 0, energy: 0 },
+    homeFleet: { frigates, cruisers: 0, battleships: 0 },
+    inTransit: { frigates: 0, cruisers: 0, battleships: 0 },
+    structures: { reactors: 0, mines: 0 },
+    scans: 1,
+    scanSpending: { metal: 0, energy: 1000 },
+    shipsLost: { frigates: lost, cruisers: 0, battleships: 0 },
+    shipsKilled: { frigates: killed, cruisers: 0, battleships: 0 },
+    enemyFleetEstimate: null
+  });
+
+  const turn = (number: number, player: SideStatistics, ai: SideStatistics): TurnStatistics => ({ turn: number, player, ai });
+
+  describe('findLeadLostTurn', () => {
+    it('should find the start of the run of turns the player has been behind', () => {
+      const history = [
+        turn(1, side(50), side(50)),
+        turn(2, side(40), side(50)),
+        turn(3, side(60), side(50)),
+        turn(4, side(45), side(50)),
+        turn(5, side(30), side(50))
+      ];
+
+      expect(findLeadLostTurn(history)).toBe(4);
+      expect(findLeadLostTurn(history.slice(0, 3))).toBeNull();
+      expect(findLeadLostTurn([])).toBeNull();
+    });
+  });
+
+  describe('getStatisticsTotals', () => {
+    it('should add up losses, kills and scans and find the largest fleet', () => {
+      const history = [turn(1, side(50, 5, 3), side(50, 3, 5)), turn(2, side(70, 2, 0), side(40))];
+
+      expect(getStatisticsTotals(history, 'player')).toEqual({ shipsLost: 7, shipsKilled: 3, scans: 2, peakFleet: 70 });
+      expect(getStatisticsTotals(history, 'ai')).toEqual({ shipsLost: 3, shipsKilled: 5, scans: 2, peakFleet: 50 });
+    });
+  });
+});
@@ -11,6 +11,8 @@ import {
   determineGamePhase
 } from '../validation.js';
 import { GameState, PlayerState, GamePhase } from '../index.js';
+import { createDefaultSides } from '../Sides.js';
+import { createGalaxy } from '../Galaxy.js';
 
 describe('Game State Validation', () => {
   const createValidPlayerState = (): PlayerState => ({
@@ -48,11 +50,15 @@ describe('Game State Validation', () => {
 
   const createValidGameState = (): GameState => ({
     turn: 1,
-    player: createValidPlayerState(),
-    ai: createValidPlayerState(),
+    factions: { player: createValidPlayerState(), ai: createValidPlayerState() },
+    sides: createDefaultSides(),
+    galaxy: createGalaxy(['player', 'ai']),
     combatLog: [],
+    history: [],
     gamePhase: 'early',
-    isGameOver: false
+    isGameOver: false,
+    attacked: [],
+    eliminated: []
   });
 
   describe('validateGameState', () => {
@@ -79,6 +85,15 @@ describe('Game State Validation', () => {
       expect(result.errors).toContain('Game over state requires a winner');
       expect(result.errors).toContain('Game over state requires a victory type');
     });
+
+    it('should prefix a faction\'s errors with its id and reject unknown factions', () => {
+      const gameState = createValidGameState();
+      gameState.factions.ai.resources.metal = -200000;
+      gameState.eliminated = ['nobody'];
+      const result = validateGameState(gameState);
+      expect(result.errors).toContain('ai: Metal resources are unreasonably negative');
+      expect(result.errors).toContain('Unknown faction: nobody');
+    });
   });
 
   describe('validateGamePhase', () => {
@@ -1,6 +1,9 @@
 // Core data models and interfaces
 export * from './GameState.js';
 export * from './PlayerState.js';
+export * from './Statistics.js';
+export * from './Sides.js';
+export * from './Galaxy.js';
 export * from './validation.js';
 
 // Re-export specific items to avoid conflicts
@@ -26,6 +29,7 @@ export {
   validateBuildOrder,
   validateConstructionQueue,
   calculateStructureCost,
+  getBuildCosts,
   calculateStructureIncome,
   calculateConstructionDrain,
   calculateNetIncome,
@@ -44,6 +48,12 @@ export {
   SCAN_COSTS
 } from './Intelligence.js';
 
+export {
+  SeededRandom,
+  defaultRandom,
+  generateSeed
+} from './Random.js';
+
 export type { 
   FleetValidationResult
 } from './Fleet.js';
@@ -52,8 +62,13 @@ export type {
   EconomyValidationResult
 } from './Economy.js';
 
+export type {
+  RandomSource
+} from './Random.js';
+
 export type {
   ScanType,
   ScanResult,
-  ScanCosts
+  ScanCosts,
+  IntelligencePicture
 } from './Intelligence.js';
\ No newline at end of file
@@ -1,4 +1,6 @@
 import { GameState, GamePhase, PlayerState, Resources, Fleet, Economy } from './index.js';
+import { createDefaultSides } from './Sides.js';
+import { createGalaxy, validateGalaxy } from './Galaxy.js';
 
 /**
  * Validation functions for game state management and data integrity
@@ -26,16 +28,31 @@ export function validateGameState(gameState: GameState): ValidationResult {
     errors.push(...phaseValidation.errors);
   }
 
-  // Validate player state
-  const playerValidation = validatePlayerState(gameState.player);
-  if (!playerValidation.isValid) {
-    errors.push(...playerValidation.errors.map(err => `Player: ${err}`));
+  // Validate each faction's state, prefixing errors with the faction's id
+  for (const [faction, playerState] of Object.entries(gameState.factions)) {
+    const factionValidation = validatePlayerState(playerState);
+    errors.push(...factionValidation.errors.map(err => `${faction}: ${err}`));
   }
 
-  // Validate AI state
-  const aiValidation = validatePlayerState(gameState.ai);
-  if (!aiValidation.isValid) {
-    errors.push(...aiValidation.errors.map(err => `AI: ${err}`));
+  if (Object.keys(gameState.factions).length < 2) {
+    errors.push('A game needs at least two factions');
+  }
+  for (const faction of [...gameState.attacked, ...gameState.eliminated, ...(gameState.winner ? [gameState.winner] : [])]) {
+    if (!(faction in gameState.factions)) {
+      errors.push(`Unknown faction: ${faction}`);
+    }
+  }
+
+  // Validate the star map, and that fleets move between its systems
+  errors.push(...validateGalaxy(gameState.galaxy, Object.keys(gameState.factions)));
+  for (const [faction, playerState] of Object.entries(gameState.factions)) {
+    for (const movement of playerState.fleet.inTransit.outbound) {
+      for (const system of [movement.origin, movement.target]) {
+        if (!(system in gameState.galaxy.systems)) {
+          errors.push(`${faction}: Fleet ${movement.id} moves through an unknown system: ${system}`);
+        }
+      }
+    }
   }
 
   // Validate game over conditions
@@ -173,7 +190,8 @@ export function validateFleet(fleet: Fleet): ValidationResult {
       errors.push('Arrival turn must be positive');
     }
 
-    if (movement.returnTurn <= movement.arrivalTurn) {
+    // Returning fleets arrive home on their arrival turn, so the two turns may match
+    if (movement.missionType === 'returning' ? movement.returnTurn < movement.arrivalTurn : movement.returnTurn <= movement.arrivalTurn) {
       errors.push('Return turn must be after arrival turn');
     }
 
@@ -266,16 +284,20 @@ export function validateStateTransition(previousState: GameState, newState: Game
 }
 
 /**
- * Creates a new GameState with validated initial values
+ * Creates a new GameState with validated initial values for a human "player" against the "ai"
  */
 export function createInitialGameState(playerState: PlayerState, aiState: PlayerState): GameState {
   const gameState: GameState = {
     turn: 1,
-    player: playerState,
-    ai: aiState,
+    factions: { player: playerState, ai: aiState },
+    sides: createDefaultSides(),
+    galaxy: createGalaxy(['player', 'ai']),
     combatLog: [],
+    history: [],
     gamePhase: 'early',
-    isGameOver: false
+    isGameOver: false,
+    attacked: [],
+    eliminated: []
   };
 
   const validation = validateGameState(gameState);
@@ -0,0 +1,225 @@
+import { Side } from '../engine/GameEvents.js';
+import { WebSocketConnection, connectWebSocket } from './WebSocket.js';
+import {
+  PROTOCOL_VERSION, ServerMessage, WelcomeMessage, StateMessage, ResultMessage, parseServerMessage
+} from './Protocol.js';
+
+/** Pause between attempts to get back a dropped connection */
+const RECONNECT_DELAY_MS = 1000;
+
+/** Attempts before a dropped connection is given up for lost */
+const MAX_RECONNECT_ATTEMPTS = 10;
+
+export interface GameClientOptions {
+  reconnect?: boolean; // rejoin with the same seat when the connection drops (default true)
+  reconnectDelayMs?: number;
+}
+
+/** What happened to the connection: it dropped, was got back, or was given up */
+export type ConnectionStatus = 'lost' | 'restored' | 'closed';
+
+/**
+ * Plays one side of a game hosted by a GameServer. Needs no terminal, so frontends and tests
+ * drive it the same way: send command lines, and read the replies and updates as they arrive.
+ */
+export class GameClient {
+  private url: string;
+  private options: Required<GameClientOptions>;
+  private connection: WebSocketConnection | null = null;
+  private welcome: WelcomeMessage | null = null;
+  private lastState: StateMessage | null = null;
+  private pendingReplies: Array<{ resolve: (reply: ResultMessage) => void; reject: (error: Error) => void }> = [];
+  private messageListeners: Set<(message: ServerMessage) => void> = new Set();
+  private statusListeners: Set<(status: ConnectionStatus) => void> = new Set();
+  private closedByUs: boolean = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(url: string, options: GameClientOptions = {}) {
+    this.url = url;
+    this.options = { reconnect: true, reconnectDelayMs: RECONNECT_DELAY_MS, ...options };
+  }
+
+  /**
+   * Joins the game: takes a free side, or with a token the side it was given for
+   */
+  public async connect(token?: string): Promise<WelcomeMessage> {
+    this.closedByUs = false;
+    const connection = await connectWebSocket(this.url);
+
+    return new Promise((resolve, reject) => {
+      let joined = false;
+
+      // Listening from the start, as the first state can arrive right behind the welcome
+      connection.on('message', (data: string) => {
+        if (joined) {
+          this.handleMessage(data);
+          return;
+        }
+
+        const parsed = parseServerMessage(data);
+        if (parsed.message?.type === 'welcome') {
+          joined = true;
+          this.welcome = parsed.message;
+          this.connection = connection;
+          resolve(parsed.message);
+        } else if (parsed.message?.type === 'error') {
+          connection.close();
+          reject(new Error(parsed.message.message));
+        }
+      });
+      connection.on('close', () => {
+        if (joined) {
+          this.onClose(connection);
+        } else {
+          reject(new Error('The server closed the connection'));
+        }
+      });
+
+      connection.send(JSON.stringify({ type: 'join', protocol: PROTOCOL_VERSION, token }));
+    });
+  }
+
+  /**
+   * Sends a command line and resolves with the server's reply to it
+   */
+  public send(line: string): Promise<ResultMessage> {
+    if (!this.connection?.isOpen()) {
+      return Promise.reject(new Error('Not connected to the game'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pendingReplies.push({ resolve, reject });
+      this.connection!.send(JSON.stringify({ type: 'command', line }));
+    });
+  }
+
+  /**
+   * Calls the listener with every message from the server. Returns a function that unsubscribes.
+   */
+  public onMessage(listener: (message: ServerMessage) => void): () => void {
+    this.messageListeners.add(listener);
+    return () => this.messageListeners.delete(listener);
+  }
+
+  /**
+   * Calls the listener when the connection drops, comes back or is given up. Returns a function
+   * that unsubscribes.
+   */
+  public onConnectionStatus(listener: (status: ConnectionStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  /**
+   * Resolves with the next message of a type, e.g. the "turn" message once both sides end the turn
+   */
+  public nextMessage<T extends ServerMessage['type']>(type: T): Promise<Extract<ServerMessage, { type: T }>> {
+    return new Promise(resolve => {
+      const unsubscribe = this.onMessage(message => {
+        if (message.type === type) {
+          unsubscribe();
+          resolve(message as Extract<ServerMessage, { type: T }>);
+        }
+      });
+    });
+  }
+
+  /**
+   * The latest game state received, or null before the first
+   */
+  public getState(): StateMessage | null {
+    return this.lastState;
+  }
+
+  /**
+   * The side played, or null before joining
+   */
+  public getSide(): Side | null {
+    return this.welcome?.side ?? null;
+  }
+
+  /**
+   * The token to rejoin with, or null before joining
+   */
+  public getToken(): string | null {
+    return this.welcome?.token ?? null;
+  }
+
+  /**
+   * Leaves the game. The seat stays reserved for the token.
+   */
+  public close(): void {
+    this.closedByUs = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.connection?.close();
+  }
+
+  /**
+   * Drops the connection without closing it, as a network failure would. For tests of reconnecting.
+   */
+  public dropConnection(): void {
+    this.connection?.terminate();
+  }
+
+  private handleMessage(data: string): void {
+    const parsed = parseServerMessage(data);
+    if (!parsed.message) {
+      return;
+    }
+
+    const message = parsed.message;
+    if (message.type === 'state') {
+      this.lastState = message;
+    } else if (message.type === 'result') {
+      this.pendingReplies.shift()?.resolve(message);
+    }
+    this.messageListeners.forEach(listener => listener(message));
+  }
+
+  private onClose(connection: WebSocketConnection): void {
+    if (connection !== this.connection) {
+      return;
+    }
+    this.connection = null;
+
+    // Commands sent on the lost connection may or may not have been played; the next state says which
+    this.pendingReplies.splice(0).forEach(reply => reply.reject(new Error('Connection lost')));
+
+    if (this.closedByUs || !this.options.reconnect || !this.welcome) {
+      this.notifyStatus('closed');
+      return;
+    }
+
+    this.notifyStatus('lost');
+    this.reconnect(1);
+  }
+
+  /**
+   * Tries to rejoin with the seat's token, a few times before giving up
+   */
+  private reconnect(attempt: number): void {
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      try {
+        await this.connect(this.welcome!.token);
+        this.notifyStatus('restored');
+      } catch (error) {
+        if (this.closedByUs) {
+          return;
+        }
+        if (attempt >= MAX_RECONNECT_ATTEMPTS || (error instanceof Error && error.message.includes('token'))) {
+          this.notifyStatus('closed');
+        } else {
+          this.reconnect(attempt + 1);
+        }
+      }
+    }, this.options.reconnectDelayMs);
+  }
+
+  private notifyStatus(status: ConnectionStatus): void {
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
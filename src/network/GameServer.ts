@@ -0,0 +1,371 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { GameEngine } from '../engine/GameEngine.js';
+import { BattlePreview } from '../engine/BattleSimulator.js';
+import { Side } from '../engine/GameEvents.js';
+import { StandingOrderResult } from '../engine/Orders.js';
+import { FleetComposition } from '../models/GameState.js';
+import { DuelSide, isHotseat, getFactionIds, viewForSide, filterForSide, getOpponent } from '../models/Sides.js';
+import { InputHandler } from '../ui/InputHandler.js';
+import { CommandRegistry, CommandContext } from '../ui/CommandRegistry.js';
+import { CommandExecutionResult } from '../ui/GameController.js';
+import { createDefaultRegistry } from '../ui/BuiltInCommands.js';
+import { WebSocketConnection, acceptWebSocket } from './WebSocket.js';
+import { ServerMessage, ResultMessage, parseClientMessage, turnResultForSide } from './Protocol.js';
+
+export const DEFAULT_PORT = 8642;
+
+/** Close code for a server going away (RFC 6455, section 7.4.1) */
+const CLOSE_GOING_AWAY = 1001;
+
+/** How long clients get to answer the closing handshake when the server stops */
+const CLOSE_TIMEOUT_MS = 1000;
+
+/** Commands the server plays; the rest only show what a client already has, or do not apply */
+const SERVER_COMMANDS = new Set(['build', 'attack', 'simulate', 'scan', 'recall', 'cancel', 'prioritize', 'standing', 'standing_cancel', 'end_turn']);
+
+/** A side's place in the game, kept while its player is away so they can reconnect */
+interface Seat {
+  token: string;
+  connection: WebSocketConnection | null;
+  turnEnded: boolean;
+}
+
+/**
+ * Hosts one game for two players over WebSocket. The server holds the only engine; each player
+ * sends commands and receives the game as their side may see it. The turn is played once both
+ * sides have ended it.
+ */
+export class GameServer {
+  private gameEngine: GameEngine;
+  private commandRegistry: CommandRegistry = createDefaultRegistry();
+  private inputHandler: InputHandler = new InputHandler(this.commandRegistry);
+  private log: (message: string) => void;
+  private httpServer: Server | null = null;
+  private connections: Map<WebSocketConnection, DuelSide | null> = new Map();
+  private seats: Partial<Record<DuelSide, Seat>> = {};
+  private turnToPlay: boolean = false; // both sides have ended the turn; played once the last reply is sent
+  private finishedListeners: Array<() => void> = [];
+
+  constructor(gameEngine: GameEngine, log: (message: string) => void = () => {}) {
+    if (getFactionIds(gameEngine.getGameState()).join() !== 'player,ai') {
+      throw new Error('A networked game is played by the two sides of a hotseat game');
+    }
+    if (!isHotseat(gameEngine.getGameState())) {
+      throw new Error('A networked game needs a human on both sides');
+    }
+    this.gameEngine = gameEngine;
+    this.log = log;
+  }
+
+  /**
+   * Starts accepting players. Port 0 picks a free port. Resolves with the port listened on.
+   */
+  public listen(port: number = DEFAULT_PORT, host: string = 'localhost'): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = createServer((_request, response) => {
+        response.writeHead(426, { 'Content-Type': 'text/plain', Upgrade: 'websocket' });
+        response.end('Burn Rate game server. Join with: burn-rate --connect ws://<this address>\n');
+      });
+
+      server.on('upgrade', (request, socket, head) => {
+        const connection = acceptWebSocket(request, socket, head);
+        if (connection) {
+          this.onConnection(connection);
+        }
+      });
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        this.httpServer = server;
+        resolve((server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  /**
+   * Disconnects everyone and stops listening
+   */
+  public close(): Promise<void> {
+    const connections = [...this.connections.keys()];
+    connections.forEach(connection => connection.close(CLOSE_GOING_AWAY, 'Server shutting down'));
+    const timeout = setTimeout(() => connections.forEach(connection => connection.terminate()), CLOSE_TIMEOUT_MS);
+
+    return new Promise(resolve => {
+      const server = this.httpServer;
+      this.httpServer = null;
+      if (!server) {
+        clearTimeout(timeout);
+        resolve();
+        return;
+      }
+      server.close(() => {
+        clearTimeout(timeout);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Resolves once the game is over and both players have left
+   */
+  public finished(): Promise<void> {
+    return new Promise(resolve => {
+      this.finishedListeners.push(resolve);
+      this.checkFinished();
+    });
+  }
+
+  /**
+   * Gets the game engine hosted
+   */
+  public getGameEngine(): GameEngine {
+    return this.gameEngine;
+  }
+
+  private onConnection(connection: WebSocketConnection): void {
+    this.connections.set(connection, null);
+    connection.on('message', (data: string) => this.onMessage(connection, data));
+    connection.on('close', () => this.onDisconnect(connection));
+  }
+
+  private onDisconnect(connection: WebSocketConnection): void {
+    const side = this.connections.get(connection);
+    this.connections.delete(connection);
+
+    const seat = side ? this.seats[side] : undefined;
+    if (side && seat?.connection === connection) {
+      seat.connection = null;
+      this.log(`${this.getName(side)} disconnected`);
+      this.sendState(getOpponent(side));
+    }
+    this.checkFinished();
+  }
+
+  private onMessage(connection: WebSocketConnection, data: string): void {
+    const parsed = parseClientMessage(data);
+    const side = this.connections.get(connection) ?? null;
+
+    if (!parsed.success || !parsed.message) {
+      this.send(connection, { type: 'error', message: parsed.errors[0] });
+      if (!side) {
+        connection.close();
+      }
+      return;
+    }
+
+    const message = parsed.message;
+    if (message.type === 'join') {
+      if (side) {
+        this.send(connection, { type: 'error', message: `Already playing ${this.getName(side)}` });
+        return;
+      }
+      this.join(connection, message.token);
+      return;
+    }
+
+    if (!side) {
+      this.send(connection, { type: 'error', message: 'Join the game first' });
+      connection.close();
+      return;
+    }
+
+    const reply = this.executeCommand(side, message.line);
+    this.send(connection, reply);
+    if (this.turnToPlay) {
+      this.playTurn();
+    } else if (reply.success) {
+      this.sendState(side);
+      if (this.seats[side]!.turnEnded) {
+        this.sendState(getOpponent(side));
+      }
+    }
+  }
+
+  /**
+   * Seats a new player on the first free side, or puts a returning player back on theirs
+   */
+  private join(connection: WebSocketConnection, token?: string): void {
+    let side: DuelSide | undefined;
+
+    if (token !== undefined) {
+      side = (['player', 'ai'] as DuelSide[]).find(candidate => this.seats[candidate]?.token === token);
+      if (!side) {
+        this.send(connection, { type: 'error', message: 'That token does not belong to a player in this game' });
+        connection.close();
+        return;
+      }
+
+      // A player who reconnects before the server noticed the old connection drop replaces it
+      const previous = this.seats[side]!.connection;
+      if (previous && previous !== connection) {
+        this.connections.set(previous, null);
+        previous.close();
+      }
+      this.seats[side]!.connection = connection;
+      this.log(`${this.getName(side)} reconnected`);
+    } else {
+      side = (['player', 'ai'] as DuelSide[]).find(candidate => !this.seats[candidate]);
+      if (!side) {
+        this.send(connection, { type: 'error', message: 'The game is full' });
+        connection.close();
+        return;
+      }
+
+      this.seats[side] = { token: randomUUID(), connection, turnEnded: false };
+      this.log(`${this.getName(side)} joined`);
+    }
+
+    this.connections.set(connection, side);
+    this.send(connection, { type: 'welcome', side, token: this.seats[side]!.token });
+    this.sendState(side);
+    this.sendState(getOpponent(side));
+  }
+
+  /**
+   * Parses, checks and runs one command for a side, against the game as that side sees it
+   */
+  private executeCommand(side: DuelSide, line: string): ResultMessage {
+    const reply = (result: { success: boolean; message: string }, preview?: BattlePreview): ResultMessage =>
+      ({ type: 'result', line, success: result.success, message: result.message, ...(preview ? { preview } : {}) });
+
+    if (this.gameEngine.isGameOver()) {
+      return reply({ success: false, message: 'The game is over' });
+    }
+
+    const parsed = this.inputHandler.processCommand(line, viewForSide(this.gameEngine.getGameState(), side));
+    if (!parsed.success || !parsed.command) {
+      return reply({ success: false, message: parsed.error || 'Invalid command' });
+    }
+
+    const command = parsed.command;
+    if (!SERVER_COMMANDS.has(command.type)) {
+      return reply({ success: false, message: `"${line.trim().split(/\s+/)[0]}" is not available in a networked game` });
+    }
+    if (this.seats[side]!.turnEnded) {
+      return reply({ success: false, message: `You have ended the turn; waiting for ${this.getName(getOpponent(side))}` });
+    }
+
+    let preview: BattlePreview | undefined;
+    const context = this.createCommandContext(side, result => { preview = result; });
+
+    try {
+      return reply(this.commandRegistry.getByType(command.type)!.execute(command, context), preview);
+    } catch (error) {
+      return reply({ success: false, message: `Command execution failed: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  }
+
+  /**
+   * What commands run with on the server: everything as the given side, and no saving or loading
+   */
+  private createCommandContext(side: DuelSide, onPreview: (preview: BattlePreview) => void): CommandContext {
+    const notAvailable = (): CommandExecutionResult =>
+      ({ success: false, message: 'Saving and loading are not available in a networked game', gameStateChanged: false });
+
+    return {
+      gameEngine: this.gameEngine,
+      getSide: () => side,
+      executeOrder: (_command, order) => {
+        const result = this.gameEngine.applyOrder(order, side);
+        return { success: result.success, message: result.message, gameStateChanged: result.success };
+      },
+      simulateAttack: (attackFleet: FleetComposition, retreatThreshold?: number, target?: string) => {
+        const result = this.gameEngine.previewAttack(attackFleet, { retreatThreshold }, side, target);
+        if (!result.preview) {
+          return { success: false, message: result.errors.join('\n'), gameStateChanged: false };
+        }
+        onPreview(result.preview);
+        const victory = Math.round(result.preview.outcomes.decisive_attacker * 100);
+        return {
+          success: true,
+          message: `Simulated ${result.preview.trials.toLocaleString()} battles: ${victory}% decisive victory`,
+          gameStateChanged: false
+        };
+      },
+      endTurn: () => this.endTurn(side),
+      saveGame: notAvailable,
+      loadGame: notAvailable
+    };
+  }
+
+  /**
+   * Marks a side's turn as ended. Once both have ended it the turn is played, after the reply.
+   */
+  private endTurn(side: DuelSide): CommandExecutionResult {
+    this.seats[side]!.turnEnded = true;
+
+    const opponent = getOpponent(side);
+    if (!this.seats[opponent]?.turnEnded) {
+      return { success: true, message: `Turn ended. Waiting for ${this.getName(opponent)}...`, gameStateChanged: false };
+    }
+
+    this.turnToPlay = true;
+    return { success: true, message: `Turn ${this.gameEngine.getCurrentTurn()} ended by both sides`, gameStateChanged: true };
+  }
+
+  /**
+   * Plays the turn both sides have ended, gives each side its standing orders and tells each how it went
+   */
+  private playTurn(): void {
+    this.turnToPlay = false;
+    const turn = this.gameEngine.getCurrentTurn();
+    const turnResult = this.gameEngine.processTurn();
+
+    const startNewTurn = turnResult.success && !turnResult.gameEnded;
+    const standingOrderResults: Record<DuelSide, StandingOrderResult[]> = {
+      player: startNewTurn ? this.gameEngine.applyStandingOrders('player') : [],
+      ai: startNewTurn ? this.gameEngine.applyStandingOrders('ai') : []
+    };
+
+    this.log(turnResult.gameEnded && turnResult.winner
+      ? `Turn ${turn} played. ${this.getName(turnResult.winner)} wins by ${turnResult.victoryType} victory`
+      : `Turn ${turn} played`);
+
+    for (const side of ['player', 'ai'] as DuelSide[]) {
+      const seat = this.seats[side];
+      if (seat) {
+        seat.turnEnded = false;
+        if (seat.connection) {
+          this.send(seat.connection, { type: 'turn', result: turnResultForSide(turnResult, side), standingOrderResults: standingOrderResults[side] });
+        }
+      }
+    }
+    this.sendState('player');
+    this.sendState('ai');
+  }
+
+  /**
+   * Sends a side the game as it may see it, if its player is connected
+   */
+  private sendState(side: DuelSide): void {
+    const seat = this.seats[side];
+    if (!seat?.connection) {
+      return;
+    }
+
+    const opponent = this.seats[getOpponent(side)];
+    this.send(seat.connection, {
+      type: 'state',
+      view: filterForSide(this.gameEngine.getGameState(), side),
+      turnEnded: seat.turnEnded,
+      opponentConnected: Boolean(opponent?.connection),
+      opponentTurnEnded: Boolean(opponent?.turnEnded)
+    });
+  }
+
+  private send(connection: WebSocketConnection, message: ServerMessage): void {
+    connection.send(JSON.stringify(message));
+  }
+
+  private getName(side: Side): string {
+    return this.gameEngine.getGameState().sides[side].name;
+  }
+
+  private checkFinished(): void {
+    const playersConnected = Object.values(this.seats).some(seat => seat?.connection);
+    if (this.gameEngine.isGameOver() && !playersConnected) {
+      this.finishedListeners.splice(0).forEach(listener => listener());
+    }
+  }
+}
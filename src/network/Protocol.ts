@@ -0,0 +1,135 @@
+import { TurnResult } from '../engine/GameEngine.js';
+import { BattlePreview } from '../engine/BattleSimulator.js';
+import { StandingOrderResult } from '../engine/Orders.js';
+import { Side } from '../engine/GameEvents.js';
+import { SideView, DuelSide } from '../models/Sides.js';
+
+/** Changes whenever a message changes shape, so old clients are turned away instead of confused */
+export const PROTOCOL_VERSION = 1;
+
+/** Longest command line a client may send */
+export const MAX_COMMAND_LENGTH = 200;
+
+/** Takes a seat, or takes back the seat a token was given for after a dropped connection */
+export interface JoinMessage {
+  type: 'join';
+  protocol: number;
+  token?: string;
+}
+
+/** A command as the player typed it, e.g. "build 5 frigate" or "end" */
+export interface CommandMessage {
+  type: 'command';
+  line: string;
+}
+
+export type ClientMessage = JoinMessage | CommandMessage;
+
+/** The seat taken: which side the client plays, and the token to reconnect with */
+export interface WelcomeMessage {
+  type: 'welcome';
+  side: Side;
+  token: string;
+}
+
+/** The game as the client's side may see it, sent on joining and whenever it changes */
+export interface StateMessage {
+  type: 'state';
+  view: SideView;
+  turnEnded: boolean; // this side has ended the turn and is waiting for the other
+  opponentConnected: boolean;
+  opponentTurnEnded: boolean;
+}
+
+/** The reply to a command, in the order commands were sent */
+export interface ResultMessage {
+  type: 'result';
+  line: string;
+  success: boolean;
+  message: string;
+  preview?: BattlePreview; // for "simulate"
+}
+
+/** How the turn went for the client's side, sent to both sides when it has been played */
+export interface TurnMessage {
+  type: 'turn';
+  result: TurnResult;
+  standingOrderResults: StandingOrderResult[];
+}
+
+/** Something went wrong that is not a reply to a command; the server may close the connection after it */
+export interface ErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+export type ServerMessage = WelcomeMessage | StateMessage | ResultMessage | TurnMessage | ErrorMessage;
+
+/**
+ * A turn result as one side saw it, with that side as "player" and without the AI's decisions
+ */
+export function turnResultForSide(turnResult: TurnResult, side: Side): TurnResult {
+  const slotOf = (faction: Side): DuelSide => faction === side ? 'player' : 'ai';
+  return {
+    success: turnResult.success,
+    combatEvents: turnResult.combatEvents.map(event => ({ ...event, attacker: slotOf(event.attacker), defender: slotOf(event.defender) })),
+    gameEnded: turnResult.gameEnded,
+    winner: turnResult.winner === undefined ? undefined : slotOf(turnResult.winner),
+    victoryType: turnResult.victoryType,
+    orderResults: [],
+    aiDecisions: {},
+    errors: turnResult.errors
+  };
+}
+
+/**
+ * Reads a message from a client, which may send anything
+ */
+export function parseClientMessage(data: string): { success: boolean; message?: ClientMessage; errors: string[] } {
+  let message: any;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return { success: false, errors: ['Messages must be JSON'] };
+  }
+
+  if (typeof message !== 'object' || message === null) {
+    return { success: false, errors: ['Messages must be JSON objects'] };
+  }
+
+  switch (message.type) {
+    case 'join':
+      if (message.protocol !== PROTOCOL_VERSION) {
+        return { success: false, errors: [`This server speaks protocol ${PROTOCOL_VERSION}; update the game to join`] };
+      }
+      if (message.token !== undefined && typeof message.token !== 'string') {
+        return { success: false, errors: ['join.token must be a string'] };
+      }
+      return { success: true, message: { type: 'join', protocol: message.protocol, token: message.token }, errors: [] };
+
+    case 'command':
+      if (typeof message.line !== 'string' || message.line.length > MAX_COMMAND_LENGTH) {
+        return { success: false, errors: [`command.line must be a string of at most ${MAX_COMMAND_LENGTH} characters`] };
+      }
+      return { success: true, message: { type: 'command', line: message.line }, errors: [] };
+
+    default:
+      return { success: false, errors: [`Unknown message type: ${String(message.type)}`] };
+  }
+}
+
+/**
+ * Reads a message from the server. The server is trusted to send well-formed messages, so only
+ * the type is checked.
+ */
+export function parseServerMessage(data: string): { success: boolean; message?: ServerMessage; errors: string[] } {
+  try {
+    const message = JSON.parse(data);
+    if (['welcome', 'state', 'result', 'turn', 'error'].includes(message?.type)) {
+      return { success: true, message, errors: [] };
+    }
+    return { success: false, errors: [`Unknown message type: ${String(message?.type)}`] };
+  } catch {
+    return { success: false, errors: ['Messages must be JSON'] };
+  }
+}
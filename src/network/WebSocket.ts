@@ -0,0 +1,325 @@
+import { EventEmitter } from 'events';
+import { IncomingMessage, request as httpRequest } from 'http';
+import { Duplex } from 'stream';
+import { createHash, randomBytes } from 'crypto';
+
+/** Appended to the client's key to prove the server speaks WebSocket (RFC 6455, section 1.3) */
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** Largest message accepted; game states are a few tens of kilobytes */
+export const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** Close codes used here (RFC 6455, section 7.4.1) */
+export const CLOSE_NORMAL = 1000;
+export const CLOSE_PROTOCOL_ERROR = 1002;
+export const CLOSE_UNSUPPORTED_DATA = 1003;
+export const CLOSE_TOO_LARGE = 1009;
+
+/**
+ * One end of a WebSocket connection, carrying text messages. Emits "message" with each message's
+ * text and "close" once, however the connection ends.
+ */
+export class WebSocketConnection extends EventEmitter {
+  private socket: Duplex;
+  private masked: boolean; // clients mask what they send; servers must not
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closing: boolean = false;
+  private closed: boolean = false;
+
+  constructor(socket: Duplex, isClient: boolean, head: Buffer = Buffer.alloc(0)) {
+    super();
+    this.socket = socket;
+    this.masked = isClient;
+
+    socket.on('data', (data: Buffer) => this.receive(data));
+    socket.on('close', () => this.onSocketClosed());
+    socket.on('error', () => socket.destroy());
+    if (head.length > 0) {
+      this.receive(head);
+    }
+  }
+
+  /**
+   * Sends one text message. Messages sent after the connection started closing are dropped.
+   */
+  public send(text: string): void {
+    if (!this.closing) {
+      this.socket.write(this.frame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+    }
+  }
+
+  /**
+   * Starts the closing handshake; the socket is ended once the other end answers or goes away
+   */
+  public close(code: number = CLOSE_NORMAL, reason: string = ''): void {
+    if (this.closing) {
+      return;
+    }
+    this.closing = true;
+
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.socket.end(this.frame(OPCODE_CLOSE, payload));
+  }
+
+  /**
+   * Drops the connection without the closing handshake, for an end that stopped answering
+   */
+  public terminate(): void {
+    this.socket.destroy();
+  }
+
+  /**
+   * Whether messages can still be sent
+   */
+  public isOpen(): boolean {
+    return !this.closing && !this.closed;
+  }
+
+  /**
+   * Reads as many whole frames as have arrived
+   */
+  private receive(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+
+    while (!this.closed) {
+      const frame = this.readFrame();
+      if (!frame) {
+        return;
+      }
+      this.buffer = this.buffer.subarray(frame.length);
+      this.handleFrame(frame.fin, frame.opcode, frame.payload);
+    }
+  }
+
+  /**
+   * Decodes the frame at the start of the buffer, or returns null until all of it has arrived
+   */
+  private readFrame(): { fin: boolean; opcode: number; payload: Buffer; length: number } | null {
+    if (this.buffer.length < 2) {
+      return null;
+    }
+
+    const fin = (this.buffer[0] & 0x80) !== 0;
+    const opcode = this.buffer[0] & 0x0f;
+    const isMasked = (this.buffer[1] & 0x80) !== 0;
+    let payloadLength = this.buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (payloadLength === 126) {
+      if (this.buffer.length < 4) return null;
+      payloadLength = this.buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (payloadLength === 127) {
+      if (this.buffer.length < 10) return null;
+      const longLength = this.buffer.readBigUInt64BE(2);
+      payloadLength = longLength > BigInt(MAX_MESSAGE_BYTES) ? MAX_MESSAGE_BYTES + 1 : Number(longLength);
+      offset = 10;
+    }
+
+    if (payloadLength > MAX_MESSAGE_BYTES) {
+      this.fail(CLOSE_TOO_LARGE, 'Message too large');
+      return null;
+    }
+    if (isMasked === this.masked) {
+      // A server only accepts masked frames and a client only unmasked ones
+      this.fail(CLOSE_PROTOCOL_ERROR, isMasked ? 'Unexpected masked frame' : 'Unmasked frame');
+      return null;
+    }
+
+    const maskLength = isMasked ? 4 : 0;
+    if (this.buffer.length < offset + maskLength + payloadLength) {
+      return null;
+    }
+
+    const payload = Buffer.from(this.buffer.subarray(offset + maskLength, offset + maskLength + payloadLength));
+    if (isMasked) {
+      const mask = this.buffer.subarray(offset, offset + 4);
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+    }
+
+    return { fin, opcode, payload, length: offset + maskLength + payloadLength };
+  }
+
+  /**
+   * Acts on one frame: assembles messages from their fragments and answers control frames
+   */
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODE_TEXT:
+      case OPCODE_CONTINUATION: {
+        if ((opcode === OPCODE_TEXT) !== (this.fragments.length === 0)) {
+          this.fail(CLOSE_PROTOCOL_ERROR, 'Unexpected continuation frame');
+          return;
+        }
+        this.fragments.push(payload);
+        const size = this.fragments.reduce((total, fragment) => total + fragment.length, 0);
+        if (size > MAX_MESSAGE_BYTES) {
+          this.fail(CLOSE_TOO_LARGE, 'Message too large');
+          return;
+        }
+        if (fin) {
+          const message = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.emit('message', message);
+        }
+        return;
+      }
+
+      case OPCODE_BINARY:
+        this.fail(CLOSE_UNSUPPORTED_DATA, 'Only text messages are supported');
+        return;
+
+      case OPCODE_CLOSE:
+        // Answer the other end's close, or finish our own
+        this.close(payload.length >= 2 ? payload.readUInt16BE(0) : CLOSE_NORMAL);
+        return;
+
+      case OPCODE_PING:
+        if (!this.closing) {
+          this.socket.write(this.frame(OPCODE_PONG, payload));
+        }
+        return;
+
+      case OPCODE_PONG:
+        return;
+
+      default:
+        this.fail(CLOSE_PROTOCOL_ERROR, `Unknown opcode ${opcode}`);
+    }
+  }
+
+  /**
+   * Encodes one unfragmented frame
+   */
+  private frame(opcode: number, payload: Buffer): Buffer {
+    const lengthBytes = payload.length < 126 ? 0 : payload.length < 65536 ? 2 : 8;
+    const header = Buffer.alloc(2 + lengthBytes);
+    header[0] = 0x80 | opcode;
+
+    if (lengthBytes === 0) {
+      header[1] = payload.length;
+    } else if (lengthBytes === 2) {
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+
+    if (!this.masked) {
+      return Buffer.concat([header, payload]);
+    }
+
+    header[1] |= 0x80;
+    const mask = randomBytes(4);
+    const maskedPayload = Buffer.from(payload);
+    for (let i = 0; i < maskedPayload.length; i++) {
+      maskedPayload[i] ^= mask[i % 4];
+    }
+    return Buffer.concat([header, mask, maskedPayload]);
+  }
+
+  /**
+   * Closes the connection over a broken frame, dropping whatever else arrived
+   */
+  private fail(code: number, reason: string): void {
+    this.buffer = Buffer.alloc(0);
+    this.close(code, reason);
+    this.socket.destroy();
+    this.onSocketClosed();
+  }
+
+  private onSocketClosed(): void {
+    if (!this.closed) {
+      this.closed = true;
+      this.closing = true;
+      this.emit('close');
+    }
+  }
+}
+
+/**
+ * Completes the server side of the opening handshake for an HTTP upgrade request, or refuses it
+ * with 400 Bad Request. Returns null when refused.
+ */
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex, head: Buffer): WebSocketConnection | null {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return null;
+  }
+
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${acceptKey(key)}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  return new WebSocketConnection(socket, false, head);
+}
+
+/**
+ * Opens a WebSocket connection to a ws:// URL
+ */
+export function connectWebSocket(url: string): Promise<WebSocketConnection> {
+  return new Promise((resolve, reject) => {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      reject(new Error(`Invalid server address: ${url}`));
+      return;
+    }
+    if (target.protocol !== 'ws:') {
+      reject(new Error(`Server addresses start with ws:// (got ${url})`));
+      return;
+    }
+
+    const key = randomBytes(16).toString('base64');
+    const request = httpRequest({
+      host: target.hostname,
+      port: target.port || 80,
+      path: `${target.pathname}${target.search}`,
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Key': key,
+        'Sec-WebSocket-Version': '13'
+      }
+    });
+
+    request.on('upgrade', (response, socket, head) => {
+      if (response.headers['sec-websocket-accept'] !== acceptKey(key)) {
+        socket.destroy();
+        reject(new Error('The server did not complete the WebSocket handshake'));
+        return;
+      }
+      resolve(new WebSocketConnection(socket, true, head));
+    });
+    request.on('response', response => {
+      response.resume();
+      reject(new Error(`The server refused the connection (HTTP ${response.statusCode})`));
+    });
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+function acceptKey(key: string): string {
+  return createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+}
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GameServer } from '../GameServer.js';
+import { GameClient } from '../GameClient.js';
+import { connectWebSocket } from '../WebSocket.js';
+import { parseClientMessage, PROTOCOL_VERSION } from '../Protocol.js';
+import { GameEngine } from '../../engine/GameEngine.js';
+
+describe('GameServer', () => {
+  let gameEngine: GameEngine;
+  let server: GameServer;
+  let url: string;
+  let clients: GameClient[];
+
+  const join = async (token?: string) => {
+    const client = new GameClient(url, { reconnectDelayMs: 10 });
+    clients.push(client);
+    await client.connect(token);
+    return client;
+  };
+
+  beforeEach(async () => {
+    gameEngine = new GameEngine({ seed: 7, hotseat: true, sideNames: { player: 'Ana', ai: 'Ben' } });
+    server = new GameServer(gameEngine);
+    url = `ws://localhost:${await server.listen(0)}`;
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.close());
+    await server.close();
+  });
+
+  it('should refuse a game against the AI', () => {
+    expect(() => new GameServer(new GameEngine({ seed: 7 }))).toThrow('A networked game needs a human on both sides');
+  });
+
+  it('should seat the first two players on opposite sides', async () => {
+    const ana = await join();
+    const ben = await join();
+
+    expect(ana.getSide()).toBe('player');
+    expect(ben.getSide()).toBe('ai');
+    expect(ana.getToken()).not.toBe(ben.getToken());
+  });
+
+  it('should turn away a third player', async () => {
+    await join();
+    await join();
+
+    await expect(join()).rejects.toThrow('The game is full');
+  });
+
+  it('should turn away a token that belongs to nobody', async () => {
+    await expect(join('not-a-token')).rejects.toThrow('That token does not belong to a player in this game');
+  });
+
+  it('should send each side only its own position', async () => {
+    const ana = await join();
+    const ben = await join();
+    await ana.send('build 5 frigate');
+
+    const state = ben.getState()!;
+    expect(state.view.sides.player.name).toBe('Ben');
+    expect(state.view.player).toEqual(gameEngine.getGameState().factions.ai);
+    expect(state.view).not.toHaveProperty('ai');
+    expect(JSON.stringify(state)).not.toContain(String(gameEngine.getGameState().factions.player.resources.metal));
+    expect(state.opponentConnected).toBe(true);
+  });
+
+  it('should apply orders to the side that gave them', async () => {
+    const ana = await join();
+    const ben = await join();
+
+    expect((await ana.send('build 5 frigate')).success).toBe(true);
+    expect((await ben.send('build 2 cruiser')).success).toBe(true);
+
+    expect(gameEngine.getGameState().factions.player.economy.constructionQueue.map(order => order.unitType)).toEqual(['frigate']);
+    expect(gameEngine.getGameState().factions.ai.economy.constructionQueue.map(order => order.unitType)).toEqual(['cruiser']);
+  });
+
+  it('should reject invalid commands with the reason', async () => {
+    const ana = await join();
+
+    const reply = await ana.send('build 999999 battleship');
+
+    expect(reply.success).toBe(false);
+    expect(reply.message).toBe('Quantity too large (maximum: 10,000)');
+    expect(gameEngine.getGameState().factions.player.economy.constructionQueue).toEqual([]);
+  });
+
+  it('should refuse commands that do not apply over the network', async () => {
+    const ana = await join();
+
+    expect((await ana.send('save slot1')).message).toBe('"save" is not available in a networked game');
+  });
+
+  it('should play the turn once both sides have ended it', async () => {
+    const ana = await join();
+    const ben = await join();
+
+    const benState = ben.nextMessage('state');
+    const first = await ana.send('end');
+    expect(first.message).toBe('Turn ended. Waiting for Ben...');
+    expect(gameEngine.getCurrentTurn()).toBe(1);
+    expect((await benState).opponentTurnEnded).toBe(true);
+
+    const turns = Promise.all([ana.nextMessage('turn'), ben.nextMessage('turn')]);
+    await ben.send('end');
+    const [anaTurn, benTurn] = await turns;
+
+    expect(gameEngine.getCurrentTurn()).toBe(2);
+    expect(anaTurn.result.success).toBe(true);
+    expect(benTurn.result.success).toBe(true);
+  });
+
+  it('should refuse orders from a side that has ended the turn', async () => {
+    const ana = await join();
+    await join();
+    await ana.send('end');
+
+    const reply = await ana.send('build 5 frigate');
+
+    expect(reply.success).toBe(false);
+    expect(reply.message).toBe('You have ended the turn; waiting for Ben');
+  });
+
+  it('should show attacks to the defender as coming from the enemy', async () => {
+    const ana = await join();
+    const ben = await join();
+    await ana.send('attack 50 0 0');
+    for (let turn = 0; turn < 3; turn++) {
+      await ana.send('end');
+      const benTurn = ben.nextMessage('turn');
+      await ben.send('end');
+      const result = (await benTurn).result;
+      if (result.combatEvents.length > 0) {
+        expect(result.combatEvents[0].attacker).toBe('ai');
+        return;
+      }
+    }
+    expect.unreachable('the attack never arrived');
+  });
+
+  it('should give a reconnecting player back their side', async () => {
+    const ana = await join();
+    const ben = await join();
+    await ana.send('end');
+
+    const statuses: string[] = [];
+    ana.onConnectionStatus(status => statuses.push(status));
+    const restored = new Promise(resolve => ana.onConnectionStatus(status => status === 'restored' && resolve(status)));
+    ana.dropConnection();
+    await restored;
+
+    expect(statuses).toEqual(['lost', 'restored']);
+    expect(ana.getSide()).toBe('player');
+    expect(ana.getState()!.turnEnded).toBe(true);
+
+    // The turn ended before the drop still counts
+    const turn = ana.nextMessage('turn');
+    await ben.send('end');
+    await turn;
+    expect(gameEngine.getCurrentTurn()).toBe(2);
+  });
+
+  it('should let a player rejoin from a new client with their token', async () => {
+    const ana = await join();
+    const token = ana.getToken()!;
+    ana.close();
+
+    const again = await join(token);
+
+    expect(again.getSide()).toBe('player');
+    expect(again.getState()!.view.sides.player.name).toBe('Ana');
+  });
+
+  it('should finish once the game is over and both players have left', async () => {
+    const ana = await join();
+    const ben = await join();
+    let finished = false;
+    server.finished().then(() => { finished = true; });
+
+    const gameOver = ana.nextMessage('turn');
+    const snapshot = gameEngine.serialize();
+    snapshot.gameState.factions.ai.fleet.homeSystem = { frigates: 0, cruisers: 0, battleships: 0 };
+    snapshot.gameState.attacked = ['ai'];
+    gameEngine.restore(snapshot);
+    await ana.send('end');
+    await ben.send('end');
+    expect((await gameOver).result.winner).toBe('player');
+    expect((await ben.send('build 1 frigate')).message).toBe('The game is over');
+
+    ana.close();
+    ben.close();
+    await server.finished();
+    expect(finished).toBe(true);
+  });
+
+  it('should carry messages larger than 64 KB', async () => {
+    const connection = await connectWebSocket(url);
+    const received = new Promise<string>(resolve => connection.on('message', resolve));
+
+    connection.send(JSON.stringify({ type: 'command', line: 'x'.repeat(70000) }));
+
+    expect(JSON.parse(await received)).toEqual({ type: 'error', message: 'command.line must be a string of at most 200 characters' });
+    connection.terminate();
+  });
+});
+
+describe('parseClientMessage', () => {
+  it('should accept a join with the current protocol', () => {
+    expect(parseClientMessage(JSON.stringify({ type: 'join', protocol: PROTOCOL_VERSION })).message)
+      .toEqual({ type: 'join', protocol: PROTOCOL_VERSION, token: undefined });
+  });
+
+  it('should turn away clients speaking another protocol', () => {
+    expect(parseClientMessage(JSON.stringify({ type: 'join', protocol: PROTOCOL_VERSION + 1 })).success).toBe(false);
+  });
+
+  it('should reject messages that are not JSON objects', () => {
+    expect(parseClientMessage('build 5 frigate').errors).toEqual(['Messages must be JSON']);
+    expect(parseClientMessage('42').errors).toEqual(['Messages must be JSON objects']);
+    expect(parseClientMessage(JSON.stringify({ type: 'shout' })).errors).toEqual(['Unknown message type: shout']);
+  });
+});
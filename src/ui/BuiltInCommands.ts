@@ -0,0 +1,736 @@
+import { BuildableType, UnitType, StructureType } from '../models/PlayerState.js';
+import { ScanType } from '../models/Intelligence.js';
+import { DuelView } from '../models/Sides.js';
+import { PlayerOrder, validateOrder, validateStandingOrder } from '../engine/Orders.js';
+import { canRecallFleet } from '../models/Fleet.js';
+import { MAX_FORECAST_TURNS } from '../engine/EconomyEngine.js';
+import { Command, CommandResult } from './InputHandler.js';
+import { CommandExecutionResult } from './GameController.js';
+import { CommandDefinition, CommandRegistry } from './CommandRegistry.js';
+
+const UNIT_TYPES: UnitType[] = ['frigate', 'cruiser', 'battleship'];
+const STRUCTURE_TYPES: StructureType[] = ['reactor', 'mine'];
+const SCAN_TYPES: ScanType[] = ['basic', 'deep', 'advanced'];
+const SLOT_PATTERN = /^[a-z0-9_-]{1,32}$/;
+
+/**
+ * Creates a registry holding every built-in command
+ */
+export function createDefaultRegistry(): CommandRegistry {
+  const registry = new CommandRegistry();
+  BUILT_IN_COMMANDS.forEach(definition => registry.register(definition));
+  return registry;
+}
+
+/**
+ * Result of a command that only shows information; the frontend does the showing
+ */
+function displayOnly(): CommandExecutionResult {
+  return {
+    success: true,
+    message: 'Information displayed',
+    gameStateChanged: false
+  };
+}
+
+/**
+ * Result of a command that was built without the fields it needs
+ */
+function invalidCommand(message: string): CommandExecutionResult {
+  return {
+    success: false,
+    message,
+    gameStateChanged: false
+  };
+}
+
+/**
+ * Checks a command's order against the player's current state, if it has one
+ */
+function validateAsOrder(toOrder: (command: Command) => PlayerOrder | null) {
+  return (command: Command, gameState: DuelView) => {
+    const order = toOrder(command);
+    return order ? validateOrder(order, gameState.player, gameState.turn) : { isValid: true, errors: [] };
+  };
+}
+
+/**
+ * Parses "build <quantity> <unit/structure>", without checking the cost
+ */
+function parseBuildArguments(tokens: string[]): CommandResult {
+  if (tokens.length !== 3) {
+    return {
+      success: false,
+      error: 'Build command format: "build <quantity> <unit/structure>"\nExample: "build 10 frigate" or "build 1 reactor"'
+    };
+  }
+
+  // Parse quantity
+  const quantityStr = tokens[1];
+  const quantity = parseInt(quantityStr, 10);
+
+  if (isNaN(quantity) || quantity <= 0) {
+    return { success: false, error: 'Quantity must be a positive number' };
+  }
+
+  if (quantity > 10000) {
+    return { success: false, error: 'Quantity too large (maximum: 10,000)' };
+  }
+
+  // Parse build type
+  const buildTypeStr = tokens[2];
+  let buildType: BuildableType;
+
+  if (UNIT_TYPES.includes(buildTypeStr as UnitType)) {
+    buildType = buildTypeStr as UnitType;
+  } else if (STRUCTURE_TYPES.includes(buildTypeStr as StructureType)) {
+    buildType = buildTypeStr as StructureType;
+  } else {
+    const validTypes = [...UNIT_TYPES, ...STRUCTURE_TYPES].join(', ');
+    return {
+      success: false,
+      error: `Invalid build type: ${buildTypeStr}. Valid types: ${validTypes}`
+    };
+  }
+
+  return {
+    success: true,
+    command: {
+      type: 'build',
+      buildType,
+      quantity
+    }
+  };
+}
+
+/**
+ * Parses "<verb> <frigates> <cruisers> <battleships> [retreat <percent>]" into a fleet and retreat threshold
+ */
+function parseFleetArguments(tokens: string[]): CommandResult {
+  const verb = tokens[0];
+  if (!(tokens.length === 4 || (tokens.length === 6 && tokens[4] === 'retreat'))) {
+    const name = verb.charAt(0).toUpperCase() + verb.slice(1);
+    return {
+      success: false,
+      error: `${name} command format: "${verb} <frigates> <cruisers> <battleships> [retreat <percent>]"\nExample: "${verb} 50 20 10" or "${verb} 50 20 10 retreat 40"`
+    };
+  }
+
+  // Parse fleet composition
+  const frigates = parseInt(tokens[1], 10);
+  const cruisers = parseInt(tokens[2], 10);
+  const battleships = parseInt(tokens[3], 10);
+
+  if (isNaN(frigates) || isNaN(cruisers) || isNaN(battleships)) {
+    return { success: false, error: 'Fleet numbers must be valid integers' };
+  }
+
+  if (frigates < 0 || cruisers < 0 || battleships < 0) {
+    return { success: false, error: 'Fleet numbers cannot be negative' };
+  }
+
+  const totalShips = frigates + cruisers + battleships;
+  if (totalShips === 0) {
+    return { success: false, error: `Cannot ${verb} with empty fleet` };
+  }
+
+  let retreatThreshold: number | undefined;
+  if (tokens.length === 6) {
+    const percent = Number(tokens[5].replace(/%$/, ''));
+    if (!Number.isInteger(percent) || percent < 1 || percent > 99) {
+      return { success: false, error: 'Retreat threshold must be a whole percentage from 1 to 99' };
+    }
+    retreatThreshold = percent / 100;
+  }
+
+  return {
+    success: true,
+    command: {
+      type: 'attack',
+      attackFleet: { frigates, cruisers, battleships },
+      ...(retreatThreshold !== undefined && { retreatThreshold })
+    }
+  };
+}
+
+/**
+ * Splits a trailing "at <name>" off a command's words, for parse to read the rest. The name may
+ * be several words.
+ */
+function withTarget(tokens: string[], noun: string, parse: (tokens: string[]) => CommandResult): CommandResult {
+  const at = tokens.indexOf('at');
+  if (at === -1) {
+    return parse(tokens);
+  }
+  if (at === tokens.length - 1) {
+    return { success: false, error: `Name the ${noun} after "at"` };
+  }
+
+  const parsed = parse(tokens.slice(0, at));
+  return parsed.success
+    ? { success: true, command: { ...parsed.command!, target: tokens.slice(at + 1).join(' ') } }
+    : parsed;
+}
+
+/**
+ * Parses "scan <type> [at <faction>]", without checking the cost
+ */
+function parseScanArguments(tokens: string[]): CommandResult {
+  return withTarget(tokens, 'faction to scan', parseScanType);
+}
+
+function parseScanType(tokens: string[]): CommandResult {
+  if (tokens.length !== 2) {
+    return {
+      success: false,
+      error: 'Scan command format: "scan <type> [at <faction>]"\nValid types: basic, deep, advanced'
+    };
+  }
+
+  const scanTypeStr = tokens[1];
+
+  if (!SCAN_TYPES.includes(scanTypeStr as ScanType)) {
+    return {
+      success: false,
+      error: `Invalid scan type: ${scanTypeStr}. Valid types: ${SCAN_TYPES.join(', ')}`
+    };
+  }
+
+  return {
+    success: true,
+    command: {
+      type: 'scan',
+      scanType: scanTypeStr as ScanType
+    }
+  };
+}
+
+/**
+ * Parses construction queue commands: "cancel <n>" or "prioritize <n>"
+ */
+function parseQueuePosition(tokens: string[]): CommandResult {
+  const commandType = tokens[0] as 'cancel' | 'prioritize';
+
+  if (tokens.length !== 2) {
+    return {
+      success: false,
+      error: `${commandType === 'cancel' ? 'Cancel' : 'Prioritize'} command format: "${commandType} <n>"\nOrder numbers are listed by "queue"`
+    };
+  }
+
+  const position = parseInt(tokens[1], 10);
+
+  if (isNaN(position) || String(position) !== tokens[1]) {
+    return { success: false, error: 'Build order number must be a number' };
+  }
+
+  return {
+    success: true,
+    command: {
+      type: commandType,
+      position
+    }
+  };
+}
+
+/**
+ * Parses save/load commands: "save <slot>" or "load <slot>"
+ */
+function parseSlot(tokens: string[]): CommandResult {
+  const commandType = tokens[0] as 'save' | 'load';
+
+  if (tokens.length !== 2) {
+    return {
+      success: false,
+      error: `${commandType === 'save' ? 'Save' : 'Load'} command format: "${commandType} <slot>"\nExample: "${commandType} campaign1"`
+    };
+  }
+
+  const slot = tokens[1];
+  if (!SLOT_PATTERN.test(slot)) {
+    return {
+      success: false,
+      error: 'Slot names may only use letters, numbers, "-" and "_" (maximum 32 characters)'
+    };
+  }
+
+  return {
+    success: true,
+    command: {
+      type: commandType,
+      slot
+    }
+  };
+}
+
+/**
+ * Parses a command that takes no arguments
+ */
+function parseNoArguments(type: Command['type']): (tokens: string[]) => CommandResult {
+  return () => ({ success: true, command: { type } });
+}
+
+/**
+ * The names "at" takes for a faction: the opponent's side name, and the id of any other faction
+ * holding a system on the map
+ */
+function completeFactionNames(gameState: Pick<DuelView, 'sides' | 'galaxy'>): string[] {
+  const others = Object.values(gameState.galaxy.systems)
+    .map(system => system.owner)
+    .filter((owner): owner is string => owner !== undefined && owner !== 'player' && owner !== 'ai');
+  return [...new Set([gameState.sides.ai.name.toLowerCase(), ...others])];
+}
+
+/**
+ * Completes "<verb> <frigates> <cruisers> <battleships> [retreat <percent>] [at <target>]" with the
+ * ships at home, then the factions, and the systems not already ours when the fleet can be sent to one
+ */
+function completeFleetArguments(withSystems: boolean) {
+  return (tokens: string[], gameState: Pick<DuelView, 'turn' | 'player' | 'sides' | 'galaxy'>): string[] => {
+    const home = gameState.player.fleet.homeSystem;
+
+    if (tokens[tokens.length - 1] === 'at') {
+      return withSystems
+        ? [
+          ...completeFactionNames(gameState),
+          ...Object.keys(gameState.galaxy.systems).filter(id => gameState.galaxy.systems[id].owner !== 'player')
+        ]
+        : completeFactionNames(gameState);
+    }
+
+    switch (tokens.length) {
+      case 1:
+        return [String(home.frigates)];
+      case 2:
+        return [String(home.cruisers)];
+      case 3:
+        return [String(home.battleships)];
+      case 4:
+        return ['retreat', 'at'];
+      case 6:
+        return tokens[4] === 'retreat' ? ['at'] : [];
+      default:
+        return [];
+    }
+  };
+}
+
+const toBuildOrder = (command: Command): PlayerOrder | null =>
+  command.buildType && command.quantity ? { type: 'build', buildType: command.buildType, quantity: command.quantity } : null;
+
+const toAttackOrder = (command: Command): PlayerOrder | null =>
+  command.attackFleet
+    ? {
+      type: 'attack',
+      attackFleet: command.attackFleet,
+      ...(command.target !== undefined && { target: command.target }),
+      ...(command.retreatThreshold !== undefined && { retreatThreshold: command.retreatThreshold })
+    }
+    : null;
+
+const toScanOrder = (command: Command): PlayerOrder | null =>
+  command.scanType
+    ? { type: 'scan', scanType: command.scanType, ...(command.target !== undefined && { target: command.target }) }
+    : null;
+
+const toRecallOrder = (command: Command): PlayerOrder | null =>
+  command.fleetId !== undefined ? { type: 'recall', fleetId: command.fleetId } : null;
+
+const toQueueOrder = (command: Command): PlayerOrder | null =>
+  command.position !== undefined
+    ? { type: command.type === 'cancel' ? 'cancel' : 'prioritize', position: command.position }
+    : null;
+
+const buildCommand: CommandDefinition = {
+  name: 'build',
+  category: 'BUILD COMMANDS',
+  usage: [
+    { syntax: 'build <quantity> <unit>', description: 'Build units (frigate, cruiser, battleship)' },
+    { syntax: 'build <quantity> <structure>', description: 'Build structures (reactor, mine)' }
+  ],
+  examples: ['build 10 frigate', 'build 1 reactor'],
+  parse: parseBuildArguments,
+  validate: validateAsOrder(toBuildOrder),
+  complete: tokens => tokens.length === 2 ? [...UNIT_TYPES, ...STRUCTURE_TYPES] : [],
+  execute: (command, context) => {
+    const order = toBuildOrder(command);
+    return order
+      ? context.executeOrder(command, order)
+      : invalidCommand('Invalid build command: missing build type or quantity');
+  }
+};
+
+const attackCommand: CommandDefinition = {
+  name: 'attack',
+  category: 'ATTACK COMMANDS',
+  usage: [
+    { syntax: 'attack <frigates> <cruisers> <battleships>', description: 'Launch attack' },
+    { syntax: 'attack <f> <c> <b> retreat <percent>', description: 'Break off once that share of the fleet is lost' },
+    { syntax: 'attack <f> <c> <b> at <faction or system>', description: 'Send the fleet to a faction\'s home or to a colony to claim' }
+  ],
+  examples: ['attack 50 20 10', 'attack 50 20 10 retreat 40', 'attack 50 20 10 at crimson fleet', 'attack 10 0 0 at vega'],
+  parse: tokens => withTarget(tokens, 'faction or system to attack', parseFleetArguments),
+  validate: validateAsOrder(toAttackOrder),
+  complete: completeFleetArguments(true),
+  execute: (command, context) => {
+    const order = toAttackOrder(command);
+    return order
+      ? context.executeOrder(command, order)
+      : invalidCommand('Invalid attack command: missing fleet composition');
+  }
+};
+
+// The fleet does not have to be at home, so any fleet can be tried out
+const simulateCommand: CommandDefinition = {
+  name: 'simulate',
+  category: 'ATTACK COMMANDS',
+  usage: [
+    { syntax: 'simulate <f> <c> <b> [retreat <percent>]', description: 'Preview an attack against the enemy as last scanned' },
+    { syntax: 'simulate <f> <c> <b> at <faction>', description: 'Check the last scan was of that faction first' }
+  ],
+  parse: tokens => {
+    const parsed = withTarget(tokens, 'faction to attack', parseFleetArguments);
+    return parsed.success ? { success: true, command: { ...parsed.command!, type: 'simulate' } } : parsed;
+  },
+  complete: completeFleetArguments(false),
+  execute: (command, context) => command.attackFleet
+    ? context.simulateAttack(command.attackFleet, command.retreatThreshold, command.target)
+    : invalidCommand('Invalid simulate command: missing fleet composition')
+};
+
+const recallCommand: CommandDefinition = {
+  name: 'recall',
+  category: 'ATTACK COMMANDS',
+  usage: [
+    { syntax: 'recall <fleet-id>', description: 'Turn an outbound fleet around before it arrives' },
+    { syntax: 'recall all', description: 'Recall every outbound fleet' }
+  ],
+  parse: tokens => {
+    if (tokens.length !== 2) {
+      return {
+        success: false,
+        error: 'Recall command format: "recall <fleet-id>" or "recall all"\nFleet ids are listed under FLEETS IN TRANSIT in "status"'
+      };
+    }
+
+    const fleetId = tokens[1] === 'all' ? 'all' : parseInt(tokens[1], 10);
+
+    if (fleetId !== 'all' && (isNaN(fleetId) || String(fleetId) !== tokens[1])) {
+      return { success: false, error: 'Fleet id must be a number or "all"' };
+    }
+
+    return { success: true, command: { type: 'recall', fleetId } };
+  },
+  validate: validateAsOrder(toRecallOrder),
+  complete: (tokens, gameState) => tokens.length === 1
+    ? ['all', ...gameState.player.fleet.inTransit.outbound
+      .filter(movement => canRecallFleet(movement, gameState.turn))
+      .map(movement => String(movement.id))]
+    : [],
+  execute: (command, context) => {
+    const order = toRecallOrder(command);
+    return order ? context.executeOrder(command, order) : invalidCommand('Invalid recall command: missing fleet id');
+  }
+};
+
+const queueCommand: CommandDefinition = {
+  name: 'queue',
+  category: 'QUEUE COMMANDS',
+  usage: [{ syntax: 'queue', description: 'Show build orders with ETA, drain and refund' }],
+  parse: parseNoArguments('queue'),
+  execute: displayOnly
+};
+
+const queueOrderCommand = (name: 'cancel' | 'prioritize', description: string): CommandDefinition => ({
+  name,
+  category: 'QUEUE COMMANDS',
+  usage: [{ syntax: `${name} <n>`, description }],
+  parse: parseQueuePosition,
+  validate: validateAsOrder(toQueueOrder),
+  complete: (tokens, gameState) => tokens.length === 1
+    ? gameState.player.economy.constructionQueue.map((_order, index) => String(index + 1))
+    : [],
+  execute: (command, context) => {
+    const order = toQueueOrder(command);
+    return order
+      ? context.executeOrder(command, order)
+      : invalidCommand(`Invalid ${command.type} command: missing build order number`);
+  }
+});
+
+const forecastCommand: CommandDefinition = {
+  name: 'forecast',
+  category: 'QUEUE COMMANDS',
+  usage: [{ syntax: 'forecast [turns]', description: 'Project resources and income (default 10 turns)' }],
+  examples: ['forecast 15'],
+  parse: tokens => {
+    if (tokens.length > 2) {
+      return { success: false, error: 'Forecast command format: "forecast [turns]"\nExample: "forecast 15"' };
+    }
+
+    if (tokens.length === 1) {
+      return { success: true, command: { type: 'forecast' } };
+    }
+
+    const turns = parseInt(tokens[1], 10);
+    if (isNaN(turns) || String(turns) !== tokens[1] || turns < 1 || turns > MAX_FORECAST_TURNS) {
+      return { success: false, error: `Forecast length must be 1-${MAX_FORECAST_TURNS} turns` };
+    }
+
+    return { success: true, command: { type: 'forecast', turns } };
+  },
+  execute: displayOnly
+};
+
+// Costs are checked each time a standing order runs, not when it is given
+const standingCommand: CommandDefinition = {
+  name: 'standing',
+  category: 'STANDING ORDERS',
+  types: ['standing', 'standing_list', 'standing_cancel'],
+  usage: [
+    { syntax: 'standing build <qty> <type> every <n>', description: 'Repeat a build every n turns' },
+    { syntax: 'standing scan <type> every <n>', description: 'Repeat a scan every n turns' },
+    { syntax: 'standing list', description: 'Show standing orders' },
+    { syntax: 'standing cancel <id>', description: 'Remove a standing order' }
+  ],
+  examples: ['standing build 5 frigate every 1'],
+  parse: tokens => {
+    const action = tokens[1];
+
+    if (action === 'list' && tokens.length === 2) {
+      return { success: true, command: { type: 'standing_list' } };
+    }
+
+    if (action === 'cancel' && tokens.length === 3) {
+      const standingOrderId = parseInt(tokens[2], 10);
+      if (isNaN(standingOrderId) || String(standingOrderId) !== tokens[2]) {
+        return { success: false, error: 'Standing order id must be a number' };
+      }
+      return { success: true, command: { type: 'standing_cancel', standingOrderId } };
+    }
+
+    if (action !== 'build' && action !== 'scan') {
+      return {
+        success: false,
+        error: 'Standing command format: "standing build <quantity> <unit/structure> [every <n>]", "standing scan <type> [at <faction>] [every <n>]", "standing list" or "standing cancel <id>"\nExample: "standing build 5 frigate every 1"'
+      };
+    }
+
+    let orderTokens = tokens.slice(1);
+    let every = 1;
+    if (orderTokens.length >= 2 && orderTokens[orderTokens.length - 2] === 'every') {
+      const everyStr = orderTokens[orderTokens.length - 1];
+      every = parseInt(everyStr, 10);
+      if (isNaN(every) || String(every) !== everyStr) {
+        return { success: false, error: 'Standing order interval must be a number of turns' };
+      }
+      orderTokens = orderTokens.slice(0, -2);
+    }
+
+    const parsed = action === 'build' ? parseBuildArguments(orderTokens) : parseScanArguments(orderTokens);
+    if (!parsed.success) {
+      return parsed;
+    }
+
+    const order = action === 'build'
+      ? { type: 'build' as const, buildType: parsed.command!.buildType!, quantity: parsed.command!.quantity! }
+      : { type: 'scan' as const, scanType: parsed.command!.scanType!, ...(parsed.command!.target !== undefined && { target: parsed.command!.target }) };
+    const validation = validateStandingOrder(order, every);
+    if (!validation.isValid) {
+      return { success: false, error: validation.errors[0] };
+    }
+
+    return {
+      success: true,
+      command: {
+        ...parsed.command!,
+        type: 'standing',
+        every
+      }
+    };
+  },
+  complete: (tokens, gameState) => {
+    const action = tokens[1];
+
+    if (tokens.length === 1) {
+      return ['build', 'scan', 'list', 'cancel'];
+    }
+    if (action === 'cancel') {
+      return tokens.length === 2 ? gameState.player.standingOrders.orders.map(order => String(order.id)) : [];
+    }
+
+    // "every <n>" follows the order it repeats
+    const orderLength = action === 'build' ? 4 : action === 'scan' ? 3 : 0;
+    if (tokens.length === orderLength) {
+      return action === 'scan' ? ['at', 'every'] : ['every'];
+    }
+    if (action === 'scan' && tokens.length === 4 && tokens[3] === 'at') {
+      return completeFactionNames(gameState);
+    }
+    if (action === 'build' && tokens.length === 3) {
+      return [...UNIT_TYPES, ...STRUCTURE_TYPES];
+    }
+    return action === 'scan' && tokens.length === 2 ? SCAN_TYPES : [];
+  },
+  execute: (command, context) => {
+    if (command.type === 'standing_list') {
+      return displayOnly();
+    }
+
+    if (command.type === 'standing_cancel') {
+      if (command.standingOrderId === undefined) {
+        return invalidCommand('Invalid standing cancel command: missing standing order id');
+      }
+
+      const result = context.gameEngine.cancelStandingOrder(command.standingOrderId, context.getSide());
+      if (!result.standingOrder) {
+        return { success: false, message: result.errors.join('\n'), gameStateChanged: false };
+      }
+
+      return {
+        success: true,
+        message: `Standing order ${result.standingOrder.id} cancelled`,
+        gameStateChanged: true
+      };
+    }
+
+    const order = command.buildType && command.quantity
+      ? { type: 'build' as const, buildType: command.buildType, quantity: command.quantity }
+      : command.scanType
+        ? { type: 'scan' as const, scanType: command.scanType, ...(command.target !== undefined && { target: command.target }) }
+        : null;
+
+    if (!order || !command.every) {
+      return invalidCommand('Invalid standing command: missing order or interval');
+    }
+
+    const result = context.gameEngine.addStandingOrder(order, command.every, context.getSide());
+    if (!result.standingOrder) {
+      return { success: false, message: result.errors.join('\n'), gameStateChanged: false };
+    }
+
+    return {
+      success: true,
+      message: `Standing order ${result.standingOrder.id} added, first given on Turn ${result.standingOrder.nextTurn}`,
+      gameStateChanged: true
+    };
+  }
+};
+
+const scanCommand: CommandDefinition = {
+  name: 'scan',
+  category: 'SCAN COMMANDS',
+  usage: [
+    { syntax: 'scan basic', description: 'Basic scan (1,000 Energy) - Total fleet count' },
+    { syntax: 'scan deep', description: 'Deep scan (2,500 Energy) - Unit composition + economy' },
+    { syntax: 'scan advanced', description: 'Advanced scan (4,000 Energy) - Strategic intent' },
+    { syntax: 'scan <type> at <faction>', description: 'Choose whom to scan when there are several' }
+  ],
+  parse: parseScanArguments,
+  validate: validateAsOrder(toScanOrder),
+  complete: (tokens, gameState) => {
+    switch (tokens.length) {
+      case 1:
+        return SCAN_TYPES;
+      case 2:
+        return ['at'];
+      case 3:
+        return tokens[2] === 'at' ? completeFactionNames(gameState) : [];
+      default:
+        return [];
+    }
+  },
+  execute: (command, context) => {
+    const order = toScanOrder(command);
+    return order ? context.executeOrder(command, order) : invalidCommand('Invalid scan command: missing scan type');
+  }
+};
+
+const statusCommand: CommandDefinition = {
+  name: 'status',
+  category: 'GAME COMMANDS',
+  usage: [{ syntax: 'status', description: 'Show detailed game status' }],
+  parse: parseNoArguments('status'),
+  execute: displayOnly
+};
+
+const historyCommand: CommandDefinition = {
+  name: 'history',
+  category: 'GAME COMMANDS',
+  usage: [{ syntax: 'history', description: 'Chart resources, income, fleet and losses turn by turn' }],
+  parse: parseNoArguments('history'),
+  execute: displayOnly
+};
+
+const helpCommand: CommandDefinition = {
+  name: 'help',
+  category: 'GAME COMMANDS',
+  usage: [{ syntax: 'help', description: 'Show this help message' }],
+  parse: parseNoArguments('help'),
+  execute: displayOnly
+};
+
+const endCommand: CommandDefinition = {
+  name: 'end',
+  aliases: ['endturn', 'end_turn'],
+  category: 'GAME COMMANDS',
+  types: ['end_turn'],
+  usage: [{ syntax: 'end', description: 'End current turn' }],
+  parse: parseNoArguments('end_turn'),
+  execute: (_command, context) => context.endTurn()
+};
+
+const saveCommand: CommandDefinition = {
+  name: 'save',
+  category: 'GAME COMMANDS',
+  usage: [{ syntax: 'save <slot>', description: 'Save the game (start of turn, before issuing orders)' }],
+  parse: parseSlot,
+  execute: (command, context) => command.slot
+    ? context.saveGame(command.slot)
+    : invalidCommand('Save command requires a slot name')
+};
+
+const loadCommand: CommandDefinition = {
+  name: 'load',
+  category: 'GAME COMMANDS',
+  usage: [{ syntax: 'load <slot>', description: 'Load a saved game' }],
+  parse: parseSlot,
+  execute: (command, context) => command.slot
+    ? context.loadGame(command.slot)
+    : invalidCommand('Load command requires a slot name')
+};
+
+// Frontends stop on quit themselves; the game itself is left as it is
+const quitCommand: CommandDefinition = {
+  name: 'quit',
+  aliases: ['exit'],
+  category: 'GAME COMMANDS',
+  usage: [{ syntax: 'quit', description: 'Quit the game' }],
+  parse: parseNoArguments('quit'),
+  execute: () => ({
+    success: true,
+    message: 'Leaving the game',
+    gameStateChanged: false
+  })
+};
+
+/** The built-in commands, in the order help lists them */
+export const BUILT_IN_COMMANDS: CommandDefinition[] = [
+  buildCommand,
+  attackCommand,
+  simulateCommand,
+  recallCommand,
+  queueCommand,
+  queueOrderCommand('cancel', 'Cancel build order n, refunding its unspent cost'),
+  queueOrderCommand('prioritize', 'Move build order n to the front of the queue'),
+  forecastCommand,
+  standingCommand,
+  scanCommand,
+  statusCommand,
+  historyCommand,
+  helpCommand,
+  endCommand,
+  saveCommand,
+  loadCommand,
+  quitCommand
+];
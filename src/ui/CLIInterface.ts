@@ -1,8 +1,20 @@
 import { GameEngine, TurnResult } from '../engine/GameEngine.js';
 import { GameDisplay } from './GameDisplay.js';
-import { InputHandler, CommandResult } from './InputHandler.js';
+import { InputHandler, CommandResult, Command } from './InputHandler.js';
 import { GameController } from './GameController.js';
+import { FileSaveStorage } from './FileSaveStorage.js';
+import { SaveStorage } from './SaveStorage.js';
+import { CommandRegistry, parseAliasConfig } from './CommandRegistry.js';
+import { CommandLine } from './CommandLine.js';
+import { Dashboard, DashboardMessage } from './Dashboard.js';
+import { ColorManager } from './ColorManager.js';
+import { createDefaultRegistry } from './BuiltInCommands.js';
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
 import { ErrorHandler } from '../ErrorHandler.js';
+import { GameEvent, Side } from '../engine/GameEvents.js';
+import { isHotseat, viewForSide, DuelView } from '../models/Sides.js';
 
 export interface CLIConfig {
   showDebugInfo?: boolean;
@@ -14,21 +26,35 @@ export interface CLIConfig {
     detailedCasualties?: boolean;
     useEnhancedFormatting?: boolean;
   };
+  aliasFile?: string; // command aliases to load instead of ~/.burn-rate/aliases.json
+  tui?: boolean; // full-screen dashboard instead of scrolling output
+  unicode?: boolean; // draw charts with Unicode blocks; detected from the locale when not set
 }
 
+/** Dashboard messages kept for the Messages panel */
+const MAX_DASHBOARD_MESSAGES = 50;
+
 export class CLIInterface {
   private gameEngine: GameEngine;
   private gameController: GameController;
   private gameDisplay: GameDisplay;
   private inputHandler: InputHandler;
+  private commandRegistry: CommandRegistry = createDefaultRegistry();
   private config: CLIConfig;
+  private replayStorage: SaveStorage = new FileSaveStorage(join(homedir(), '.burn-rate', 'replays'));
+  private commandLine: CommandLine | null = null;
   private isRunning: boolean = false;
+  private dashboard: Dashboard | null = null;
+  private dashboardMessages: DashboardMessage[] = [];
+  private showingPage: boolean = false; // a command's full output covers the dashboard
+  private heldEvents: GameEvent[] = []; // hotseat events, shown to each side after the keyboard is passed
+  private unsubscribeEvents: () => void;
 
   constructor(gameEngine: GameEngine, config: CLIConfig = {}) {
     this.gameEngine = gameEngine;
-    this.gameController = new GameController(gameEngine);
+    this.gameController = new GameController(gameEngine, new FileSaveStorage(), this.commandRegistry);
     this.gameDisplay = new GameDisplay(config);
-    this.inputHandler = new InputHandler();
+    this.inputHandler = new InputHandler(this.commandRegistry);
     this.config = {
       // Set default combat display preferences
       combatDisplay: {
@@ -40,6 +66,52 @@ export class CLIInterface {
       },
       ...config
     };
+    this.unsubscribeEvents = gameEngine.subscribeAll(event => this.onGameEvent(event));
+    this.loadAliases(config.aliasFile);
+  }
+
+  /**
+   * Loads the player's command aliases. The default file is optional; entries that cannot be used
+   * are skipped with a warning so one typo does not cost the player every alias.
+   */
+  private loadAliases(aliasFile?: string): void {
+    const path = aliasFile ?? join(homedir(), '.burn-rate', 'aliases.json');
+    if (!aliasFile && !existsSync(path)) {
+      return;
+    }
+
+    let data: string;
+    try {
+      data = readFileSync(path, 'utf8');
+    } catch (error) {
+      console.warn(`⚠️  Cannot read aliases from ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+
+    const parsed = parseAliasConfig(data);
+    const errors = parsed.config ? [...parsed.errors, ...this.commandRegistry.addAliases(parsed.config)] : parsed.errors;
+    errors.forEach(error => console.warn(`⚠️  Aliases (${path}): ${error}`));
+  }
+
+  /**
+   * Prints game events as they happen, or adds them to the dashboard's messages
+   */
+  private onGameEvent(event: GameEvent): void {
+    if (this.isHotseat()) {
+      this.heldEvents.push(event);
+      return;
+    }
+
+    const side = this.gameController.getActiveSide();
+    if (!this.dashboard) {
+      this.gameDisplay.displayGameEvent(event, side);
+      return;
+    }
+
+    const message = this.gameDisplay.formatGameEvent(event, side);
+    if (message) {
+      this.addDashboardMessage(message.replace(/^\p{Extended_Pictographic}\uFE0F?\s*/u, ''), 'info');
+    }
   }
 
   /**
@@ -48,19 +120,65 @@ export class CLIInterface {
   public async start(): Promise<void> {
     this.isRunning = true;
     
-    // Display welcome message and initial game state
+    if (this.config.tui && this.isHotseat()) {
+      console.warn('⚠️  The dashboard does not support hotseat games; using the standard display');
+    } else if (this.config.tui) {
+      this.dashboard = this.createDashboard();
+      if (this.dashboard) {
+        await this.runDashboard();
+        return;
+      }
+    }
+
+    // Display welcome message and initial game state, which in a hotseat game waits for the keyboard to be passed
     this.displayWelcome();
-    this.displayGameState();
+    if (!this.isHotseat()) {
+      this.displayGameState();
+    }
     
     // Main game loop
-    while (this.isRunning && !this.gameEngine.isGameOver()) {
+    while (this.isInPlay()) {
+      if (this.isHotseat()) {
+        await this.passKeyboard();
+      }
       await this.processPlayerTurn();
     }
     
-    // Display game over message
-    if (this.gameEngine.isGameOver()) {
+    // Display game over message, or that nobody at this keyboard is left in the game
+    if (this.gameEngine.isGameOver() || this.isRunning) {
       this.displayGameOver();
     }
+
+    this.closeCommandLine();
+
+    const replayLocation = this.saveReplay();
+    if (replayLocation) {
+      console.log(`\n🎞️  Replay saved to ${replayLocation}`);
+      console.log(`   Watch it with: burn-rate --replay ${replayLocation}`);
+    }
+  }
+
+  /**
+   * Writes the replay recorded so far, returning where it was stored (null if nothing to save)
+   */
+  private saveReplay(): string | null {
+    const replay = this.gameController.getReplayRecorder().toReplayFile();
+    if (replay.turns.length === 0) {
+      return null;
+    }
+
+    // One file per recording: seed plus start time, e.g. game-42-20261019-145842
+    const startedAt = replay.recordedAt.replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+    const slot = `game-${replay.seed}-${startedAt}`;
+
+    try {
+      this.replayStorage.save(slot, JSON.stringify(replay));
+      return this.replayStorage.getLocation(slot);
+    } catch (error) {
+      const errorResponse = ErrorHandler.handleSystemError(error instanceof Error ? error : new Error('Replay save failed'));
+      this.gameDisplay.displayError(errorResponse.userMessage);
+      return null;
+    }
   }
 
   /**
@@ -70,6 +188,152 @@ export class CLIInterface {
     this.isRunning = false;
   }
 
+  /**
+   * Creates the dashboard if the terminal can show it. Without colors the terminal is unlikely to
+   * handle cursor movement either, so the game falls back to the standard display.
+   */
+  private createDashboard(): Dashboard | null {
+    const colorManager = new ColorManager(this.config.useColors !== false);
+    if (!process.stdin.isTTY || !process.stdout.isTTY || !colorManager.isColorSupported()) {
+      console.warn('⚠️  The dashboard needs an interactive color terminal; using the standard display');
+      return null;
+    }
+
+    return new Dashboard(colorManager);
+  }
+
+  /**
+   * Runs the game on the full-screen dashboard, redrawn after every command and on resize
+   */
+  private async runDashboard(): Promise<void> {
+    const onResize = () => {
+      if (!this.showingPage) {
+        process.stdout.write('\x1b[2J');
+        this.drawDashboard();
+        this.commandLine?.refresh();
+      }
+    };
+
+    process.stdout.write('\x1b[?1049h'); // alternate screen, so the shell comes back as it was
+    process.stdout.on('resize', onResize);
+    this.addDashboardMessage('Welcome to Burn Rate. Type "help" for commands.', 'info');
+
+    try {
+      while (this.isInPlay()) {
+        this.drawDashboard();
+        const input = await this.getPlayerInput();
+        if (input.trim()) {
+          await this.processDashboardCommand(input);
+        }
+      }
+    } finally {
+      process.stdout.removeListener('resize', onResize);
+      this.closeCommandLine();
+      this.leaveDashboard();
+    }
+
+    if (this.gameEngine.isGameOver() || this.isRunning) {
+      this.displayGameOver();
+    }
+
+    const replayLocation = this.saveReplay();
+    if (replayLocation) {
+      console.log(`\n🎞️  Replay saved to ${replayLocation}`);
+      console.log(`   Watch it with: burn-rate --replay ${replayLocation}`);
+    }
+  }
+
+  /**
+   * Runs one command from the dashboard. Results go to the Messages panel; commands that show
+   * more than a line take over the screen until the player presses Enter.
+   */
+  private async processDashboardCommand(input: string): Promise<void> {
+    try {
+      const commandResult = this.processCommandSafely(input);
+      if (!commandResult.success || !commandResult.command) {
+        this.addDashboardMessage(ErrorHandler.handleUserInputError(commandResult.error || 'Invalid command').userMessage, 'error');
+        return;
+      }
+
+      const command = commandResult.command;
+      const executionResult = this.gameController.executeCommand(command);
+      if (!executionResult.success) {
+        this.addDashboardMessage(ErrorHandler.handleUserInputError(executionResult.message).userMessage, 'error');
+        return;
+      }
+
+      this.addDashboardMessage(executionResult.message, 'success');
+
+      switch (command.type) {
+        case 'end_turn':
+          this.saveReplay();
+          break;
+
+        case 'quit':
+          this.isRunning = false;
+          return;
+      }
+
+      if (['status', 'history', 'queue', 'standing_list', 'forecast', 'simulate', 'help', 'end_turn'].includes(command.type)) {
+        await this.showPage(() => this.displayCommandOutput(command, false));
+      }
+    } catch (error) {
+      const errorResponse = ErrorHandler.handleSystemError(error instanceof Error ? error : new Error('Unknown error'));
+      this.addDashboardMessage(errorResponse.userMessage, 'error');
+      if (!errorResponse.canContinue) {
+        this.isRunning = false;
+      }
+    }
+  }
+
+  /**
+   * Shows output from the standard display on a cleared screen until the player presses Enter
+   */
+  private async showPage(display: () => void): Promise<void> {
+    this.showingPage = true;
+    process.stdout.write('\x1b[2J\x1b[H');
+    try {
+      display();
+      await this.commandLine?.question('\nPress Enter to return to the dashboard ');
+    } finally {
+      this.showingPage = false;
+      process.stdout.write('\x1b[2J');
+    }
+  }
+
+  /**
+   * Draws the dashboard over the whole screen but the bottom row, which holds the command line
+   */
+  private drawDashboard(): void {
+    const view = {
+      gameState: this.getActiveView(),
+      construction: this.gameEngine.getConstructionStatus(),
+      intelligence: this.gameEngine.getIntelligenceGap(),
+      messages: this.dashboardMessages
+    };
+    const lines = this.dashboard!.render(view, process.stdout.columns || 80, process.stdout.rows || 24);
+
+    process.stdout.write(lines.map((line, index) => `\x1b[${index + 1};1H${line}\x1b[K`).join('') + `\x1b[${lines.length + 1};1H\x1b[K`);
+  }
+
+  /**
+   * Adds a line to the dashboard's Messages panel, dropping the oldest
+   */
+  private addDashboardMessage(text: string, kind: DashboardMessage['kind']): void {
+    this.dashboardMessages.push({ text, kind });
+    this.dashboardMessages.splice(0, this.dashboardMessages.length - MAX_DASHBOARD_MESSAGES);
+  }
+
+  /**
+   * Returns to the normal screen
+   */
+  private leaveDashboard(): void {
+    if (this.dashboard) {
+      process.stdout.write('\x1b[?1049l');
+      this.dashboard = null;
+    }
+  }
+
   /**
    * Displays the welcome message and game instructions
    */
@@ -81,7 +345,10 @@ export class CLIInterface {
     console.log('');
     console.log('Welcome to Burn Rate - A fast-paced strategy game');
     console.log('');
-    console.log('OBJECTIVE: Eliminate the AI through military or economic victory');
+    const opponent = Object.keys(this.gameEngine.getGameState().factions).length > 2
+      ? 'every other faction'
+      : this.isHotseat() ? 'your opponent' : 'the AI';
+    console.log(`OBJECTIVE: Eliminate ${opponent} through military or economic victory`);
     console.log('- Military Victory: Destroy all enemy fleets');
     console.log('- Economic Victory: Force enemy economy to collapse');
     console.log('');
@@ -90,13 +357,65 @@ export class CLIInterface {
     console.log('');
   }
 
+  /**
+   * Hides the last side's screen until the next side is at the keyboard, then shows that side what
+   * happened since it last moved: the turn result, its standing orders and its events
+   */
+  private async passKeyboard(): Promise<void> {
+    const side = this.gameController.getActiveSide();
+    const name = this.gameEngine.getGameState().sides[side].name;
+
+    this.clearScreen();
+    await this.getCommandLine().question(`\nPass the keyboard to ${name} and press Enter when ready `);
+    this.clearScreen();
+    console.log(`=== ${name.toUpperCase()} ===`);
+
+    const turnResult = this.gameController.getLastTurnResult();
+    if (turnResult) {
+      this.gameDisplay.displayTurnResult(this.turnResultFor(turnResult, side), false);
+      this.gameDisplay.displayStandingOrderResults(this.gameController.getLastStandingOrderResults(side), this.gameEngine.getStandingOrders(side));
+    }
+
+    this.heldEvents.forEach(event => this.gameDisplay.displayGameEvent(event, side));
+    if (side === this.gameController.getHumanSides().slice(-1)[0]) {
+      this.heldEvents = [];
+    }
+  }
+
+  /**
+   * A turn result as one side saw it, for the displays written from the player's point of view:
+   * its own battles, with it as "player" and whoever it fought as "ai"
+   */
+  private turnResultFor(turnResult: TurnResult, side: Side): TurnResult {
+    const slotOf = (faction: Side) => faction === side ? 'player' : 'ai';
+    return {
+      ...turnResult,
+      combatEvents: turnResult.combatEvents
+        .filter(event => event.attacker === side || event.defender === side)
+        .map(event => ({ ...event, attacker: slotOf(event.attacker), defender: slotOf(event.defender) })),
+      winner: turnResult.winner === undefined ? undefined : slotOf(turnResult.winner)
+    };
+  }
+
+  /**
+   * Clears the screen and, where the terminal allows, its scrollback
+   */
+  private clearScreen(): void {
+    if (process.stdout.isTTY) {
+      process.stdout.write('\x1b[H\x1b[2J\x1b[3J');
+    } else {
+      console.clear();
+    }
+  }
+
   /**
    * Processes a single player turn
    */
   private async processPlayerTurn(): Promise<void> {
     let turnComplete = false;
 
-    console.log(`\n--- TURN ${this.gameEngine.getCurrentTurn()} ---`);
+    const mover = this.isHotseat() ? ` (${this.getActiveView().sides.player.name})` : '';
+    console.log(`\n--- TURN ${this.gameEngine.getCurrentTurn()}${mover} ---`);
     
     while (!turnComplete && this.isRunning) {
       try {
@@ -132,22 +451,18 @@ export class CLIInterface {
           if (executionResult.success) {
             console.log(`✓ ${executionResult.message}`);
             
+            this.displayCommandOutput(commandResult.command);
+            
             // Handle special command types
             switch (commandResult.command.type) {
-              case 'status':
-                this.displayDetailedStatus();
-                break;
-                
-              case 'help':
-                this.displayHelp();
+              case 'end_turn':
+                // Keep the replay on disk current in case the game is interrupted
+                this.saveReplay();
+                turnComplete = true;
                 break;
                 
-              case 'end_turn':
-                // Display turn result after processing
-                const turnResult = this.gameController.getLastTurnResult();
-                if (turnResult) {
-                  this.displayTurnResult(turnResult);
-                }
+              case 'load':
+                // Restart the turn loop so the loaded turn number and game over state are picked up
                 turnComplete = true;
                 break;
                 
@@ -177,44 +492,123 @@ export class CLIInterface {
   }
 
   /**
-   * Gets input from the player
+   * Shows what a successful command has to show beyond its message
+   */
+  private displayCommandOutput(command: Command, promptToContinue: boolean = true): void {
+    const side = this.gameController.getActiveSide();
+
+    switch (command.type) {
+      case 'status':
+        this.displayDetailedStatus();
+        break;
+
+      case 'history':
+        this.gameDisplay.displayHistory(this.getActiveView());
+        break;
+        
+      case 'queue':
+        this.gameDisplay.displayConstructionStatus(this.gameEngine.getConstructionStatus(side), this.gameEngine.getCurrentTurn());
+        break;
+        
+      case 'standing_list':
+        this.gameDisplay.displayStandingOrders(this.gameEngine.getStandingOrders(side));
+        break;
+        
+      case 'forecast':
+        this.gameDisplay.displayEconomicForecast(this.gameEngine.getEconomicForecast(command.turns, side));
+        break;
+        
+      case 'simulate':
+        const preview = this.gameController.getLastBattlePreview();
+        if (preview) {
+          this.gameDisplay.displayBattlePreview(preview);
+        }
+        break;
+        
+      case 'help':
+        this.displayHelp();
+        break;
+        
+      case 'end_turn':
+        // A hotseat game shows the result to each side once the keyboard has been passed
+        if (this.isHotseat()) {
+          break;
+        }
+
+        // Display turn result after processing
+        const turnResult = this.gameController.getLastTurnResult();
+        if (turnResult) {
+          this.gameDisplay.displayTurnResult(this.turnResultFor(turnResult, side), promptToContinue);
+        }
+        this.gameDisplay.displayStandingOrderResults(this.gameController.getLastStandingOrderResults(side), this.gameEngine.getStandingOrders(side));
+        break;
+    }
+  }
+
+  /**
+   * Gets input from the player, with tab completion and history once the game has started
    */
   private async getPlayerInput(): Promise<string> {
-    return new Promise((resolve) => {
-      process.stdout.write('\n> ');
-      
-      const handleInput = (data: Buffer) => {
-        const input = data.toString().trim();
-        process.stdin.removeListener('data', handleInput);
-        resolve(input);
-      };
-      
-      process.stdin.on('data', handleInput);
-    });
+    if (!this.dashboard) {
+      process.stdout.write('\n');
+    }
+    return this.getCommandLine().question('> ');
+  }
+
+  /**
+   * The command line, created on first use
+   */
+  private getCommandLine(): CommandLine {
+    if (!this.commandLine) {
+      this.commandLine = new CommandLine({
+        complete: line => this.inputHandler.getCompletions(line, this.getActiveView()),
+        historyFile: join(homedir(), '.burn-rate', 'history')
+      });
+    }
+    return this.commandLine;
+  }
+
+  /**
+   * Whether the game goes on with someone at this keyboard still in it
+   */
+  private isInPlay(): boolean {
+    return this.isRunning && !this.gameEngine.isGameOver() && this.gameController.getHumanSides().length > 0;
+  }
+
+  /**
+   * Whether two people are sharing the keyboard
+   */
+  private isHotseat(): boolean {
+    return isHotseat(this.gameEngine.getGameState());
+  }
+
+  /**
+   * The game as the side at the keyboard sees it, with that side as "player"
+   */
+  private getActiveView(): DuelView {
+    return viewForSide(this.gameEngine.getGameState(), this.gameController.getActiveSide());
   }
 
   /**
    * Displays the current game state
    */
   private displayGameState(): void {
-    const gameState = this.gameEngine.getGameState();
-    this.gameDisplay.displayGameState(gameState);
+    this.gameDisplay.displayGameState(this.getActiveView());
   }
 
   /**
    * Displays detailed game status
    */
   private displayDetailedStatus(): void {
-    const gameState = this.gameEngine.getGameState();
-    const stats = this.gameEngine.getGameStatistics();
-    this.gameDisplay.displayDetailedStatus(gameState, stats);
+    const stats = this.gameEngine.getGameStatistics(this.gameController.getActiveSide());
+    this.gameDisplay.displayDetailedStatus(this.getActiveView(), stats);
   }
 
   /**
    * Displays help information
    */
   private displayHelp(): void {
-    this.gameDisplay.displayHelp();
+    this.gameDisplay.displayHelp(this.commandRegistry);
   }
 
   /**
@@ -228,8 +622,14 @@ export class CLIInterface {
    * Displays game over message
    */
   private displayGameOver(): void {
+    if (!this.gameEngine.isGameOver()) {
+      console.log('\n💀 Every faction played at this keyboard has been eliminated. The game goes on without you.');
+      return;
+    }
+
     const gameState = this.gameEngine.getGameState();
-    this.gameDisplay.displayGameOver(gameState);
+    const firstHuman = Object.keys(gameState.sides).find(side => gameState.sides[side].controller === 'human');
+    this.gameDisplay.displayGameOver(viewForSide(gameState, firstHuman ?? 'player'));
   }
 
 
@@ -246,7 +646,7 @@ export class CLIInterface {
    */
   private processCommandSafely(input: string): CommandResult {
     try {
-      return this.inputHandler.processCommand(input, this.gameEngine.getGameState());
+      return this.inputHandler.processCommand(input, this.getActiveView());
     } catch (error) {
       return {
         success: false,
@@ -310,6 +710,7 @@ export class CLIInterface {
   public resetGame(config?: any): void {
     try {
       this.gameEngine.resetGame(config);
+      this.gameController.getReplayRecorder().restart(this.gameEngine);
       ErrorHandler.clearErrorHistory();
       console.log('\nGame reset! Starting new game...\n');
     } catch (error) {
@@ -322,6 +723,7 @@ export class CLIInterface {
    * Gracefully shuts down the CLI interface
    */
   public async shutdown(): Promise<void> {
+    this.leaveDashboard();
     console.log('\nShutting down game...');
     
     // Perform final health check
@@ -332,6 +734,16 @@ export class CLIInterface {
     }
     
     this.isRunning = false;
+    this.closeCommandLine();
+    this.unsubscribeEvents();
     console.log('Goodbye!');
   }
+
+  /**
+   * Stops reading from the terminal so the process can exit
+   */
+  private closeCommandLine(): void {
+    this.commandLine?.close();
+    this.commandLine = null;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,250 @@
+import { createInterface, Interface, Key } from 'readline';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+/** Commands kept in the history file */
+export const HISTORY_SIZE = 500;
+
+export interface CommandLineOptions {
+  /**
+   * Completes the last word of the line for tab completion
+   */
+  complete(line: string): { words: string[]; partial: string };
+
+  historyFile?: string; // history persists here between sessions; without it history lasts one session
+}
+
+/** A Ctrl+R search in progress */
+interface HistorySearch {
+  query: string;
+  index: number; // history entry matched, newest first; -1 if none
+  originalLine: string;
+  keypressListeners: ((...args: any[]) => void)[]; // readline's own, set aside while searching
+}
+
+/**
+ * Parses a history file, oldest command first, into readline's order, newest first
+ */
+export function parseHistory(data: string): string[] {
+  return data.split(/\r?\n/).filter(line => line.trim()).reverse().slice(0, HISTORY_SIZE);
+}
+
+/**
+ * Formats readline's history, newest first, as a history file, oldest command first
+ */
+export function formatHistory(history: string[]): string {
+  return [...history].slice(0, HISTORY_SIZE).reverse().join('\n') + '\n';
+}
+
+/**
+ * Finds the newest history entry from start onwards that contains the query, or -1
+ */
+export function searchHistory(history: string[], query: string, start: number = 0): number {
+  for (let i = Math.max(0, start); i < history.length; i++) {
+    if (history[i].includes(query)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Reads commands from the terminal with tab completion, up-arrow history that is kept in a file
+ * between sessions, and Ctrl+R reverse search. Piped input is read line by line without any of these.
+ */
+export class CommandLine {
+  private rl: Interface;
+  private historyFile?: string;
+  private history: string[]; // newest first, as readline keeps it
+  private search: HistorySearch | null = null;
+  private closed: boolean = false;
+  private pendingLines: string[] = []; // typed or piped before the game asked for them
+  private answer: ((line: string) => void) | null = null;
+  private handleKeypress = (sequence: string | undefined, key: Key | undefined) => this.onKeypress(sequence, key);
+
+  constructor(options: CommandLineOptions) {
+    this.historyFile = options.historyFile;
+    this.history = this.loadHistory();
+    this.rl = createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      completer: (line: string): [string[], string] => {
+        const { words, partial } = options.complete(line);
+        return [words, partial];
+      },
+      history: [...this.history],
+      historySize: HISTORY_SIZE,
+      removeHistoryDuplicates: true
+    });
+
+    this.rl.on('history', history => {
+      this.history = [...history];
+      this.saveHistory();
+    });
+    this.rl.on('line', line => {
+      if (this.answer) {
+        const answer = this.answer;
+        this.answer = null;
+        answer(line);
+      } else {
+        this.pendingLines.push(line);
+      }
+    });
+    this.rl.on('close', () => {
+      this.closed = true;
+      this.answer?.('quit');
+      this.answer = null;
+    });
+    // Readline swallows Ctrl+C in a terminal; pass it on so the game shuts down as it would without readline
+    this.rl.on('SIGINT', () => process.kill(process.pid, 'SIGINT'));
+
+    if (this.rl.terminal) {
+      process.stdin.prependListener('keypress', this.handleKeypress);
+    }
+  }
+
+  /**
+   * Prompts for one line of input, or takes the next line already read ahead. Once the input has
+   * ended every answer is "quit".
+   */
+  public question(prompt: string): Promise<string> {
+    if (this.pendingLines.length > 0) {
+      return Promise.resolve(this.pendingLines.shift()!);
+    }
+    if (this.closed) {
+      return Promise.resolve('quit');
+    }
+
+    return new Promise(resolve => {
+      this.answer = resolve;
+      this.rl.setPrompt(prompt);
+      this.rl.prompt();
+    });
+  }
+
+  /**
+   * Redraws the prompt and whatever has been typed, e.g. after the screen was cleared
+   */
+  public refresh(): void {
+    if (!this.closed && !this.search) {
+      this.rl.prompt(true);
+    }
+  }
+
+  /**
+   * Stops reading input
+   */
+  public close(): void {
+    if (this.search) {
+      this.endSearch(this.search.originalLine);
+    }
+    process.stdin.removeListener('keypress', this.handleKeypress);
+    this.rl.close();
+  }
+
+  /**
+   * Reads the history file, if there is one
+   */
+  private loadHistory(): string[] {
+    if (!this.historyFile || !existsSync(this.historyFile)) {
+      return [];
+    }
+
+    try {
+      return parseHistory(readFileSync(this.historyFile, 'utf8'));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Writes the history file after every command. A history that cannot be written is not worth
+   * interrupting the game for.
+   */
+  private saveHistory(): void {
+    if (!this.historyFile) {
+      return;
+    }
+
+    try {
+      mkdirSync(dirname(this.historyFile), { recursive: true });
+      writeFileSync(this.historyFile, formatHistory(this.history), 'utf8');
+    } catch {
+      // Keep playing with the history in memory
+    }
+  }
+
+  /**
+   * Starts a reverse search on Ctrl+R. While searching, keys go to the search instead of readline.
+   */
+  private onKeypress(sequence: string | undefined, key: Key | undefined): void {
+    if (this.search) {
+      this.onSearchKeypress(sequence, key);
+      return;
+    }
+
+    if (key?.ctrl && key.name === 'r') {
+      this.search = {
+        query: '',
+        index: -1,
+        originalLine: this.rl.line,
+        keypressListeners: process.stdin.listeners('keypress').filter(listener => listener !== this.handleKeypress) as HistorySearch['keypressListeners']
+      };
+      this.search.keypressListeners.forEach(listener => process.stdin.removeListener('keypress', listener));
+      this.renderSearch();
+    }
+  }
+
+  /**
+   * Ctrl+R finds the next older match, Enter or any movement key takes the match onto the line,
+   * Ctrl+G or Ctrl+C puts the line back as it was
+   */
+  private onSearchKeypress(sequence: string | undefined, key: Key | undefined): void {
+    const search = this.search!;
+
+    if (key?.ctrl && key.name === 'r') {
+      const next = searchHistory(this.history, search.query, search.index + 1);
+      search.index = next === -1 ? search.index : next;
+    } else if (key?.ctrl && (key.name === 'g' || key.name === 'c')) {
+      this.endSearch(search.originalLine);
+      return;
+    } else if (key?.name === 'backspace') {
+      search.query = search.query.slice(0, -1);
+      search.index = searchHistory(this.history, search.query);
+    } else if (sequence && sequence.length === 1 && sequence >= ' ' && !key?.ctrl && !key?.meta) {
+      search.query += sequence;
+      search.index = searchHistory(this.history, search.query, Math.max(0, search.index));
+    } else {
+      this.endSearch(search.index === -1 ? search.originalLine : this.history[search.index]);
+      return;
+    }
+
+    this.renderSearch();
+  }
+
+  /**
+   * Leaves search mode with the line set to the given text
+   */
+  private endSearch(line: string): void {
+    const search = this.search!;
+    this.search = null;
+    search.keypressListeners.forEach(listener => process.stdin.on('keypress', listener));
+
+    process.stdout.write('\r\x1b[K');
+    this.rl.prompt(true);
+    this.rl.write(null, { ctrl: true, name: 'e' });
+    this.rl.write(null, { ctrl: true, name: 'u' });
+    this.rl.write(line);
+  }
+
+  /**
+   * Shows the search in place of the prompt, as shells do
+   */
+  private renderSearch(): void {
+    const search = this.search!;
+    const match = search.index === -1 ? '' : this.history[search.index];
+    const label = search.index === -1 && search.query ? 'failing reverse-i-search' : 'reverse-i-search';
+
+    process.stdout.write(`\r\x1b[K(${label})'${search.query}': ${match}`);
+  }
+}
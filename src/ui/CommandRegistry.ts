@@ -0,0 +1,288 @@
+import { FleetComposition } from '../models/GameState.js';
+import { DuelView } from '../models/Sides.js';
+import { GameEngine } from '../engine/GameEngine.js';
+import { Side } from '../engine/GameEvents.js';
+import { PlayerOrder } from '../engine/Orders.js';
+import { Command, CommandResult } from './InputHandler.js';
+import { CommandExecutionResult } from './GameController.js';
+
+/** One way of typing a command, as help lists it */
+export interface CommandUsage {
+  syntax: string; // e.g. "build <quantity> <unit>"
+  description: string;
+}
+
+/**
+ * What the controller lets a command do when it runs
+ */
+export interface CommandContext {
+  gameEngine: GameEngine;
+
+  /**
+   * The side giving the command: "player", or "ai" when a second human plays it
+   */
+  getSide(): Side;
+
+  /**
+   * Hands an order to the engine, which validates and applies it, and tracks it as given this turn
+   */
+  executeOrder(command: Command, order: PlayerOrder): CommandExecutionResult;
+
+  /**
+   * Previews an attack and keeps the preview for the frontend to show
+   */
+  simulateAttack(attackFleet: FleetComposition, retreatThreshold?: number, target?: string): CommandExecutionResult;
+
+  endTurn(): CommandExecutionResult;
+  saveGame(slot: string): CommandExecutionResult;
+  loadGame(slot: string): CommandExecutionResult;
+}
+
+/**
+ * A command the player can type: how it is written, how its words are parsed, the game rules it
+ * must pass and what it does
+ */
+export interface CommandDefinition {
+  name: string; // the word that gives the command
+  aliases?: string[]; // other words for it
+  category: string; // help section
+  usage: CommandUsage[];
+  examples?: string[];
+  types?: string[]; // Command types it parses into and executes, if not just its name
+
+  /**
+   * Parses the command's words (already lowercased, the command word first) without looking at the game
+   */
+  parse(tokens: string[]): CommandResult;
+
+  /**
+   * Checks a parsed command against the current game
+   */
+  validate?(command: Command, gameState: DuelView): { isValid: boolean; errors: string[] };
+
+  /**
+   * Runs a parsed and validated command
+   */
+  execute(command: Command, context: CommandContext): CommandExecutionResult;
+
+  /**
+   * Suggests the next word for tab completion, given the words typed before it (the command word first)
+   */
+  complete?(tokens: string[], gameState: Pick<DuelView, 'turn' | 'player' | 'sides' | 'galaxy'>): string[];
+}
+
+/**
+ * User-defined shorthand. Command aliases replace the first word and may stand for several words
+ * ("ff": "build 10 frigate"); word aliases replace any later word ("f": "frigate").
+ */
+export interface AliasConfig {
+  commands?: Record<string, string>;
+  words?: Record<string, string>;
+}
+
+const ALIAS_PATTERN = /^[a-z0-9_-]{1,32}$/;
+
+/**
+ * The commands the player can type. Parsing, execution, help and suggestions are all looked up
+ * here, so a command registered here is available everywhere.
+ */
+export class CommandRegistry {
+  private definitions: CommandDefinition[] = [];
+  private byWord = new Map<string, CommandDefinition>();
+  private byType = new Map<string, CommandDefinition>();
+  private commandAliases = new Map<string, string[]>();
+  private wordAliases = new Map<string, string>();
+
+  /**
+   * Adds a command. Throws if its words or types are already taken.
+   */
+  public register(definition: CommandDefinition): void {
+    const words = [definition.name, ...(definition.aliases ?? [])];
+    const types = definition.types ?? [definition.name];
+
+    for (const word of words) {
+      if (this.byWord.has(word) || this.commandAliases.has(word)) {
+        throw new Error(`Command word "${word}" is already registered`);
+      }
+    }
+    for (const type of types) {
+      if (this.byType.has(type)) {
+        throw new Error(`Command type "${type}" is already registered`);
+      }
+    }
+
+    this.definitions.push(definition);
+    words.forEach(word => this.byWord.set(word, definition));
+    types.forEach(type => this.byType.set(type, definition));
+  }
+
+  /**
+   * Gets the command a word gives, or undefined
+   */
+  public get(word: string): CommandDefinition | undefined {
+    return this.byWord.get(word);
+  }
+
+  /**
+   * Gets the command that executes a parsed command type, or undefined
+   */
+  public getByType(type: string): CommandDefinition | undefined {
+    return this.byType.get(type);
+  }
+
+  /**
+   * Gets every command in the order registered
+   */
+  public getDefinitions(): CommandDefinition[] {
+    return [...this.definitions];
+  }
+
+  /**
+   * Adds an alias for the first word of a command, which may stand for several words
+   */
+  public addCommandAlias(alias: string, expansion: string): { success: boolean; errors: string[] } {
+    const key = alias.trim().toLowerCase();
+    const words = expansion.trim().toLowerCase().split(/\s+/).filter(word => word);
+
+    if (!ALIAS_PATTERN.test(key)) {
+      return { success: false, errors: [`Alias "${alias}" must be one word of letters, numbers, "-" and "_"`] };
+    }
+    if (this.byWord.has(key)) {
+      return { success: false, errors: [`Alias "${key}" would hide the ${this.byWord.get(key)!.name} command`] };
+    }
+    if (words.length === 0 || !this.byWord.has(words[0])) {
+      return { success: false, errors: [`Alias "${key}" must start with a command, not "${expansion}"`] };
+    }
+
+    this.commandAliases.set(key, words);
+    return { success: true, errors: [] };
+  }
+
+  /**
+   * Adds an alias for a word after the command word
+   */
+  public addWordAlias(alias: string, word: string): { success: boolean; errors: string[] } {
+    const key = alias.trim().toLowerCase();
+    const replacement = word.trim().toLowerCase();
+
+    if (!ALIAS_PATTERN.test(key)) {
+      return { success: false, errors: [`Alias "${alias}" must be one word of letters, numbers, "-" and "_"`] };
+    }
+    if (!replacement || /\s/.test(replacement)) {
+      return { success: false, errors: [`Word alias "${key}" must stand for exactly one word`] };
+    }
+
+    this.wordAliases.set(key, replacement);
+    return { success: true, errors: [] };
+  }
+
+  /**
+   * Adds every alias in a config. Aliases that cannot be added are skipped; their errors are returned.
+   */
+  public addAliases(config: AliasConfig): string[] {
+    const errors: string[] = [];
+
+    for (const [alias, expansion] of Object.entries(config.commands ?? {})) {
+      errors.push(...this.addCommandAlias(alias, expansion).errors);
+    }
+    for (const [alias, word] of Object.entries(config.words ?? {})) {
+      errors.push(...this.addWordAlias(alias, word).errors);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Gets the user-defined aliases
+   */
+  public getAliases(): { commands: Record<string, string>; words: Record<string, string> } {
+    return {
+      commands: Object.fromEntries([...this.commandAliases].map(([alias, words]) => [alias, words.join(' ')])),
+      words: Object.fromEntries(this.wordAliases)
+    };
+  }
+
+  /**
+   * Replaces aliased words with what they stand for
+   */
+  public expandAliases(tokens: string[]): string[] {
+    if (tokens.length === 0) {
+      return tokens;
+    }
+
+    const [first, ...rest] = tokens;
+    return [
+      ...(this.commandAliases.get(first) ?? [first]),
+      ...rest.map(token => this.wordAliases.get(token) ?? token)
+    ];
+  }
+
+  /**
+   * Gets the command words and aliases that start with the partial input
+   */
+  public getSuggestions(partialInput: string): string[] {
+    const partial = partialInput.toLowerCase().trim();
+    const words = [...this.definitions.map(definition => definition.name), ...this.commandAliases.keys()];
+
+    return words.filter(word => word.startsWith(partial));
+  }
+
+  /**
+   * Gets the commands grouped by help section, sections in the order first registered
+   */
+  public getCategories(): { category: string; definitions: CommandDefinition[] }[] {
+    const categories: { category: string; definitions: CommandDefinition[] }[] = [];
+
+    for (const definition of this.definitions) {
+      let entry = categories.find(candidate => candidate.category === definition.category);
+      if (!entry) {
+        entry = { category: definition.category, definitions: [] };
+        categories.push(entry);
+      }
+      entry.definitions.push(definition);
+    }
+
+    return categories;
+  }
+}
+
+/**
+ * Parses an alias file: a JSON object with optional "commands" and "words" maps of strings
+ */
+export function parseAliasConfig(json: string): { success: boolean; config?: AliasConfig; errors: string[] } {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { success: false, errors: [`Alias file is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { success: false, errors: ['Alias file must contain a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const config: AliasConfig = {};
+
+  for (const section of ['commands', 'words'] as const) {
+    const entries = data[section];
+    if (entries === undefined) {
+      continue;
+    }
+    if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+      errors.push(`${section}: must be an object of alias to text`);
+      continue;
+    }
+
+    config[section] = {};
+    for (const [alias, expansion] of Object.entries(entries)) {
+      if (typeof expansion === 'string') {
+        config[section]![alias] = expansion;
+      } else {
+        errors.push(`${section}.${alias}: must be a string`);
+      }
+    }
+  }
+
+  return { success: true, config, errors };
+}
@@ -0,0 +1,300 @@
+import { FleetComposition, CombatEvent } from '../models/GameState.js';
+import { DuelView } from '../models/Sides.js';
+import { FleetMovement } from '../models/PlayerState.js';
+import { IntelligenceGap } from '../models/Intelligence.js';
+import { ConstructionStatus } from '../engine/EconomyEngine.js';
+import { ColorManager, ColorTheme } from './ColorManager.js';
+
+/** Smallest terminal the layout is drawn for; smaller terminals see it cut off */
+export const MIN_DASHBOARD_WIDTH = 72;
+export const MIN_DASHBOARD_HEIGHT = 20;
+
+/** Height of the top row of panels, borders included */
+const TOP_PANEL_HEIGHT = 6;
+
+/** Turns shown on the in-transit timeline */
+const TIMELINE_TURNS = 12;
+
+/** A line the dashboard tells the player, newest last */
+export interface DashboardMessage {
+  text: string;
+  kind: 'info' | 'success' | 'error';
+}
+
+/** Everything the dashboard shows */
+export interface DashboardView {
+  gameState: DuelView;
+  construction: ConstructionStatus[];
+  intelligence: IntelligenceGap;
+  messages: DashboardMessage[];
+}
+
+/** A line of panel text, optionally in one color */
+type PanelLine = string | { text: string; color: keyof ColorTheme };
+
+/**
+ * Lays out the game as fixed panels filling the terminal: resources, home fleet and intelligence
+ * on top, fleets in transit and the construction queue in the middle, the combat log and messages
+ * at the bottom. The last row is left for the command line.
+ */
+export class Dashboard {
+  private colorManager: ColorManager;
+
+  constructor(colorManager: ColorManager = new ColorManager()) {
+    this.colorManager = colorManager;
+  }
+
+  /**
+   * Renders the dashboard as height - 1 lines of exactly width columns
+   */
+  public render(view: DashboardView, width: number, height: number): string[] {
+    width = Math.max(width, MIN_DASHBOARD_WIDTH);
+    height = Math.max(height, MIN_DASHBOARD_HEIGHT);
+
+    const remaining = height - 2 - TOP_PANEL_HEIGHT; // header and command line
+    const middleHeight = Math.floor(remaining / 2);
+    const bottomHeight = remaining - middleHeight;
+    const third = Math.floor(width / 3);
+    const middleSplit = Math.floor(width * 0.6);
+
+    return [
+      this.renderHeader(view.gameState, width),
+      ...this.row([
+        this.panel('Resources', this.resourceLines(view.gameState), third, TOP_PANEL_HEIGHT),
+        this.panel('Home Fleet', this.homeFleetLines(view.gameState.player.fleet.homeSystem), third, TOP_PANEL_HEIGHT),
+        this.panel('Intelligence', this.intelligenceLines(view.intelligence, view.gameState.turn, width - 2 * third - 4), width - 2 * third, TOP_PANEL_HEIGHT)
+      ]),
+      ...this.row([
+        this.panel('In Transit', this.transitLines(view.gameState, middleSplit - 4), middleSplit, middleHeight),
+        this.panel('Construction', this.constructionLines(view.construction), width - middleSplit, middleHeight)
+      ]),
+      ...this.row([
+        this.panel('Combat Log', this.combatLogLines(view.gameState.combatLog, view.gameState.sides.ai.name, bottomHeight - 2), middleSplit, bottomHeight),
+        this.panel('Messages', this.messageLines(view.messages, bottomHeight - 2, width - middleSplit - 4), width - middleSplit, bottomHeight)
+      ])
+    ];
+  }
+
+  /**
+   * Title bar with the turn and phase
+   */
+  private renderHeader(gameState: DuelView, width: number): string {
+    const title = ` BURN RATE  Turn ${gameState.turn}  Phase ${gameState.gamePhase.toUpperCase()}`;
+    const hint = 'Tab completes, "help" lists commands ';
+    const gap = Math.max(1, width - title.length - hint.length);
+    return this.colorManager.colorize(fit(title + ' '.repeat(gap) + hint, width), 'player');
+  }
+
+  private resourceLines(gameState: DuelView): PanelLine[] {
+    const { resources, economy } = gameState.player;
+    const lines: PanelLine[] = [
+      `Metal  ${formatNumber(resources.metal).padStart(9)} ${formatIncome(resources.metalIncome)}`,
+      `Energy ${formatNumber(resources.energy).padStart(9)} ${formatIncome(resources.energyIncome)}`,
+      `Reactors ${economy.reactors}  Mines ${economy.mines}`
+    ];
+
+    if (resources.metalIncome <= 0 || resources.energyIncome <= 0) {
+      lines.push({ text: 'Economy stalled!', color: 'defeat' });
+    }
+
+    return lines;
+  }
+
+  private homeFleetLines(fleet: FleetComposition): PanelLine[] {
+    return [
+      { text: `Frigates    ${formatNumber(fleet.frigates).padStart(7)}`, color: 'frigate' },
+      { text: `Cruisers    ${formatNumber(fleet.cruisers).padStart(7)}`, color: 'cruiser' },
+      { text: `Battleships ${formatNumber(fleet.battleships).padStart(7)}`, color: 'battleship' },
+      `Total       ${formatNumber(totalShips(fleet)).padStart(7)}`
+    ];
+  }
+
+  private intelligenceLines(gap: IntelligenceGap, currentTurn: number, width: number): PanelLine[] {
+    if (gap.lastScanTurn === 0) {
+      return ['No scans yet', 'Try "scan basic"'];
+    }
+
+    const age = currentTurn - gap.lastScanTurn;
+    const barWidth = Math.max(5, Math.min(10, width - 17));
+    const filled = Math.round(gap.confidence * barWidth);
+    const color: keyof ColorTheme = gap.confidence >= 0.7 ? 'victory' : gap.confidence >= 0.4 ? 'neutral' : 'defeat';
+    const fleet = gap.lastKnownFleet;
+
+    return [
+      `Last scan Turn ${gap.lastScanTurn} (${age === 0 ? 'this turn' : `${age} ago`})`,
+      { text: `Confidence ${`${Math.round(gap.confidence * 100)}%`.padStart(4)} ${'#'.repeat(filled)}${'.'.repeat(barWidth - filled)}`, color },
+      `Enemy ~${formatNumber(fleet.frigates)}F ~${formatNumber(fleet.cruisers)}C ~${formatNumber(fleet.battleships)}B`,
+      ...(gap.estimatedInTransit > 0 ? [`~${formatNumber(gap.estimatedInTransit)} may be in transit`] : [])
+    ];
+  }
+
+  /**
+   * One row per fleet with where it will be each turn: ">" outbound, "X" battle, "<" returning, "H" home
+   */
+  private transitLines(gameState: DuelView, width: number): PanelLine[] {
+    const movements = gameState.player.fleet.inTransit.outbound;
+    if (movements.length === 0) {
+      return ['No fleets in transit'];
+    }
+
+    const turns = Math.max(4, Math.min(TIMELINE_TURNS, width - 30));
+    const lines: PanelLine[] = [
+      `${'Fleet'.padEnd(5)} ${'F/C/B'.padEnd(12)} ${`T${gameState.turn}`.padEnd(turns)} Next`
+    ];
+
+    for (const movement of movements) {
+      const fleet = movement.composition;
+      const ships = `${fleet.frigates}/${fleet.cruisers}/${fleet.battleships}`;
+      lines.push({
+        text: `${`#${movement.id}`.padEnd(5)} ${ships.padEnd(12)} ${timeline(movement, gameState.turn, turns)} ${nextStep(movement, gameState)}`,
+        color: movement.missionType === 'returning' ? 'survivors' : 'player'
+      });
+    }
+
+    lines.push('> outbound  X battle  < returning  H home');
+    return lines;
+  }
+
+  private constructionLines(construction: ConstructionStatus[]): PanelLine[] {
+    if (construction.length === 0) {
+      return ['Queue empty'];
+    }
+
+    return construction.map(status =>
+      `${status.index + 1}. ${status.order.quantity}x ${status.order.unitType} T${status.completionTurn}` +
+      ` -${formatNumber(status.drainPerTurn.metal)}M -${formatNumber(status.drainPerTurn.energy)}E`
+    );
+  }
+
+  /**
+   * The latest battles, newest last, from the player's side
+   */
+  private combatLogLines(combatLog: CombatEvent[], enemy: string, rows: number): PanelLine[] {
+    if (combatLog.length === 0) {
+      return ['No battles yet'];
+    }
+
+    return combatLog.slice(-rows).map(event => {
+      const playerAttacked = event.attacker === 'player';
+      const playerWon = playerAttacked ? event.outcome === 'decisive_attacker' : event.outcome === 'decisive_defender';
+      const playerLost = playerAttacked ? event.outcome === 'decisive_defender' : event.outcome === 'decisive_attacker';
+      const lost = totalShips(playerAttacked ? event.casualties.attacker : event.casualties.defender);
+      const killed = totalShips(playerAttacked ? event.casualties.defender : event.casualties.attacker);
+      const result = playerWon ? 'victory' : playerLost ? 'defeat' : 'close battle';
+
+      return {
+        text: `T${event.turn} ${playerAttacked ? 'You attacked' : `${enemy} attacked`}: ${result}, lost ${formatNumber(lost)}, killed ${formatNumber(killed)}` +
+          (event.attackerRetreated ? ' (attacker retreated)' : ''),
+        color: playerWon ? 'victory' : playerLost ? 'defeat' : 'neutral'
+      };
+    });
+  }
+
+  /**
+   * The latest messages, newest last, wrapped to the panel
+   */
+  private messageLines(messages: DashboardMessage[], rows: number, width: number): PanelLine[] {
+    const lines: PanelLine[] = messages.flatMap(message => message.text.split('\n').flatMap(line => wrap(line, width)).map(text =>
+      message.kind === 'info' ? text : { text, color: message.kind === 'success' ? 'victory' : 'defeat' } as PanelLine
+    ));
+    return lines.slice(-rows);
+  }
+
+  /**
+   * Draws a bordered panel of exactly width columns and height rows
+   */
+  private panel(title: string, lines: PanelLine[], width: number, height: number): string[] {
+    const inner = width - 4;
+    const top = `┌ ${title} ${'─'.repeat(Math.max(0, width - title.length - 4))}┐`;
+    const body = Array.from({ length: height - 2 }, (_, row) => {
+      const line = lines[row];
+      if (line === undefined) {
+        return `│ ${' '.repeat(inner)} │`;
+      }
+      const text = typeof line === 'string' ? fit(line, inner) : this.colorManager.colorize(fit(line.text, inner), line.color);
+      return `│ ${text} │`;
+    });
+
+    return [fit(top, width), ...body, `└${'─'.repeat(width - 2)}┘`];
+  }
+
+  /**
+   * Places panels of the same height side by side
+   */
+  private row(panels: string[][]): string[] {
+    return panels[0].map((_, index) => panels.map(panel => panel[index]).join(''));
+  }
+}
+
+/**
+ * Where a fleet will be on each of the next turns
+ */
+function timeline(movement: FleetMovement, currentTurn: number, turns: number): string {
+  let cells = '';
+
+  for (let turn = currentTurn; turn < currentTurn + turns; turn++) {
+    if (movement.missionType === 'returning') {
+      cells += turn < movement.arrivalTurn ? '<' : turn === movement.arrivalTurn ? 'H' : ' ';
+    } else {
+      cells += turn < movement.arrivalTurn ? '>' :
+        turn === movement.arrivalTurn ? 'X' :
+        turn < movement.returnTurn ? '<' :
+        turn === movement.returnTurn ? 'H' : ' ';
+    }
+  }
+
+  return cells;
+}
+
+function nextStep(movement: FleetMovement, gameState: DuelView): string {
+  const destination = gameState.galaxy.systems[movement.target]?.name ?? movement.target;
+  return movement.missionType === 'returning' ? `home T${movement.arrivalTurn}` : `${destination} T${movement.arrivalTurn}`;
+}
+
+/**
+ * Cuts or pads text to exactly width columns
+ */
+function fit(text: string, width: number): string {
+  const characters = [...text];
+  return characters.length > width
+    ? characters.slice(0, Math.max(0, width - 1)).join('') + '…'
+    : text + ' '.repeat(width - characters.length);
+}
+
+/**
+ * Splits text into lines of at most width columns, breaking between words where it can
+ */
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if ([...candidate].length <= width) {
+      line = candidate;
+    } else {
+      if (line) {
+        lines.push(line);
+      }
+      line = word;
+      while ([...line].length > width) {
+        lines.push([...line].slice(0, width).join(''));
+        line = [...line].slice(width).join('');
+      }
+    }
+  }
+
+  return [...lines, line];
+}
+
+function totalShips(fleet: FleetComposition): number {
+  return fleet.frigates + fleet.cruisers + fleet.battleships;
+}
+
+function formatNumber(num: number): string {
+  return num.toLocaleString();
+}
+
+function formatIncome(income: number): string {
+  return `${income >= 0 ? '+' : ''}${formatNumber(income)}`;
+}
@@ -0,0 +1,50 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, unlinkSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { SaveStorage } from './SaveStorage.js';
+
+/**
+ * Stores each save slot as a JSON file in a directory (default: ~/.burn-rate/saves)
+ */
+export class FileSaveStorage implements SaveStorage {
+  private directory: string;
+
+  constructor(directory: string = join(homedir(), '.burn-rate', 'saves')) {
+    this.directory = directory;
+  }
+
+  public save(slot: string, data: string): void {
+    // Create the directory lazily so merely starting a game never touches the disk
+    mkdirSync(this.directory, { recursive: true });
+    writeFileSync(this.getLocation(slot), data, 'utf8');
+  }
+
+  public load(slot: string): string | null {
+    const location = this.getLocation(slot);
+    if (!existsSync(location)) {
+      return null;
+    }
+    return readFileSync(location, 'utf8');
+  }
+
+  public remove(slot: string): void {
+    const location = this.getLocation(slot);
+    if (existsSync(location)) {
+      unlinkSync(location);
+    }
+  }
+
+  public list(): string[] {
+    if (!existsSync(this.directory)) {
+      return [];
+    }
+    return readdirSync(this.directory)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length))
+      .sort();
+  }
+
+  public getLocation(slot: string): string {
+    return join(this.directory, `${slot}.json`);
+  }
+}
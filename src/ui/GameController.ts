@@ -1,10 +1,15 @@
 import { GameEngine, TurnResult } from '../engine/GameEngine.js';
-import { GameState, FleetComposition } from '../models/GameState.js';
-import { PlayerState, BuildableType, UnitType, StructureType } from '../models/PlayerState.js';
-import { ScanType, SCAN_COSTS } from '../models/Intelligence.js';
+import { BattlePreview } from '../engine/BattleSimulator.js';
+import { createSaveFile, parseSaveFile } from '../engine/SaveFile.js';
+import { PlayerOrder, StandingOrderResult } from '../engine/Orders.js';
+import { Side } from '../engine/GameEvents.js';
+import { FleetComposition } from '../models/GameState.js';
+import { isHotseat, getLivingFactions } from '../models/Sides.js';
 import { Command } from './InputHandler.js';
-import { createStructureBuildOrder, createUnitBuildOrder } from '../models/Economy.js';
-import { UNIT_STATS } from '../models/Fleet.js';
+import { CommandRegistry, CommandContext } from './CommandRegistry.js';
+import { createDefaultRegistry } from './BuiltInCommands.js';
+import { SaveStorage } from './SaveStorage.js';
+import { ReplayRecorder } from './Replay.js';
 
 export interface CommandExecutionResult {
   success: boolean;
@@ -16,275 +21,144 @@ export class GameController {
   private gameEngine: GameEngine;
   private pendingPlayerActions: Command[] = [];
   private lastTurnResult: TurnResult | null = null;
-
-  constructor(gameEngine: GameEngine) {
+  private lastBattlePreview: BattlePreview | null = null;
+  private lastStandingOrderResults: Record<Side, StandingOrderResult[]> = {};
+  private activeSide: Side; // in a hotseat game each human-played faction moves in seat order
+  private saveStorage: SaveStorage | null;
+  private replayRecorder: ReplayRecorder;
+  private commandRegistry: CommandRegistry;
+  private commandContext: CommandContext;
+
+  constructor(gameEngine: GameEngine, saveStorage?: SaveStorage, commandRegistry: CommandRegistry = createDefaultRegistry()) {
     this.gameEngine = gameEngine;
+    this.activeSide = this.getHumanSides()[0] ?? 'player';
+    this.saveStorage = saveStorage || null;
+    this.replayRecorder = new ReplayRecorder(gameEngine);
+    this.commandRegistry = commandRegistry;
+    this.commandContext = {
+      gameEngine,
+      getSide: () => this.activeSide,
+      executeOrder: (command, order) => this.executeOrder(command, order),
+      simulateAttack: (attackFleet, retreatThreshold, target) => this.executeSimulateCommand(attackFleet, retreatThreshold, target),
+      endTurn: () => this.executeEndTurn(),
+      saveGame: slot => this.executeSaveCommand(slot),
+      loadGame: slot => this.executeLoadCommand(slot)
+    };
   }
 
   /**
    * Executes a player command and returns the result
    */
   public executeCommand(command: Command): CommandExecutionResult {
-    try {
-      switch (command.type) {
-        case 'build':
-          return this.executeBuildCommand(command);
-        
-        case 'attack':
-          return this.executeAttackCommand(command);
-        
-        case 'scan':
-          return this.executeScanCommand(command);
-        
-        case 'status':
-        case 'help':
-          // These are display-only commands, no game state change
-          return {
-            success: true,
-            message: 'Information displayed',
-            gameStateChanged: false
-          };
-        
-        case 'end_turn':
-          return this.executeEndTurn();
-        
-        default:
-          return {
-            success: false,
-            message: `Unknown command type: ${command.type}`,
-            gameStateChanged: false
-          };
-      }
-    } catch (error) {
-      return {
-        success: false,
-        message: `Command execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        gameStateChanged: false
-      };
+    const side = this.activeSide;
+    const result = this.dispatchCommand(command);
+    if (result.success) {
+      this.replayRecorder.recordCommand(command, side);
     }
+    return result;
   }
 
   /**
-   * Executes a build command
+   * Routes a command to the registered command that executes it
    */
-  private executeBuildCommand(command: Command): CommandExecutionResult {
-    if (!command.buildType || !command.quantity) {
-      return {
-        success: false,
-        message: 'Invalid build command: missing build type or quantity',
-        gameStateChanged: false
-      };
-    }
-
-    const gameState = this.gameEngine.getGameState();
-    const player = gameState.player;
-    
-    // Calculate costs
-    const costs = this.getBuildCosts(command.buildType);
-    const totalMetalCost = costs.metal * command.quantity;
-    const totalEnergyCost = costs.energy * command.quantity;
-
-    // Validate resources
-    if (player.resources.metal < totalMetalCost) {
-      return {
-        success: false,
-        message: `Insufficient metal. Need: ${totalMetalCost.toLocaleString()}, Have: ${player.resources.metal.toLocaleString()}`,
-        gameStateChanged: false
-      };
-    }
-
-    if (player.resources.energy < totalEnergyCost) {
+  private dispatchCommand(command: Command): CommandExecutionResult {
+    const definition = this.commandRegistry.getByType(command.type);
+    if (!definition) {
       return {
         success: false,
-        message: `Insufficient energy. Need: ${totalEnergyCost.toLocaleString()}, Have: ${player.resources.energy.toLocaleString()}`,
+        message: `Unknown command type: ${command.type}`,
         gameStateChanged: false
       };
     }
 
-    // Create build order
-    let buildOrder;
     try {
-      if (command.buildType === 'reactor' || command.buildType === 'mine') {
-        // Structure build order
-        const currentCount = command.buildType === 'reactor' ? 
-          player.economy.reactors : 
-          player.economy.mines;
-        
-        buildOrder = createStructureBuildOrder(command.buildType, command.quantity, currentCount);
-      } else {
-        // Unit build order
-        const unitStats = UNIT_STATS[command.buildType as UnitType];
-        buildOrder = createUnitBuildOrder(command.buildType as UnitType, command.quantity, unitStats);
-      }
+      return definition.execute(command, this.commandContext);
     } catch (error) {
       return {
         success: false,
-        message: `Failed to create build order: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        message: `Command execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         gameStateChanged: false
       };
     }
+  }
 
-    // Deduct resources immediately
-    player.resources.metal -= totalMetalCost;
-    player.resources.energy -= totalEnergyCost;
-
-    // Add to construction queue
-    player.economy.constructionQueue.push(buildOrder);
+  /**
+   * Executes a simulate command. It changes nothing; the preview is kept for the frontend to show.
+   */
+  private executeSimulateCommand(attackFleet: FleetComposition, retreatThreshold?: number, target?: string): CommandExecutionResult {
+    const result = this.gameEngine.previewAttack(attackFleet, { retreatThreshold }, this.activeSide, target);
+    this.lastBattlePreview = result.preview ?? null;
 
-    // Add to pending actions for turn processing
-    this.pendingPlayerActions.push(command);
+    if (!result.preview) {
+      return { success: false, message: result.errors.join('\n'), gameStateChanged: false };
+    }
 
-    const itemName = command.buildType;
+    const victory = Math.round(result.preview.outcomes.decisive_attacker * 100);
     return {
       success: true,
-      message: `Started building ${command.quantity} ${itemName}(s). Cost: ${totalMetalCost} Metal, ${totalEnergyCost} Energy`,
-      gameStateChanged: true
+      message: `Simulated ${result.preview.trials.toLocaleString()} battles: ${victory}% decisive victory`,
+      gameStateChanged: false
     };
   }
 
   /**
-   * Executes an attack command
+   * Hands an order to the engine, which validates and applies it
    */
-  private executeAttackCommand(command: Command): CommandExecutionResult {
-    if (!command.attackFleet || !command.target) {
-      return {
-        success: false,
-        message: 'Invalid attack command: missing fleet composition or target',
-        gameStateChanged: false
-      };
-    }
-
-    const gameState = this.gameEngine.getGameState();
-    const playerFleet = gameState.player.fleet.homeSystem;
-    const attackFleet = command.attackFleet;
-
-    // Validate fleet availability
-    if (playerFleet.frigates < attackFleet.frigates) {
-      return {
-        success: false,
-        message: `Insufficient frigates. Need: ${attackFleet.frigates}, Have: ${playerFleet.frigates}`,
-        gameStateChanged: false
-      };
-    }
-
-    if (playerFleet.cruisers < attackFleet.cruisers) {
-      return {
-        success: false,
-        message: `Insufficient cruisers. Need: ${attackFleet.cruisers}, Have: ${playerFleet.cruisers}`,
-        gameStateChanged: false
-      };
-    }
+  private executeOrder(command: Command, order: PlayerOrder): CommandExecutionResult {
+    const result = this.gameEngine.applyOrder(order, this.activeSide);
 
-    if (playerFleet.battleships < attackFleet.battleships) {
-      return {
-        success: false,
-        message: `Insufficient battleships. Need: ${attackFleet.battleships}, Have: ${playerFleet.battleships}`,
-        gameStateChanged: false
-      };
+    if (result.success) {
+      // Track the order so saving can be refused mid-turn
+      this.pendingPlayerActions.push(command);
     }
 
-    // Deduct fleet from home system
-    playerFleet.frigates -= attackFleet.frigates;
-    playerFleet.cruisers -= attackFleet.cruisers;
-    playerFleet.battleships -= attackFleet.battleships;
-
-    // Create fleet movement
-    const movement = {
-      composition: attackFleet,
-      target: command.target,
-      arrivalTurn: gameState.turn + 1, // Arrives next turn
-      returnTurn: gameState.turn + 3,   // Returns in 3 turns
-      missionType: 'outbound' as const
-    };
-
-    // Add to outbound movements
-    gameState.player.fleet.inTransit.outbound.push(movement);
-
-    // Add to pending actions for turn processing
-    this.pendingPlayerActions.push(command);
-
-    const totalShips = attackFleet.frigates + attackFleet.cruisers + attackFleet.battleships;
     return {
-      success: true,
-      message: `Fleet launched! ${totalShips} ships en route to ${command.target}. Arrival: Turn ${movement.arrivalTurn}, Return: Turn ${movement.returnTurn}`,
-      gameStateChanged: true
+      success: result.success,
+      message: result.message,
+      gameStateChanged: result.success
     };
   }
 
   /**
-   * Executes a scan command
+   * Executes end turn command. In a hotseat game each side's end of turn hands the next
+   * human-played side its move, and the turn is played once the last of them ends it too.
    */
-  private executeScanCommand(command: Command): CommandExecutionResult {
-    if (!command.scanType) {
-      return {
-        success: false,
-        message: 'Invalid scan command: missing scan type',
-        gameStateChanged: false
-      };
-    }
-
-    const gameState = this.gameEngine.getGameState();
-    const player = gameState.player;
-    const cost = SCAN_COSTS[command.scanType];
-
-    // Validate energy cost
-    if (player.resources.energy < cost.energy) {
-      return {
-        success: false,
-        message: `Insufficient energy for ${command.scanType} scan. Need: ${cost.energy}, Have: ${player.resources.energy}`,
-        gameStateChanged: false
-      };
-    }
-
-    // Deduct energy cost
-    player.resources.energy -= cost.energy;
-
-    // Perform the scan using the intelligence engine
-    try {
-      // Get the intelligence engine from the game engine (we'll need to expose this)
-      // For now, we'll simulate the scan result
-      const scanResult = this.performScan(command.scanType, gameState);
-      
-      // Update player intelligence
-      player.intelligence.lastScanTurn = gameState.turn;
-      if (scanResult.fleetData) {
-        player.intelligence.knownEnemyFleet = {
-          frigates: scanResult.fleetData.frigates || 0,
-          cruisers: scanResult.fleetData.cruisers || 0,
-          battleships: scanResult.fleetData.battleships || 0
-        };
-      }
-
-      // Add to pending actions for turn processing
-      this.pendingPlayerActions.push(command);
-
+  private executeEndTurn(): CommandExecutionResult {
+    const sides = this.gameEngine.getGameState().sides;
+    const humanSides = this.getHumanSides();
+    const nextSide = humanSides[humanSides.indexOf(this.activeSide) + 1];
+    if (nextSide !== undefined) {
+      const endedSide = this.activeSide;
+      this.activeSide = nextSide;
       return {
         success: true,
-        message: this.formatScanResult(command.scanType, scanResult),
-        gameStateChanged: true
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Scan failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        message: `${sides[endedSide].name} has ended the turn. ${sides[nextSide].name} to move.`,
         gameStateChanged: false
       };
     }
-  }
 
-  /**
-   * Executes end turn command
-   */
-  private executeEndTurn(): CommandExecutionResult {
     try {
       // Process the turn with all pending actions
-      const turnResult = this.gameEngine.processTurn(this.pendingPlayerActions);
+      const turn = this.gameEngine.getCurrentTurn();
+      // Pending orders were applied as they were given, so none are passed here
+      const turnResult = this.gameEngine.processTurn();
       
       // Store the turn result for display
       this.lastTurnResult = turnResult;
+
+      if (turnResult.success) {
+        this.replayRecorder.recordTurnEnd(turn, turnResult.aiDecisions.ai);
+      }
+
+      // Standing orders are given at the start of the new turn, for each side a human plays
+      const startNewTurn = turnResult.success && !turnResult.gameEnded;
+      this.lastStandingOrderResults = Object.fromEntries(this.getHumanSides().map(side =>
+        [side, startNewTurn ? this.gameEngine.applyStandingOrders(side) : []]
+      ));
       
       // Clear pending actions
       this.pendingPlayerActions = [];
+      this.activeSide = this.getHumanSides()[0] ?? this.activeSide;
 
       if (turnResult.success) {
         let message = `Turn ${this.gameEngine.getCurrentTurn() - 1} completed.`;
@@ -293,8 +167,16 @@ export class GameController {
           message += ` ${turnResult.combatEvents.length} combat event(s) occurred.`;
         }
         
-        if (turnResult.gameEnded) {
-          message += ` Game Over! Winner: ${turnResult.winner}`;
+        if (turnResult.gameEnded && turnResult.winner) {
+          message += ` Game Over! Winner: ${sides[turnResult.winner].name}`;
+        }
+
+        // In a hotseat game each side hears about its own standing orders when it next moves
+        const standingOrderResults = isHotseat(this.gameEngine.getGameState()) ? [] : this.getLastStandingOrderResults();
+        const skipped = standingOrderResults.filter(result => !result.success).length;
+        if (standingOrderResults.length > 0) {
+          message += ` ${standingOrderResults.length - skipped} standing order(s) given`;
+          message += skipped > 0 ? `, ${skipped} skipped.` : '.';
         }
 
         return {
@@ -319,112 +201,102 @@ export class GameController {
   }
 
   /**
-   * Performs a scan and returns the result
+   * Executes a save command, writing the whole running game to a slot
    */
-  private performScan(scanType: ScanType, gameState: GameState): any {
-    const aiFleet = gameState.ai.fleet.homeSystem;
-    const totalShips = aiFleet.frigates + aiFleet.cruisers + aiFleet.battleships;
-
-    switch (scanType) {
-      case 'basic':
-        // Basic scan: total fleet count with ±30% accuracy
-        const accuracy = 0.7 + (Math.random() - 0.5) * 0.6; // 0.4 to 1.0
-        const reportedTotal = Math.max(0, Math.round(totalShips * accuracy));
-        return {
-          scanType: 'basic',
-          fleetData: {
-            frigates: reportedTotal,
-            cruisers: 0,
-            battleships: 0
-          },
-          message: `Enemy fleet detected: approximately ${reportedTotal} ships`
-        };
-
-      case 'deep':
-        // Deep scan: unit composition with ±10% accuracy
-        const applyAccuracy = (value: number): number => {
-          const factor = 0.9 + Math.random() * 0.2; // 0.9 to 1.1
-          return Math.max(0, Math.round(value * factor));
-        };
-        
-        return {
-          scanType: 'deep',
-          fleetData: {
-            frigates: applyAccuracy(aiFleet.frigates),
-            cruisers: applyAccuracy(aiFleet.cruisers),
-            battleships: applyAccuracy(aiFleet.battleships)
-          },
-          economicData: {
-            reactors: gameState.ai.economy.reactors,
-            mines: gameState.ai.economy.mines
-          },
-          message: `Detailed scan complete: ${applyAccuracy(aiFleet.frigates)} Frigates, ${applyAccuracy(aiFleet.cruisers)} Cruisers, ${applyAccuracy(aiFleet.battleships)} Battleships. Economic structures: ${gameState.ai.economy.reactors} Reactors, ${gameState.ai.economy.mines} Mines`
-        };
+  private executeSaveCommand(slot: string): CommandExecutionResult {
+    if (!this.saveStorage) {
+      return {
+        success: false,
+        message: 'Saving is not available in this interface',
+        gameStateChanged: false
+      };
+    }
 
-      case 'advanced':
-        // Advanced scan: strategic intent
-        const intent = this.determineAIIntent(gameState);
-        return {
-          scanType: 'advanced',
-          fleetData: {
-            frigates: Math.floor(totalShips * 0.5),
-            cruisers: Math.floor(totalShips * 0.3),
-            battleships: Math.floor(totalShips * 0.2)
-          },
-          strategicIntent: intent,
-          message: `Advanced scan reveals: ${intent}. Estimated fleet composition provided.`
-        };
+    if (this.pendingPlayerActions.length > 0 || this.activeSide !== this.getHumanSides()[0]) {
+      return {
+        success: false,
+        message: 'Cannot save with orders pending this turn. End the turn first, then save.',
+        gameStateChanged: false
+      };
+    }
 
-      default:
-        throw new Error(`Unknown scan type: ${scanType}`);
+    try {
+      this.saveStorage.save(slot, JSON.stringify(createSaveFile(this.gameEngine), null, 2));
+    } catch (error) {
+      return {
+        success: false,
+        message: `Save failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        gameStateChanged: false
+      };
     }
+
+    return {
+      success: true,
+      message: `Game saved to slot "${slot}" (${this.saveStorage.getLocation(slot)})`,
+      gameStateChanged: false
+    };
   }
 
   /**
-   * Determines AI strategic intent for advanced scans
+   * Executes a load command, replacing the running game with a saved one
    */
-  private determineAIIntent(gameState: GameState): string {
-    const aiFleet = gameState.ai.fleet.homeSystem;
-    const totalShips = aiFleet.frigates + aiFleet.cruisers + aiFleet.battleships;
-    const aiIncome = gameState.ai.resources.metalIncome + gameState.ai.resources.energyIncome;
-    const structures = gameState.ai.economy.reactors + gameState.ai.economy.mines;
-
-    if (totalShips > 100) {
-      return "AI is preparing for major offensive operations";
-    } else if (structures > 3) {
-      return "AI is focusing on economic expansion";
-    } else if (aiIncome > 25000) {
-      return "AI has strong economic foundation, likely planning military buildup";
-    } else if (totalShips < 20) {
-      return "AI appears to be in defensive posture";
-    } else {
-      return "AI strategy unclear - balanced military and economic development";
+  private executeLoadCommand(slot: string): CommandExecutionResult {
+    if (!this.saveStorage) {
+      return {
+        success: false,
+        message: 'Loading is not available in this interface',
+        gameStateChanged: false
+      };
     }
-  }
 
-  /**
-   * Formats scan results for display
-   */
-  private formatScanResult(scanType: ScanType, result: any): string {
-    return result.message || `${scanType} scan completed`;
-  }
+    const data = this.saveStorage.load(slot);
+    if (data === null) {
+      const available = this.saveStorage.list();
+      return {
+        success: false,
+        message: `No save found in slot "${slot}".` +
+          (available.length > 0 ? ` Available slots: ${available.join(', ')}` : ''),
+        gameStateChanged: false
+      };
+    }
 
-  /**
-   * Gets build costs for different unit/structure types
-   */
-  private getBuildCosts(buildType: BuildableType): { metal: number; energy: number } {
-    const costs = {
-      // Units (construction costs)
-      frigate: { metal: 4, energy: 2 },
-      cruiser: { metal: 10, energy: 6 },
-      battleship: { metal: 20, energy: 12 },
-      
-      // Structures
-      reactor: { metal: 900, energy: 1200 },
-      mine: { metal: 1500, energy: 600 }
-    };
+    const saveFile = parseSaveFile(data);
+    if (!saveFile.success || !saveFile.snapshot) {
+      return {
+        success: false,
+        message: `Save in slot "${slot}" is invalid:\n  ${saveFile.errors.join('\n  ')}`,
+        gameStateChanged: false
+      };
+    }
 
-    return costs[buildType];
+    try {
+      this.gameEngine.restore(saveFile.snapshot);
+    } catch (error) {
+      return {
+        success: false,
+        message: `Load failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        gameStateChanged: false
+      };
+    }
+
+    // Orders and results from the abandoned game no longer apply
+    this.pendingPlayerActions = [];
+    this.lastTurnResult = null;
+    this.lastBattlePreview = null;
+    this.lastStandingOrderResults = {};
+    this.activeSide = this.getHumanSides()[0] ?? 'player';
+    this.replayRecorder.restart(this.gameEngine);
+
+    let message = `Game loaded from slot "${slot}" (turn ${this.gameEngine.getCurrentTurn()})`;
+    if (saveFile.warnings.length > 0) {
+      message += `\n  ${saveFile.warnings.join('\n  ')}`;
+    }
+
+    return {
+      success: true,
+      message,
+      gameStateChanged: true
+    };
   }
 
   /**
@@ -448,6 +320,43 @@ export class GameController {
     return this.lastTurnResult;
   }
 
+  /**
+   * Gets what a side's standing orders did at the start of the current turn
+   */
+  public getLastStandingOrderResults(side: Side = this.activeSide): StandingOrderResult[] {
+    return [...(this.lastStandingOrderResults[side] ?? [])];
+  }
+
+  /**
+   * Gets the side whose commands are being taken: the first human-played faction, or a later one
+   * while it moves in a hotseat game
+   */
+  public getActiveSide(): Side {
+    return this.activeSide;
+  }
+
+  /**
+   * Gets the human-played factions still in the game, in the seat order they move in
+   */
+  public getHumanSides(): Side[] {
+    const gameState = this.gameEngine.getGameState();
+    return getLivingFactions(gameState).filter(side => gameState.sides[side].controller === 'human');
+  }
+
+  /**
+   * Gets the preview from the last successful simulate command
+   */
+  public getLastBattlePreview(): BattlePreview | null {
+    return this.lastBattlePreview;
+  }
+
+  /**
+   * Gets the recorder that captures this game for replays
+   */
+  public getReplayRecorder(): ReplayRecorder {
+    return this.replayRecorder;
+  }
+
   /**
    * Gets the game engine instance
    */
@@ -1,8 +1,21 @@
-import { GameState, FleetComposition, CombatEvent } from '../models/GameState.js';
-import { PlayerState } from '../models/PlayerState.js';
+import { FleetComposition, CombatEvent, CombatRound } from '../models/GameState.js';
+import { PlayerState, FleetMovement, StandingOrder } from '../models/PlayerState.js';
 import { TurnResult } from '../engine/GameEngine.js';
+import { ConstructionStatus, EconomicForecast } from '../engine/EconomyEngine.js';
+import { BattlePreview } from '../engine/BattleSimulator.js';
+import { GameEvent, Side } from '../engine/GameEvents.js';
+import { StandingOrderResult } from '../engine/Orders.js';
 import { ColorManager } from './ColorManager.js';
 import { TacticalAnalyzer } from './TacticalAnalyzer.js';
+import { canRecallFleet, getTotalFleetSize } from '../models/Fleet.js';
+import { getTotalShips, getStatisticsTotals, findLeadLostTurn } from '../models/Statistics.js';
+import { isHotseat, DuelView } from '../models/Sides.js';
+import { GalaxyMap, getHomeSystem, getDistance, getColonies, getColonyIncome } from '../models/Galaxy.js';
+import { CommandRegistry } from './CommandRegistry.js';
+import { HistoryChart, PlayerHistory, detectUnicodeSupport } from './HistoryChart.js';
+
+/** Turns listed under RECENT TURNS in the status view */
+const RECENT_TURNS_SHOWN = 5;
 
 export interface CLIConfig {
   showDebugInfo?: boolean;
@@ -14,12 +27,16 @@ export interface CLIConfig {
     detailedCasualties?: boolean;
     useEnhancedFormatting?: boolean;
   };
+  aliasFile?: string; // command aliases to load instead of ~/.burn-rate/aliases.json
+  tui?: boolean; // full-screen dashboard instead of scrolling output
+  unicode?: boolean; // draw charts with Unicode blocks; detected from the locale when not set
 }
 
 export class GameDisplay {
   private config: CLIConfig;
   private colorManager: ColorManager;
   private tacticalAnalyzer: TacticalAnalyzer;
+  private historyChart: HistoryChart;
 
   constructor(config: CLIConfig = {}) {
     this.config = {
@@ -35,27 +52,32 @@ export class GameDisplay {
     };
     this.colorManager = new ColorManager(config.useColors !== false);
     this.tacticalAnalyzer = new TacticalAnalyzer();
+    this.historyChart = new HistoryChart(this.colorManager, config.unicode ?? detectUnicodeSupport());
   }
 
   /**
    * Displays the main game state information
    */
-  public displayGameState(gameState: GameState): void {
+  public displayGameState(gameState: Pick<DuelView, 'turn' | 'gamePhase' | 'sides' | 'galaxy' | 'player'>): void {
     console.log('\n' + '='.repeat(60));
-    console.log(`TURN ${gameState.turn} | PHASE: ${gameState.gamePhase.toUpperCase()}`);
+    const mover = isHotseat(gameState) ? ` | ${gameState.sides.player.name.toUpperCase()} TO MOVE` : '';
+    console.log(`TURN ${gameState.turn} | PHASE: ${gameState.gamePhase.toUpperCase()}${mover}`);
     console.log('='.repeat(60));
 
     // Display player resources and income
     this.displayPlayerResources(gameState.player);
     
     // Display fleet information
-    this.displayFleetStatus(gameState.player);
+    this.displayFleetStatus(gameState.player, gameState.galaxy, gameState.turn);
+
+    // Display the systems and who holds them
+    this.displayStarMap(gameState);
     
     // Display construction queue
     this.displayConstructionQueue(gameState.player);
     
     // Display intelligence information
-    this.displayIntelligence(gameState.player);
+    this.displayIntelligence(gameState.player, gameState.sides);
     
     console.log('-'.repeat(60));
   }
@@ -81,7 +103,7 @@ export class GameDisplay {
   /**
    * Displays fleet status including home and in-transit fleets
    */
-  private displayFleetStatus(player: PlayerState): void {
+  private displayFleetStatus(player: PlayerState, galaxy: GalaxyMap, currentTurn: number): void {
     const homeFleet = player.fleet.homeSystem;
     const totalHome = homeFleet.frigates + homeFleet.cruisers + homeFleet.battleships;
     
@@ -95,14 +117,38 @@ export class GameDisplay {
     const inTransit = player.fleet.inTransit.outbound;
     if (inTransit.length > 0) {
       console.log('\nFLEETS IN TRANSIT:');
-      inTransit.forEach((movement, index) => {
+      inTransit.forEach(movement => {
         const totalShips = movement.composition.frigates + movement.composition.cruisers + movement.composition.battleships;
-        const status = this.getFleetMovementStatus(movement);
-        console.log(`  Fleet ${index + 1}: ${totalShips} ships - ${status}`);
+        const status = this.getFleetMovementStatus(movement, galaxy, currentTurn);
+        console.log(`  Fleet ${movement.id}: ${totalShips} ships - ${status}`);
       });
     }
   }
 
+  /**
+   * Displays every system with its owner, what it pays and how far it is from home
+   */
+  private displayStarMap(gameState: Pick<DuelView, 'sides' | 'galaxy'>): void {
+    const galaxy = gameState.galaxy;
+    const home = getHomeSystem(galaxy, 'player');
+    const colonies = getColonies(galaxy, 'player');
+
+    console.log('\nSTAR MAP:');
+    for (const [id, system] of Object.entries(galaxy.systems)) {
+      const owner = system.owner === undefined
+        ? 'unclaimed'
+        : gameState.sides[system.owner as keyof DuelView['sides']]?.name ?? system.owner;
+      const role = system.home ? `${owner}'s home` : owner;
+      const income = system.home ? '' : ` | +${this.formatNumber(system.income.metal)} metal, +${this.formatNumber(system.income.energy)} energy`;
+      const distance = id === home ? 'home' : `distance ${getDistance(galaxy, home, id)}`;
+      console.log(`  ${system.name.padEnd(10)} ${role}${income} | ${distance}`);
+    }
+    if (colonies.length > 0) {
+      const income = getColonyIncome(galaxy, 'player');
+      console.log(`Colonies held: ${colonies.length} (+${this.formatNumber(income.metal)} Metal, +${this.formatNumber(income.energy)} Energy/turn)`);
+    }
+  }
+
   /**
    * Displays construction queue
    */
@@ -133,7 +179,7 @@ export class GameDisplay {
   /**
    * Displays intelligence information
    */
-  private displayIntelligence(player: PlayerState): void {
+  private displayIntelligence(player: PlayerState, sides: DuelView['sides']): void {
     const intel = player.intelligence;
     
     if (intel.lastScanTurn > 0) {
@@ -145,7 +191,9 @@ export class GameDisplay {
       const totalKnown = knownFleet.frigates + knownFleet.cruisers + knownFleet.battleships;
       
       if (totalKnown > 0) {
-        console.log(`Known enemy fleet (~${this.formatNumber(totalKnown)} ships):`);
+        const scanned = intel.scannedFaction;
+        const whose = scanned === undefined ? 'enemy fleet' : `fleet of ${sides[scanned as keyof DuelView['sides']]?.name ?? scanned}`;
+        console.log(`Known ${whose} (~${this.formatNumber(totalKnown)} ships):`);
         console.log(`  Frigates:    ~${this.formatNumber(knownFleet.frigates)}`);
         console.log(`  Cruisers:    ~${this.formatNumber(knownFleet.cruisers)}`);
         console.log(`  Battleships: ~${this.formatNumber(knownFleet.battleships)}`);
@@ -162,7 +210,7 @@ export class GameDisplay {
   /**
    * Displays detailed game status
    */
-  public displayDetailedStatus(gameState: GameState, stats: any): void {
+  public displayDetailedStatus(gameState: DuelView, stats: any): void {
     console.log('\n' + '='.repeat(60));
     console.log('DETAILED GAME STATUS');
     console.log('='.repeat(60));
@@ -172,51 +220,252 @@ export class GameDisplay {
     console.log(`Phase: ${gameState.gamePhase}`);
     console.log(`Combat Events: ${stats.combatEvents}`);
     
-    // Player vs AI comparison
-    console.log('\nPLAYER vs AI COMPARISON:');
-    console.log('                    Player      AI');
-    console.log(`Fleet Size:         ${this.padNumber(stats.playerStats.totalFleetSize)}      ${stats.aiStats.totalFleetSize}`);
-    console.log(`Metal Income:       ${this.padNumber(stats.playerStats.netIncome.metal)}      ${stats.aiStats.netIncome.metal}`);
-    console.log(`Energy Income:      ${this.padNumber(stats.playerStats.netIncome.energy)}      ${stats.aiStats.netIncome.energy}`);
-    console.log(`Structures:         ${this.padNumber(stats.playerStats.economicStructures)}      ${stats.aiStats.economicStructures}`);
+    // Both sides compared, except in a hotseat game where the opponent's position is only known from scans
+    const { player, ai } = gameState.sides;
+    if (isHotseat(gameState)) {
+      console.log(`\n${player.name.toUpperCase()}'S POSITION:`);
+      console.log(`Fleet Size:         ${this.padNumber(stats.playerStats.totalFleetSize)}`);
+      console.log(`Metal Income:       ${this.padNumber(stats.playerStats.netIncome.metal)}`);
+      console.log(`Energy Income:      ${this.padNumber(stats.playerStats.netIncome.energy)}`);
+      console.log(`Structures:         ${this.padNumber(stats.playerStats.economicStructures)}`);
+    } else {
+      console.log(`\n${player.name.toUpperCase()} vs ${ai.name.toUpperCase()} COMPARISON:`);
+      console.log(`                    ${player.name.padEnd(12)}${ai.name}`);
+      console.log(`Fleet Size:         ${this.padNumber(stats.playerStats.totalFleetSize)}      ${stats.aiStats.totalFleetSize}`);
+      console.log(`Metal Income:       ${this.padNumber(stats.playerStats.netIncome.metal)}      ${stats.aiStats.netIncome.metal}`);
+      console.log(`Energy Income:      ${this.padNumber(stats.playerStats.netIncome.energy)}      ${stats.aiStats.netIncome.energy}`);
+      console.log(`Structures:         ${this.padNumber(stats.playerStats.economicStructures)}      ${stats.aiStats.economicStructures}`);
+    }
+    
+    this.displayRecentTurns(gameState);
+
+    if ((gameState.history ?? []).length > 0) {
+      console.log('\nTRENDS:');
+      this.historyChart.renderTrends(gameState.history, this.getTerminalWidth() - 2).forEach(line => console.log(`  ${line}`));
+    }
     
     // Recent combat log
     if (gameState.combatLog.length > 0) {
       console.log('\nRECENT COMBAT:');
       const recentCombat = gameState.combatLog.slice(-3); // Last 3 combat events
       recentCombat.forEach((event, index) => {
-        console.log(`  Turn ${event.turn}: ${event.attacker.toUpperCase()} attacked - ${event.outcome}`);
+        console.log(`  Turn ${event.turn}: ${gameState.sides[event.attacker].name.toUpperCase()} attacked - ${event.outcome}`);
+      });
+    }
+  }
+
+  /**
+   * Displays how both sides have moved over the last few turns, and when the player fell behind.
+   * A hotseat game shows only the player's own side.
+   */
+  private displayRecentTurns(gameState: DuelView): void {
+    const history = gameState.history ?? [];
+    if (history.length === 0) {
+      return;
+    }
+
+    if (isHotseat(gameState)) {
+      console.log('\nRECENT TURNS:        Ships    Metal Income    Lost/Killed');
+      history.slice(-RECENT_TURNS_SHOWN).forEach(turn => {
+        const losses = `${this.formatNumber(getTotalFleetSize(turn.player.shipsLost))} / ${this.formatNumber(getTotalFleetSize(turn.player.shipsKilled))}`;
+        console.log(`  Turn ${turn.turn.toString().padEnd(4)}          ${this.formatNumber(getTotalShips(turn.player)).padEnd(9)}${this.formatNumber(turn.player.netIncome.metal).padEnd(16)}${losses}`);
       });
+      return;
+    }
+
+    const enemy = gameState.sides.ai.name;
+    console.log(`\nRECENT TURNS:        Ships (You/${enemy})    Metal Income (You/${enemy})    Lost/Killed`);
+    history.slice(-RECENT_TURNS_SHOWN).forEach(turn => {
+      const ships = `${this.formatNumber(getTotalShips(turn.player))} / ${this.formatNumber(getTotalShips(turn.ai))}`;
+      const income = `${this.formatNumber(turn.player.netIncome.metal)} / ${this.formatNumber(turn.ai.netIncome.metal)}`;
+      const losses = `${this.formatNumber(getTotalFleetSize(turn.player.shipsLost))} / ${this.formatNumber(getTotalFleetSize(turn.player.shipsKilled))}`;
+      console.log(`  Turn ${turn.turn.toString().padEnd(4)}          ${ships.padEnd(18)}${income.padEnd(25)}${losses}`);
+    });
+
+    const leadLostTurn = findLeadLostTurn(history);
+    if (leadLostTurn !== null) {
+      console.log(`  ⚠️  You have had fewer ships than ${this.getEnemyName(gameState)} since Turn ${leadLostTurn}`);
     }
   }
 
   /**
-   * Displays help information
+   * Charts the game so far turn by turn: stockpiles, net income, home fleet and losses
    */
-  public displayHelp(): void {
+  public displayHistory(gameState: { history: PlayerHistory }): void {
+    const width = this.getTerminalWidth() - 2;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('GAME HISTORY');
+    console.log('='.repeat(60));
+    this.historyChart.renderTrends(gameState.history ?? [], width).forEach(line => console.log(`  ${line}`));
+
+    console.log('\nLOSSES BY TURN:');
+    this.historyChart.renderLosses(gameState.history ?? [], width).forEach(line => console.log(`  ${line}`));
+  }
+
+  /**
+   * Displays the construction queue with ETA, per-turn drain and cancellation refund for each order
+   */
+  public displayConstructionStatus(status: ConstructionStatus[], currentTurn: number): void {
+    console.log('\nCONSTRUCTION QUEUE:');
+
+    if (status.length === 0) {
+      console.log('  No construction in progress');
+      return;
+    }
+
+    status.forEach(entry => {
+      const order = entry.order;
+      console.log(`  ${entry.index + 1}. ${order.quantity}x ${order.unitType} - ready Turn ${currentTurn + entry.completionTurn}`);
+      console.log(`     Drain: ${this.formatNumber(entry.drainPerTurn.metal)} Metal, ${this.formatNumber(entry.drainPerTurn.energy)} Energy per turn`);
+      console.log(`     Cancel refund: ${this.formatNumber(entry.refund.metal)} Metal, ${this.formatNumber(entry.refund.energy)} Energy`);
+    });
+
+    console.log('\n  "cancel <n>" removes an order, "prioritize <n>" moves it to the front');
+  }
+
+  /**
+   * Displays the player's standing orders and when each is next given
+   */
+  public displayStandingOrders(standingOrders: StandingOrder[]): void {
+    console.log('\nSTANDING ORDERS:');
+
+    if (standingOrders.length === 0) {
+      console.log('  No standing orders');
+      console.log('\n  "standing build <qty> <type> every <n>" or "standing scan <type> every <n>" adds one');
+      return;
+    }
+
+    standingOrders.forEach(standingOrder => {
+      console.log(`  ${standingOrder.id}. ${this.formatStandingOrder(standingOrder)} - next Turn ${standingOrder.nextTurn}`);
+    });
+
+    console.log('\n  "standing cancel <id>" removes a standing order');
+  }
+
+  /**
+   * Displays what the standing orders did at the start of the turn, with the reason for each skipped one
+   */
+  public displayStandingOrderResults(results: StandingOrderResult[], standingOrders: StandingOrder[]): void {
+    if (results.length === 0) {
+      return;
+    }
+
+    console.log('\nSTANDING ORDERS:');
+    for (const result of results) {
+      const standingOrder = standingOrders.find(candidate => candidate.id === result.standingOrderId);
+      const label = `${result.standingOrderId}. ${standingOrder ? this.formatStandingOrder(standingOrder) : result.order.type}`;
+      if (result.success) {
+        console.log(`  ✓ ${label}: ${result.message}`);
+      } else {
+        console.log(this.colorManager.colorize(`  ✗ ${label} skipped: ${result.errors.join('; ')}`, 'neutral'));
+      }
+    }
+  }
+
+  /**
+   * Formats a standing order the way a player would give it
+   */
+  private formatStandingOrder(standingOrder: StandingOrder): string {
+    const order = standingOrder.order;
+    const action = order.type === 'build' ? `build ${order.quantity} ${order.buildType}` : `scan ${order.scanType}${order.target !== undefined ? ` at ${order.target}` : ''}`;
+    return `${action} every ${standingOrder.every === 1 ? 'turn' : `${standingOrder.every} turns`}`;
+  }
+
+  /**
+   * Displays the player's projected stockpiles and income turn by turn, what completes when,
+   * and the turn the economy would collapse if nothing changes
+   */
+  public displayEconomicForecast(forecast: EconomicForecast): void {
+    const signed = (value: number) => `${value >= 0 ? '+' : ''}${this.formatNumber(value)}`;
+
+    console.log(`\nECONOMIC FORECAST (next ${forecast.turns.length} turns, no new orders):`);
+
+    for (const entry of forecast.turns) {
+      const flag = entry.collapsed ? ' ECONOMIC COLLAPSE' : entry.stalled ? ' stalled' : '';
+      console.log(`  Turn ${entry.turn}: ${this.formatNumber(entry.resources.metal)} Metal (${signed(entry.netIncome.metal)}), ` +
+        `${this.formatNumber(entry.resources.energy)} Energy (${signed(entry.netIncome.energy)})${flag}`);
+      if (entry.completed.length > 0) {
+        console.log(`    Completes: ${entry.completed.map(order => `${order.quantity}x ${order.unitType}`).join(', ')}`);
+      }
+    }
+
+    if (forecast.collapseTurn !== null) {
+      console.log(this.colorManager.colorize(`\n  ⚠ Economy collapses on Turn ${forecast.collapseTurn}: income stalled with no resources left. ` +
+        'Cancel construction or cut the fleet before then', 'defeat'));
+    } else {
+      console.log('\n  No economic collapse in this period');
+    }
+  }
+
+  /**
+   * Displays a simulated attack: the enemy estimate it was fought against, outcome odds,
+   * expected losses and survivors per unit type, and what the attack costs
+   */
+  public displayBattlePreview(preview: BattlePreview): void {
+    const enemy = preview.enemy;
+    const percent = (share: number) => `${Math.round(share * 100)}%`;
+    const ships = (fleet: FleetComposition) =>
+      `${fleet.frigates.toFixed(1)}F, ${fleet.cruisers.toFixed(1)}C, ${fleet.battleships.toFixed(1)}B`;
+
+    console.log(`\nBATTLE PREVIEW (${this.formatNumber(preview.trials)} simulated battles):`);
+    console.log(`  Your fleet: ${this.colorManager.formatFleetComposition(preview.attackFleet)}` +
+      (preview.retreatThreshold !== undefined ? `, retreating after ${percent(preview.retreatThreshold)} losses` : ''));
+    console.log(`  Enemy fleet: ${this.colorManager.formatFleetComposition(enemy.fleet)} as of Turn ${enemy.lastScanTurn} ` +
+      `(${percent(enemy.confidence)} confidence)`);
+    console.log(`    Range: ${enemy.low.frigates}-${enemy.high.frigates}F, ${enemy.low.cruisers}-${enemy.high.cruisers}C, ` +
+      `${enemy.low.battleships}-${enemy.high.battleships}B`);
+
+    console.log('\n  Outcome:');
+    console.log(`    Decisive victory: ${percent(preview.outcomes.decisive_attacker)}`);
+    console.log(`    Close battle:     ${percent(preview.outcomes.close_battle)}`);
+    console.log(`    Decisive defeat:  ${percent(preview.outcomes.decisive_defender)}`);
+    if (preview.retreatThreshold !== undefined) {
+      console.log(`    Fleet retreats:   ${percent(preview.retreatRate)}`);
+    }
+
+    console.log('\n  Expected casualties:');
+    console.log(`    Yours: ${ships(preview.expectedCasualties.attacker)}`);
+    console.log(`    Enemy: ${ships(preview.expectedCasualties.defender)}`);
+    console.log('  Expected survivors:');
+    console.log(`    Yours: ${ships(preview.expectedSurvivors.attacker)}`);
+    console.log(`    Enemy: ${ships(preview.expectedSurvivors.defender)}`);
+
+    const costs = preview.costs;
+    console.log('\n  Costs:');
+    console.log(`    Fleet upkeep: ${this.formatNumber(costs.upkeepPerTurn.metal)} Metal, ${this.formatNumber(costs.upkeepPerTurn.energy)} Energy per turn`);
+    console.log(`    Expected losses: ${this.formatNumber(Math.round(costs.expectedLosses.metal))} Metal, ${this.formatNumber(Math.round(costs.expectedLosses.energy))} Energy to rebuild`);
+    console.log(`    Enemy losses: ${this.formatNumber(Math.round(costs.expectedEnemyLosses.metal))} Metal, ${this.formatNumber(Math.round(costs.expectedEnemyLosses.energy))} Energy`);
+  }
+
+  /**
+   * Displays help information for every command in the registry, and the player's aliases
+   */
+  public displayHelp(registry: CommandRegistry): void {
     console.log('\n' + '='.repeat(60));
     console.log('AVAILABLE COMMANDS');
     console.log('='.repeat(60));
     
-    console.log('\nBUILD COMMANDS:');
-    console.log('  build <quantity> <unit>     - Build units (frigate, cruiser, battleship)');
-    console.log('  build <quantity> <structure> - Build structures (reactor, mine)');
-    console.log('  Examples: "build 10 frigate", "build 1 reactor"');
-    
-    console.log('\nATTACK COMMANDS:');
-    console.log('  attack <frigates> <cruisers> <battleships> - Launch attack');
-    console.log('  Example: "attack 50 20 10" (sends 50 frigates, 20 cruisers, 10 battleships)');
-    
-    console.log('\nSCAN COMMANDS:');
-    console.log('  scan basic    - Basic scan (1,000 Energy) - Total fleet count');
-    console.log('  scan deep     - Deep scan (2,500 Energy) - Unit composition + economy');
-    console.log('  scan advanced - Advanced scan (4,000 Energy) - Strategic intent');
-    
-    console.log('\nGAME COMMANDS:');
-    console.log('  status        - Show detailed game status');
-    console.log('  help          - Show this help message');
-    console.log('  end           - End current turn');
-    console.log('  quit          - Quit the game');
+    for (const { category, definitions } of registry.getCategories()) {
+      console.log(`\n${category}:`);
+      for (const definition of definitions) {
+        definition.usage.forEach(usage => console.log(`  ${usage.syntax} - ${usage.description}`));
+        if (definition.examples && definition.examples.length > 0) {
+          console.log(`  ${definition.examples.length > 1 ? 'Examples' : 'Example'}: ${definition.examples.map(example => `"${example}"`).join(', ')}`);
+        }
+      }
+    }
+
+    const aliases = registry.getAliases();
+    const commandAliases = Object.entries(aliases.commands);
+    const wordAliases = Object.entries(aliases.words);
+    if (commandAliases.length > 0 || wordAliases.length > 0) {
+      console.log('\nYOUR ALIASES:');
+      commandAliases.forEach(([alias, expansion]) => console.log(`  ${alias} = ${expansion}`));
+      if (wordAliases.length > 0) {
+        console.log(`  Words: ${wordAliases.map(([alias, word]) => `${alias} = ${word}`).join(', ')}`);
+      }
+    }
     
     console.log('\nUNIT EFFECTIVENESS (Rock-Paper-Scissors):');
     console.log('  Frigates > Cruisers > Battleships > Frigates');
@@ -228,9 +477,10 @@ export class GameDisplay {
   }
 
   /**
-   * Displays turn result including combat events with enhanced formatting
+   * Displays turn result including combat events with enhanced formatting. Non-interactive
+   * output passes promptToContinue = false.
    */
-  public displayTurnResult(turnResult: TurnResult): void {
+  public displayTurnResult(turnResult: TurnResult, promptToContinue: boolean = true): void {
     console.log('\n' + '='.repeat(60));
     console.log('TURN RESULT');
     console.log('='.repeat(60));
@@ -282,11 +532,13 @@ export class GameDisplay {
     
     // Display game over information if applicable
     if (turnResult.gameEnded) {
-      console.log(`\n🎯 GAME OVER! Winner: ${turnResult.winner?.toUpperCase()}`);
+      console.log(`\n🎯 GAME OVER! Winner: ${turnResult.winner === 'player' ? 'YOU' : 'ENEMY'}`);
       console.log(`Victory Type: ${turnResult.victoryType?.toUpperCase()}`);
     }
     
-    console.log('\nPress Enter to continue...');
+    if (promptToContinue) {
+      console.log('\nPress Enter to continue...');
+    }
   }
 
   /**
@@ -314,6 +566,9 @@ export class GameDisplay {
       // Basic outcome display
       const outcome = typeof event.outcome === 'string' ? event.outcome : 'unknown';
       console.log(`  Result: ${this.formatBattleOutcome(outcome)}`);
+      if (event.rounds?.length > 0) {
+        console.log(`  Fought ${event.rounds.length} round(s)${event.attackerRetreated ? `; ${attackerName} fleet retreated` : ''}`);
+      }
       
       // Basic casualty information with error handling
       const attackerCasualties = this.calculateFleetTotal(event.casualties?.attacker);
@@ -511,6 +766,7 @@ export class GameDisplay {
     return {
       turn: typeof originalEvent?.turn === 'number' ? originalEvent.turn : 0,
       attacker: originalEvent?.attacker === 'player' || originalEvent?.attacker === 'ai' ? originalEvent.attacker : 'ai',
+      defender: originalEvent?.defender === 'player' || originalEvent?.defender === 'ai' ? originalEvent.defender : 'player',
       attackerFleet: this.createSafeFleetComposition(originalEvent?.attackerFleet),
       defenderFleet: this.createSafeFleetComposition(originalEvent?.defenderFleet),
       outcome: typeof originalEvent?.outcome === 'string' ? originalEvent.outcome : 'unknown_outcome',
@@ -521,7 +777,9 @@ export class GameDisplay {
       survivors: {
         attacker: this.createSafeFleetComposition(originalEvent?.survivors?.attacker),
         defender: this.createSafeFleetComposition(originalEvent?.survivors?.defender)
-      }
+      },
+      rounds: [],
+      attackerRetreated: originalEvent?.attackerRetreated === true
     };
   }
 
@@ -612,12 +870,14 @@ export class GameDisplay {
       });
     }
 
-    // Display battle phase progression if configured and available
-    if (this.config.combatDisplay?.showBattlePhases !== false && enhancedDisplay.battlePhases.length > 0) {
+    // Display the rounds as they were fought if configured and available
+    if (this.config.combatDisplay?.showBattlePhases !== false && enhancedDisplay.rounds.length > 0) {
       console.log('\n  Battle Progression:');
-      enhancedDisplay.battlePhases.forEach((phase, index) => {
-        this.displayBattlePhase(phase, index + 1);
-      });
+      enhancedDisplay.rounds.forEach(round => this.displayCombatRound(round));
+    }
+
+    if (event.attackerRetreated) {
+      console.log(`  ${this.colorManager.colorize(`${attackerName} fleet broke off the attack and retreated`, 'neutral')}`);
     }
     
     // Display battle outcome with enhanced formatting
@@ -738,83 +998,23 @@ export class GameDisplay {
   }
 
   /**
-   * Displays a single battle phase with appropriate formatting and colors
+   * Displays one round of a battle: the forces engaged and what each side lost
    */
-  private displayBattlePhase(phase: import('./TacticalAnalyzer.js').BattlePhase, phaseNumber: number): void {
-    // Create phase header with visual separator
-    const phaseHeader = `Phase ${phaseNumber}: ${phase.phase.charAt(0).toUpperCase() + phase.phase.slice(1)}`;
-    const phaseSeparator = this.colorManager.createSeparator(30, '·');
-    
-    console.log(`    ${phaseSeparator}`);
-    console.log(`    ${this.colorManager.colorize(phaseHeader, 'neutral')}`);
-    
-    // Display phase description
-    console.log(`    ${phase.description}`);
-    
-    // Display phase advantage with appropriate coloring
-    const advantageText = this.formatPhaseAdvantage(phase.advantage);
-    console.log(`    Advantage: ${advantageText}`);
-    
-    // Display strength ratio if meaningful
-    if (phase.strengthRatio !== Infinity && phase.strengthRatio > 0) {
-      const ratioText = this.formatStrengthRatio(phase.strengthRatio);
-      console.log(`    Force Ratio: ${ratioText}`);
-    }
-  }
+  private displayCombatRound(round: CombatRound): void {
+    const attackerTotal = this.calculateFleetTotal(round.attackerFleet);
+    const defenderTotal = this.calculateFleetTotal(round.defenderFleet);
+    const header = `Round ${round.round}: ${attackerTotal} vs ${defenderTotal} ships`;
 
-  /**
-   * Formats phase advantage with appropriate colors
-   */
-  private formatPhaseAdvantage(advantage: 'attacker' | 'defender' | 'neutral'): string {
-    let colorType: keyof import('./ColorManager.js').ColorTheme;
-    let displayText: string;
-    
-    switch (advantage) {
-      case 'attacker':
-        colorType = 'player'; // Use player color for attacker advantage
-        displayText = 'ATTACKER';
-        break;
-      case 'defender':
-        colorType = 'enemy'; // Use enemy color for defender advantage
-        displayText = 'DEFENDER';
-        break;
-      case 'neutral':
-        colorType = 'neutral';
-        displayText = 'BALANCED';
-        break;
-    }
-    
-    return this.colorManager.colorize(displayText, colorType);
+    console.log(`    ${this.colorManager.colorize(header, 'neutral')}`);
+    console.log(`      Attacker lost ${this.formatRoundLosses(round.attackerLosses)}, Defender lost ${this.formatRoundLosses(round.defenderLosses)}`);
   }
 
   /**
-   * Formats strength ratio with contextual information
+   * Formats a round's losses, e.g. "5 (3F, 2C, 0B)" or "none"
    */
-  private formatStrengthRatio(ratio: number): string {
-    let ratioText: string;
-    let colorType: keyof import('./ColorManager.js').ColorTheme;
-    
-    if (ratio >= 2.0) {
-      ratioText = `${ratio.toFixed(1)}:1 (Overwhelming Attacker)`;
-      colorType = 'victory';
-    } else if (ratio >= 1.5) {
-      ratioText = `${ratio.toFixed(1)}:1 (Strong Attacker)`;
-      colorType = 'victory';
-    } else if (ratio >= 1.2) {
-      ratioText = `${ratio.toFixed(1)}:1 (Slight Attacker)`;
-      colorType = 'neutral';
-    } else if (ratio >= 0.8) {
-      ratioText = `${ratio.toFixed(1)}:1 (Balanced)`;
-      colorType = 'neutral';
-    } else if (ratio >= 0.5) {
-      ratioText = `${ratio.toFixed(1)}:1 (Slight Defender)`;
-      colorType = 'neutral';
-    } else {
-      ratioText = `${ratio.toFixed(1)}:1 (Strong Defender)`;
-      colorType = 'defeat';
-    }
-    
-    return this.colorManager.colorize(ratioText, colorType);
+  private formatRoundLosses(losses: FleetComposition): string {
+    const total = this.calculateFleetTotal(losses);
+    return total > 0 ? `${total} (${this.colorManager.formatFleetComposition(losses)})` : 'none';
   }
 
   /**
@@ -1179,23 +1379,29 @@ export class GameDisplay {
   /**
    * Displays game over screen
    */
-  public displayGameOver(gameState: GameState): void {
+  public displayGameOver(gameState: DuelView): void {
     console.log('\n' + '='.repeat(60));
     console.log('GAME OVER');
     console.log('='.repeat(60));
     
     const winner = gameState.winner;
     const victoryType = gameState.victoryType;
-    
-    if (winner === 'player') {
-      console.log('🎉 VICTORY! You have defeated the AI!');
+    const enemy = this.getEnemyName(gameState);
+    
+    if (isHotseat(gameState)) {
+      const winnerName = gameState.sides[winner === 'player' ? 'player' : 'ai'].name;
+      const loserName = gameState.sides[winner === 'player' ? 'ai' : 'player'].name;
+      console.log(`🏆 ${winnerName} has defeated ${loserName}!`);
+    } else if (winner === 'player') {
+      console.log(`🎉 VICTORY! You have defeated ${enemy}!`);
     } else {
-      console.log('💀 DEFEAT! The AI has defeated you!');
+      console.log(`💀 DEFEAT! ${enemy.charAt(0).toUpperCase()}${enemy.slice(1)} has defeated you!`);
     }
     
     console.log(`\nVictory Type: ${victoryType?.toUpperCase()}`);
     console.log(`Game Length: ${gameState.turn} turns`);
     console.log(`Final Phase: ${gameState.gamePhase}`);
+    this.displayGameSummary(gameState);
     
     if (victoryType === 'military') {
       console.log('\nThe enemy fleet has been completely eliminated!');
@@ -1206,6 +1412,34 @@ export class GameDisplay {
     console.log('\nType "quit" to exit or start a new game.');
   }
 
+  /**
+   * Sums up the game from the turn-by-turn statistics
+   */
+  private displayGameSummary(gameState: DuelView): void {
+    const history = gameState.history ?? [];
+    if (history.length === 0) {
+      return;
+    }
+
+    const player = getStatisticsTotals(history, 'player');
+    const ai = getStatisticsTotals(history, 'ai');
+
+    const [playerLabel, aiLabel] = isHotseat(gameState)
+      ? [gameState.sides.player.name, gameState.sides.ai.name]
+      : ['You', gameState.sides.ai.name];
+    console.log(`\nGAME SUMMARY:    ${playerLabel.slice(0, 9).padStart(10)}${aiLabel.slice(0, 9).padStart(10)}`);
+    console.log(`Ships Lost:      ${this.padNumber(player.shipsLost, 10)}${this.padNumber(ai.shipsLost, 10)}`);
+    console.log(`Ships Destroyed: ${this.padNumber(player.shipsKilled, 10)}${this.padNumber(ai.shipsKilled, 10)}`);
+    console.log(`Largest Fleet:   ${this.padNumber(player.peakFleet, 10)}${this.padNumber(ai.peakFleet, 10)}`);
+    console.log(`Scans:           ${this.padNumber(player.scans, 10)}${this.padNumber(ai.scans, 10)}`);
+
+    const leadLostTurn = findLeadLostTurn(history);
+    if (leadLostTurn !== null) {
+      const behind = isHotseat(gameState) ? gameState.sides.player.name : 'You';
+      console.log(`\n${behind} fell behind in ships on Turn ${leadLostTurn} and never caught up.`);
+    }
+  }
+
   /**
    * Displays error messages
    */
@@ -1213,6 +1447,63 @@ export class GameDisplay {
     console.log(`❌ Error: ${message}`);
   }
 
+  /**
+   * Displays a one-line notice for engine events the player should hear about as they happen.
+   * Events already covered by the turn summary (combat, income) are skipped.
+   */
+  public displayGameEvent(event: GameEvent, side: Side = 'player'): void {
+    const message = this.formatGameEvent(event, side);
+    if (message) {
+      console.log(message);
+    }
+  }
+
+  /**
+   * Formats the game events a side is told about as they happen, or null for the rest
+   */
+  public formatGameEvent(event: GameEvent, side: Side = 'player'): string | null {
+    switch (event.type) {
+      case 'ConstructionCompleted':
+        return event.side === side
+          ? `🏗️  Construction complete: ${this.formatNumber(event.quantity)} ${event.unitType}${event.quantity === 1 ? '' : 's'}`
+          : null;
+
+      case 'FleetArrived':
+        if (event.side === side && event.destination === 'home') {
+          const ships = event.composition.frigates + event.composition.cruisers + event.composition.battleships;
+          return `🛬 Fleet ${event.fleetId} returned home: ${this.formatNumber(ships)} ships`;
+        }
+        return null;
+
+      case 'SystemClaimed':
+        if (event.side === side) {
+          return `🪐 ${event.name} is now your colony`;
+        }
+        return event.from === side ? `⚠️  ${event.name} has been taken from you` : null;
+
+      case 'PhaseChanged':
+        return `📅 The game enters the ${event.to} phase`;
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * How the player's opponent is named in sentences: "the AI" in a game against the computer
+   */
+  private getEnemyName(gameState: DuelView): string {
+    const ai = gameState.sides.ai;
+    return ai.controller === 'ai' && ai.name === 'AI' ? 'the AI' : ai.name;
+  }
+
+  /**
+   * Columns charts can use; output that is not a terminal gets 80
+   */
+  private getTerminalWidth(): number {
+    return process.stdout.columns || 80;
+  }
+
   /**
    * Helper methods for formatting
    */
@@ -1229,9 +1520,14 @@ export class GameDisplay {
     return num.toString().padStart(width);
   }
 
-  private getFleetMovementStatus(movement: any): string {
-    // This would need to be implemented based on the actual FleetMovement interface
-    return `${movement.missionType} (arrives turn ${movement.arrivalTurn})`;
+  private getFleetMovementStatus(movement: FleetMovement, galaxy: GalaxyMap, currentTurn: number): string {
+    if (movement.missionType === 'returning') {
+      return `returning home (arrives turn ${movement.arrivalTurn})`;
+    }
+
+    const destination = galaxy.systems[movement.target]?.name ?? movement.target;
+    const recall = canRecallFleet(movement, currentTurn) ? `, "recall ${movement.id}" to turn back` : '';
+    return `outbound to ${destination} (arrives turn ${movement.arrivalTurn}${recall})`;
   }
 
   private getConstructionProgress(order: any): string {
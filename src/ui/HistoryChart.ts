@@ -0,0 +1,161 @@
+import { DuelStatistics } from '../models/Statistics.js';
+import { getTotalFleetSize } from '../models/Fleet.js';
+import { ColorManager, ColorTheme } from './ColorManager.js';
+
+/** Width of the series names in front of each sparkline */
+const LABEL_WIDTH = 18;
+
+/** Room left after the sparkline for the latest, lowest and highest values */
+const SUMMARY_WIDTH = 36;
+
+/** Narrowest sparkline drawn however small the terminal */
+const MIN_SPARKLINE_WIDTH = 10;
+
+/** Turns with battles listed under LOSSES BY TURN */
+const LOSS_TURNS_SHOWN = 10;
+
+/** Characters charts are drawn with */
+export interface ChartGlyphs {
+  levels: string[]; // sparkline heights, lowest first
+  bar: string; // a full cell of a horizontal bar
+  partialBars: string[]; // bar ends from 1/n to (n-1)/n of a cell; empty draws whole cells only
+}
+
+export const UNICODE_GLYPHS: ChartGlyphs = {
+  levels: ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'],
+  bar: '█',
+  partialBars: ['▏', '▎', '▍', '▌', '▋', '▊', '▉']
+};
+
+export const ASCII_GLYPHS: ChartGlyphs = {
+  levels: ['_', '.', ':', '-', '=', '+', '*', '#'],
+  bar: '#',
+  partialBars: []
+};
+
+/** The player's side of each turn's statistics, all the charts draw */
+export type PlayerHistory = Array<Pick<DuelStatistics, 'turn' | 'player'>>;
+
+/** One line of a sparkline chart */
+interface ChartSeries {
+  label: string;
+  values: number[];
+  color: keyof ColorTheme;
+}
+
+/**
+ * Guesses whether the terminal can show Unicode block characters from the locale. Windows consoles
+ * other than Windows Terminal often cannot.
+ */
+export function detectUnicodeSupport(): boolean {
+  if (process.platform === 'win32') {
+    return Boolean(process.env.WT_SESSION);
+  }
+
+  const locale = process.env.LC_ALL || process.env.LC_CTYPE || process.env.LANG || '';
+  return /utf-?8/i.test(locale);
+}
+
+/**
+ * Draws one character per value. The scale always includes zero, so a small change in a large
+ * number stays a small change on the chart.
+ */
+export function sparkline(values: number[], glyphs: ChartGlyphs = UNICODE_GLYPHS): string {
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const top = glyphs.levels.length - 1;
+
+  return values.map(value =>
+    glyphs.levels[max === min ? 0 : Math.round(((value - min) / (max - min)) * top)]
+  ).join('');
+}
+
+/**
+ * Draws a horizontal bar for value, where max fills width cells
+ */
+export function bar(value: number, max: number, width: number, glyphs: ChartGlyphs = UNICODE_GLYPHS): string {
+  if (max <= 0 || value <= 0) {
+    return '';
+  }
+
+  const steps = glyphs.partialBars.length + 1;
+  const filled = Math.max(1, Math.round((Math.min(value, max) / max) * width * steps));
+  const whole = Math.floor(filled / steps);
+  const remainder = filled % steps;
+
+  return glyphs.bar.repeat(whole) + (remainder > 0 ? glyphs.partialBars[remainder - 1] : '');
+}
+
+/**
+ * Charts the per-turn statistics for the terminal: a sparkline per series and a bar per battle turn
+ */
+export class HistoryChart {
+  private colorManager: ColorManager;
+  private glyphs: ChartGlyphs;
+
+  constructor(colorManager: ColorManager = new ColorManager(), unicode: boolean = detectUnicodeSupport()) {
+    this.colorManager = colorManager;
+    this.glyphs = unicode ? UNICODE_GLYPHS : ASCII_GLYPHS;
+  }
+
+  /**
+   * Sparklines of the player's stockpiles, net income, home fleet and losses, one turn per character.
+   * A game longer than the sparklines are wide shows its latest turns.
+   */
+  public renderTrends(history: PlayerHistory, width: number): string[] {
+    if (history.length === 0) {
+      return ['No turns played yet'];
+    }
+
+    const chartWidth = Math.max(MIN_SPARKLINE_WIDTH, width - LABEL_WIDTH - SUMMARY_WIDTH - 4);
+    const shown = history.slice(-chartWidth);
+    const series: ChartSeries[] = [
+      { label: 'Metal stockpile', values: shown.map(turn => turn.player.resources.metal), color: 'neutral' },
+      { label: 'Energy stockpile', values: shown.map(turn => turn.player.resources.energy), color: 'frigate' },
+      { label: 'Net metal income', values: shown.map(turn => turn.player.netIncome.metal), color: 'neutral' },
+      { label: 'Net energy income', values: shown.map(turn => turn.player.netIncome.energy), color: 'frigate' },
+      { label: 'Home fleet', values: shown.map(turn => getTotalFleetSize(turn.player.homeFleet)), color: 'player' },
+      { label: 'Ships lost', values: shown.map(turn => getTotalFleetSize(turn.player.shipsLost)), color: 'casualties' }
+    ];
+
+    const first = shown[0].turn;
+    const last = shown[shown.length - 1].turn;
+    const lines = [first === last ? `Turn ${first}` : `Turns ${first}-${last}`];
+
+    for (const { label, values, color } of series) {
+      const line = this.colorManager.colorize(sparkline(values, this.glyphs).padEnd(chartWidth), color);
+      const summary = `now ${formatNumber(values[values.length - 1])}  low ${formatNumber(Math.min(...values))}  high ${formatNumber(Math.max(...values))}`;
+      lines.push(`${label.padEnd(LABEL_WIDTH)}  ${line}  ${summary}`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * A bar each for the ships the player lost and destroyed on the latest turns that had battles
+   */
+  public renderLosses(history: PlayerHistory, width: number): string[] {
+    const battleTurns = history.filter(turn =>
+      getTotalFleetSize(turn.player.shipsLost) + getTotalFleetSize(turn.player.shipsKilled) > 0
+    ).slice(-LOSS_TURNS_SHOWN);
+
+    if (battleTurns.length === 0) {
+      return ['No ships lost or destroyed yet'];
+    }
+
+    const barWidth = Math.max(MIN_SPARKLINE_WIDTH, Math.floor((width - 42) / 2));
+    const max = Math.max(...battleTurns.flatMap(turn => [getTotalFleetSize(turn.player.shipsLost), getTotalFleetSize(turn.player.shipsKilled)]));
+
+    return battleTurns.map(turn => {
+      const lost = getTotalFleetSize(turn.player.shipsLost);
+      const killed = getTotalFleetSize(turn.player.shipsKilled);
+      const lostBar = this.colorManager.colorize(bar(lost, max, barWidth, this.glyphs).padEnd(barWidth), 'casualties');
+      const killedBar = this.colorManager.colorize(bar(killed, max, barWidth, this.glyphs), 'victory');
+      return `Turn ${turn.turn.toString().padEnd(5)} lost ${formatNumber(lost).padStart(7)} ${lostBar}  killed ${formatNumber(killed).padStart(7)} ${killedBar}`;
+    });
+  }
+}
+
+function formatNumber(num: number): string {
+  return num.toLocaleString();
+}
@@ -0,0 +1,287 @@
+import { GameClient, ConnectionStatus } from '../network/GameClient.js';
+import { ServerMessage, StateMessage, TurnMessage } from '../network/Protocol.js';
+import { EconomyEngine } from '../engine/EconomyEngine.js';
+import { GameDisplay } from './GameDisplay.js';
+import { InputHandler, Command } from './InputHandler.js';
+import { CommandLine } from './CommandLine.js';
+import { CLIConfig } from './CLIInterface.js';
+import { createDefaultRegistry } from './BuiltInCommands.js';
+import { homedir } from 'os';
+import { join } from 'path';
+import { ErrorHandler } from '../ErrorHandler.js';
+import { getOpponent } from '../models/Sides.js';
+
+/** Commands answered from the state the server sent, without asking it */
+const LOCAL_COMMANDS = new Set(['status', 'history', 'queue', 'standing_list', 'forecast', 'help', 'quit']);
+
+/**
+ * Plays one side of a networked game from the terminal. Commands that change the game go to the
+ * server; commands that only show it are answered from the latest state the server sent.
+ */
+export class NetworkCLIInterface {
+  private client: GameClient;
+  private url: string;
+  private gameDisplay: GameDisplay;
+  private commandRegistry = createDefaultRegistry();
+  private inputHandler: InputHandler = new InputHandler(this.commandRegistry);
+  private economyEngine: EconomyEngine = new EconomyEngine();
+  private commandLine: CommandLine | null = null;
+  private isRunning: boolean = false;
+  private lastState: StateMessage | null = null;
+  private pendingTurn: TurnMessage | null = null; // shown with the state that follows it
+
+  constructor(url: string, config: CLIConfig = {}, client: GameClient = new GameClient(url)) {
+    this.url = url;
+    this.client = client;
+    this.gameDisplay = new GameDisplay(config);
+  }
+
+  /**
+   * Joins the game, with a token to take back a seat, and plays until the game ends or the
+   * player quits. Throws when the server cannot be joined.
+   */
+  public async start(token?: string): Promise<void> {
+    this.client.onMessage(message => this.onServerMessage(message));
+    this.client.onConnectionStatus(status => this.onConnectionStatus(status));
+
+    const welcome = await this.client.connect(token);
+    this.isRunning = true;
+
+    // The first state follows the welcome and is shown here, after the greeting
+    const state = this.client.getState() ?? await this.client.nextMessage('state');
+    console.log(`Connected as ${state.view.sides.player.name}`);
+    console.log(`To rejoin this seat: burn-rate --connect ${this.url} --token ${welcome.token}`);
+    console.log('Type "help" for available commands');
+    if (state.view.isGameOver) {
+      this.displayGameOver(state);
+      this.isRunning = false;
+    } else {
+      this.displayNewTurn(state);
+      if (!state.opponentConnected) {
+        console.log(`ℹ️  Waiting for ${state.view.sides.ai.name} to join`);
+      }
+    }
+
+    while (this.isRunning) {
+      const input = await this.getCommandLine().question('\n> ');
+      if (!this.isRunning) {
+        break;
+      }
+      if (input.trim()) {
+        await this.processInput(input);
+      }
+    }
+
+    this.closeCommandLine();
+    this.client.close();
+  }
+
+  /**
+   * Leaves the game; the seat is kept for the token
+   */
+  public async shutdown(): Promise<void> {
+    this.isRunning = false;
+    this.closeCommandLine();
+    this.client.close();
+  }
+
+  /**
+   * Runs one typed command, locally or on the server
+   */
+  private async processInput(input: string): Promise<void> {
+    const parsed = this.inputHandler.parseCommand(input);
+    if (!parsed.success || !parsed.command) {
+      this.gameDisplay.displayError(ErrorHandler.handleUserInputError(parsed.error || 'Invalid command').userMessage);
+      return;
+    }
+
+    if (LOCAL_COMMANDS.has(parsed.command.type)) {
+      this.displayLocalCommand(parsed.command);
+      return;
+    }
+
+    try {
+      const reply = await this.client.send(input);
+      if (!reply.success) {
+        this.gameDisplay.displayError(ErrorHandler.handleUserInputError(reply.message).userMessage);
+        return;
+      }
+
+      console.log(`✓ ${reply.message}`);
+      if (reply.preview) {
+        this.gameDisplay.displayBattlePreview(reply.preview);
+      }
+    } catch (error) {
+      this.gameDisplay.displayError(error instanceof Error ? error.message : 'Command failed');
+    }
+  }
+
+  /**
+   * Shows what a command that only reads the game has to show
+   */
+  private displayLocalCommand(command: Command): void {
+    const view = this.lastState?.view;
+
+    switch (command.type) {
+      case 'help':
+        this.gameDisplay.displayHelp(this.commandRegistry);
+        return;
+
+      case 'quit':
+        console.log(`Left the game. To rejoin: burn-rate --connect ${this.url} --token ${this.client.getToken()}`);
+        this.isRunning = false;
+        return;
+    }
+
+    if (!view) {
+      this.gameDisplay.displayError('Waiting for the game state from the server');
+      return;
+    }
+
+    switch (command.type) {
+      case 'status':
+        this.gameDisplay.displayGameState(view);
+        break;
+
+      case 'history':
+        this.gameDisplay.displayHistory(view);
+        break;
+
+      case 'queue':
+        this.gameDisplay.displayConstructionStatus(this.economyEngine.getConstructionStatus(view.player), view.turn);
+        break;
+
+      case 'standing_list':
+        this.gameDisplay.displayStandingOrders(view.player.standingOrders.orders);
+        break;
+
+      case 'forecast':
+        this.gameDisplay.displayEconomicForecast(this.economyEngine.forecast(view.player, view.turn, command.turns));
+        break;
+    }
+  }
+
+  /**
+   * Shows what the server sends unasked: the opponent's comings and goings, and played turns
+   */
+  private onServerMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case 'turn':
+        this.pendingTurn = message;
+        return;
+
+      case 'state':
+        this.onState(message);
+        return;
+
+      case 'error':
+        this.notify(() => this.gameDisplay.displayError(message.message));
+        return;
+    }
+  }
+
+  private onState(state: StateMessage): void {
+    const previous = this.lastState;
+    const turn = this.pendingTurn;
+    this.lastState = state;
+    this.pendingTurn = null;
+
+    if (!previous) {
+      return;
+    }
+
+    const opponent = state.view.sides.ai.name;
+    this.notify(() => {
+      if (turn) {
+        this.gameDisplay.displayTurnResult(turn.result, false);
+        this.gameDisplay.displayStandingOrderResults(turn.standingOrderResults, state.view.player.standingOrders.orders);
+      }
+
+      if (state.view.isGameOver) {
+        this.displayGameOver(state);
+        return;
+      }
+
+      if (turn) {
+        this.displayNewTurn(state);
+      }
+      if (previous.opponentConnected !== state.opponentConnected) {
+        console.log(state.opponentConnected ? `ℹ️  ${opponent} is connected` : `⚠️  ${opponent} has disconnected`);
+      }
+      if (state.opponentTurnEnded && !previous.opponentTurnEnded) {
+        console.log(`ℹ️  ${opponent} has ended the turn`);
+      }
+    });
+
+    if (state.view.isGameOver) {
+      this.isRunning = false;
+      this.closeCommandLine();
+    }
+  }
+
+  private displayNewTurn(state: StateMessage): void {
+    console.log(`\n--- TURN ${state.view.turn} ---`);
+    this.gameDisplay.displayGameState(state.view);
+  }
+
+  private displayGameOver(state: StateMessage): void {
+    const winner = state.view.winner;
+    console.log(winner
+      ? `\n🏆 ${state.view.sides[winner].name} has defeated ${state.view.sides[getOpponent(winner)].name}!`
+      : '\n🏁 The game is over');
+  }
+
+  private onConnectionStatus(status: ConnectionStatus): void {
+    switch (status) {
+      case 'lost':
+        this.notify(() => console.log('⚠️  Connection lost; reconnecting...'));
+        break;
+
+      case 'restored':
+        this.notify(() => console.log('✅ Reconnected'));
+        break;
+
+      case 'closed':
+        if (this.isRunning) {
+          this.notify(() => console.log('❌ Disconnected from the game'));
+          this.isRunning = false;
+          this.closeCommandLine();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Prints something that arrived while the player may be typing, then redraws their line
+   */
+  private notify(display: () => void): void {
+    if (this.commandLine) {
+      process.stdout.write('\n');
+    }
+    display();
+    this.commandLine?.refresh();
+  }
+
+  /**
+   * The command line, created on first use
+   */
+  private getCommandLine(): CommandLine {
+    if (!this.commandLine) {
+      this.commandLine = new CommandLine({
+        complete: line => this.lastState
+          ? this.inputHandler.getCompletions(line, this.lastState.view)
+          : { words: [], partial: line },
+        historyFile: join(homedir(), '.burn-rate', 'history')
+      });
+    }
+    return this.commandLine;
+  }
+
+  /**
+   * Stops reading from the terminal so the process can exit
+   */
+  private closeCommandLine(): void {
+    this.commandLine?.close();
+    this.commandLine = null;
+  }
+}
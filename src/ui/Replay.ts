@@ -0,0 +1,160 @@
+import { GameEngine } from '../engine/GameEngine.js';
+import { createSaveFile, parseSaveFile, SaveFile } from '../engine/SaveFile.js';
+import { AIArchetype, AIDecision } from '../models/AI.js';
+import { Command } from './InputHandler.js';
+import { Side } from '../engine/GameEvents.js';
+
+/** Current replay format. Bump it whenever the recorded shape changes. */
+export const REPLAY_FORMAT_VERSION = 1;
+
+/** Commands that change the game and therefore belong in a replay */
+const RECORDED_COMMANDS: Command['type'][] = ['build', 'attack', 'scan', 'recall', 'cancel', 'prioritize', 'standing', 'standing_cancel'];
+
+export interface ReplayTurn {
+  turn: number;
+  commands: Command[];
+  aiCommands?: Command[]; // given by a second human playing the AI's side
+  aiDecision: AIDecision | null;
+}
+
+export interface ReplayFile {
+  format: 'burn-rate-replay';
+  formatVersion: number;
+  seed: number;
+  aiArchetype?: AIArchetype; // unset when no side is played by the AI
+  recordedAt: string;
+  start: SaveFile;
+  turns: ReplayTurn[];
+}
+
+export interface ReplayParseResult {
+  success: boolean;
+  replay?: ReplayFile;
+  errors: string[];
+}
+
+/**
+ * Records the starting position, each turn's accepted commands from both sides and the AI's decisions.
+ * Only games of the player against the AI's side are recorded; a free-for-all records no turns.
+ */
+export class ReplayRecorder {
+  private start!: SaveFile;
+  private recording!: boolean;
+  private aiArchetype: AIArchetype | undefined;
+  private recordedAt!: string;
+  private turns: ReplayTurn[] = [];
+  private currentCommands: Record<Side, Command[]> = { player: [], ai: [] };
+
+  constructor(gameEngine: GameEngine) {
+    this.restart(gameEngine);
+  }
+
+  /**
+   * Starts a fresh recording from the engine's current position (new game or loaded save)
+   */
+  public restart(gameEngine: GameEngine): void {
+    this.start = createSaveFile(gameEngine);
+    this.recording = Object.keys(gameEngine.getGameState().factions).join(',') === 'player,ai';
+    this.aiArchetype = this.start.snapshot.aiEngines.ai?.archetype;
+    this.recordedAt = new Date().toISOString();
+    this.turns = [];
+    this.currentCommands = { player: [], ai: [] };
+  }
+
+  /**
+   * Records a command the controller accepted. Display-only commands are ignored.
+   */
+  public recordCommand(command: Command, side: Side = 'player'): void {
+    if (this.recording && RECORDED_COMMANDS.includes(command.type)) {
+      this.currentCommands[side].push(JSON.parse(JSON.stringify(command)));
+    }
+  }
+
+  /**
+   * Closes the current turn with the AI decision the engine made for it
+   */
+  public recordTurnEnd(turn: number, aiDecision: AIDecision | undefined): void {
+    if (!this.recording) {
+      return;
+    }
+
+    this.turns.push({
+      turn,
+      commands: this.currentCommands.player,
+      ...(this.currentCommands.ai.length > 0 && { aiCommands: this.currentCommands.ai }),
+      aiDecision: aiDecision ? JSON.parse(JSON.stringify(aiDecision)) : null
+    });
+    this.currentCommands = { player: [], ai: [] };
+  }
+
+  /**
+   * Gets the number of completed turns recorded so far
+   */
+  public getTurnCount(): number {
+    return this.turns.length;
+  }
+
+  /**
+   * Builds the replay file for everything recorded so far (the unfinished turn is left out)
+   */
+  public toReplayFile(): ReplayFile {
+    return {
+      format: 'burn-rate-replay',
+      formatVersion: REPLAY_FORMAT_VERSION,
+      seed: this.start.seed,
+      ...(this.aiArchetype && { aiArchetype: this.aiArchetype }),
+      recordedAt: this.recordedAt,
+      start: this.start,
+      turns: JSON.parse(JSON.stringify(this.turns))
+    };
+  }
+}
+
+/**
+ * Parses a replay file and checks its starting position with the save-file validator
+ */
+export function parseReplayFile(json: string): ReplayParseResult {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return {
+      success: false,
+      errors: [`Replay file is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`]
+    };
+  }
+
+  if (typeof data !== 'object' || data === null || data.format !== 'burn-rate-replay') {
+    return { success: false, errors: ['format: not a Burn Rate replay file'] };
+  }
+
+  if (data.formatVersion !== REPLAY_FORMAT_VERSION) {
+    return {
+      success: false,
+      errors: [`formatVersion: replay uses format ${data.formatVersion}, this version of Burn Rate reads ${REPLAY_FORMAT_VERSION}`]
+    };
+  }
+
+  const errors: string[] = [];
+
+  const start = parseSaveFile(JSON.stringify(data.start));
+  errors.push(...start.errors.map(error => `start.${error}`));
+
+  if (!Array.isArray(data.turns)) {
+    errors.push('turns: expected an array');
+  } else {
+    data.turns.forEach((turn: any, i: number) => {
+      if (typeof turn !== 'object' || turn === null || !Number.isInteger(turn.turn) || !Array.isArray(turn.commands)) {
+        errors.push(`turns[${i}]: expected { turn, commands, aiDecision }`);
+      } else if (turn.aiCommands !== undefined && !Array.isArray(turn.aiCommands)) {
+        errors.push(`turns[${i}].aiCommands: expected an array`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return { success: true, replay: data as ReplayFile, errors };
+}
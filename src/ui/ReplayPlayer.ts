@@ -0,0 +1,99 @@
+import { GameEngine, TurnResult } from '../engine/GameEngine.js';
+import { parseSaveFile } from '../engine/SaveFile.js';
+import { GameState } from '../models/GameState.js';
+import { isHotseat } from '../models/Sides.js';
+import { AIDecision } from '../models/AI.js';
+import { Command } from './InputHandler.js';
+import { GameController } from './GameController.js';
+import { ReplayFile } from './Replay.js';
+
+export interface ReplayFrame {
+  turn: number;
+  gameState: GameState;
+  commands: Command[];
+  messages: string[];
+  aiCommands: Command[]; // from a second human playing the AI's side
+  aiMessages: string[];
+  aiDecision: AIDecision | null;
+  turnResult: TurnResult | null;
+  diverged: boolean;
+}
+
+/**
+ * Re-runs a recorded game through the engine and keeps a frame per turn for stepping through
+ */
+export class ReplayPlayer {
+  private frames: ReplayFrame[] = [];
+
+  constructor(replay: ReplayFile) {
+    const start = parseSaveFile(JSON.stringify(replay.start));
+    if (!start.success || !start.snapshot) {
+      throw new Error(`Replay start position is invalid: ${start.errors.join(', ')}`);
+    }
+
+    const gameEngine = GameEngine.fromSnapshot(start.snapshot);
+    const gameController = new GameController(gameEngine);
+
+    for (const recorded of replay.turns) {
+      if (gameEngine.isGameOver()) {
+        break;
+      }
+
+      const gameState = JSON.parse(JSON.stringify(gameEngine.getGameState()));
+      const messages = recorded.commands.map(command => gameController.executeCommand(command).message);
+      const aiCommands = recorded.aiCommands ?? [];
+      let aiMessages: string[] = [];
+
+      if (isHotseat(gameState)) {
+        // The player's end of turn hands the AI's side its move
+        gameController.executeCommand({ type: 'end_turn' });
+        aiMessages = aiCommands.map(command => gameController.executeCommand(command).message);
+      }
+
+      gameController.executeCommand({ type: 'end_turn' });
+      const turnResult = gameController.getLastTurnResult();
+      const aiDecision = turnResult?.aiDecisions.ai ?? null;
+
+      this.frames.push({
+        turn: gameState.turn,
+        gameState,
+        commands: recorded.commands,
+        messages,
+        aiCommands,
+        aiMessages,
+        aiDecision,
+        turnResult,
+        // The seed makes replays deterministic, so a different AI choice means the rules changed
+        diverged: JSON.stringify(aiDecision) !== JSON.stringify(recorded.aiDecision)
+      });
+    }
+
+    // Final position after the last recorded turn
+    this.frames.push({
+      turn: gameEngine.getCurrentTurn(),
+      gameState: JSON.parse(JSON.stringify(gameEngine.getGameState())),
+      commands: [],
+      messages: [],
+      aiCommands: [],
+      aiMessages: [],
+      aiDecision: null,
+      turnResult: null,
+      diverged: false
+    });
+  }
+
+  /**
+   * Gets every frame, one per recorded turn plus the final position
+   */
+  public getFrames(): ReplayFrame[] {
+    return this.frames;
+  }
+
+  /**
+   * Gets the first turn whose AI decision differs from the recording, if any
+   */
+  public getFirstDivergence(): number | null {
+    const frame = this.frames.find(f => f.diverged);
+    return frame ? frame.turn : null;
+  }
+}
@@ -0,0 +1,199 @@
+import { AIDecision } from '../models/AI.js';
+import { viewForSide } from '../models/Sides.js';
+import { Command } from './InputHandler.js';
+import { GameDisplay } from './GameDisplay.js';
+import { ReplayFile } from './Replay.js';
+import { ReplayFrame, ReplayPlayer } from './ReplayPlayer.js';
+
+/**
+ * Steps through a recorded game turn by turn in the terminal
+ */
+export class ReplayViewer {
+  private replay: ReplayFile;
+  private frames: ReplayFrame[];
+  private gameDisplay: GameDisplay;
+  private divergence: number | null;
+  private index: number = 0;
+
+  constructor(replay: ReplayFile, gameDisplay: GameDisplay = new GameDisplay()) {
+    const player = new ReplayPlayer(replay);
+    this.replay = replay;
+    this.frames = player.getFrames();
+    this.divergence = player.getFirstDivergence();
+    this.gameDisplay = gameDisplay;
+  }
+
+  /**
+   * Runs the viewer until the user quits
+   */
+  public async start(): Promise<void> {
+    let running = true;
+
+    while (running) {
+      this.displayFrame();
+
+      const input = (await this.getInput()).toLowerCase().split(/\s+/);
+      switch (input[0]) {
+        case '':
+        case 'n':
+        case 'next':
+          this.goTo(this.index + 1);
+          break;
+
+        case 'p':
+        case 'prev':
+          this.goTo(this.index - 1);
+          break;
+
+        case 'f':
+        case 'first':
+          this.goTo(0);
+          break;
+
+        case 'l':
+        case 'last':
+          this.goTo(this.frames.length - 1);
+          break;
+
+        case 'g':
+        case 'goto': {
+          const turn = parseInt(input[1], 10);
+          const target = this.frames.findIndex(frame => frame.turn === turn);
+          if (target === -1) {
+            this.gameDisplay.displayError(`Turn ${input[1] ?? ''} is not in this replay`);
+          } else {
+            this.goTo(target);
+          }
+          break;
+        }
+
+        case 'q':
+        case 'quit':
+          running = false;
+          break;
+
+        default:
+          this.gameDisplay.displayError(`Unknown replay command: ${input[0]}`);
+          break;
+      }
+    }
+
+    process.stdin.pause();
+  }
+
+  /**
+   * Moves to a frame, clamped to the recorded range
+   */
+  private goTo(index: number): void {
+    this.index = Math.max(0, Math.min(this.frames.length - 1, index));
+  }
+
+  /**
+   * Renders the current frame: the position at the start of the turn, then what both sides did
+   */
+  private displayFrame(): void {
+    const frame = this.frames[this.index];
+
+    console.log('\n' + '#'.repeat(60));
+    console.log(`REPLAY | seed ${this.replay.seed} | AI: ${this.replay.aiArchetype ?? 'none'} | frame ${this.index + 1}/${this.frames.length}`);
+    if (this.divergence !== null) {
+      console.log(`⚠️  Replay diverges from the recording at turn ${this.divergence} (the game rules have changed since it was recorded)`);
+    }
+    console.log('#'.repeat(60));
+
+    const view = viewForSide(frame.gameState, 'player');
+    this.gameDisplay.displayGameState(view);
+
+    if (frame.turnResult) {
+      const sides = view.sides;
+      this.displayOrders(sides.player.name, frame.commands, frame.messages);
+
+      if (sides.ai.controller === 'human') {
+        this.displayOrders(sides.ai.name, frame.aiCommands, frame.aiMessages);
+      } else {
+        console.log(`\nAI DECISION: ${formatAIDecision(frame.aiDecision)}${frame.diverged ? ' (differs from recording)' : ''}`);
+      }
+
+      this.gameDisplay.displayTurnResult(frame.turnResult);
+    } else {
+      console.log('\nEnd of recording.');
+      if (frame.gameState.isGameOver) {
+        this.gameDisplay.displayGameOver(view);
+      }
+    }
+  }
+
+  /**
+   * Lists the orders one side gave during the turn, each with the game's answer
+   */
+  private displayOrders(name: string, commands: Command[], messages: string[]): void {
+    console.log(`\n${name.toUpperCase()} ORDERS:`);
+    if (commands.length === 0) {
+      console.log('  (none)');
+    }
+    commands.forEach((command, i) => {
+      console.log(`  > ${formatCommand(command)}`);
+      console.log(`    ${messages[i]}`);
+    });
+  }
+
+  /**
+   * Reads one line of navigation input
+   */
+  private async getInput(): Promise<string> {
+    return new Promise((resolve) => {
+      process.stdout.write('\n[n]ext [p]rev [f]irst [l]ast [g]oto <turn> [q]uit > ');
+
+      const handleInput = (data: Buffer) => {
+        const input = data.toString().trim();
+        process.stdin.removeListener('data', handleInput);
+        resolve(input);
+      };
+
+      process.stdin.on('data', handleInput);
+    });
+  }
+}
+
+/**
+ * Formats a recorded command the way a player would type it
+ */
+export function formatCommand(command: Command): string {
+  const at = command.target !== undefined ? ` at ${command.target}` : '';
+  switch (command.type) {
+    case 'build':
+      return `build ${command.quantity} ${command.buildType}`;
+    case 'attack':
+      return `attack ${command.attackFleet?.frigates ?? 0} ${command.attackFleet?.cruisers ?? 0} ${command.attackFleet?.battleships ?? 0}${at}`;
+    case 'scan':
+      return `scan ${command.scanType}${at}`;
+    case 'standing':
+      return command.scanType
+        ? `standing scan ${command.scanType}${at} every ${command.every}`
+        : `standing build ${command.quantity} ${command.buildType} every ${command.every}`;
+    case 'standing_cancel':
+      return `standing cancel ${command.standingOrderId}`;
+    default:
+      return command.type;
+  }
+}
+
+/**
+ * Formats an AI decision for the replay viewer
+ */
+export function formatAIDecision(decision: AIDecision | null): string {
+  if (!decision) {
+    return 'none';
+  }
+
+  switch (decision.type) {
+    case 'build':
+      return `build ${decision.buildQuantity} ${decision.buildType}`;
+    case 'attack':
+      return `attack ${decision.attackFleet?.frigates ?? 0} ${decision.attackFleet?.cruisers ?? 0} ${decision.attackFleet?.battleships ?? 0} → ${decision.attackTarget}`;
+    case 'scan':
+      return `scan ${decision.scanType}`;
+    default:
+      return 'wait';
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Storage backend for named save slots. The CLI writes files, the web UI uses localStorage.
+ */
+export interface SaveStorage {
+  /**
+   * Writes serialized game data to a slot, replacing any previous save
+   */
+  save(slot: string, data: string): void;
+
+  /**
+   * Reads serialized game data from a slot, or null if the slot is empty
+   */
+  load(slot: string): string | null;
+
+  /**
+   * Deletes a slot's save, if there is one
+   */
+  remove(slot: string): void;
+
+  /**
+   * Lists the slots that currently hold a save
+   */
+  list(): string[];
+
+  /**
+   * Describes where a slot is stored, for user-facing messages
+   */
+  getLocation(slot: string): string;
+}
@@ -0,0 +1,168 @@
+import { GameEngine, TurnResult } from '../engine/GameEngine.js';
+import { StandingOrderResult } from '../engine/Orders.js';
+import { Side } from '../engine/GameEvents.js';
+import { viewForSide, filterForSide, SideView } from '../models/Sides.js';
+import { InputHandler, Command } from './InputHandler.js';
+import { GameController } from './GameController.js';
+import { SaveStorage } from './SaveStorage.js';
+
+/** One script line and what it did */
+export interface ScriptCommandRecord {
+  type: 'command';
+  line: number; // 1-based line in the script
+  input: string;
+  turn: number; // turn the command was given on
+  success: boolean;
+  message: string;
+  command?: Command;
+  data?: unknown; // what a display command shows, e.g. the player's view of the game for "status"
+}
+
+/** A turn ended by the script */
+export interface ScriptTurnRecord {
+  type: 'turn';
+  line: number;
+  turn: number; // turn that was processed
+  result: TurnResult; // without the AI's decisions
+  statistics: SideView['history'][number]; // the player as the turn ended
+  standingOrders: StandingOrderResult[]; // given at the start of the next turn
+}
+
+/** Where the script left the game */
+export interface ScriptSummary {
+  type: 'summary';
+  seed: number;
+  turn: number;
+  commands: number;
+  failedLine: number | null; // the script stops at the first command that fails
+  gameOver: boolean;
+  winner?: Side;
+  victoryType?: 'military' | 'economic';
+}
+
+export type ScriptRecord = ScriptCommandRecord | ScriptTurnRecord | ScriptSummary;
+
+/**
+ * Plays a script of commands, one per line, through the same parser and controller as the CLI.
+ * Blank lines and lines starting with "#" are skipped. The script stops at the first command that
+ * fails, at "quit", or when the game ends.
+ */
+export class ScriptRunner {
+  private gameEngine: GameEngine;
+  private gameController: GameController;
+  private inputHandler: InputHandler = new InputHandler();
+
+  constructor(gameEngine: GameEngine, saveStorage?: SaveStorage) {
+    this.gameEngine = gameEngine;
+    this.gameController = new GameController(gameEngine, saveStorage);
+  }
+
+  /**
+   * Runs the script, handing each record to onRecord as it happens, and returns the summary
+   * (which is also the last record handed over)
+   */
+  public run(script: string, onRecord: (record: ScriptRecord) => void): ScriptSummary {
+    const lines = script.split(/\r?\n/);
+    let commands = 0;
+    let failedLine: number | null = null;
+
+    for (let i = 0; i < lines.length && !this.gameEngine.isGameOver(); i++) {
+      const input = lines[i].trim();
+      if (!input || input.startsWith('#')) {
+        continue;
+      }
+
+      commands++;
+      const record = this.runLine(i + 1, input);
+      onRecord(record);
+
+      if (!record.success) {
+        failedLine = record.line;
+        break;
+      }
+
+      if (record.command?.type === 'end_turn') {
+        onRecord({
+          type: 'turn',
+          line: record.line,
+          turn: record.turn,
+          result: { ...this.gameController.getLastTurnResult()!, aiDecisions: {} },
+          statistics: filterForSide(this.gameEngine.getGameState(), 'player').history.slice(-1)[0],
+          standingOrders: this.gameController.getLastStandingOrderResults()
+        });
+      }
+
+      if (record.command?.type === 'quit') {
+        break;
+      }
+    }
+
+    const gameState = this.gameEngine.getGameState();
+    const summary: ScriptSummary = {
+      type: 'summary',
+      seed: this.gameEngine.getSeed(),
+      turn: gameState.turn,
+      commands,
+      failedLine,
+      gameOver: gameState.isGameOver,
+      ...(gameState.winner && { winner: gameState.winner }),
+      ...(gameState.victoryType && { victoryType: gameState.victoryType })
+    };
+    onRecord(summary);
+    return summary;
+  }
+
+  /**
+   * Parses and executes one line
+   */
+  private runLine(line: number, input: string): ScriptCommandRecord {
+    const turn = this.gameEngine.getCurrentTurn();
+    const parsed = this.inputHandler.processCommand(input, viewForSide(this.gameEngine.getGameState(), 'player'));
+
+    if (!parsed.success || !parsed.command) {
+      return { type: 'command', line, input, turn, success: false, message: parsed.error || 'Invalid command' };
+    }
+
+    const command = parsed.command;
+    if (command.type === 'quit') {
+      return { type: 'command', line, input, turn, success: true, message: 'Script ended', command };
+    }
+
+    const result = this.gameController.executeCommand(command);
+    const data = result.success ? this.getCommandData(command) : undefined;
+
+    return {
+      type: 'command',
+      line,
+      input,
+      turn,
+      success: result.success,
+      message: result.message,
+      command,
+      ...(data !== undefined && { data })
+    };
+  }
+
+  /**
+   * Gets what a display command shows, so scripts can read it instead of the screen. Like the
+   * screen, it holds nothing of the opponent but what the player's scans and battles showed.
+   */
+  private getCommandData(command: Command): unknown {
+    switch (command.type) {
+      case 'status':
+        return filterForSide(this.gameEngine.getGameState(), 'player');
+      case 'history':
+        return filterForSide(this.gameEngine.getGameState(), 'player').history;
+      case 'queue':
+        return this.gameEngine.getConstructionStatus();
+      case 'forecast':
+        return this.gameEngine.getEconomicForecast(command.turns);
+      case 'simulate':
+        return this.gameController.getLastBattlePreview();
+      case 'standing_list':
+        return this.gameEngine.getStandingOrders();
+      default:
+        return undefined;
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { FleetComposition, CombatEvent } from '../models/GameState.js';
+import { FleetComposition, CombatEvent, CombatRound } from '../models/GameState.js';
 import { UNIT_STATS, UnitType } from '../models/Fleet.js';
 
 /**
@@ -11,23 +11,13 @@ export interface TacticalAdvantage {
   effectivenessRatio: number;
 }
 
-/**
- * Represents battle phase information
- */
-export interface BattlePhase {
-  phase: 'opening' | 'main' | 'cleanup';
-  description: string;
-  advantage: 'attacker' | 'defender' | 'neutral';
-  strengthRatio: number;
-}
-
 /**
  * Enhanced combat display information with tactical analysis
  */
 export interface EnhancedCombatDisplay {
   event: CombatEvent;
   tacticalAdvantages: TacticalAdvantage[];
-  battlePhases: BattlePhase[];
+  rounds: CombatRound[]; // as fought; empty for battles saved before rounds were recorded
   effectivenessRatios: {
     attackerEffectiveness: number;
     defenderEffectiveness: number;
@@ -188,110 +178,18 @@ export class TacticalAnalyzer {
     };
   }
 
-  /**
-   * Determines battle phases based on fleet compositions and outcome
-   */
-  public determineBattlePhases(
-    attackerFleet: FleetComposition,
-    defenderFleet: FleetComposition,
-    outcome: 'decisive_attacker' | 'decisive_defender' | 'close_battle'
-  ): BattlePhase[] {
-    const phases: BattlePhase[] = [];
-    
-    // Calculate overall strength ratio for phase determination
-    const attackerTotal = attackerFleet.frigates + attackerFleet.cruisers + attackerFleet.battleships;
-    const defenderTotal = defenderFleet.frigates + defenderFleet.cruisers + defenderFleet.battleships;
-    const strengthRatio = defenderTotal > 0 ? attackerTotal / defenderTotal : Infinity;
-    
-    // Opening phase - initial engagement
-    let openingAdvantage: 'attacker' | 'defender' | 'neutral';
-    let openingDescription: string;
-    
-    if (attackerFleet.frigates > defenderFleet.frigates * 1.5) {
-      openingAdvantage = 'attacker';
-      openingDescription = 'Attacker gains early advantage with superior frigate numbers';
-    } else if (defenderFleet.frigates > attackerFleet.frigates * 1.5) {
-      openingAdvantage = 'defender';
-      openingDescription = 'Defender controls opening with frigate superiority';
-    } else {
-      openingAdvantage = 'neutral';
-      openingDescription = 'Opening engagement is evenly matched';
-    }
-    
-    phases.push({
-      phase: 'opening',
-      description: openingDescription,
-      advantage: openingAdvantage,
-      strengthRatio: strengthRatio
-    });
-    
-    // Main phase - heavy engagement
-    let mainAdvantage: 'attacker' | 'defender' | 'neutral';
-    let mainDescription: string;
-    
-    const attackerHeavy = attackerFleet.cruisers + attackerFleet.battleships;
-    const defenderHeavy = defenderFleet.cruisers + defenderFleet.battleships;
-    
-    if (attackerHeavy > defenderHeavy * 1.3) {
-      mainAdvantage = 'attacker';
-      mainDescription = 'Attacker dominates with superior heavy units';
-    } else if (defenderHeavy > attackerHeavy * 1.3) {
-      mainAdvantage = 'defender';
-      mainDescription = 'Defender holds firm with heavy unit advantage';
-    } else {
-      mainAdvantage = 'neutral';
-      mainDescription = 'Main engagement sees fierce fighting on both sides';
-    }
-    
-    phases.push({
-      phase: 'main',
-      description: mainDescription,
-      advantage: mainAdvantage,
-      strengthRatio: strengthRatio
-    });
-    
-    // Cleanup phase - battle resolution
-    let cleanupAdvantage: 'attacker' | 'defender' | 'neutral';
-    let cleanupDescription: string;
-    
-    switch (outcome) {
-      case 'decisive_attacker':
-        cleanupAdvantage = 'attacker';
-        cleanupDescription = 'Attacker achieves decisive victory in final phase';
-        break;
-      case 'decisive_defender':
-        cleanupAdvantage = 'defender';
-        cleanupDescription = 'Defender successfully repels attack in final phase';
-        break;
-      case 'close_battle':
-        cleanupAdvantage = 'neutral';
-        cleanupDescription = 'Battle concludes with heavy losses on both sides';
-        break;
-    }
-    
-    phases.push({
-      phase: 'cleanup',
-      description: cleanupDescription,
-      advantage: cleanupAdvantage,
-      strengthRatio: strengthRatio
-    });
-    
-    return phases;
-  }
-
   /**
    * Creates enhanced combat display with full tactical analysis
    */
   public createEnhancedCombatDisplay(event: CombatEvent): EnhancedCombatDisplay {
     const tacticalAdvantages = this.calculateTacticalAdvantages(event.attackerFleet, event.defenderFleet);
-    const battlePhases = this.determineBattlePhases(event.attackerFleet, event.defenderFleet, event.outcome);
     const effectivenessRatios = this.calculateEffectivenessRatios(event.attackerFleet, event.defenderFleet);
     const casualtyPercentages = this.calculateCasualtyPercentages(event);
     
     return {
       event,
       tacticalAdvantages,
-      battlePhases,
+      rounds: event.rounds ?? [],
       effectivenessRatios,
       casualtyPercentages
     };
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { parseHistory, formatHistory, searchHistory, HISTORY_SIZE } from '../CommandLine.js';
+
+describe('CommandLine', () => {
+  describe('history file', () => {
+    it('should read the oldest command first and keep the newest first', () => {
+      expect(parseHistory('build 5 frigate\n\nscan deep\r\nend\n')).toEqual(['end', 'scan deep', 'build 5 frigate']);
+    });
+
+    it('should write what it reads', () => {
+      const history = ['end', 'scan deep', 'build 5 frigate'];
+
+      expect(formatHistory(history)).toBe('build 5 frigate\nscan deep\nend\n');
+      expect(parseHistory(formatHistory(history))).toEqual(history);
+    });
+
+    it('should keep only the newest commands', () => {
+      const history = Array.from({ length: HISTORY_SIZE + 10 }, (_, i) => `forecast ${i}`);
+
+      expect(parseHistory(formatHistory(history))).toEqual(history.slice(0, HISTORY_SIZE));
+    });
+  });
+
+  describe('searchHistory', () => {
+    const history = ['end', 'build 1 reactor', 'scan deep', 'build 5 frigate'];
+
+    it('should find the newest command containing the query', () => {
+      expect(searchHistory(history, 'build')).toBe(1);
+      expect(searchHistory(history, 'frig')).toBe(3);
+    });
+
+    it('should continue from an older entry and report no match', () => {
+      expect(searchHistory(history, 'build', 2)).toBe(3);
+      expect(searchHistory(history, 'build', 4)).toBe(-1);
+      expect(searchHistory(history, 'attack')).toBe(-1);
+    });
+  });
+});
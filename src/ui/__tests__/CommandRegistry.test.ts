@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { CommandRegistry, CommandDefinition, parseAliasConfig } from '../CommandRegistry.js';
+import { createDefaultRegistry } from '../BuiltInCommands.js';
+import { InputHandler } from '../InputHandler.js';
+import { GameController } from '../GameController.js';
+import { GameEngine } from '../../engine/GameEngine.js';
+import { viewForSide } from '../../models/Sides.js';
+
+describe('CommandRegistry', () => {
+  const gameEngine = () => new GameEngine({ seed: 7 });
+
+  const sayCommand: CommandDefinition = {
+    name: 'say',
+    category: 'PLUGIN COMMANDS',
+    usage: [{ syntax: 'say <words>', description: 'Echo some words' }],
+    parse: tokens => tokens.length > 1
+      ? { success: true, command: { type: 'say', args: tokens.slice(1) } }
+      : { success: false, error: 'Say command format: "say <words>"' },
+    execute: command => ({ success: true, message: command.args!.join(' '), gameStateChanged: false })
+  };
+
+  describe('registration', () => {
+    it('should parse and execute a registered command through the frontends', () => {
+      const registry = createDefaultRegistry();
+      registry.register(sayCommand);
+      const engine = gameEngine();
+
+      const parsed = new InputHandler(registry).processCommand('say hello there', engine.getGameState());
+      const result = new GameController(engine, undefined, registry).executeCommand(parsed.command!);
+
+      expect(parsed.command).toEqual({ type: 'say', args: ['hello', 'there'] });
+      expect(result).toEqual({ success: true, message: 'hello there', gameStateChanged: false });
+    });
+
+    it('should refuse a command word or type that is taken', () => {
+      const registry = createDefaultRegistry();
+
+      expect(() => registry.register({ ...sayCommand, name: 'build' })).toThrow('Command word "build" is already registered');
+      expect(() => registry.register({ ...sayCommand, types: ['end_turn'] })).toThrow('Command type "end_turn" is already registered');
+    });
+
+    it('should derive suggestions and syntax checks from the registered commands', () => {
+      const registry = createDefaultRegistry();
+      registry.register(sayCommand);
+      const inputHandler = new InputHandler(registry);
+
+      expect(inputHandler.getCommandSuggestions('s')).toEqual(['simulate', 'standing', 'scan', 'status', 'save', 'say']);
+      expect(inputHandler.validateSyntax('say')).toEqual({ valid: false, error: 'Say command format: "say <words>"' });
+      expect(inputHandler.validateSyntax('say hi').valid).toBe(true);
+    });
+
+    it('should group help by category in the order registered', () => {
+      const registry = new CommandRegistry();
+      registry.register(sayCommand);
+      registry.register({ ...sayCommand, name: 'shout', types: ['shout'], category: 'LOUD COMMANDS' });
+      registry.register({ ...sayCommand, name: 'whisper', types: ['whisper'] });
+
+      expect(registry.getCategories().map(({ category, definitions }) => [category, definitions.map(definition => definition.name)]))
+        .toEqual([['PLUGIN COMMANDS', ['say', 'whisper']], ['LOUD COMMANDS', ['shout']]]);
+    });
+  });
+
+  describe('aliases', () => {
+    it('should expand command and word aliases before parsing', () => {
+      const registry = createDefaultRegistry();
+      registry.addAliases({ commands: { b: 'build', ff: 'build 10 frigate' }, words: { f: 'frigate', r: 'reactor' } });
+      const inputHandler = new InputHandler(registry);
+      const gameState = viewForSide(gameEngine().getGameState(), 'player');
+
+      expect(inputHandler.processCommand('b 5 f', gameState).command).toEqual({ type: 'build', buildType: 'frigate', quantity: 5 });
+      expect(inputHandler.processCommand('ff', gameState).command).toEqual({ type: 'build', buildType: 'frigate', quantity: 10 });
+      expect(inputHandler.processCommand('B 1 R', gameState).command?.buildType).toBe('reactor');
+      expect(inputHandler.getCommandSuggestions('b')).toEqual(['build', 'b']);
+    });
+
+    it('should only replace words after the command word with word aliases', () => {
+      const registry = createDefaultRegistry();
+      registry.addAliases({ words: { save: 'frigate' } });
+
+      expect(registry.expandAliases(['save', 'save'])).toEqual(['save', 'frigate']);
+    });
+
+    it('should skip aliases that would hide a command or do not start with one', () => {
+      const registry = createDefaultRegistry();
+
+      const errors = registry.addAliases({ commands: { build: 'attack', x: 'launch 5', 'two words': 'build' }, words: { f: 'two words' } });
+
+      expect(errors).toEqual([
+        'Alias "build" would hide the build command',
+        'Alias "x" must start with a command, not "launch 5"',
+        'Alias "two words" must be one word of letters, numbers, "-" and "_"',
+        'Word alias "f" must stand for exactly one word'
+      ]);
+      expect(registry.getAliases()).toEqual({ commands: {}, words: {} });
+    });
+
+    it('should read alias files and report entries that are not strings', () => {
+      const parsed = parseAliasConfig('{"commands": {"b": "build", "n": 3}, "words": {"f": "frigate"}}');
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.config).toEqual({ commands: { b: 'build' }, words: { f: 'frigate' } });
+      expect(parsed.errors).toEqual(['commands.n: must be a string']);
+      expect(parseAliasConfig('[]').errors).toEqual(['Alias file must contain a JSON object']);
+      expect(parseAliasConfig('{').success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { Dashboard, DashboardView, MIN_DASHBOARD_WIDTH, MIN_DASHBOARD_HEIGHT } from '../Dashboard.js';
+import { ColorManager } from '../ColorManager.js';
+import { GameEngine } from '../../engine/GameEngine.js';
+import { viewForSide } from '../../models/Sides.js';
+
+describe('Dashboard', () => {
+  const dashboard = new Dashboard(new ColorManager(false));
+
+  const viewOf = (gameEngine: GameEngine): DashboardView => ({
+    gameState: viewForSide(gameEngine.getGameState(), 'player'),
+    construction: gameEngine.getConstructionStatus(),
+    intelligence: gameEngine.getIntelligenceGap(),
+    messages: [{ text: 'Welcome', kind: 'info' }]
+  });
+
+  const stripColors = (line: string) => line.replace(/\x1b\[[0-9;]*m/g, '');
+
+  it('should fill the terminal but the command line row with lines of the terminal width', () => {
+    const lines = dashboard.render(viewOf(new GameEngine({ seed: 7 })), 100, 30);
+
+    expect(lines).toHaveLength(29);
+    lines.forEach(line => expect([...line]).toHaveLength(100));
+    expect(lines[0]).toContain('Turn 1');
+  });
+
+  it('should keep colored lines to the terminal width and stop at its smallest size', () => {
+    const colored = new Dashboard({ colorize: (text: string) => `\x1b[32m${text}\x1b[0m` } as unknown as ColorManager);
+    const lines = colored.render(viewOf(new GameEngine({ seed: 7 })), 40, 10);
+
+    expect(lines).toHaveLength(MIN_DASHBOARD_HEIGHT - 1);
+    lines.forEach(line => expect([...stripColors(line)]).toHaveLength(MIN_DASHBOARD_WIDTH));
+  });
+
+  it('should show the panels for a new game', () => {
+    const screen = dashboard.render(viewOf(new GameEngine({ seed: 7 })), 120, 30).join('\n');
+
+    expect(screen).toContain('No scans yet');
+    expect(screen).toContain('No fleets in transit');
+    expect(screen).toContain('Queue empty');
+    expect(screen).toContain('No battles yet');
+    expect(screen).toContain('Welcome');
+  });
+
+  it('should wrap long messages and keep the newest', () => {
+    const view = viewOf(new GameEngine({ seed: 7 }));
+    view.messages = Array.from({ length: 10 }, (_, i) => ({ text: `Message ${i} is long enough to need a second line in the panel`, kind: 'info' as const }));
+
+    const lines = dashboard.render(view, 100, 30);
+    const messages = lines.slice(-10, -1).map(line => line.slice(61, -2).trim());
+
+    expect(messages.slice(-2)).toEqual(['Message 9 is long enough to need a', 'second line in the panel']);
+    expect(messages.join(' ')).not.toContain('Message 0');
+  });
+
+  it('should plot fleets in transit turn by turn', () => {
+    const gameEngine = new GameEngine({ seed: 7 });
+    gameEngine.processTurn([
+      { type: 'attack', attackFleet: { frigates: 20, cruisers: 0, battleships: 0 } }
+    ]);
+    const movement = gameEngine.getGameState().factions.player.fleet.inTransit.outbound[0];
+
+    const screen = dashboard.render(viewOf(gameEngine), 120, 30).join('\n');
+    const outbound = movement.arrivalTurn - gameEngine.getCurrentTurn();
+    const returning = movement.returnTurn - movement.arrivalTurn - 1;
+
+    expect(screen).toContain(`#1    20/0/0       ${'>'.repeat(outbound)}X${'<'.repeat(returning)}H`);
+    expect(screen).toContain(`Kepler T${movement.arrivalTurn}`);
+  });
+
+  it('should show scan age and battles from the player\'s side', () => {
+    const gameEngine = new GameEngine({ seed: 7 });
+    gameEngine.processTurn([
+      { type: 'scan', scanType: 'basic' },
+      { type: 'attack', attackFleet: { frigates: 50, cruisers: 0, battleships: 0 } }
+    ]);
+    while (gameEngine.getCombatLog().length === 0) {
+      gameEngine.processTurn();
+    }
+
+    const screen = dashboard.render(viewOf(gameEngine), 120, 30).join('\n');
+    const battle = gameEngine.getCombatLog()[0];
+
+    expect(screen).toMatch(/Last scan Turn 1 \(\d+ ago\)/);
+    expect(screen).toMatch(/Confidence +\d+%/);
+    expect(screen).toContain(`T${battle.turn} ${battle.attacker === 'player' ? 'You attacked' : 'AI attacked'}:`);
+  });
+});
@@ -2,6 +2,31 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { GameEngine } from '../../engine/GameEngine.js';
 import { GameController } from '../GameController.js';
 import { Command } from '../InputHandler.js';
+import { SaveStorage } from '../SaveStorage.js';
+
+class MemorySaveStorage implements SaveStorage {
+  private slots = new Map<string, string>();
+
+  save(slot: string, data: string): void {
+    this.slots.set(slot, data);
+  }
+
+  load(slot: string): string | null {
+    return this.slots.get(slot) ?? null;
+  }
+
+  remove(slot: string): void {
+    this.slots.delete(slot);
+  }
+
+  list(): string[] {
+    return [...this.slots.keys()].sort();
+  }
+
+  getLocation(slot: string): string {
+    return `memory:${slot}`;
+  }
+}
 
 describe('GameController', () => {
   let gameEngine: GameEngine;
@@ -30,13 +55,13 @@ describe('GameController', () => {
       
       // Check that resources were deducted
       const gameState = gameEngine.getGameState();
-      expect(gameState.player.resources.metal).toBe(10000 - (4 * 5)); // 4 metal per frigate
-      expect(gameState.player.resources.energy).toBe(10000 - (2 * 5)); // 2 energy per frigate
+      expect(gameState.factions.player.resources.metal).toBe(10000 - (4 * 5)); // 4 metal per frigate
+      expect(gameState.factions.player.resources.energy).toBe(10000 - (2 * 5)); // 2 energy per frigate
       
       // Check that build order was added
-      expect(gameState.player.economy.constructionQueue).toHaveLength(1);
-      expect(gameState.player.economy.constructionQueue[0].unitType).toBe('frigate');
-      expect(gameState.player.economy.constructionQueue[0].quantity).toBe(5);
+      expect(gameState.factions.player.economy.constructionQueue).toHaveLength(1);
+      expect(gameState.factions.player.economy.constructionQueue[0].unitType).toBe('frigate');
+      expect(gameState.factions.player.economy.constructionQueue[0].quantity).toBe(5);
     });
 
     it('should fail build command with insufficient resources', () => {
@@ -68,8 +93,8 @@ describe('GameController', () => {
       
       // Check that resources were deducted
       const gameState = gameEngine.getGameState();
-      expect(gameState.player.resources.metal).toBe(10000 - 900); // 900 metal per reactor
-      expect(gameState.player.resources.energy).toBe(10000 - 1200); // 1200 energy per reactor
+      expect(gameState.factions.player.resources.metal).toBe(10000 - 900); // 900 metal per reactor
+      expect(gameState.factions.player.resources.energy).toBe(10000 - 1200); // 1200 energy per reactor
     });
   });
 
@@ -82,7 +107,7 @@ describe('GameController', () => {
           cruisers: 5,
           battleships: 2
         },
-        target: 'ai_system'
+        target: 'ai'
       };
 
       const result = gameController.executeCommand(command);
@@ -94,14 +119,14 @@ describe('GameController', () => {
       
       // Check that fleet was deducted from home system
       const gameState = gameEngine.getGameState();
-      const homeFleet = gameState.player.fleet.homeSystem;
+      const homeFleet = gameState.factions.player.fleet.homeSystem;
       expect(homeFleet.frigates).toBe(50 - 10); // Started with 50
       expect(homeFleet.cruisers).toBe(20 - 5);  // Started with 20
       expect(homeFleet.battleships).toBe(10 - 2); // Started with 10
       
       // Check that fleet movement was created
-      expect(gameState.player.fleet.inTransit.outbound).toHaveLength(1);
-      const movement = gameState.player.fleet.inTransit.outbound[0];
+      expect(gameState.factions.player.fleet.inTransit.outbound).toHaveLength(1);
+      const movement = gameState.factions.player.fleet.inTransit.outbound[0];
       expect(movement.composition.frigates).toBe(10);
       expect(movement.composition.cruisers).toBe(5);
       expect(movement.composition.battleships).toBe(2);
@@ -115,7 +140,7 @@ describe('GameController', () => {
           cruisers: 0,
           battleships: 0
         },
-        target: 'ai_system'
+        target: 'ai'
       };
 
       const result = gameController.executeCommand(command);
@@ -141,10 +166,10 @@ describe('GameController', () => {
       
       // Check that energy was deducted
       const gameState = gameEngine.getGameState();
-      expect(gameState.player.resources.energy).toBe(10000 - 1000); // 1000 energy for basic scan
+      expect(gameState.factions.player.resources.energy).toBe(10000 - 1000); // 1000 energy for basic scan
       
       // Check that intelligence was updated
-      expect(gameState.player.intelligence.lastScanTurn).toBe(gameState.turn);
+      expect(gameState.factions.player.intelligence.lastScanTurn).toBe(gameState.turn);
     });
 
     it('should execute deep scan command successfully', () => {
@@ -161,13 +186,13 @@ describe('GameController', () => {
       
       // Check that energy was deducted
       const gameState = gameEngine.getGameState();
-      expect(gameState.player.resources.energy).toBe(10000 - 2500); // 2500 energy for deep scan
+      expect(gameState.factions.player.resources.energy).toBe(10000 - 2500); // 2500 energy for deep scan
     });
 
     it('should fail scan command with insufficient energy', () => {
       // First, spend most of the energy
       const gameState = gameEngine.getGameState();
-      gameState.player.resources.energy = 500; // Not enough for any scan
+      gameState.factions.player.resources.energy = 500; // Not enough for any scan
 
       const command: Command = {
         type: 'scan',
@@ -198,6 +223,18 @@ describe('GameController', () => {
       // Check that turn advanced
       expect(gameEngine.getCurrentTurn()).toBe(initialTurn + 1);
     });
+
+    it('should give standing orders at the start of the next turn and report skipped ones', () => {
+      expect(gameController.executeCommand({ type: 'standing', buildType: 'frigate', quantity: 10, every: 1 }).message)
+        .toBe('Standing order 1 added, first given on Turn 2');
+      gameController.executeCommand({ type: 'standing', buildType: 'battleship', quantity: 5000, every: 1 });
+
+      const result = gameController.executeCommand({ type: 'end_turn' });
+
+      expect(result.message).toBe('Turn 1 completed. 1 standing order(s) given, 1 skipped.');
+      expect(gameController.getLastStandingOrderResults().map(order => order.success)).toEqual([true, false]);
+      expect(gameEngine.getGameState().factions.player.economy.constructionQueue).toHaveLength(1);
+    });
   });
 
   describe('Status and Help Commands', () => {
@@ -226,6 +263,71 @@ describe('GameController', () => {
     });
   });
 
+  describe('Save and Load Commands', () => {
+    let storage: MemorySaveStorage;
+
+    beforeEach(() => {
+      storage = new MemorySaveStorage();
+      gameController = new GameController(gameEngine, storage);
+    });
+
+    it('should save and load the running game', () => {
+      gameController.executeCommand({ type: 'end_turn' });
+      const saved = JSON.stringify(gameEngine.getGameState());
+
+      const saveResult = gameController.executeCommand({ type: 'save', slot: 'slot1' });
+      expect(saveResult.success).toBe(true);
+      expect(saveResult.message).toContain('memory:slot1');
+
+      gameController.executeCommand({ type: 'end_turn' });
+      gameController.executeCommand({ type: 'end_turn' });
+      expect(gameEngine.getCurrentTurn()).toBe(4);
+
+      const loadResult = gameController.executeCommand({ type: 'load', slot: 'slot1' });
+      expect(loadResult.success).toBe(true);
+      expect(loadResult.gameStateChanged).toBe(true);
+      expect(JSON.stringify(gameEngine.getGameState())).toBe(saved);
+      expect(gameController.getLastTurnResult()).toBeNull();
+    });
+
+    it('should refuse to save while orders are pending', () => {
+      gameController.executeCommand({ type: 'build', buildType: 'frigate', quantity: 1 });
+
+      const result = gameController.executeCommand({ type: 'save', slot: 'slot1' });
+
+      expect(result.success).toBe(false);
+      expect(storage.list()).toHaveLength(0);
+    });
+
+    it('should report an empty slot and list the available ones', () => {
+      gameController.executeCommand({ type: 'save', slot: 'other' });
+
+      const result = gameController.executeCommand({ type: 'load', slot: 'missing' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('No save found');
+      expect(result.message).toContain('other');
+    });
+
+    it('should leave the game untouched when a save is corrupt', () => {
+      storage.save('broken', '{not json');
+      const before = JSON.stringify(gameEngine.getGameState());
+
+      const result = gameController.executeCommand({ type: 'load', slot: 'broken' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('not valid JSON');
+      expect(JSON.stringify(gameEngine.getGameState())).toBe(before);
+    });
+
+    it('should fail when no save storage is configured', () => {
+      const controller = new GameController(gameEngine);
+
+      expect(controller.executeCommand({ type: 'save', slot: 'slot1' }).success).toBe(false);
+      expect(controller.executeCommand({ type: 'load', slot: 'slot1' }).success).toBe(false);
+    });
+  });
+
   describe('Invalid Commands', () => {
     it('should handle invalid command type', () => {
       const command = {
@@ -252,4 +354,78 @@ describe('GameController', () => {
       expect(result.message).toContain('Invalid build command');
     });
   });
-});
\ No newline at end of file
+
+  describe('Hotseat', () => {
+    beforeEach(() => {
+      gameEngine = new GameEngine({ seed: 7, hotseat: true, sideNames: { player: 'Ana', ai: 'Ben' } });
+      gameController = new GameController(gameEngine, new MemorySaveStorage());
+    });
+
+    it('should hand the turn to the second side before playing it', () => {
+      const result = gameController.executeCommand({ type: 'end_turn' });
+
+      expect(result.message).toBe('Ana has ended the turn. Ben to move.');
+      expect(gameController.getActiveSide()).toBe('ai');
+      expect(gameEngine.getCurrentTurn()).toBe(1);
+
+      expect(gameController.executeCommand({ type: 'end_turn' }).message).toBe('Turn 1 completed.');
+      expect(gameController.getActiveSide()).toBe('player');
+      expect(gameEngine.getCurrentTurn()).toBe(2);
+    });
+
+    it('should give orders for the side at the keyboard', () => {
+      gameController.executeCommand({ type: 'end_turn' });
+      gameController.executeCommand({ type: 'build', buildType: 'frigate', quantity: 5 });
+      gameController.executeCommand({ type: 'standing', buildType: 'frigate', quantity: 10, every: 1 });
+      gameController.executeCommand({ type: 'end_turn' });
+
+      expect(gameEngine.getGameState().factions.ai.fleet.homeSystem.frigates).toBeGreaterThan(gameEngine.getGameState().factions.player.fleet.homeSystem.frigates);
+      expect(gameEngine.getStandingOrders('ai')).toHaveLength(1);
+      expect(gameEngine.getStandingOrders('player')).toHaveLength(0);
+      expect(gameController.getLastStandingOrderResults('ai').map(order => order.success)).toEqual([true]);
+    });
+
+    it('should only save between turns', () => {
+      gameController.executeCommand({ type: 'end_turn' });
+
+      expect(gameController.executeCommand({ type: 'save', slot: 'lunch' }).success).toBe(false);
+      gameController.executeCommand({ type: 'end_turn' });
+      expect(gameController.executeCommand({ type: 'save', slot: 'lunch' }).success).toBe(true);
+    });
+  });
+
+  describe('Free-for-all', () => {
+    beforeEach(() => {
+      gameEngine = new GameEngine({
+        seed: 7,
+        factions: [
+          { name: 'Ana', controller: 'human' },
+          { name: 'Rex', controller: 'ai', archetype: 'aggressor' },
+          { name: 'Ben', controller: 'human' }
+        ]
+      });
+      gameController = new GameController(gameEngine, new MemorySaveStorage());
+    });
+
+    it('should pass the keyboard to every human seat before playing the turn', () => {
+      expect(gameController.getHumanSides()).toEqual(['ana', 'ben']);
+
+      expect(gameController.executeCommand({ type: 'end_turn' }).message).toBe('Ana has ended the turn. Ben to move.');
+      expect(gameController.getActiveSide()).toBe('ben');
+      expect(gameEngine.getCurrentTurn()).toBe(1);
+
+      expect(gameController.executeCommand({ type: 'end_turn' }).message).toBe('Turn 1 completed.');
+      expect(gameController.getActiveSide()).toBe('ana');
+      expect(gameEngine.getCurrentTurn()).toBe(2);
+    });
+
+    it('should leave knocked-out seats out of the rotation', () => {
+      gameEngine.getGameState().eliminated.push('ana');
+      gameController = new GameController(gameEngine, new MemorySaveStorage());
+
+      expect(gameController.getActiveSide()).toBe('ben');
+      expect(gameController.executeCommand({ type: 'end_turn' }).message).toBe('Turn 1 completed.');
+      expect(gameController.getActiveSide()).toBe('ben');
+    });
+  });
+});
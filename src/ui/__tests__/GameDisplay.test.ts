@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { GameDisplay } from '../GameDisplay.js';
 import { CombatEvent, FleetComposition } from '../../models/GameState.js';
+import { GameEngine } from '../../engine/GameEngine.js';
+import { GameEvent } from '../../engine/GameEvents.js';
+import { viewForSide } from '../../models/Sides.js';
 
 describe('GameDisplay Enhanced Combat Display', () => {
   let gameDisplay: GameDisplay;
@@ -41,7 +44,24 @@ describe('GameDisplay Enhanced Combat Display', () => {
       survivors: {
         attacker: { frigates: 30, cruisers: 12, battleships: 7 },
         defender: { frigates: 15, cruisers: 15, battleships: 9 }
-      }
+      },
+      rounds: [
+        {
+          round: 1,
+          attackerFleet,
+          defenderFleet,
+          attackerLosses: { frigates: 12, cruisers: 5, battleships: 2 },
+          defenderLosses: { frigates: 9, cruisers: 6, battleships: 3 }
+        },
+        {
+          round: 2,
+          attackerFleet: { frigates: 38, cruisers: 15, battleships: 8 },
+          defenderFleet: { frigates: 21, cruisers: 19, battleships: 12 },
+          attackerLosses: { frigates: 8, cruisers: 3, battleships: 1 },
+          defenderLosses: { frigates: 6, cruisers: 4, battleships: 3 }
+        }
+      ],
+      attackerRetreated: false
     };
 
     // Call the private method through displayTurnResult
@@ -66,9 +86,10 @@ describe('GameDisplay Enhanced Combat Display', () => {
     
     // Should include battle phase progression
     expect(logCalls).toContain('Battle Progression');
-    expect(logCalls).toContain('Phase 1: Opening');
-    expect(logCalls).toContain('Phase 2: Main');
-    expect(logCalls).toContain('Phase 3: Cleanup');
+    expect(logCalls).toContain('Round 1: 80 vs 70 ships');
+    expect(logCalls).toContain('Round 2: 61 vs 52 ships');
+    expect(logCalls).toContain('Attacker lost 19');
+    expect(logCalls).not.toContain('retreated');
     
     // Should include detailed fleet compositions
     expect(logCalls).toContain('Attacker: 80 ships');
@@ -120,6 +141,39 @@ describe('GameDisplay Enhanced Combat Display', () => {
     expect(logCalls).toContain('overwhelmed');
   });
 
+  it('should report a fleet that retreated', () => {
+    const combatEvent: CombatEvent = {
+      turn: 4,
+      attacker: 'player',
+      attackerFleet: { frigates: 20, cruisers: 0, battleships: 0 },
+      defenderFleet: { frigates: 40, cruisers: 0, battleships: 0 },
+      outcome: 'decisive_defender',
+      casualties: {
+        attacker: { frigates: 8, cruisers: 0, battleships: 0 },
+        defender: { frigates: 3, cruisers: 0, battleships: 0 }
+      },
+      survivors: {
+        attacker: { frigates: 12, cruisers: 0, battleships: 0 },
+        defender: { frigates: 37, cruisers: 0, battleships: 0 }
+      },
+      rounds: [
+        {
+          round: 1,
+          attackerFleet: { frigates: 20, cruisers: 0, battleships: 0 },
+          defenderFleet: { frigates: 40, cruisers: 0, battleships: 0 },
+          attackerLosses: { frigates: 8, cruisers: 0, battleships: 0 },
+          defenderLosses: { frigates: 3, cruisers: 0, battleships: 0 }
+        }
+      ],
+      attackerRetreated: true
+    };
+
+    gameDisplay.displayTurnResult({ errors: [], combatEvents: [combatEvent], gameEnded: false, winner: null, victoryType: null });
+
+    const logCalls = consoleSpy.mock.calls.map((call: any[]) => call[0]).join('\n');
+    expect(logCalls).toContain('YOUR fleet broke off the attack and retreated');
+  });
+
   it('should display no combat message when no events occur', () => {
     const turnResult = {
       errors: [],
@@ -540,4 +594,40 @@ describe('GameDisplay Enhanced Combat Display', () => {
       expect(logCalls).toContain('Skipping to next event');
     });
   });
-});
\ No newline at end of file
+
+  describe('Hotseat', () => {
+    const playHotseatGame = () => {
+      const engine = new GameEngine({ seed: 7, hotseat: true, sideNames: { player: 'Ana', ai: 'Ben' } });
+      engine.processTurn();
+      return engine;
+    };
+
+    it('should show only the side at the keyboard in the status view', () => {
+      const engine = playHotseatGame();
+
+      gameDisplay.displayDetailedStatus(viewForSide(engine.getGameState(), 'player'), engine.getGameStatistics());
+
+      const logCalls = consoleSpy.mock.calls.map((call: any[]) => call[0]).join('\n');
+      expect(logCalls).toContain("ANA'S POSITION:");
+      expect(logCalls).not.toContain('COMPARISON');
+      expect(logCalls).not.toContain('Ben');
+    });
+
+    it('should name the winner and the loser', () => {
+      const gameState = { ...viewForSide(playHotseatGame().getGameState(), 'player'), isGameOver: true, winner: 'ai' as const, victoryType: 'military' as const };
+
+      gameDisplay.displayGameOver(gameState);
+
+      const logCalls = consoleSpy.mock.calls.map((call: any[]) => call[0]).join('\n');
+      expect(logCalls).toContain('🏆 Ben has defeated Ana!');
+      expect(logCalls).toMatch(/GAME SUMMARY: +Ana +Ben/);
+    });
+
+    it('should tell each side about its own construction', () => {
+      const event: GameEvent = { type: 'ConstructionCompleted', turn: 2, side: 'ai', unitType: 'frigate', quantity: 5 };
+
+      expect(gameDisplay.formatGameEvent(event, 'ai')).toBe('🏗️  Construction complete: 5 frigates');
+      expect(gameDisplay.formatGameEvent(event, 'player')).toBeNull();
+    });
+  });
+});
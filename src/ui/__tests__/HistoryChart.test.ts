@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { HistoryChart, sparkline, bar, ASCII_GLYPHS } from '../HistoryChart.js';
+import { ColorManager } from '../ColorManager.js';
+import { GameEngine } from '../../engine/GameEngine.js';
+import { viewForSide } from '../../models/Sides.js';
+
+describe('HistoryChart', () => {
+  const playTurns = (turns: number) => {
+    const gameEngine = new GameEngine({ seed: 7 });
+    gameEngine.processTurn([
+      { type: 'attack', attackFleet: { frigates: 50, cruisers: 0, battleships: 0 } }
+    ]);
+    for (let turn = 1; turn < turns; turn++) {
+      gameEngine.processTurn();
+    }
+    return viewForSide(gameEngine.getGameState(), 'player').history;
+  };
+
+  it('should scale sparklines from zero to the highest value', () => {
+    expect(sparkline([0, 50, 100])).toBe('▁▅█');
+    expect(sparkline([80, 90, 100])).toBe('▇▇█');
+    expect(sparkline([-10, 0, 10], ASCII_GLYPHS)).toBe('_=#');
+    expect(sparkline([0, 0, 0])).toBe('▁▁▁');
+    expect(sparkline([])).toBe('');
+  });
+
+  it('should draw bars in eighths of a cell, or whole cells in ASCII', () => {
+    expect(bar(100, 100, 4)).toBe('████');
+    expect(bar(50, 100, 3)).toBe('█▌');
+    expect(bar(50, 100, 3, ASCII_GLYPHS)).toBe('##');
+    expect(bar(1, 1000, 4)).toBe('▏');
+    expect(bar(0, 100, 4)).toBe('');
+  });
+
+  it('should chart one character per turn and keep lines to the width', () => {
+    const history = playTurns(6);
+    const lines = new HistoryChart(new ColorManager(false), true).renderTrends(history, 100);
+
+    expect(lines[0]).toBe('Turns 1-6');
+    expect(lines).toHaveLength(7);
+    lines.slice(1).forEach(line => {
+      expect(line.length).toBeLessThanOrEqual(100);
+      expect(line).toMatch(/^[A-Za-z ]{18}  [▁▂▃▄▅▆▇█]{6} +now /);
+    });
+  });
+
+  it('should show the latest turns of a game longer than the chart', () => {
+    const history = playTurns(30);
+    const lines = new HistoryChart(new ColorManager(false), true).renderTrends(history, 80);
+
+    expect(lines[0]).toBe('Turns 9-30');
+  });
+
+  it('should use only ASCII without Unicode', () => {
+    const history = playTurns(12);
+    const chart = new HistoryChart(new ColorManager(false), false);
+    const output = [...chart.renderTrends(history, 100), ...chart.renderLosses(history, 100)].join('\n');
+
+    expect(output).toMatch(/^[\x20-\x7e\n]*$/);
+  });
+
+  it('should chart losses on turns with battles', () => {
+    const history = playTurns(12);
+    const battleTurns = history.filter(turn => turn.player.shipsLost.frigates + turn.player.shipsKilled.frigates > 0);
+    const lines = new HistoryChart(new ColorManager(false), true).renderLosses(history, 100);
+
+    expect(battleTurns.length).toBeGreaterThan(0);
+    expect(lines).toHaveLength(battleTurns.length);
+    expect(lines[0]).toMatch(new RegExp(`^Turn ${battleTurns[0].turn} +lost +\\d+ [█▏▎▍▌▋▊▉ ]+ killed +\\d+ `));
+    expect(new HistoryChart(new ColorManager(false), true).renderLosses([], 100)).toEqual(['No ships lost or destroyed yet']);
+  });
+});
@@ -1,11 +1,24 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { InputHandler } from '../InputHandler.js';
-import { GameState } from '../../models/GameState.js';
+import { DuelView } from '../../models/Sides.js';
 import { PlayerState } from '../../models/PlayerState.js';
+import { createGalaxy } from '../../models/Galaxy.js';
+
+// A map where the opponent is called "Crimson Fleet", a third faction holds Vega and the player Meridian
+function createMapView(): Pick<DuelView, 'sides' | 'galaxy'> {
+  const galaxy = createGalaxy(['player', 'ai']);
+  galaxy.systems.vega.owner = 'third';
+  galaxy.systems.meridian.owner = 'player';
+
+  return {
+    sides: { player: { name: 'Player', controller: 'human' }, ai: { name: 'Crimson Fleet', controller: 'ai' } },
+    galaxy
+  };
+}
 
 describe('InputHandler', () => {
   let inputHandler: InputHandler;
-  let mockGameState: GameState;
+  let mockGameState: DuelView;
 
   beforeEach(() => {
     inputHandler = new InputHandler();
@@ -111,7 +124,16 @@ describe('InputHandler', () => {
       expect(result.command?.attackFleet?.frigates).toBe(10);
       expect(result.command?.attackFleet?.cruisers).toBe(5);
       expect(result.command?.attackFleet?.battleships).toBe(2);
-      expect(result.command?.target).toBe('ai_system');
+      expect(result.command?.target).toBeUndefined();
+    });
+
+    it('should parse the faction named after "at" as the target', () => {
+      const result = inputHandler.processCommand('attack 10 5 2 retreat 40 at Crimson Fleet', mockGameState);
+
+      expect(result.success).toBe(true);
+      expect(result.command?.target).toBe('crimson fleet');
+      expect(result.command?.retreatThreshold).toBe(0.4);
+      expect(inputHandler.processCommand('attack 10 5 2 at', mockGameState).error).toBe('Name the faction or system to attack after "at"');
     });
 
     it('should reject attack command with invalid numbers', () => {
@@ -197,6 +219,14 @@ describe('InputHandler', () => {
       expect(result.success).toBe(false);
       expect(result.error).toContain('Scan command format');
     });
+
+    it('should parse the faction named after "at" as the one to scan', () => {
+      const result = inputHandler.processCommand('scan deep at Crimson Fleet', mockGameState);
+
+      expect(result.success).toBe(true);
+      expect(result.command).toMatchObject({ type: 'scan', scanType: 'deep', target: 'crimson fleet' });
+      expect(inputHandler.processCommand('scan deep at', mockGameState).error).toBe('Name the faction to scan after "at"');
+    });
   });
 
   describe('Simple Commands', () => {
@@ -214,6 +244,27 @@ describe('InputHandler', () => {
       expect(result.command?.type).toBe('help');
     });
 
+    it('should parse forecast command with an optional length', () => {
+      expect(inputHandler.processCommand('forecast', mockGameState).command).toEqual({ type: 'forecast' });
+      expect(inputHandler.processCommand('forecast 20', mockGameState).command).toEqual({ type: 'forecast', turns: 20 });
+      expect(inputHandler.processCommand('forecast 0', mockGameState).error).toBe('Forecast length must be 1-50 turns');
+      expect(inputHandler.processCommand('forecast 51', mockGameState).success).toBe(false);
+    });
+
+    it('should parse standing orders without checking their cost', () => {
+      expect(inputHandler.processCommand('standing build 5000 battleship every 2', mockGameState).command).toEqual({
+        type: 'standing',
+        buildType: 'battleship',
+        quantity: 5000,
+        every: 2
+      });
+      expect(inputHandler.processCommand('standing scan basic', mockGameState).command).toEqual({ type: 'standing', scanType: 'basic', every: 1 });
+      expect(inputHandler.processCommand('standing list', mockGameState).command).toEqual({ type: 'standing_list' });
+      expect(inputHandler.processCommand('standing cancel 3', mockGameState).command).toEqual({ type: 'standing_cancel', standingOrderId: 3 });
+      expect(inputHandler.processCommand('standing scan basic every 0', mockGameState).error).toBe('Standing orders repeat every 1-50 turns');
+      expect(inputHandler.processCommand('standing attack 1 0 0', mockGameState).success).toBe(false);
+    });
+
     it('should parse end turn command variations', () => {
       const variations = ['end', 'endturn', 'end_turn'];
       
@@ -305,6 +356,21 @@ describe('InputHandler', () => {
     });
   });
 
+  describe('Save and Load Commands', () => {
+    it('should parse save and load commands with a slot', () => {
+      expect(inputHandler.processCommand('save campaign-1', mockGameState)).toEqual({
+        success: true,
+        command: { type: 'save', slot: 'campaign-1' }
+      });
+      expect(inputHandler.processCommand('load campaign-1', mockGameState).command?.type).toBe('load');
+    });
+
+    it('should reject save commands without a valid slot', () => {
+      expect(inputHandler.processCommand('save', mockGameState).success).toBe(false);
+      expect(inputHandler.processCommand('save ../etc', mockGameState).success).toBe(false);
+    });
+  });
+
   describe('Command Suggestions', () => {
     it('should provide command suggestions', () => {
       const suggestions = inputHandler.getCommandSuggestions('b');
@@ -321,4 +387,43 @@ describe('InputHandler', () => {
       expect(suggestions.length).toBeGreaterThan(0);
     });
   });
-});
\ No newline at end of file
+
+  describe('Tab Completion', () => {
+    it('should complete command words', () => {
+      expect(inputHandler.getCompletions('st', mockGameState)).toEqual({ words: ['standing', 'status'], partial: 'st' });
+    });
+
+    it('should complete unit and structure names after build', () => {
+      expect(inputHandler.getCompletions('build 5 ', mockGameState).words).toEqual(['frigate', 'cruiser', 'battleship', 'reactor', 'mine']);
+      expect(inputHandler.getCompletions('build 5 c', mockGameState)).toEqual({ words: ['cruiser'], partial: 'c' });
+      expect(inputHandler.getCompletions('build ', mockGameState).words).toEqual([]);
+    });
+
+    it('should complete scan types after scan', () => {
+      expect(inputHandler.getCompletions('scan ', mockGameState).words).toEqual(['basic', 'deep', 'advanced']);
+      expect(inputHandler.getCompletions('standing scan d', mockGameState).words).toEqual(['deep']);
+    });
+
+    it('should complete attacks with the ships at home', () => {
+      expect(inputHandler.getCompletions('attack ', mockGameState).words).toEqual(['50']);
+      expect(inputHandler.getCompletions('attack 50 ', mockGameState).words).toEqual(['20']);
+      expect(inputHandler.getCompletions('simulate 50 20 ', mockGameState).words).toEqual(['10']);
+      expect(inputHandler.getCompletions('attack 50 20 10 r', mockGameState).words).toEqual(['retreat']);
+      expect(inputHandler.getCompletions('attack 50 20 10 ', mockGameState).words).toEqual(['retreat', 'at']);
+      expect(inputHandler.getCompletions('attack 50 20 10 retreat 40 ', mockGameState).words).toEqual(['at']);
+    });
+
+    it('should complete factions and systems after at', () => {
+      const view = { ...mockGameState, ...createMapView() };
+
+      expect(inputHandler.getCompletions('attack 50 20 10 at ', view).words)
+        .toEqual(['crimson fleet', 'third', 'kepler', 'vega', 'altair']);
+      expect(inputHandler.getCompletions('attack 10 0 0 at v', view).words).toEqual(['vega']);
+      expect(inputHandler.getCompletions('simulate 50 20 10 at ', view).words).toEqual(['crimson fleet', 'third']);
+      expect(inputHandler.getCompletions('scan deep ', view).words).toEqual(['at']);
+      expect(inputHandler.getCompletions('scan deep at c', view).words).toEqual(['crimson fleet']);
+      expect(inputHandler.getCompletions('standing scan basic ', view).words).toEqual(['at', 'every']);
+      expect(inputHandler.getCompletions('standing scan basic at t', view).words).toEqual(['third']);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameEngine } from '../../engine/GameEngine.js';
+import { GameController } from '../GameController.js';
+import { parseReplayFile, ReplayFile } from '../Replay.js';
+import { ReplayPlayer } from '../ReplayPlayer.js';
+import { formatCommand, formatAIDecision } from '../ReplayViewer.js';
+
+describe('Replay', () => {
+  let gameEngine: GameEngine;
+  let gameController: GameController;
+
+  const playRecordedGame = (turns: number): void => {
+    for (let i = 0; i < turns && !gameEngine.isGameOver(); i++) {
+      if (i % 3 === 0) {
+        gameController.executeCommand({ type: 'build', buildType: 'frigate', quantity: 5 });
+      }
+      if (i % 4 === 1) {
+        gameController.executeCommand({ type: 'attack', attackFleet: { frigates: 5, cruisers: 2, battleships: 0 } });
+      }
+      if (i === 2) {
+        gameController.executeCommand({ type: 'scan', scanType: 'basic' });
+      }
+      gameController.executeCommand({ type: 'status' });
+      gameController.executeCommand({ type: 'end_turn' });
+    }
+  };
+
+  const roundTrip = (replay: ReplayFile): ReplayFile => JSON.parse(JSON.stringify(replay));
+
+  beforeEach(() => {
+    gameEngine = new GameEngine({ seed: 2024, aiArchetype: 'trickster' });
+    gameController = new GameController(gameEngine);
+  });
+
+  describe('Recording', () => {
+    it('should record the seed, archetype and each turn', () => {
+      playRecordedGame(6);
+      const replay = gameController.getReplayRecorder().toReplayFile();
+
+      expect(replay.seed).toBe(2024);
+      expect(replay.aiArchetype).toBe('trickster');
+      expect(replay.turns).toHaveLength(6);
+      expect(replay.turns.map(turn => turn.turn)).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(replay.turns.every(turn => turn.aiDecision !== null)).toBe(true);
+    });
+
+    it('should record only accepted, game-changing commands', () => {
+      gameController.executeCommand({ type: 'build', buildType: 'frigate', quantity: 5 });
+      gameController.executeCommand({ type: 'build', buildType: 'battleship', quantity: 100000 });
+      gameController.executeCommand({ type: 'help' });
+      gameController.executeCommand({ type: 'end_turn' });
+
+      const [turn] = gameController.getReplayRecorder().toReplayFile().turns;
+      expect(turn.commands).toEqual([{ type: 'build', buildType: 'frigate', quantity: 5 }]);
+    });
+
+    it('should leave the unfinished turn out of the replay', () => {
+      gameController.executeCommand({ type: 'end_turn' });
+      gameController.executeCommand({ type: 'build', buildType: 'frigate', quantity: 5 });
+
+      expect(gameController.getReplayRecorder().toReplayFile().turns).toHaveLength(1);
+    });
+
+    it('should record no turns of a free-for-all', () => {
+      gameEngine = new GameEngine({
+        seed: 2024,
+        factions: [
+          { name: 'Ana', controller: 'human' },
+          { name: 'Rex', controller: 'ai', archetype: 'aggressor' },
+          { name: 'Vera', controller: 'ai', archetype: 'economist' }
+        ]
+      });
+      gameController = new GameController(gameEngine);
+      gameController.executeCommand({ type: 'build', buildType: 'frigate', quantity: 5 });
+      gameController.executeCommand({ type: 'end_turn' });
+
+      expect(gameController.getReplayRecorder().toReplayFile().turns).toHaveLength(0);
+    });
+  });
+
+  describe('Playback', () => {
+    it('should reproduce the recorded game exactly', () => {
+      playRecordedGame(12);
+      const replay = roundTrip(gameController.getReplayRecorder().toReplayFile());
+
+      const player = new ReplayPlayer(replay);
+      const frames = player.getFrames();
+
+      expect(frames).toHaveLength(13);
+      expect(player.getFirstDivergence()).toBeNull();
+      expect(JSON.stringify(frames[frames.length - 1].gameState)).toBe(JSON.stringify(gameEngine.getGameState()));
+    });
+
+    it('should capture the position at the start of each turn', () => {
+      playRecordedGame(3);
+      const frames = new ReplayPlayer(roundTrip(gameController.getReplayRecorder().toReplayFile())).getFrames();
+
+      expect(frames.map(frame => frame.turn)).toEqual([1, 2, 3, 4]);
+      expect(frames[0].gameState.factions.player.fleet.homeSystem.frigates).toBe(50);
+      expect(frames[0].commands[0].type).toBe('build');
+    });
+
+    it('should flag turns where the AI no longer makes the recorded decision', () => {
+      playRecordedGame(4);
+      const replay = roundTrip(gameController.getReplayRecorder().toReplayFile());
+      replay.turns[2].aiDecision = { type: 'scan', scanType: 'advanced' };
+
+      expect(new ReplayPlayer(replay).getFirstDivergence()).toBe(3);
+    });
+  });
+
+  describe('Hotseat', () => {
+    it('should record and replay the orders of both sides', () => {
+      gameEngine = new GameEngine({ seed: 2024, hotseat: true });
+      gameController = new GameController(gameEngine);
+      for (let turn = 0; turn < 4; turn++) {
+        gameController.executeCommand({ type: 'build', buildType: 'frigate', quantity: 5 });
+        gameController.executeCommand({ type: 'end_turn' });
+        gameController.executeCommand({ type: 'attack', attackFleet: { frigates: 5, cruisers: 0, battleships: 0 } });
+        gameController.executeCommand({ type: 'end_turn' });
+      }
+
+      const replay = roundTrip(gameController.getReplayRecorder().toReplayFile());
+      const frames = new ReplayPlayer(replay).getFrames();
+
+      expect(replay.turns[0].aiCommands).toEqual([{ type: 'attack', attackFleet: { frigates: 5, cruisers: 0, battleships: 0 } }]);
+      expect(frames[0].aiCommands).toHaveLength(1);
+      expect(JSON.stringify(frames[frames.length - 1].gameState)).toBe(JSON.stringify(gameEngine.getGameState()));
+    });
+  });
+
+  describe('Parsing', () => {
+    it('should accept a recorded replay', () => {
+      playRecordedGame(2);
+      const result = parseReplayFile(JSON.stringify(gameController.getReplayRecorder().toReplayFile()));
+
+      expect(result.success).toBe(true);
+      expect(result.replay?.turns).toHaveLength(2);
+    });
+
+    it('should reject files that are not replays', () => {
+      const result = parseReplayFile(JSON.stringify({ format: 'burn-rate-save' }));
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('not a Burn Rate replay');
+    });
+
+    it('should report invalid start positions with their path', () => {
+      const replay = roundTrip(gameController.getReplayRecorder().toReplayFile());
+      (replay.start.snapshot.gameState as any).turn = 'one';
+
+      const result = parseReplayFile(JSON.stringify(replay));
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toMatch(/^start\.snapshot\.gameState\.turn:/);
+    });
+  });
+
+  describe('Formatting', () => {
+    it('should format commands and AI decisions as typed orders', () => {
+      expect(formatCommand({ type: 'attack', attackFleet: { frigates: 5, cruisers: 2, battleships: 1 } })).toBe('attack 5 2 1');
+      expect(formatAIDecision({ type: 'build', buildType: 'mine', buildQuantity: 2 })).toBe('build 2 mine');
+      expect(formatAIDecision(null)).toBe('none');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../../engine/GameEngine.js';
+import { ScriptRunner, ScriptRecord, ScriptCommandRecord, ScriptTurnRecord } from '../ScriptRunner.js';
+
+describe('ScriptRunner', () => {
+  const runScript = (script: string, seed: number = 42): ScriptRecord[] => {
+    const records: ScriptRecord[] = [];
+    new ScriptRunner(new GameEngine({ seed })).run(script, record => records.push(record));
+    return records;
+  };
+
+  it('should run each command and report every turn it ends', () => {
+    const records = runScript('# opening moves\nbuild 10 frigate\n\nend\nscan basic\nend\n');
+
+    expect(records.map(record => record.type)).toEqual(['command', 'command', 'turn', 'command', 'command', 'turn', 'summary']);
+    expect(records[0]).toMatchObject({ line: 2, input: 'build 10 frigate', turn: 1, success: true });
+    expect((records[2] as ScriptTurnRecord).result.success).toBe(true);
+    expect((records[2] as ScriptTurnRecord).turn).toBe(1);
+    expect((records[5] as ScriptTurnRecord).statistics).toMatchObject({ turn: 2, player: { scans: 1 } });
+    expect(records[6]).toMatchObject({ type: 'summary', seed: 42, turn: 3, commands: 4, failedLine: null, gameOver: false });
+  });
+
+  it('should stop at the first command that fails', () => {
+    const records = runScript('build 10 frigate\nattack 999 0 0\nend\n');
+    const failed = records[1] as ScriptCommandRecord;
+
+    expect(failed).toMatchObject({ line: 2, success: false, message: 'Insufficient frigates. Need: 999, Have: 50' });
+    expect(records[2]).toMatchObject({ type: 'summary', turn: 1, commands: 2, failedLine: 2 });
+  });
+
+  it('should report an unparseable line as a failure', () => {
+    const records = runScript('launch everything\nend\n');
+
+    expect(records[0]).toMatchObject({ success: false, message: "Unknown command: launch. Type 'help' for available commands." });
+    expect(records[1]).toMatchObject({ type: 'summary', failedLine: 1 });
+  });
+
+  it('should include what display commands show', () => {
+    const records = runScript('status\nforecast 3\nquit\nend\n');
+
+    expect((records[0] as ScriptCommandRecord).data).toMatchObject({ turn: 1 });
+    expect(((records[1] as ScriptCommandRecord).data as { turns: unknown[] }).turns).toHaveLength(3);
+    expect(records[3]).toMatchObject({ type: 'summary', turn: 1, commands: 3 });
+  });
+
+  it('should show the player nothing of the AI but what scans and battles showed', () => {
+    const gameEngine = new GameEngine({ seed: 42 });
+    const records: ScriptRecord[] = [];
+    new ScriptRunner(gameEngine).run('build 5 frigate\nend\nstatus\nhistory\n', record => records.push(record));
+    const output = JSON.stringify(records);
+    const ai = gameEngine.getGameState().factions.ai;
+
+    expect((records[3] as ScriptCommandRecord).data).not.toHaveProperty('factions');
+    expect((records[3] as ScriptCommandRecord).data).not.toHaveProperty('ai');
+    expect((records[4] as ScriptCommandRecord).data).toEqual([{ turn: 1, player: gameEngine.getHistory()[0].factions.player }]);
+    expect((records[2] as ScriptTurnRecord).statistics).not.toHaveProperty('ai');
+    expect((records[2] as ScriptTurnRecord).result.aiDecisions).toEqual({});
+    expect(output).not.toContain(`"homeSystem":${JSON.stringify(ai.fleet.homeSystem)}`);
+    expect(output).not.toContain(`"metal":${ai.resources.metal},`);
+  });
+
+  it('should play the same script the same way for the same seed', () => {
+    const script = 'build 20 cruiser\nend\nattack 30 10 5\nend\nend\nend\n';
+
+    expect(JSON.stringify(runScript(script, 7))).toBe(JSON.stringify(runScript(script, 7)));
+  });
+});
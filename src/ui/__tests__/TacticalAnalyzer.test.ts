@@ -186,51 +186,6 @@ describe('TacticalAnalyzer', () => {
     });
   });
 
-  describe('determineBattlePhases', () => {
-    it('should create three battle phases', () => {
-      const attackerFleet: FleetComposition = { frigates: 10, cruisers: 5, battleships: 2 };
-      const defenderFleet: FleetComposition = { frigates: 8, cruisers: 4, battleships: 1 };
-      
-      const phases = analyzer.determineBattlePhases(attackerFleet, defenderFleet, 'close_battle');
-      
-      expect(phases).toHaveLength(3);
-      expect(phases.map(p => p.phase)).toEqual(['opening', 'main', 'cleanup']);
-    });
-
-    it('should determine opening phase advantage based on frigate numbers', () => {
-      const attackerFleet: FleetComposition = { frigates: 20, cruisers: 0, battleships: 0 };
-      const defenderFleet: FleetComposition = { frigates: 5, cruisers: 0, battleships: 0 };
-      
-      const phases = analyzer.determineBattlePhases(attackerFleet, defenderFleet, 'decisive_attacker');
-      
-      const openingPhase = phases.find(p => p.phase === 'opening');
-      expect(openingPhase?.advantage).toBe('attacker');
-      expect(openingPhase?.description).toContain('superior frigate numbers');
-    });
-
-    it('should determine main phase advantage based on heavy units', () => {
-      const attackerFleet: FleetComposition = { frigates: 5, cruisers: 10, battleships: 5 };
-      const defenderFleet: FleetComposition = { frigates: 5, cruisers: 2, battleships: 1 };
-      
-      const phases = analyzer.determineBattlePhases(attackerFleet, defenderFleet, 'decisive_attacker');
-      
-      const mainPhase = phases.find(p => p.phase === 'main');
-      expect(mainPhase?.advantage).toBe('attacker');
-      expect(mainPhase?.description).toContain('superior heavy units');
-    });
-
-    it('should set cleanup phase based on battle outcome', () => {
-      const attackerFleet: FleetComposition = { frigates: 10, cruisers: 5, battleships: 2 };
-      const defenderFleet: FleetComposition = { frigates: 8, cruisers: 4, battleships: 1 };
-      
-      const phases = analyzer.determineBattlePhases(attackerFleet, defenderFleet, 'decisive_defender');
-      
-      const cleanupPhase = phases.find(p => p.phase === 'cleanup');
-      expect(cleanupPhase?.advantage).toBe('defender');
-      expect(cleanupPhase?.description).toContain('successfully repels attack');
-    });
-  });
-
   describe('createEnhancedCombatDisplay', () => {
     it('should create complete enhanced combat display', () => {
       const combatEvent: CombatEvent = {
@@ -246,14 +201,24 @@ describe('TacticalAnalyzer', () => {
         survivors: {
           attacker: { frigates: 7, cruisers: 4, battleships: 2 },
           defender: { frigates: 4, cruisers: 2, battleships: 0 }
-        }
+        },
+        rounds: [
+          {
+            round: 1,
+            attackerFleet: { frigates: 10, cruisers: 5, battleships: 2 },
+            defenderFleet: { frigates: 8, cruisers: 4, battleships: 1 },
+            attackerLosses: { frigates: 3, cruisers: 1, battleships: 0 },
+            defenderLosses: { frigates: 4, cruisers: 2, battleships: 1 }
+          }
+        ],
+        attackerRetreated: false
       };
       
       const display = analyzer.createEnhancedCombatDisplay(combatEvent);
       
       expect(display.event).toBe(combatEvent);
       expect(display.tacticalAdvantages).toHaveLength(3);
-      expect(display.battlePhases).toHaveLength(3);
+      expect(display.rounds).toBe(combatEvent.rounds);
       expect(display.effectivenessRatios).toHaveProperty('attackerEffectiveness');
       expect(display.effectivenessRatios).toHaveProperty('defenderEffectiveness');
       expect(display.casualtyPercentages).toHaveProperty('attackerLossRate');
@@ -1,5 +1,16 @@
 // User interface components
 export * from './CLIInterface.js';
+export * from './NetworkCLIInterface.js';
 export * from './GameDisplay.js';
 export * from './InputHandler.js';
-export * from './GameController.js';
\ No newline at end of file
+export * from './GameController.js';
+export * from './SaveStorage.js';
+export * from './FileSaveStorage.js';
+export * from './Replay.js';
+export * from './ReplayPlayer.js';
+export * from './ReplayViewer.js';export * from './ScriptRunner.js';
+export * from './CommandRegistry.js';
+export * from './BuiltInCommands.js';
+export * from './CommandLine.js';
+export * from './Dashboard.js';
+export * from './HistoryChart.js';
@@ -0,0 +1,39 @@
+import { SaveStorage } from '../ui/SaveStorage.js';
+
+/**
+ * Stores save slots in the browser's localStorage under a common key prefix
+ */
+export class LocalSaveStorage implements SaveStorage {
+  private prefix: string;
+
+  constructor(prefix: string = 'burnrate_save_') {
+    this.prefix = prefix;
+  }
+
+  public save(slot: string, data: string): void {
+    localStorage.setItem(this.getLocation(slot), data);
+  }
+
+  public load(slot: string): string | null {
+    return localStorage.getItem(this.getLocation(slot));
+  }
+
+  public remove(slot: string): void {
+    localStorage.removeItem(this.getLocation(slot));
+  }
+
+  public list(): string[] {
+    const slots: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(this.prefix)) {
+        slots.push(key.slice(this.prefix.length));
+      }
+    }
+    return slots.sort();
+  }
+
+  public getLocation(slot: string): string {
+    return `${this.prefix}${slot}`;
+  }
+}
@@ -1,7 +1,28 @@
-import { GameState, FleetComposition, CombatEvent } from '../models/GameState.js';
-import { PlayerState } from '../models/PlayerState.js';
+import { FleetComposition, CombatEvent } from '../models/GameState.js';
+import { DuelStatistics, getTotalShips } from '../models/Statistics.js';
+import { DuelView } from '../models/Sides.js';
+import { PlayerState, BuildableType, FleetMovement } from '../models/PlayerState.js';
+import { getBuildCosts } from '../models/Economy.js';
+import { canRecallFleet } from '../models/Fleet.js';
+import { GalaxyMap, getHomeSystem, getDistance } from '../models/Galaxy.js';
+import { EconomyEngine } from '../engine/EconomyEngine.js';
+import { BattlePreview } from '../engine/BattleSimulator.js';
 import { CommandExecutionResult } from '../ui/GameController.js';
 
+const BUILDABLE_TYPES: BuildableType[] = ['frigate', 'cruiser', 'battleship', 'reactor', 'mine'];
+
+/** Size of one history chart in SVG units; the chart scales to its panel */
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 140;
+const CHART_MARGIN = { top: 10, right: 10, bottom: 20, left: 50 };
+
+/** One line on a history chart. The class picks its color from the theme. */
+interface ChartSeries {
+  label: string;
+  className: string;
+  points: { turn: number; value: number }[];
+}
+
 export interface WebDisplayConfig {
   containerId: string;
   showAnimations?: boolean;
@@ -12,6 +33,7 @@ export interface WebDisplayConfig {
 export class WebDisplay {
   private config: WebDisplayConfig;
   private container: HTMLElement | null = null;
+  private economyEngine = new EconomyEngine();
 
   constructor(config: WebDisplayConfig) {
     this.config = config;
@@ -25,7 +47,7 @@ export class WebDisplay {
   /**
    * Displays the main game state information
    */
-  public displayGameState(gameState: GameState): void {
+  public displayGameState(gameState: DuelView): void {
     if (!this.container) return;
 
     try {
@@ -36,10 +58,13 @@ export class WebDisplay {
       this.updateResourceDisplay(gameState.player.resources);
       
       // Update fleet status
-      this.updateFleetDisplay(gameState.player);
+      this.updateFleetDisplay(gameState.player, gameState.galaxy, gameState.turn);
       
       // Update available fleet counts in attack panel
       this.updateAttackPanelFleetCounts(gameState.player.fleet.homeSystem);
+
+      // Offer every system the player does not hold as a target
+      this.updateAttackPanelTargets(gameState);
       
       // Update game status indicators
       this.updateGameStatusIndicators(gameState);
@@ -71,6 +96,50 @@ export class WebDisplay {
     this.limitLogSize(combatEventsContainer, 50);
   }
 
+  /**
+   * Charts the player's stockpiles, income, upkeep and fleet turn by turn, with the AI fleet as
+   * the player's scans last showed it and a marker for every battle
+   */
+  public displayHistoryCharts(gameState: DuelView): void {
+    const chartsDisplay = this.container?.querySelector('#charts-display');
+    if (!chartsDisplay) return;
+
+    const history = gameState.history ?? [];
+    if (history.length === 0) {
+      chartsDisplay.innerHTML = '<div class="no-history">Charts appear once the first turn has ended</div>';
+      return;
+    }
+
+    const enemy = this.escapeHtml(gameState.sides.ai.name);
+    const series = (label: string, className: string, value: (turn: DuelStatistics) => number | null): ChartSeries => ({
+      label,
+      className,
+      points: history.flatMap(turn => {
+        const point = value(turn);
+        return point === null ? [] : [{ turn: turn.turn, value: point }];
+      })
+    });
+
+    chartsDisplay.innerHTML = [
+      this.renderHistoryChart('Stockpiles', [
+        series('Metal', 'metal', turn => turn.player.resources.metal),
+        series('Energy', 'energy', turn => turn.player.resources.energy)
+      ], gameState.combatLog, enemy),
+      this.renderHistoryChart('Net Income', [
+        series('Metal', 'metal', turn => turn.player.netIncome.metal),
+        series('Energy', 'energy', turn => turn.player.netIncome.energy)
+      ], gameState.combatLog, enemy),
+      this.renderHistoryChart('Upkeep', [
+        series('Metal', 'metal', turn => turn.player.fleetUpkeep.metal),
+        series('Energy', 'energy', turn => turn.player.fleetUpkeep.energy)
+      ], gameState.combatLog, enemy),
+      this.renderHistoryChart('Fleet Strength (ships)', [
+        series('You', 'player', turn => getTotalShips(turn.player)),
+        series(`${enemy} (last scan)`, 'enemy', turn => turn.player.enemyFleetEstimate && this.getTotalShips(turn.player.enemyFleetEstimate))
+      ], gameState.combatLog, enemy)
+    ].join('');
+  }
+
   /**
    * Displays error messages to the user
    */
@@ -128,7 +197,7 @@ export class WebDisplay {
 
    * Updates turn and phase information
    */
-  private updateTurnInfo(gameState: GameState): void {
+  private updateTurnInfo(gameState: DuelView): void {
     this.updateElementText('.current-turn', gameState.turn.toString());
     this.updateElementText('.game-phase', gameState.gamePhase.toUpperCase());
     
@@ -142,7 +211,7 @@ export class WebDisplay {
   /**
    * Updates fleet display information
    */
-  private updateFleetDisplay(player: PlayerState): void {
+  private updateFleetDisplay(player: PlayerState, galaxy: GalaxyMap, currentTurn: number): void {
     const fleetDisplay = this.container?.querySelector('#fleet-display');
     if (!fleetDisplay) return;
 
@@ -175,12 +244,16 @@ export class WebDisplay {
       <div class="fleets-in-transit">
         <h5>Fleets in Transit</h5>
         <div class="transit-fleets">
-          ${this.renderInTransitFleets(player.fleet.inTransit.outbound)}
+          ${this.renderInTransitFleets(player.fleet.inTransit.outbound, galaxy, currentTurn)}
         </div>
       </div>
+      <div class="star-map">
+        <h5>Star Map</h5>
+        ${this.renderStarMap(galaxy)}
+      </div>
       <div class="construction-queue">
         <h5>Construction Queue</h5>
-        ${this.renderConstructionQueue(player.economy.constructionQueue)}
+        ${this.renderConstructionQueue(player, currentTurn)}
       </div>
       <div class="intelligence-panel">
         <h5>Intelligence</h5>
@@ -221,7 +294,7 @@ export class WebDisplay {
   /**
    * Updates game status indicators
    */
-  private updateGameStatusIndicators(gameState: GameState): void {
+  private updateGameStatusIndicators(gameState: DuelView): void {
     // Update game over state
     this.toggleClass('.game-container', 'game-over', gameState.isGameOver);
     
@@ -400,18 +473,29 @@ export class WebDisplay {
           <h3>Target</h3>
           <div class="target-selection">
             <label>
-              <input type="radio" name="target" value="enemy" checked>
+              <input type="radio" name="target" value="ai" checked>
               <span>Enemy Home System</span>
             </label>
+            <!-- Replaced with the systems on the map once the game is shown -->
+          </div>
+        </div>
+
+        <div class="form-section">
+          <h3>Retreat</h3>
+          <div class="fleet-input">
+            <label for="attack-retreat">Retreat after losing (%):</label>
+            <input type="number" id="attack-retreat" name="retreat" min="1" max="99" placeholder="Fight to the end">
           </div>
         </div>
         
         <div class="form-actions">
+          <button type="button" class="secondary-button" data-action="preview">Preview</button>
           <button type="submit" class="primary-button danger">Launch Attack</button>
           <div class="attack-info">
-            <small>Fleet will arrive next turn and return in 3 turns</small>
+            <small>Fleets move at the speed of their slowest ship: frigates 4, cruisers 3, battleships 2 a turn</small>
           </div>
         </div>
+        <div class="attack-preview"></div>
       </form>
     `;
   }
@@ -444,6 +528,71 @@ export class WebDisplay {
     if (battleshipsAvailable) battleshipsAvailable.textContent = this.formatNumber(homeFleet.battleships);
   }
 
+  /**
+   * Lists the systems the player can send a fleet to: enemy home systems first, then the
+   * colonies it does not hold. The chosen target is kept while it is still on offer.
+   */
+  public updateAttackPanelTargets(gameState: Pick<DuelView, 'sides' | 'galaxy'>): void {
+    const targetSelection = this.container?.querySelector('#attack-panel .target-selection');
+    if (!targetSelection) return;
+
+    const galaxy = gameState.galaxy;
+    const home = getHomeSystem(galaxy, 'player');
+    const targets = Object.keys(galaxy.systems)
+      .filter(id => galaxy.systems[id].owner !== 'player')
+      .sort((a, b) => Number(galaxy.systems[b].home) - Number(galaxy.systems[a].home));
+    const selected = targetSelection.querySelector<HTMLInputElement>('input[name="target"]:checked')?.value;
+    const checked = targets.includes(selected ?? '') ? selected : targets[0];
+
+    targetSelection.innerHTML = targets.map(id => {
+      const system = galaxy.systems[id];
+      const label = system.home
+        ? `${this.escapeHtml(this.getOwnerName(gameState, system.owner!))}'s home (${this.escapeHtml(system.name)})`
+        : `${this.escapeHtml(system.name)} (${system.owner === undefined ? 'unclaimed' : this.escapeHtml(this.getOwnerName(gameState, system.owner))})`;
+      return `
+        <label>
+          <input type="radio" name="target" value="${this.escapeHtml(id)}"${id === checked ? ' checked' : ''}>
+          <span>${label} - distance ${getDistance(galaxy, home, id)}</span>
+        </label>
+      `;
+    }).join('');
+  }
+
+  /**
+   * Shows a simulated attack in the attack panel, under the form that asked for it
+   */
+  public displayBattlePreview(preview: BattlePreview): void {
+    const previewElement = this.container?.querySelector('#attack-panel .attack-preview');
+    if (!previewElement) return;
+
+    const percent = (share: number) => `${Math.round(share * 100)}%`;
+    const ships = (fleet: FleetComposition) =>
+      `${fleet.frigates.toFixed(1)}F, ${fleet.cruisers.toFixed(1)}C, ${fleet.battleships.toFixed(1)}B`;
+    const enemy = preview.enemy;
+
+    previewElement.innerHTML = `
+      <h3>Preview: ${this.formatNumber(preview.trials)} simulated battles</h3>
+      <div class="preview-enemy">
+        Enemy as of Turn ${enemy.lastScanTurn} (${percent(enemy.confidence)} confidence):
+        ${enemy.low.frigates}-${enemy.high.frigates}F, ${enemy.low.cruisers}-${enemy.high.cruisers}C, ${enemy.low.battleships}-${enemy.high.battleships}B
+      </div>
+      <div class="preview-outcomes">
+        <span class="decisive_attacker">Victory ${percent(preview.outcomes.decisive_attacker)}</span>
+        <span class="close_battle">Close ${percent(preview.outcomes.close_battle)}</span>
+        <span class="decisive_defender">Defeat ${percent(preview.outcomes.decisive_defender)}</span>
+        ${preview.retreatThreshold !== undefined ? `<span>Retreat ${percent(preview.retreatRate)}</span>` : ''}
+      </div>
+      <div class="preview-casualties">
+        <div>Expected losses: yours ${ships(preview.expectedCasualties.attacker)}, enemy ${ships(preview.expectedCasualties.defender)}</div>
+        <div>Expected survivors: yours ${ships(preview.expectedSurvivors.attacker)}, enemy ${ships(preview.expectedSurvivors.defender)}</div>
+      </div>
+      <div class="preview-costs">
+        Upkeep ${this.formatNumber(preview.costs.upkeepPerTurn.metal)} Metal, ${this.formatNumber(preview.costs.upkeepPerTurn.energy)} Energy per turn.
+        Losses worth ${this.formatNumber(Math.round(preview.costs.expectedLosses.metal))} Metal, ${this.formatNumber(Math.round(preview.costs.expectedLosses.energy))} Energy
+      </div>
+    `;
+  }
+
   /**
    * Creates scan command panel content
    */
@@ -579,7 +728,9 @@ export class WebDisplay {
     const buildType = formData.get('buildType') as string;
     const quantity = parseInt(formData.get('quantity') as string) || 1;
 
-    const costs = this.getBuildCosts(buildType);
+    const costs = BUILDABLE_TYPES.includes(buildType as BuildableType)
+      ? getBuildCosts(buildType as BuildableType)
+      : { metal: 0, energy: 0 };
     const totalMetal = costs.metal * quantity;
     const totalEnergy = costs.energy * quantity;
 
@@ -619,16 +770,58 @@ export class WebDisplay {
     }
   }
 
-  private getBuildCosts(buildType: string): { metal: number; energy: number } {
-    const costs = {
-      frigate: { metal: 4, energy: 2 },
-      cruiser: { metal: 10, energy: 6 },
-      battleship: { metal: 20, energy: 12 },
-      reactor: { metal: 900, energy: 1200 },
-      mine: { metal: 1500, energy: 600 }
-    };
+  /**
+   * Draws one chart as inline SVG. Battles are vertical markers, colored by how they went for the player.
+   */
+  private renderHistoryChart(title: string, series: ChartSeries[], combatLog: CombatEvent[], enemy: string): string {
+    const points = series.flatMap(line => line.points);
+    const firstTurn = Math.min(...points.map(point => point.turn));
+    const lastTurn = Math.max(...points.map(point => point.turn));
+    const minValue = Math.min(0, ...points.map(point => point.value));
+    const maxValue = Math.max(1, ...points.map(point => point.value));
+
+    const plotWidth = CHART_WIDTH - CHART_MARGIN.left - CHART_MARGIN.right;
+    const plotHeight = CHART_HEIGHT - CHART_MARGIN.top - CHART_MARGIN.bottom;
+    const x = (turn: number) => CHART_MARGIN.left + (lastTurn === firstTurn ? plotWidth / 2 : (turn - firstTurn) / (lastTurn - firstTurn) * plotWidth);
+    const y = (value: number) => CHART_MARGIN.top + (maxValue - value) / (maxValue - minValue) * plotHeight;
+
+    const battles = combatLog
+      .filter(event => event.turn >= firstTurn && event.turn <= lastTurn)
+      .map(event => {
+        const playerAttacked = event.attacker === 'player';
+        const won = event.outcome === (playerAttacked ? 'decisive_attacker' : 'decisive_defender');
+        const lost = event.outcome === (playerAttacked ? 'decisive_defender' : 'decisive_attacker');
+        const result = won ? 'won' : lost ? 'lost' : 'close';
+        return `
+          <line class="chart-battle ${result}" x1="${x(event.turn)}" y1="${CHART_MARGIN.top}" x2="${x(event.turn)}" y2="${CHART_MARGIN.top + plotHeight}">
+            <title>Turn ${event.turn}: ${playerAttacked ? 'you attacked' : `${enemy === 'AI' ? 'the AI' : enemy} attacked`}, ${this.formatBattleOutcome(event.outcome).toLowerCase()}</title>
+          </line>
+        `;
+      }).join('');
+
+    const lines = series.filter(line => line.points.length > 0).map(line => `
+      <polyline class="chart-line ${line.className}" points="${line.points.map(point => `${x(point.turn)},${y(point.value)}`).join(' ')}">
+        <title>${line.label}</title>
+      </polyline>
+    `).join('');
 
-    return costs[buildType as keyof typeof costs] || { metal: 0, energy: 0 };
+    return `
+      <figure class="history-chart">
+        <figcaption>${title}</figcaption>
+        <svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img" aria-label="${title} by turn">
+          <line class="chart-axis" x1="${CHART_MARGIN.left}" y1="${y(0)}" x2="${CHART_WIDTH - CHART_MARGIN.right}" y2="${y(0)}"></line>
+          <text class="chart-label" x="${CHART_MARGIN.left - 4}" y="${CHART_MARGIN.top + 4}" text-anchor="end">${this.formatNumber(maxValue)}</text>
+          <text class="chart-label" x="${CHART_MARGIN.left - 4}" y="${CHART_MARGIN.top + plotHeight}" text-anchor="end">${this.formatNumber(minValue)}</text>
+          <text class="chart-label" x="${CHART_MARGIN.left}" y="${CHART_HEIGHT - 4}">Turn ${firstTurn}</text>
+          <text class="chart-label" x="${CHART_WIDTH - CHART_MARGIN.right}" y="${CHART_HEIGHT - 4}" text-anchor="end">Turn ${lastTurn}</text>
+          ${battles}
+          ${lines}
+        </svg>
+        <div class="chart-legend">
+          ${series.map(line => `<span class="chart-key ${line.className}">${line.label}</span>`).join('')}
+        </div>
+      </figure>
+    `;
   }
 
   private formatNumber(num: number): string {
@@ -664,6 +857,7 @@ export class WebDisplay {
         <div class="combat-outcome ${event.outcome}">
           ${this.formatBattleOutcome(event.outcome)}
         </div>
+        ${this.renderCombatRounds(event, attackerName)}
         <div class="casualties">
           <div>Casualties: ${attackerName} lost ${this.getTotalShips(event.casualties.attacker)} ships, 
                ${defenderName} lost ${this.getTotalShips(event.casualties.defender)} ships</div>
@@ -674,6 +868,26 @@ export class WebDisplay {
     return eventElement;
   }
 
+  /**
+   * Lists each round of a battle with the losses on both sides
+   */
+  private renderCombatRounds(event: CombatEvent, attackerName: string): string {
+    const rounds = event.rounds ?? [];
+    if (rounds.length === 0) return '';
+
+    return `
+      <ol class="combat-rounds">
+        ${rounds.map(round => `
+          <li class="combat-round">
+            Round ${round.round}: ${this.getTotalShips(round.attackerFleet)} vs ${this.getTotalShips(round.defenderFleet)} ships.
+            Attacker lost ${this.getTotalShips(round.attackerLosses)}, defender lost ${this.getTotalShips(round.defenderLosses)}
+          </li>
+        `).join('')}
+      </ol>
+      ${event.attackerRetreated ? `<div class="combat-retreat">${attackerName} fleet broke off the attack and retreated</div>` : ''}
+    `;
+  }
+
   private formatFleetComposition(fleet: FleetComposition): string {
     const total = fleet.frigates + fleet.cruisers + fleet.battleships;
     return `${total} ships (${fleet.frigates}F, ${fleet.cruisers}C, ${fleet.battleships}B)`;
@@ -703,37 +917,81 @@ export class WebDisplay {
     }
   }
 
-  private renderInTransitFleets(outbound: any[]): string {
+  private renderInTransitFleets(outbound: FleetMovement[], galaxy: GalaxyMap, currentTurn: number): string {
     if (outbound.length === 0) {
       return '<div class="no-transit">No fleets in transit</div>';
     }
 
-    return outbound.map((movement, index) => {
+    const fleets = outbound.map(movement => {
       const totalShips = this.getTotalShips(movement.composition);
+      const recallButton = canRecallFleet(movement, currentTurn)
+        ? `<button type="button" class="secondary-button button-small" data-action="recall" data-fleet-id="${movement.id}">Recall</button>`
+        : '';
       return `
         <div class="transit-fleet">
-          <span class="fleet-number">Fleet ${index + 1}:</span>
+          <span class="fleet-number">Fleet ${movement.id}:</span>
           <span class="fleet-size">${totalShips} ships</span>
           <span class="mission-type">${movement.missionType}</span>
+          <span class="destination">to ${this.escapeHtml(galaxy.systems[movement.target]?.name ?? movement.target)}</span>
           <span class="arrival-info">(arrives turn ${movement.arrivalTurn})</span>
+          ${recallButton}
+        </div>
+      `;
+    }).join('');
+
+    const recallable = outbound.filter(movement => canRecallFleet(movement, currentTurn)).length;
+    const recallAllButton = recallable > 1
+      ? '<button type="button" class="secondary-button button-small" data-action="recall" data-fleet-id="all">Recall All</button>'
+      : '';
+
+    return fleets + recallAllButton;
+  }
+
+  /**
+   * Lists the systems with their owners, what colonies pay and how far each is from home
+   */
+  private renderStarMap(galaxy: GalaxyMap): string {
+    const home = getHomeSystem(galaxy, 'player');
+
+    return Object.entries(galaxy.systems).map(([id, system]) => {
+      const owner = system.owner === 'player' ? 'yours' : system.owner === undefined ? 'unclaimed' : 'enemy';
+      const income = system.home ? 'home system' : `+${this.formatNumber(system.income.metal)} metal, +${this.formatNumber(system.income.energy)} energy`;
+      return `
+        <div class="star-system owner-${owner}">
+          <span class="system-name">${this.escapeHtml(system.name)}</span>
+          <span class="system-owner">${owner}</span>
+          <span class="system-income">${income}</span>
+          <span class="system-distance">${id === home ? '' : `distance ${getDistance(galaxy, home, id)}`}</span>
         </div>
       `;
     }).join('');
   }
 
-  private renderConstructionQueue(constructionQueue: any[]): string {
-    if (constructionQueue.length === 0) {
+  private renderConstructionQueue(player: PlayerState, currentTurn: number): string {
+    const status = this.economyEngine.getConstructionStatus(player);
+    if (status.length === 0) {
       return '<div class="queue-empty">No construction in progress</div>';
     }
 
-    return constructionQueue.map((order, index) => {
-      const progress = this.getConstructionProgress(order);
+    return status.map(entry => {
+      const order = entry.order;
+      const position = entry.index + 1;
+      const progress = `${this.getConstructionProgress(order)} (Turn ${currentTurn + entry.completionTurn})`;
+      const prioritizeButton = position > 1
+        ? `<button type="button" class="secondary-button button-small" data-action="prioritize" data-position="${position}">Prioritize</button>`
+        : '';
       return `
         <div class="queue-item">
-          <div class="queue-number">${index + 1}.</div>
+          <div class="queue-number">${position}.</div>
           <div class="queue-details">
             <div class="queue-item-name">${order.quantity}x ${order.unitType}</div>
             <div class="queue-progress">${progress}</div>
+            <div class="queue-drain">Drain: ${this.formatNumber(entry.drainPerTurn.metal)} M / ${this.formatNumber(entry.drainPerTurn.energy)} E per turn</div>
+          </div>
+          <div class="queue-actions">
+            ${prioritizeButton}
+            <button type="button" class="danger-button button-small" data-action="cancel" data-position="${position}"
+              title="Refunds ${this.formatNumber(entry.refund.metal)} Metal, ${this.formatNumber(entry.refund.energy)} Energy">Cancel</button>
           </div>
         </div>
       `;
@@ -751,14 +1009,30 @@ export class WebDisplay {
 
 
 
-  private showGameOverMessage(gameState: GameState): void {
+  private showGameOverMessage(gameState: DuelView): void {
     const winner = gameState.winner;
     const victoryType = gameState.victoryType;
     
+    const enemy = gameState.sides.ai.name === 'AI' ? 'the AI' : gameState.sides.ai.name;
+    
     const message = winner === 'player' ? 
-      `🎉 VICTORY! You defeated the AI via ${victoryType} victory!` :
-      `💀 DEFEAT! The AI defeated you via ${victoryType} victory!`;
+      `🎉 VICTORY! You defeated ${enemy} via ${victoryType} victory!` :
+      `💀 DEFEAT! ${enemy.charAt(0).toUpperCase()}${enemy.slice(1)} defeated you via ${victoryType} victory!`;
     
     this.showMessage(message, winner === 'player' ? 'success' : 'error');
   }
+
+  /**
+   * Makes text such as side names safe to put in markup
+   */
+  /**
+   * What a faction is called: its side name when it is one of the two, otherwise its id
+   */
+  private getOwnerName(gameState: Pick<DuelView, 'sides'>, owner: string): string {
+    return gameState.sides[owner as keyof DuelView['sides']]?.name ?? owner;
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
 }
\ No newline at end of file
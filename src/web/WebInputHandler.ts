@@ -1,7 +1,11 @@
 import { InputHandler, Command, CommandResult } from '../ui/InputHandler.js';
-import { GameState, FleetComposition } from '../models/GameState.js';
+import { FleetComposition } from '../models/GameState.js';
+import { DuelView } from '../models/Sides.js';
 import { BuildableType, UnitType, StructureType } from '../models/PlayerState.js';
-import { ScanType } from '../models/Intelligence.js';
+import { ScanType, SCAN_COSTS } from '../models/Intelligence.js';
+import { getBuildCosts } from '../models/Economy.js';
+import { UNIT_STATS } from '../models/Fleet.js';
+import { validateOrder, getBuildOrderCost } from '../engine/Orders.js';
 
 export interface FormValidationResult {
   success: boolean;
@@ -29,7 +33,7 @@ export class WebInputHandler {
   /**
    * Handles build form submission and converts to game command
    */
-  public handleBuildForm(formData: FormData, gameState: GameState): CommandResult {
+  public handleBuildForm(formData: FormData, gameState: DuelView): CommandResult {
     try {
       const buildType = formData.get('buildType') as string;
       const quantityStr = formData.get('quantity') as string;
@@ -74,7 +78,7 @@ export class WebInputHandler {
   /**
    * Handles attack form submission and converts to game command
    */
-  public handleAttackForm(formData: FormData, gameState: GameState): CommandResult {
+  public handleAttackForm(formData: FormData, gameState: DuelView): CommandResult {
     try {
       const frigatesStr = formData.get('frigates') as string;
       const cruisersStr = formData.get('cruisers') as string;
@@ -103,10 +107,12 @@ export class WebInputHandler {
       const attackFleet: FleetComposition = { frigates, cruisers, battleships };
 
       // Create command
+      const retreat = formData.get('retreat') as string | null;
       const command: Command = {
         type: 'attack',
         attackFleet,
-        target: target || 'enemy'
+        target: target || 'ai',
+        ...(retreat && { retreatThreshold: parseInt(retreat, 10) / 100 })
       };
 
       // Validate against game state
@@ -131,7 +137,7 @@ export class WebInputHandler {
   /**
    * Handles scan form submission and converts to game command
    */
-  public handleScanForm(formData: FormData, gameState: GameState): CommandResult {
+  public handleScanForm(formData: FormData, gameState: DuelView): CommandResult {
     try {
       const scanType = formData.get('scanType') as string;
 
@@ -280,7 +286,7 @@ export class WebInputHandler {
   /**
    * Validates input against current game state and resources
    */
-  public validateInput(command: Command, gameState: GameState): FormValidationResult {
+  public validateInput(command: Command, gameState: DuelView): FormValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
 
@@ -336,7 +342,8 @@ export class WebInputHandler {
               cruisers: parseInt(formData.get('cruisers') as string, 10) || 0,
               battleships: parseInt(formData.get('battleships') as string, 10) || 0
             },
-            target: formData.get('target') as string || 'enemy'
+            target: formData.get('target') as string || 'ai',
+            ...(formData.get('retreat') && { retreatThreshold: parseInt(formData.get('retreat') as string, 10) / 100 })
           };
 
         case 'scan':
@@ -357,7 +364,7 @@ export class WebInputHandler {
   /**
    * Gets real-time validation feedback for forms
    */
-  public getValidationFeedback(data: WebCommandData, commandType: string, gameState: GameState): {
+  public getValidationFeedback(data: WebCommandData, commandType: string, gameState: DuelView): {
     isValid: boolean;
     errors: string[];
     warnings: string[];
@@ -405,7 +412,7 @@ export class WebInputHandler {
   /**
    * Private validation methods
    */
-  private validateBuildCommand(command: Command, gameState: GameState): CommandResult {
+  private validateBuildCommand(command: Command, gameState: DuelView): CommandResult {
     if (!command.buildType || !command.quantity) {
       return { success: false, error: 'Invalid build command data' };
     }
@@ -415,17 +422,18 @@ export class WebInputHandler {
     return this.inputHandler.processCommand(inputString, gameState);
   }
 
-  private validateAttackCommand(command: Command, gameState: GameState): CommandResult {
+  private validateAttackCommand(command: Command, gameState: DuelView): CommandResult {
     if (!command.attackFleet) {
       return { success: false, error: 'Invalid attack command data' };
     }
 
     const fleet = command.attackFleet;
-    const inputString = `attack ${fleet.frigates} ${fleet.cruisers} ${fleet.battleships}`;
+    const retreat = command.retreatThreshold !== undefined ? ` retreat ${Math.round(command.retreatThreshold * 100)}` : '';
+    const inputString = `attack ${fleet.frigates} ${fleet.cruisers} ${fleet.battleships}${retreat}`;
     return this.inputHandler.processCommand(inputString, gameState);
   }
 
-  private validateScanCommand(command: Command, gameState: GameState): CommandResult {
+  private validateScanCommand(command: Command, gameState: DuelView): CommandResult {
     if (!command.scanType) {
       return { success: false, error: 'Invalid scan command data' };
     }
@@ -434,41 +442,23 @@ export class WebInputHandler {
     return this.inputHandler.processCommand(inputString, gameState);
   }
 
-  private validateBuildResources(command: Command, gameState: GameState): FormValidationResult {
-    const errors: string[] = [];
+  private validateBuildResources(command: Command, gameState: DuelView): FormValidationResult {
     const warnings: string[] = [];
 
     if (!command.buildType || !command.quantity) {
-      errors.push('Missing build parameters');
-      return { success: false, errors, warnings };
+      return { success: false, errors: ['Missing build parameters'], warnings };
     }
 
     const player = gameState.player;
-    const costs = this.getBuildCosts(command.buildType);
-    const totalMetalCost = costs.metal * command.quantity;
-    const totalEnergyCost = costs.energy * command.quantity;
-
-    // Check resources
-    if (player.resources.metal < totalMetalCost) {
-      errors.push(`Insufficient metal: need ${totalMetalCost.toLocaleString()}, have ${player.resources.metal.toLocaleString()}`);
-    }
+    const { errors } = validateOrder({ type: 'build', buildType: command.buildType, quantity: command.quantity }, player, gameState.turn);
 
-    if (player.resources.energy < totalEnergyCost) {
-      errors.push(`Insufficient energy: need ${totalEnergyCost.toLocaleString()}, have ${player.resources.energy.toLocaleString()}`);
-    }
+    // Warn about economic strain the rules still allow
+    if (errors.length === 0 && this.isUnitType(command.buildType)) {
+      const upkeep = UNIT_STATS[command.buildType as UnitType].upkeepCost;
+      const projectedMetalIncome = player.resources.metalIncome - upkeep.metal * command.quantity;
+      const projectedEnergyIncome = player.resources.energyIncome - upkeep.energy * command.quantity;
 
-    // Check for potential economic strain
-    if (this.isUnitType(command.buildType)) {
-      const upkeepCosts = this.getUpkeepCosts(command.buildType as UnitType);
-      const totalMetalUpkeep = upkeepCosts.metal * command.quantity;
-      const totalEnergyUpkeep = upkeepCosts.energy * command.quantity;
-
-      const projectedMetalIncome = player.resources.metalIncome - totalMetalUpkeep;
-      const projectedEnergyIncome = player.resources.energyIncome - totalEnergyUpkeep;
-
-      if (projectedMetalIncome < 0 || projectedEnergyIncome < 0) {
-        errors.push(`Would cause economic stall: upkeep ${totalMetalUpkeep} Metal, ${totalEnergyUpkeep} Energy per turn`);
-      } else if (projectedMetalIncome < 1000 || projectedEnergyIncome < 1000) {
+      if (projectedMetalIncome < 1000 || projectedEnergyIncome < 1000) {
         warnings.push('Low projected income after upkeep costs');
       }
     }
@@ -476,30 +466,16 @@ export class WebInputHandler {
     return { success: errors.length === 0, errors, warnings };
   }
 
-  private validateAttackFleet(command: Command, gameState: GameState): FormValidationResult {
-    const errors: string[] = [];
+  private validateAttackFleet(command: Command, gameState: DuelView): FormValidationResult {
     const warnings: string[] = [];
 
     if (!command.attackFleet) {
-      errors.push('Missing attack fleet data');
-      return { success: false, errors, warnings };
+      return { success: false, errors: ['Missing attack fleet data'], warnings };
     }
 
     const playerFleet = gameState.player.fleet.homeSystem;
     const attackFleet = command.attackFleet;
-
-    // Check fleet availability
-    if (playerFleet.frigates < attackFleet.frigates) {
-      errors.push(`Insufficient frigates: need ${attackFleet.frigates}, have ${playerFleet.frigates}`);
-    }
-
-    if (playerFleet.cruisers < attackFleet.cruisers) {
-      errors.push(`Insufficient cruisers: need ${attackFleet.cruisers}, have ${playerFleet.cruisers}`);
-    }
-
-    if (playerFleet.battleships < attackFleet.battleships) {
-      errors.push(`Insufficient battleships: need ${attackFleet.battleships}, have ${playerFleet.battleships}`);
-    }
+    const { errors } = validateOrder({ type: 'attack', attackFleet, target: command.target }, gameState.player, gameState.turn);
 
     // Strategic warnings
     const totalAttacking = attackFleet.frigates + attackFleet.cruisers + attackFleet.battleships;
@@ -512,27 +488,21 @@ export class WebInputHandler {
     return { success: errors.length === 0, errors, warnings };
   }
 
-  private validateScanResources(command: Command, gameState: GameState): FormValidationResult {
-    const errors: string[] = [];
+  private validateScanResources(command: Command, gameState: DuelView): FormValidationResult {
     const warnings: string[] = [];
 
     if (!command.scanType) {
-      errors.push('Missing scan type');
-      return { success: false, errors, warnings };
+      return { success: false, errors: ['Missing scan type'], warnings };
     }
 
-    const player = gameState.player;
-    const costs = { basic: 1000, deep: 2500, advanced: 4000 };
-    const cost = costs[command.scanType as keyof typeof costs];
+    const { errors } = validateOrder({ type: 'scan', scanType: command.scanType }, gameState.player, gameState.turn);
 
-    if (player.resources.energy < cost) {
-      errors.push(`Insufficient energy: need ${cost.toLocaleString()}, have ${player.resources.energy.toLocaleString()}`);
-    } else if (player.resources.energy < cost * 2) {
+    if (errors.length === 0 && gameState.player.resources.energy < SCAN_COSTS[command.scanType].energy * 2) {
       warnings.push('Scan will use significant energy reserves');
     }
 
     return { success: errors.length === 0, errors, warnings };
-  }  private getBuildValidationFeedback(data: WebCommandData, gameState: GameState): {
+  }  private getBuildValidationFeedback(data: WebCommandData, gameState: DuelView): {
     errors: string[];
     warnings: string[];
     suggestions: string[];
@@ -546,12 +516,12 @@ export class WebInputHandler {
     }
 
     const quantity = parseInt(data.quantity, 10);
-    if (isNaN(quantity) || quantity <= 0) {
+    if (isNaN(quantity) || quantity <= 0 || !this.isBuildableType(data.buildType)) {
       return { errors, warnings, suggestions };
     }
 
     const player = gameState.player;
-    const costs = this.getBuildCosts(data.buildType as BuildableType);
+    const costs = getBuildOrderCost(player, data.buildType as BuildableType, 1);
     const totalMetalCost = costs.metal * quantity;
     const totalEnergyCost = costs.energy * quantity;
 
@@ -591,7 +561,7 @@ export class WebInputHandler {
     return { errors, warnings, suggestions };
   }
 
-  private getAttackValidationFeedback(data: WebCommandData, gameState: GameState): {
+  private getAttackValidationFeedback(data: WebCommandData, gameState: DuelView): {
     errors: string[];
     warnings: string[];
     suggestions: string[];
@@ -662,7 +632,7 @@ export class WebInputHandler {
     return { errors, warnings, suggestions };
   }
 
-  private getScanValidationFeedback(data: WebCommandData, gameState: GameState): {
+  private getScanValidationFeedback(data: WebCommandData, gameState: DuelView): {
     errors: string[];
     warnings: string[];
     suggestions: string[];
@@ -678,8 +648,7 @@ export class WebInputHandler {
 
     const player = gameState.player;
     const intel = player.intelligence;
-    const costs = { basic: 1000, deep: 2500, advanced: 4000 };
-    const cost = costs[data.scanType as keyof typeof costs];
+    const cost = SCAN_COSTS[data.scanType as ScanType]?.energy;
 
     // Cost analysis
     const energyRatio = cost / player.resources.energy;
@@ -718,32 +687,14 @@ export class WebInputHandler {
   /**
    * Helper methods
    */
-  private getBuildCosts(buildType: BuildableType): { metal: number; energy: number } {
-    const costs = {
-      frigate: { metal: 4, energy: 2 },
-      cruiser: { metal: 10, energy: 6 },
-      battleship: { metal: 20, energy: 12 },
-      reactor: { metal: 900, energy: 1200 },
-      mine: { metal: 1500, energy: 600 }
-    };
-
-    return costs[buildType] || { metal: 0, energy: 0 };
-  }
-
-  private getUpkeepCosts(unitType: UnitType): { metal: number; energy: number } {
-    const upkeepCosts = {
-      frigate: { metal: 2, energy: 1 },
-      cruiser: { metal: 5, energy: 3 },
-      battleship: { metal: 10, energy: 6 }
-    };
-
-    return upkeepCosts[unitType] || { metal: 0, energy: 0 };
-  }
-
   private isUnitType(buildType: string): boolean {
     return ['frigate', 'cruiser', 'battleship'].includes(buildType);
   }
 
+  private isBuildableType(buildType: string): boolean {
+    return this.isUnitType(buildType) || ['reactor', 'mine'].includes(buildType);
+  }
+
   /**
    * Handles simple command buttons (end turn, help, status, etc.)
    */
@@ -853,7 +804,7 @@ export class WebInputHandler {
   /**
    * Provides command suggestions for auto-completion
    */
-  public getCommandSuggestions(commandType: string, gameState: GameState): string[] {
+  public getCommandSuggestions(commandType: string, gameState: DuelView): string[] {
     const suggestions: string[] = [];
 
     switch (commandType) {
@@ -899,7 +850,7 @@ export class WebInputHandler {
   /**
    * Handles batch command validation (for queued commands)
    */
-  public validateBatchCommands(commands: Command[], gameState: GameState): {
+  public validateBatchCommands(commands: Command[], gameState: DuelView): {
     validCommands: Command[];
     invalidCommands: { command: Command; error: string }[];
     warnings: string[];
@@ -945,22 +896,22 @@ export class WebInputHandler {
   /**
    * Simulates command execution for batch validation
    */
-  private simulateCommandExecution(command: Command, gameState: GameState): GameState {
+  private simulateCommandExecution(command: Command, gameState: DuelView): DuelView {
     const simulated = JSON.parse(JSON.stringify(gameState));
 
     try {
       switch (command.type) {
         case 'build':
           if (command.buildType && command.quantity) {
-            const costs = this.getBuildCosts(command.buildType);
-            simulated.player.resources.metal -= costs.metal * command.quantity;
-            simulated.player.resources.energy -= costs.energy * command.quantity;
+            const costs = getBuildOrderCost(simulated.player, command.buildType, command.quantity);
+            simulated.player.resources.metal -= costs.metal;
+            simulated.player.resources.energy -= costs.energy;
 
             if (this.isUnitType(command.buildType)) {
               const unitType = command.buildType as UnitType;
               simulated.player.fleet.homeSystem[`${unitType}s` as keyof FleetComposition] += command.quantity;
               
-              const upkeep = this.getUpkeepCosts(unitType);
+              const upkeep = UNIT_STATS[unitType].upkeepCost;
               simulated.player.resources.metalIncome -= upkeep.metal * command.quantity;
               simulated.player.resources.energyIncome -= upkeep.energy * command.quantity;
             }
@@ -978,9 +929,7 @@ export class WebInputHandler {
 
         case 'scan':
           if (command.scanType) {
-            const costs = { basic: 1000, deep: 2500, advanced: 4000 };
-            const cost = costs[command.scanType as keyof typeof costs];
-            simulated.player.resources.energy -= cost;
+            simulated.player.resources.energy -= SCAN_COSTS[command.scanType].energy;
           }
           break;
       }
@@ -1008,12 +957,12 @@ export class WebInputHandler {
       switch (command.type) {
         case 'build':
           if (command.buildType && command.quantity) {
-            const costs = this.getBuildCosts(command.buildType);
+            const costs = getBuildCosts(command.buildType);
             immediate.metal = costs.metal * command.quantity;
             immediate.energy = costs.energy * command.quantity;
 
             if (this.isUnitType(command.buildType)) {
-              const upkeep = this.getUpkeepCosts(command.buildType as UnitType);
+              const upkeep = UNIT_STATS[command.buildType as UnitType].upkeepCost;
               ongoing.metal = upkeep.metal * command.quantity;
               ongoing.energy = upkeep.energy * command.quantity;
               description = `Build ${command.quantity} ${command.buildType}(s) - includes ongoing upkeep`;
@@ -1025,8 +974,7 @@ export class WebInputHandler {
 
         case 'scan':
           if (command.scanType) {
-            const costs = { basic: 1000, deep: 2500, advanced: 4000 };
-            immediate.energy = costs[command.scanType as keyof typeof costs];
+            immediate.energy = SCAN_COSTS[command.scanType].energy;
             description = `Perform ${command.scanType} scan - one-time cost`;
           }
           break;
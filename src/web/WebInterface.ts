@@ -1,7 +1,13 @@
 import { GameEngine, TurnResult } from '../engine/GameEngine.js';
 import { GameController, CommandExecutionResult } from '../ui/GameController.js';
-import { GameState } from '../models/GameState.js';
+import { DuelView, viewForSide } from '../models/Sides.js';
 import { Command } from '../ui/InputHandler.js';
+import { LocalSaveStorage } from './LocalSaveStorage.js';
+import { WebDisplay } from './WebDisplay.js';
+import { GameEvent } from '../engine/GameEvents.js';
+
+/** Slot used by auto-save and the Continue button */
+const AUTOSAVE_SLOT = 'autosave';
 
 export interface WebConfig {
   containerId: string;
@@ -11,7 +17,7 @@ export interface WebConfig {
 }
 
 export interface UserAction {
-  type: 'build' | 'attack' | 'scan' | 'endTurn' | 'newGame' | 'status' | 'help';
+  type: 'build' | 'attack' | 'preview' | 'scan' | 'recall' | 'cancel' | 'prioritize' | 'endTurn' | 'newGame' | 'continue' | 'status' | 'help';
   data?: any;
   timestamp: number;
 }
@@ -19,13 +25,17 @@ export interface UserAction {
 export class WebInterface {
   private gameEngine: GameEngine;
   private gameController: GameController;
+  private saveStorage: LocalSaveStorage;
   private config: WebConfig;
   private isRunning: boolean = false;
   private container: HTMLElement | null = null;
+  private display: WebDisplay | null = null;
+  private unsubscribeEvents: (() => void) | null = null;
 
   constructor(gameEngine: GameEngine, config: WebConfig) {
     this.gameEngine = gameEngine;
-    this.gameController = new GameController(gameEngine);
+    this.saveStorage = new LocalSaveStorage();
+    this.gameController = new GameController(gameEngine, this.saveStorage);
     this.config = config;
   }
 
@@ -40,14 +50,18 @@ export class WebInterface {
         throw new Error(`Container element with id '${this.config.containerId}' not found`);
       }
 
+      this.display = new WebDisplay({ containerId: this.config.containerId, theme: this.config.theme });
+
       // Initialize the interface
       this.isRunning = true;
       
       // Set up DOM event listeners
       this.setupEventListeners();
+      this.unsubscribeEvents = this.gameEngine.subscribeAll(event => this.dispatchGameEvent(event));
       
       // Initial display update
       this.updateDisplay();
+      this.updateContinueButton();
       
       console.log('Web interface started successfully');
     } catch (error) {
@@ -62,6 +76,8 @@ export class WebInterface {
   public stop(): void {
     this.isRunning = false;
     this.removeEventListeners();
+    this.unsubscribeEvents?.();
+    this.unsubscribeEvents = null;
     console.log('Web interface stopped');
   }
 
@@ -97,6 +113,11 @@ export class WebInterface {
         // Process the turn and update display
         await this.processTurn();
       }
+
+      const preview = this.gameController.getLastBattlePreview();
+      if (result.success && command.type === 'simulate' && preview) {
+        this.container?.dispatchEvent(new CustomEvent('battlePreview', { detail: preview }));
+      }
       
       // Update display if game state changed
       if (result.gameStateChanged) {
@@ -123,7 +144,7 @@ export class WebInterface {
     }
 
     try {
-      const gameState = this.gameEngine.getGameState();
+      const gameState = viewForSide(this.gameEngine.getGameState(), 'player');
       
       // Dispatch custom event for display update
       const event = new CustomEvent('gameStateUpdate', {
@@ -131,6 +152,8 @@ export class WebInterface {
       });
       this.container.dispatchEvent(event);
       
+      this.display?.displayHistoryCharts(gameState);
+      
       // Update debug info if enabled
       if (this.config.showDebugInfo) {
         this.updateDebugInfo(gameState);
@@ -241,9 +264,10 @@ export class WebInterface {
     
     if (!actionType) return;
 
+    // Buttons inside a form, like the attack preview, act on what has been entered in it
     const action: UserAction = {
       type: actionType,
-      data: button.dataset,
+      data: button.form ? { ...Object.fromEntries(new FormData(button.form).entries()), ...button.dataset } : button.dataset,
       timestamp: Date.now()
     };
 
@@ -327,7 +351,19 @@ export class WebInterface {
             cruisers: parseInt(action.data?.cruisers) || 0,
             battleships: parseInt(action.data?.battleships) || 0
           },
-          target: action.data?.target || 'enemy'
+          target: action.data?.target || 'ai',
+          ...(action.data?.retreat && { retreatThreshold: parseInt(action.data.retreat, 10) / 100 })
+        };
+      
+      case 'preview':
+        return {
+          type: 'simulate',
+          attackFleet: {
+            frigates: parseInt(action.data?.frigates) || 0,
+            cruisers: parseInt(action.data?.cruisers) || 0,
+            battleships: parseInt(action.data?.battleships) || 0
+          },
+          ...(action.data?.retreat && { retreatThreshold: parseInt(action.data.retreat, 10) / 100 })
         };
       
       case 'scan':
@@ -336,6 +372,19 @@ export class WebInterface {
           scanType: action.data?.scanType
         };
       
+      case 'recall':
+        return {
+          type: 'recall',
+          fleetId: action.data?.fleetId === 'all' ? 'all' : parseInt(action.data?.fleetId)
+        };
+      
+      case 'cancel':
+      case 'prioritize':
+        return {
+          type: action.type,
+          position: parseInt(action.data?.position)
+        };
+      
       case 'endTurn':
         return { type: 'end_turn' };
       
@@ -345,6 +394,9 @@ export class WebInterface {
       case 'help':
         return { type: 'help' };
       
+      case 'continue':
+        return { type: 'load', slot: AUTOSAVE_SLOT };
+      
       default:
         return null;
     }
@@ -361,6 +413,10 @@ export class WebInterface {
       // Update display after turn processing
       this.updateDisplay();
       
+      if (this.config.autoSave) {
+        this.saveGameState();
+      }
+      
       // Check for game over
       if (this.gameEngine.isGameOver()) {
         this.handleGameOver();
@@ -385,6 +441,16 @@ export class WebInterface {
     this.container?.dispatchEvent(event);
   }
 
+  /**
+   * Forwards an engine event to the page as a 'gameEvent' DOM event
+   */
+  private dispatchGameEvent(gameEvent: GameEvent): void {
+    const event = new CustomEvent('gameEvent', {
+      detail: gameEvent
+    });
+    this.container?.dispatchEvent(event);
+  }
+
   /**
    * Displays action result to user
    */
@@ -408,7 +474,7 @@ export class WebInterface {
   /**
    * Updates debug information display
    */
-  private updateDebugInfo(gameState: GameState): void {
+  private updateDebugInfo(gameState: DuelView): void {
     if (!this.config.showDebugInfo) return;
 
     const debugInfo = {
@@ -442,12 +508,12 @@ export class WebInterface {
   private saveGameState(): void {
     if (!this.config.autoSave) return;
 
-    try {
-      const gameState = this.gameEngine.getGameState();
-      localStorage.setItem('burnrate_gamestate', JSON.stringify(gameState));
+    const result = this.gameController.executeCommand({ type: 'save', slot: AUTOSAVE_SLOT });
+    if (result.success) {
       console.log('Game state saved');
-    } catch (error) {
-      console.error('Failed to save game state:', error);
+      this.updateContinueButton();
+    } else {
+      console.error('Failed to save game state:', result.message);
     }
   }
 
@@ -455,19 +521,14 @@ export class WebInterface {
    * Loads game state from storage
    */
   public loadGameState(): boolean {
-    try {
-      const saved = localStorage.getItem('burnrate_gamestate');
-      if (saved) {
-        // Note: This would require a method to restore game state in GameEngine
-        // For now, we'll just return true if data exists
-        console.log('Saved game state found');
-        return true;
-      }
-      return false;
-    } catch (error) {
-      console.error('Failed to load game state:', error);
+    const result = this.gameController.executeCommand({ type: 'load', slot: AUTOSAVE_SLOT });
+    if (!result.success) {
+      console.error('Failed to load game state:', result.message);
       return false;
     }
+
+    this.updateDisplay();
+    return true;
   }
 
   /**
@@ -475,10 +536,21 @@ export class WebInterface {
    */
   public clearSavedState(): void {
     try {
-      localStorage.removeItem('burnrate_gamestate');
+      this.saveStorage.remove(AUTOSAVE_SLOT);
+      this.updateContinueButton();
       console.log('Saved game state cleared');
     } catch (error) {
       console.error('Failed to clear saved state:', error);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Enables the Continue button only when there is a saved game to resume
+   */
+  private updateContinueButton(): void {
+    const button = document.getElementById('continue-btn') as HTMLButtonElement | null;
+    if (button) {
+      button.disabled = this.saveStorage.load(AUTOSAVE_SLOT) === null;
+    }
+  }
+}
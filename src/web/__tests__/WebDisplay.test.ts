@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { WebDisplay, WebDisplayConfig } from '../WebDisplay.js';
 import { GameState, CombatEvent, FleetComposition } from '../../models/GameState.js';
 import { PlayerState } from '../../models/PlayerState.js';
+import { GameEngine } from '../../engine/GameEngine.js';
 
 // Mock DOM environment
 const mockContainer = {
@@ -231,4 +232,35 @@ describe('WebDisplay', () => {
       expect(mockResourcesDisplay.innerHTML).toContain('stalled');
     });
   });
-});
\ No newline at end of file
+
+  describe('displayHistoryCharts', () => {
+    it('should chart each turn played and mark battles', () => {
+      const mockChartsDisplay = { innerHTML: '' };
+      mockContainer.querySelector.mockReturnValue(mockChartsDisplay);
+      const gameEngine = new GameEngine({ seed: 7 });
+      gameEngine.processTurn([
+        { type: 'scan', scanType: 'basic' },
+        { type: 'attack', attackFleet: { frigates: 50, cruisers: 0, battleships: 0 }, target: 'ai_system' }
+      ]);
+      while (gameEngine.getCombatLog().length === 0) {
+        gameEngine.processTurn();
+      }
+
+      webDisplay.displayHistoryCharts(gameEngine.getGameState() as GameState);
+
+      expect(mockChartsDisplay.innerHTML.match(/<svg/g)).toHaveLength(4);
+      expect(mockChartsDisplay.innerHTML).toContain('chart-line enemy');
+      expect(mockChartsDisplay.innerHTML).toContain('class="chart-battle');
+      expect(mockChartsDisplay.innerHTML).toContain(`Turn ${gameEngine.getCombatLog()[0].turn}:`);
+    });
+
+    it('should say when there is no history yet', () => {
+      const mockChartsDisplay = { innerHTML: '' };
+      mockContainer.querySelector.mockReturnValue(mockChartsDisplay);
+
+      webDisplay.displayHistoryCharts(new GameEngine({ seed: 7 }).getGameState() as GameState);
+
+      expect(mockChartsDisplay.innerHTML).toContain('Charts appear once the first turn has ended');
+    });
+  });
+});